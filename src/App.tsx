@@ -28,14 +28,60 @@ import Accounts from "./pages/Accounts";
 import Profile from "./pages/Profile";
 import Employees from "./pages/Employees";
 import OutsourcedOrders from "./pages/OutsourcedOrders";
+import Deliveries from "./pages/Deliveries";
+import PosQuickKeys from "./pages/PosQuickKeys";
 import Profit from "./pages/Profit";
 import Credits from "./pages/Credits";
 import InventoryLogs from "./pages/InventoryLogs";
 import AuditLogs from "./pages/AuditLogs";
+import VerifyReceipt from "./pages/VerifyReceipt";
+import CustomerDisplay from "./pages/CustomerDisplay";
 
 
 const queryClient = new QueryClient();
 
+const AppShell = () => (
+  <SidebarProvider>
+    <div className="min-h-screen flex w-full bg-background">
+      <AppSidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header />
+        <main className="flex-1 overflow-auto custom-scrollbar">
+           <Routes>
+             <Route path="/" element={<Dashboard />} />
+             <Route path="/profit" element={<Profit />} />
+            <Route path="/products" element={<Products />} />
+            <Route path="/sales" element={<Sales />} />
+            <Route path="/inventory-logs" element={<InventoryLogs />} />
+            <Route path="/orders" element={<Orders />} />
+            <Route path="/outsourced-orders" element={<OutsourcedOrders />} />
+            <Route path="/deliveries" element={<Deliveries />} />
+            <Route path="/pos-quick-keys" element={<PosQuickKeys />} />
+             <Route path="/customers" element={<Customers />} />
+             <Route path="/credits" element={<Credits />} />
+             <Route path="/suppliers" element={<Suppliers />} />
+            <Route path="/purchase-orders" element={<PurchaseOrders />} />
+            <Route path="/quotations" element={<Quotations />} />
+             <Route path="/customer-insights" element={<CustomerInsights />} />
+             <Route path="/notifications" element={<Notifications />} />
+  <Route path="/accounts" element={<Accounts />} />
+  <Route path="/profile" element={<Profile />} />
+             <Route path="/employees" element={<Employees />} />
+             <Route path="/settings" element={<Settings />} />
+             <Route path="/backup" element={<BackupSync />} />
+            <Route path="/finances" element={<Finances />} />
+            <Route path="/audit-logs" element={<AuditLogs />} />
+            <Route path="/verify" element={<VerifyReceipt />} />
+            <Route path="/reports" element={<Reports />} />
+            
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </main>
+      </div>
+    </div>
+  </SidebarProvider>
+);
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider defaultTheme="system" storageKey="hardware-store-theme">
@@ -44,42 +90,11 @@ const App = () => (
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <SidebarProvider>
-            <div className="min-h-screen flex w-full bg-background">
-              <AppSidebar />
-              <div className="flex-1 flex flex-col overflow-hidden">
-                <Header />
-                <main className="flex-1 overflow-auto custom-scrollbar">
-                   <Routes>
-                     <Route path="/" element={<Dashboard />} />
-                     <Route path="/profit" element={<Profit />} />
-                    <Route path="/products" element={<Products />} />
-                    <Route path="/sales" element={<Sales />} />
-                    <Route path="/inventory-logs" element={<InventoryLogs />} />
-                    <Route path="/orders" element={<Orders />} />
-                    <Route path="/outsourced-orders" element={<OutsourcedOrders />} />
-                     <Route path="/customers" element={<Customers />} />
-                     <Route path="/credits" element={<Credits />} />
-                     <Route path="/suppliers" element={<Suppliers />} />
-                    <Route path="/purchase-orders" element={<PurchaseOrders />} />
-                    <Route path="/quotations" element={<Quotations />} />
-                     <Route path="/customer-insights" element={<CustomerInsights />} />
-                     <Route path="/notifications" element={<Notifications />} />
-        <Route path="/accounts" element={<Accounts />} />
-        <Route path="/profile" element={<Profile />} />
-                     <Route path="/employees" element={<Employees />} />
-                     <Route path="/settings" element={<Settings />} />
-                     <Route path="/backup" element={<BackupSync />} />
-                    <Route path="/finances" element={<Finances />} />
-                    <Route path="/audit-logs" element={<AuditLogs />} />
-                    <Route path="/reports" element={<Reports />} />
-                    
-                    <Route path="*" element={<NotFound />} />
-                  </Routes>
-                </main>
-              </div>
-            </div>
-          </SidebarProvider>
+          <Routes>
+            {/* Full-screen second monitor view, outside the sidebar layout */}
+            <Route path="/customer-display" element={<CustomerDisplay />} />
+            <Route path="*" element={<AppShell />} />
+          </Routes>
         </BrowserRouter>
         </TooltipProvider>
       </FontProvider>
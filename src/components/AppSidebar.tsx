@@ -35,7 +35,10 @@ import {
   Bot,
   User,
   Building2,
-  ScrollText
+  ScrollText,
+  ShieldCheck,
+  CalendarDays,
+  Keyboard
 } from "lucide-react"
 import { useNavigate, useLocation } from "react-router-dom"
 import { useToast } from "@/hooks/use-toast"
@@ -67,6 +70,11 @@ const mainItems: MenuItem[] = [
     url: "/sales",
     icon: ShoppingCart,
   },
+  {
+    title: "POS Quick Keys",
+    url: "/pos-quick-keys",
+    icon: Keyboard,
+  },
   {
     title: "All Sales",
     url: "/orders",
@@ -76,6 +84,11 @@ const mainItems: MenuItem[] = [
     title: "Outsourced Sales",
     url: "/outsourced-orders",
     icon: Truck,
+  },
+  {
+    title: "Deliveries",
+    url: "/deliveries",
+    icon: CalendarDays,
   },
    {
     title: "Ask AI",
@@ -95,6 +108,11 @@ const businessItems: MenuItem[] = [
     url: "/credits",
     icon: CreditCard,
   },
+  {
+    title: "Verify Receipt",
+    url: "/verify",
+    icon: ShieldCheck,
+  },
   {
     title: "Employees",
     url: "/employees",
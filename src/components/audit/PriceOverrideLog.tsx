@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tag } from "lucide-react";
+import { format } from "date-fns";
+import { priceOverrideApi } from "@/services/priceOverrideApi";
+
+const PERIODS = [
+  { value: '1', label: 'Today' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+];
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - (days - 1));
+  return date.toISOString().split('T')[0];
+};
+
+// Till price overrides for review alongside the audit trail
+export const PriceOverrideLog = () => {
+  const [period, setPeriod] = useState('7');
+  const [filter, setFilter] = useState('all');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['price-overrides', period, filter],
+    queryFn: () => priceOverrideApi.getAll({
+      date_from: daysAgo(parseInt(period)),
+      approved: filter === 'approved' ? true : undefined,
+    }),
+    retry: false,
+  });
+  const overrides = data?.success ? data.data : [];
+  const approvedCount = overrides.filter(override => override.approved).length;
+  const belowCostCount = overrides.filter(override => override.below_cost).length;
+
+  return (
+    <Card className="mb-6 border-border/50">
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Tag className="h-4 w-4" />
+            Price Overrides
+            {!isLoading && (
+              <span className="text-sm font-normal text-muted-foreground">
+                {overrides.length} changed · {approvedCount} manager approved · {belowCostCount} below cost
+              </span>
+            )}
+          </CardTitle>
+          <div className="flex gap-2">
+            <Select value={filter} onValueChange={setFilter}>
+              <SelectTrigger className="h-8 w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All overrides</SelectItem>
+                <SelectItem value="approved">Manager approved</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : overrides.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No price overrides in this period.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Old → New</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overrides.map(override => (
+                  <TableRow key={override.id}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {format(new Date(override.created_at), "dd MMM, HH:mm")}
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {override.product_name}
+                      {override.unit && <span className="text-xs text-muted-foreground"> / {override.unit}</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{Number(override.cost_price).toLocaleString()}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {Number(override.old_price).toLocaleString()} → <span className="font-semibold">{Number(override.new_price).toLocaleString()}</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <span className={override.below_cost ? 'text-red-600 font-medium' : override.approved ? 'text-orange-600' : undefined}>
+                        {Number(override.margin_percent).toFixed(1)}%
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {override.user}
+                      {override.terminal_id && <span className="block text-xs text-muted-foreground">{override.terminal_id}</span>}
+                    </TableCell>
+                    <TableCell>
+                      {override.approved && (
+                        <Badge variant="outline" className="mr-1 text-xs bg-orange-500/10 text-orange-600 border-orange-500/20">PIN</Badge>
+                      )}
+                      <span className="text-sm">{override.reason || '-'}</span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
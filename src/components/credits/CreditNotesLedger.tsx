@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Ticket, Plus, Printer, Search, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { CreditNote, CreditNoteStatus, creditNoteApi } from "@/services/creditNoteApi";
+import { generateCreditNoteCode, getCreditNoteTotals, getRedeemedAmount } from "@/utils/creditNotes";
+import { printCreditNote } from "@/utils/creditNotePdfGenerator";
+
+interface CreditNotesLedgerProps {
+  customers: Array<{ id: number; name: string }>;
+}
+
+const STATUS_STYLES: Record<CreditNoteStatus, string> = {
+  open: 'bg-green-100 text-green-700 border-green-200',
+  redeemed: 'bg-muted text-muted-foreground',
+  void: 'bg-red-100 text-red-700 border-red-200',
+};
+
+const WALK_IN = 'walk-in';
+
+export const CreditNotesLedger: React.FC<CreditNotesLedgerProps> = ({ customers }) => {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<'all' | CreditNoteStatus>('all');
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isIssueOpen, setIsIssueOpen] = useState(false);
+
+  // Issue form
+  const [customerId, setCustomerId] = useState(WALK_IN);
+  const [customerName, setCustomerName] = useState("");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['credit-notes'],
+    queryFn: () => creditNoteApi.getAll(),
+    retry: false,
+  });
+
+  const notesList: CreditNote[] = data?.success ? data.data || [] : [];
+  const totals = getCreditNoteTotals(notesList);
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredNotes = notesList.filter(note =>
+    (statusFilter === 'all' || note.status === statusFilter) &&
+    (!term ||
+      note.note_number.toLowerCase().includes(term) ||
+      note.code.toLowerCase().includes(term) ||
+      note.customer_name?.toLowerCase().includes(term) ||
+      note.order_number?.toLowerCase().includes(term))
+  );
+
+  const resetForm = () => {
+    setCustomerId(WALK_IN);
+    setCustomerName("");
+    setAmount("");
+    setReason("");
+    setNotes("");
+  };
+
+  const handleReprint = async (note: CreditNote) => {
+    if (!(await printCreditNote(note))) {
+      toast({
+        title: "Printer Unavailable",
+        description: "Credit note downloaded as PDF instead",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleIssue = async () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0 || !reason.trim()) {
+      toast({
+        title: "Missing Details",
+        description: "Enter an amount and the reason for the credit note",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const customer = customers.find(c => c.id.toString() === customerId);
+    setSaving(true);
+    try {
+      const response = await creditNoteApi.issue({
+        code: generateCreditNoteCode(),
+        customer_id: customer?.id || null,
+        customer_name: customer?.name || customerName.trim() || null,
+        amount: value,
+        source: 'manual',
+        reference: reason.trim(),
+        notes: notes.trim() || undefined
+      });
+      if (!response.success) throw new Error(response.message || 'Failed to issue credit note');
+
+      await handleReprint(response.data);
+      toast({
+        title: "Credit Note Issued",
+        description: `${response.data.note_number} for PKR ${value.toLocaleString()}`,
+      });
+      resetForm();
+      setIsIssueOpen(false);
+      refetch();
+    } catch (error) {
+      console.error('Failed to issue credit note:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to issue credit note",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Ticket className="h-5 w-5 text-purple-600" />
+            Credit Notes
+          </CardTitle>
+          <Button onClick={() => setIsIssueOpen(true)} className="bg-purple-600 hover:bg-purple-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Issue Credit Note
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="rounded-lg border p-3">
+            <p className="text-sm text-muted-foreground">Issued</p>
+            <p className="text-xl font-bold">PKR {totals.issued.toLocaleString()}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-sm text-muted-foreground">Redeemed</p>
+            <p className="text-xl font-bold text-blue-600">PKR {totals.redeemed.toLocaleString()}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-sm text-muted-foreground">Outstanding</p>
+            <p className="text-xl font-bold text-purple-600">PKR {totals.outstanding.toLocaleString()}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+            <Input
+              placeholder="Search by note number, code, customer or receipt..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | CreditNoteStatus)}>
+            <SelectTrigger className="w-full md:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All notes</SelectItem>
+              <SelectItem value="open">Outstanding</SelectItem>
+              <SelectItem value="redeemed">Redeemed</SelectItem>
+              <SelectItem value="void">Void</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filteredNotes.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">No credit notes found</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Note</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Issued</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Redeemed</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredNotes.map(note => (
+                <TableRow key={note.id}>
+                  <TableCell>
+                    <p className="font-medium">{note.note_number}</p>
+                    <p className="text-xs font-mono text-muted-foreground">{note.code}</p>
+                  </TableCell>
+                  <TableCell>{note.customer_name || 'Walk-in'}</TableCell>
+                  <TableCell>{new Date(note.issued_at).toLocaleDateString('en-GB')}</TableCell>
+                  <TableCell>
+                    <p className="capitalize">{note.source}</p>
+                    {(note.order_number || note.reference) && (
+                      <p className="text-xs text-muted-foreground">{note.order_number || note.reference}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{Number(note.amount).toLocaleString()}</TableCell>
+                  <TableCell
+                    className="text-right"
+                    title={(note.redemptions || []).map(r => `${r.order_number || 'Sale'}: PKR ${Number(r.amount).toLocaleString()}`).join('\n')}
+                  >
+                    {getRedeemedAmount(note).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{Number(note.balance).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_STYLES[note.status]}>{note.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {note.status === 'open' && (
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleReprint(note)} title="Reprint">
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isIssueOpen} onOpenChange={(open) => { setIsIssueOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Ticket className="h-5 w-5" />
+              Issue Credit Note
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Customer</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WALK_IN}>Walk-in customer</SelectItem>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id.toString()}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {customerId === WALK_IN && (
+              <div className="space-y-1">
+                <Label>Name on note (optional)</Label>
+                <Input value={customerName} onChange={(e) => setCustomerName(e.target.value)} />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Amount (PKR)</Label>
+              <Input type="number" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Input
+                placeholder="e.g. Goodwill for late delivery"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+            <Button className="w-full" onClick={handleIssue} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Printer className="h-4 w-4 mr-2" />}
+              Issue and Print
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
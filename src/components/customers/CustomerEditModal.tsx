@@ -5,10 +5,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { User, Edit2, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { customersApi } from "@/services/api";
+import { customerTypes } from "@/data/storeData";
+import { CustomerPriceOverrides } from "./CustomerPriceOverrides";
 
 interface CustomerEditModalProps {
   open: boolean;
@@ -34,6 +37,9 @@ export const CustomerEditModal = ({
     address: "",
     city: "",
     creditLimit: 0,
+    taxExempt: false,
+    priceType: "regular",
+    priceOverrides: {} as Record<string, number>,
     notes: ""
   });
   const [loading, setLoading] = useState(false);
@@ -50,12 +56,15 @@ export const CustomerEditModal = ({
         address: customer.address || "",
         city: customer.city || "",
         creditLimit: customer.creditLimit || 0,
+        taxExempt: !!customer.taxExempt,
+        priceType: customer.priceType || "regular",
+        priceOverrides: customer.priceOverrides || {},
         notes: customer.notes || ""
       });
     }
   }, [customer]);
 
-  const handleInputChange = (field: string, value: string | number) => {
+  const handleInputChange = (field: string, value: string | number | boolean | Record<string, number>) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
@@ -83,6 +92,9 @@ export const CustomerEditModal = ({
         address: formData.address.trim(),
         city: formData.city.trim(),
         creditLimit: Number(formData.creditLimit),
+        taxExempt: formData.taxExempt,
+        priceType: formData.priceType,
+        priceOverrides: formData.priceOverrides,
         notes: formData.notes.trim()
       };
 
@@ -224,6 +236,39 @@ export const CustomerEditModal = ({
                   placeholder="Enter credit limit"
                 />
               </div>
+
+              <div>
+                <Label htmlFor="customer-price-type">Price List</Label>
+                <Select value={formData.priceType} onValueChange={(value) => handleInputChange('priceType', value)}>
+                  <SelectTrigger id="customer-price-type">
+                    <SelectValue placeholder="Select price list" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customerTypes.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between md:col-span-2">
+                <div>
+                  <Label htmlFor="customer-tax-exempt">Tax Exempt</Label>
+                  <p className="text-xs text-muted-foreground">No sales tax is charged on this customer's sales and quotations</p>
+                </div>
+                <Switch
+                  id="customer-tax-exempt"
+                  checked={formData.taxExempt}
+                  onCheckedChange={(checked) => handleInputChange('taxExempt', checked)}
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <CustomerPriceOverrides
+                  overrides={formData.priceOverrides}
+                  onChange={(overrides) => handleInputChange('priceOverrides', overrides)}
+                />
+              </div>
             </div>
 
             <div>
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { productsApi } from "@/services/api";
+
+interface CustomerPriceOverridesProps {
+  overrides: Record<string, number>;
+  onChange: (overrides: Record<string, number>) => void;
+}
+
+// Agreed prices for a single customer, taking priority over their price list
+export const CustomerPriceOverrides = ({ overrides, onChange }: CustomerPriceOverridesProps) => {
+  const [productId, setProductId] = useState("");
+  const [price, setPrice] = useState("");
+
+  const { data: productsData } = useQuery({
+    queryKey: ['settings-products'],
+    queryFn: () => productsApi.getAll({ limit: 1000, status: 'active' }),
+  });
+
+  const productsList = productsData?.data?.products || productsData?.data || [];
+  const products: Array<{ id: number; name: string; price: number }> = Array.isArray(productsList) ? productsList : [];
+
+  const addOverride = () => {
+    if (!productId || price === '') return;
+    onChange({ ...overrides, [productId]: parseFloat(price) || 0 });
+    setProductId("");
+    setPrice("");
+  };
+
+  const removeOverride = (id: string) => {
+    const next = { ...overrides };
+    delete next[id];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Customer Prices</Label>
+      <div className="flex gap-2">
+        <Select value={productId} onValueChange={setProductId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select product" />
+          </SelectTrigger>
+          <SelectContent className="max-h-72">
+            {products.map((product) => (
+              <SelectItem key={product.id} value={String(product.id)}>
+                {product.name} (PKR {Number(product.price || 0).toLocaleString()})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          className="w-28"
+          placeholder="Price"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+        />
+        <Button type="button" variant="outline" onClick={addOverride} disabled={!productId || price === ''}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {Object.entries(overrides).map(([id, value]) => (
+        <div key={id} className="flex items-center justify-between p-2 bg-muted/50 rounded-lg">
+          <span className="text-sm">{products.find((p) => String(p.id) === id)?.name || `Product #${id}`}</span>
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">PKR {Number(value).toLocaleString()}</span>
+            <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => removeOverride(id)}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
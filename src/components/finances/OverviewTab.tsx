@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { newFinanceApi } from "@/services/newFinanceApi";
+import { TaxSummaryCard } from "@/components/finances/TaxSummaryCard";
 import {
   TrendingUp,
   TrendingDown,
@@ -302,6 +303,9 @@ export const OverviewTab = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Monthly Tax */}
+      <TaxSummaryCard />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { financeApi, TaxSummary } from "@/services/financeApi";
+import { Receipt, RefreshCw } from "lucide-react";
+
+const currentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Monthly filing figures: output tax by rate from sales, input tax paid on purchases
+export const TaxSummaryCard = () => {
+  const [month, setMonth] = useState(currentMonth());
+  const [summary, setSummary] = useState<TaxSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    if (!year || !monthNumber) return;
+    setLoading(true);
+    financeApi.getTaxSummary({ year, month: monthNumber })
+      .then(response => setSummary(response.data || null))
+      .catch(error => {
+        console.error('Error loading tax summary:', error);
+        setSummary(null);
+      })
+      .finally(() => setLoading(false));
+  }, [month]);
+
+  const formatCurrency = (amount: string | number) => {
+    const num = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return new Intl.NumberFormat('en-PK', {
+      style: 'currency',
+      currency: 'PKR',
+      minimumFractionDigits: 0
+    }).format(num || 0);
+  };
+
+  const outputTax = Number(summary?.sales_tax_summary?.total_tax_collected) || 0;
+  const inputTax = Number(summary?.purchase_tax_summary?.total_tax_paid) || 0;
+  const taxByRate = summary?.tax_by_rate || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center space-x-2">
+          <Receipt className="w-5 h-5 text-primary" />
+          <span>Tax Summary</span>
+        </CardTitle>
+        <Input
+          type="month"
+          className="w-44"
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+        />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <RefreshCw className="w-4 h-4 animate-spin mr-2" />
+            <span className="text-sm">Loading tax summary...</span>
+          </div>
+        ) : !summary ? (
+          <div className="text-center py-4 text-muted-foreground">
+            <p className="text-sm">No tax summary available for this month</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">Output Tax (Sales)</p>
+                <p className="text-xl font-bold">{formatCurrency(outputTax)}</p>
+                <p className="text-xs text-muted-foreground">
+                  On {formatCurrency(summary.sales_tax_summary?.total_sales || 0)} sales
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">Input Tax (Purchases)</p>
+                <p className="text-xl font-bold">{formatCurrency(inputTax)}</p>
+                <p className="text-xs text-muted-foreground">
+                  On {formatCurrency(summary.purchase_tax_summary?.total_purchases || 0)} purchases
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border bg-accent/30">
+                <p className="text-sm text-muted-foreground">Net Tax Payable</p>
+                <p className="text-xl font-bold">{formatCurrency(outputTax - inputTax)}</p>
+              </div>
+            </div>
+
+            <Separator />
+
+            {taxByRate.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rate</TableHead>
+                    <TableHead className="text-right">Taxable Amount</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {taxByRate.map(row => (
+                    <TableRow key={row.rate}>
+                      <TableCell className="font-medium">{Number(row.rate)}%</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.taxable_amount)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(row.total_tax)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">No taxed sales this month</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
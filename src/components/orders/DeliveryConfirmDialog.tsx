@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PackageCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { salesApi } from "@/services/api";
+import { deliveryApi, Delivery } from "@/services/deliveryApi";
+import { DELIVERY_STATUS_LABELS, DeliveryLine, getConfirmedStatus, getSaleDeliveryStatus } from "@/utils/deliveries";
+import { LAYAWAY_SALE_STATUS } from "@/utils/layaway";
+
+interface DeliveryConfirmDialogProps {
+  delivery: Delivery | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirmed?: (delivery: Delivery) => void;
+}
+
+interface SaleLineItem {
+  productId: number;
+  productName: string;
+  quantity: number;
+}
+
+// Moves the order to delivered / partially delivered once its deliveries are signed for.
+// Layaway and cancelled orders keep their own status.
+const syncSaleStatus = async (saleId: number) => {
+  const [saleResponse, deliveriesResponse] = await Promise.all([
+    salesApi.getById(saleId),
+    deliveryApi.getBySale(saleId)
+  ]);
+  if (!saleResponse.success || !deliveriesResponse.success) return;
+
+  const sale = saleResponse.data;
+  if (sale.status === 'cancelled' || sale.status === LAYAWAY_SALE_STATUS) return;
+
+  const lines: DeliveryLine[] = (sale.items || []).map((item: SaleLineItem) => ({
+    productId: item.productId,
+    productName: item.productName,
+    quantity: Number(item.quantity)
+  }));
+  const status = getSaleDeliveryStatus(lines, deliveriesResponse.data);
+  if (status && status !== sale.status) {
+    await salesApi.updateStatus(saleId, { status });
+  }
+};
+
+// Records what the customer signed for on the challan; anything short leaves the delivery partial
+export const DeliveryConfirmDialog: React.FC<DeliveryConfirmDialogProps> = ({
+  delivery,
+  onOpenChange,
+  onConfirmed
+}) => {
+  const { toast } = useToast();
+  const [delivered, setDelivered] = useState<Record<number, number>>({});
+  const [receivedBy, setReceivedBy] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!delivery) return;
+    setDelivered(Object.fromEntries(delivery.items.map(item => [item.product_id, Number(item.quantity)])));
+    setReceivedBy(delivery.contact_name || "");
+  }, [delivery]);
+
+  if (!delivery) return null;
+
+  const items = delivery.items.map(item => ({
+    ...item,
+    quantity: Number(item.quantity),
+    delivered_quantity: delivered[item.product_id] ?? 0
+  }));
+  const status = getConfirmedStatus(items);
+  const error = !status
+    ? 'Enter the quantities the customer received'
+    : !receivedBy.trim()
+    ? 'Enter who received the goods'
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error || !status) return;
+    setIsSaving(true);
+    try {
+      const response = await deliveryApi.confirm(delivery.id, {
+        items: items.map(item => ({ product_id: item.product_id, delivered_quantity: item.delivered_quantity })),
+        received_by: receivedBy.trim(),
+        status
+      });
+      if (!response.success) throw new Error(response.message || 'Failed to confirm delivery');
+
+      try {
+        await syncSaleStatus(delivery.sale_id);
+      } catch (syncError) {
+        console.error('Failed to update order delivery status:', syncError);
+      }
+
+      toast({
+        title: DELIVERY_STATUS_LABELS[status],
+        description: `${delivery.challan_number} signed for by ${receivedBy.trim()}`,
+      });
+      onConfirmed?.(response.data);
+      onOpenChange(false);
+    } catch (confirmError) {
+      console.error('Delivery confirm error:', confirmError);
+      toast({
+        title: "Error",
+        description: confirmError instanceof Error ? confirmError.message : "Failed to confirm delivery",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!delivery} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackageCheck className="h-5 w-5" />
+            Confirm Delivery
+          </DialogTitle>
+          <DialogDescription>
+            {delivery.challan_number} · {delivery.customer_name}. Enter the quantities as signed on the challan.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="rounded-lg border divide-y text-sm">
+            {items.map(item => (
+              <div key={item.product_id} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                <span className="truncate">{item.product_name}</span>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Input
+                    type="number"
+                    min="0"
+                    max={item.quantity}
+                    value={item.delivered_quantity}
+                    onChange={(e) => setDelivered(prev => ({
+                      ...prev,
+                      [item.product_id]: Math.max(0, Math.min(item.quantity, parseFloat(e.target.value) || 0))
+                    }))}
+                    className="h-7 w-20 text-sm"
+                  />
+                  <span className="text-xs text-muted-foreground w-14">of {item.quantity}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <Label>Received by</Label>
+            <Input value={receivedBy} onChange={(e) => setReceivedBy(e.target.value)} />
+          </div>
+
+          {status && (
+            <p className="text-sm text-muted-foreground">
+              Will be marked <span className="font-medium text-foreground">{DELIVERY_STATUS_LABELS[status].toLowerCase()}</span>.
+            </p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={!!error || isSaving}>
+              Confirm
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,200 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CalendarPlus, Edit2, FileText, PackageCheck, Truck, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { deliveryApi, Delivery, DeliveryStatus } from "@/services/deliveryApi";
+import { DELIVERY_STATUS_LABELS, DeliveryLine, getRemainingLines, getSlotLabel, isDeliveryOpen } from "@/utils/deliveries";
+import { generateDeliveryChallanPDF } from "@/utils/deliveryChallanPdfGenerator";
+import { DeliveryScheduleDialog } from "./DeliveryScheduleDialog";
+import { DeliveryConfirmDialog } from "./DeliveryConfirmDialog";
+
+interface DeliveryPanelProps {
+  order: {
+    id: number;
+    orderNumber: string;
+    customerId: number | null;
+    customerName: string | null;
+    status: string;
+    items: Array<{ productId: number; productName: string; quantity: number }>;
+  };
+  onOrderUpdated?: () => void;
+}
+
+const STATUS_BADGES: Record<DeliveryStatus, string> = {
+  scheduled: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20",
+  out_for_delivery: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20",
+  partially_delivered: "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20",
+  delivered: "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20",
+  cancelled: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
+};
+
+export const DeliveryStatusBadge = ({ status }: { status: DeliveryStatus }) => (
+  <Badge variant="outline" className={`${STATUS_BADGES[status]} text-xs`}>
+    {DELIVERY_STATUS_LABELS[status]}
+  </Badge>
+);
+
+// Deliveries made against an order: schedule, challan, dispatch and sign-off
+export const DeliveryPanel = ({ order, onOrderUpdated }: DeliveryPanelProps) => {
+  const { toast } = useToast();
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [editing, setEditing] = useState<Delivery | undefined>(undefined);
+  const [confirming, setConfirming] = useState<Delivery | null>(null);
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['deliveries', order.id],
+    queryFn: () => deliveryApi.getBySale(order.id),
+    retry: false,
+  });
+  const deliveries = useMemo(() => (data?.success ? data.data : []), [data]);
+
+  const lines = useMemo<DeliveryLine[]>(
+    () => order.items.map(item => ({ productId: item.productId, productName: item.productName, quantity: Number(item.quantity) })),
+    [order.items]
+  );
+  const remaining = useMemo(() => getRemainingLines(lines, deliveries), [lines, deliveries]);
+  const canSchedule = order.status !== 'cancelled' && remaining.length > 0;
+
+  if (isLoading) return null;
+
+  const handleStatus = async (delivery: Delivery, status: DeliveryStatus, question: string) => {
+    if (!confirm(question)) return;
+    try {
+      const response = await deliveryApi.updateStatus(delivery.id, status);
+      if (!response.success) throw new Error(response.message || 'Failed to update delivery');
+      toast({
+        title: "Delivery Updated",
+        description: `${delivery.challan_number} is now ${DELIVERY_STATUS_LABELS[status].toLowerCase()}`,
+      });
+      refetch();
+    } catch (error) {
+      console.error('Delivery status error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update delivery",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaved = () => {
+    setEditing(undefined);
+    refetch();
+  };
+
+  return (
+    <div className="mt-4 bg-card rounded-lg border border-sky-200 dark:border-sky-800 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 bg-sky-50 dark:bg-sky-950/20 border-b border-sky-200 dark:border-sky-800">
+        <h4 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <Truck className="h-4 w-4" />
+          Deliveries
+          {deliveries.length === 0 && <span className="font-normal text-muted-foreground">· collected at the counter</span>}
+        </h4>
+        {canSchedule && (
+          <Button size="sm" variant="outline" className="h-7" onClick={() => setIsScheduling(true)}>
+            <CalendarPlus className="h-3 w-3 mr-1" />
+            {deliveries.length > 0 ? 'Schedule Remaining' : 'Schedule Delivery'}
+          </Button>
+        )}
+      </div>
+
+      {deliveries.length > 0 && (
+        <div className="divide-y divide-border">
+          {deliveries.map(delivery => (
+            <div key={delivery.id} className="flex flex-wrap items-start justify-between gap-3 px-4 py-3 text-sm">
+              <div className="min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{delivery.challan_number}</span>
+                  <DeliveryStatusBadge status={delivery.status} />
+                </div>
+                <p className="text-muted-foreground">
+                  {new Date(delivery.scheduled_date).toLocaleDateString('en-GB')} · {getSlotLabel(delivery.slot)}
+                  {(delivery.vehicle || delivery.driver) && ` · ${[delivery.vehicle, delivery.driver].filter(Boolean).join(' / ')}`}
+                </p>
+                <p className="text-muted-foreground truncate">{delivery.address}</p>
+                <p className="text-xs text-muted-foreground">
+                  {delivery.items.map(item =>
+                    delivery.status === 'partially_delivered'
+                      ? `${item.product_name} ${Number(item.delivered_quantity)}/${Number(item.quantity)}`
+                      : `${item.product_name} x${Number(item.quantity)}`
+                  ).join(', ')}
+                </p>
+                {delivery.received_by && (
+                  <p className="text-xs text-muted-foreground">
+                    Received by {delivery.received_by}
+                    {delivery.delivered_at && ` on ${new Date(delivery.delivered_at).toLocaleString('en-GB')}`}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button size="sm" variant="ghost" className="h-7 px-2" title="Print challan" onClick={() => generateDeliveryChallanPDF(delivery)}>
+                  <FileText className="h-3 w-3 mr-1" />
+                  Challan
+                </Button>
+                {isDeliveryOpen(delivery) && (
+                  <>
+                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Reschedule" onClick={() => setEditing(delivery)}>
+                      <Edit2 className="h-3 w-3" />
+                    </Button>
+                    {delivery.status === 'scheduled' && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2"
+                        onClick={() => handleStatus(delivery, 'out_for_delivery', `Dispatch ${delivery.challan_number} now?`)}
+                      >
+                        <Truck className="h-3 w-3 mr-1" />
+                        Dispatch
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => setConfirming(delivery)}>
+                      <PackageCheck className="h-3 w-3 mr-1" />
+                      Delivered
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0 text-red-600"
+                      title="Cancel delivery"
+                      onClick={() => handleStatus(delivery, 'cancelled', `Cancel delivery ${delivery.challan_number}?`)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <DeliveryScheduleDialog
+        open={isScheduling || !!editing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIsScheduling(false);
+            setEditing(undefined);
+          }
+        }}
+        saleId={order.id}
+        orderNumber={order.orderNumber}
+        source="sale"
+        customerId={order.customerId}
+        customerName={order.customerName || 'Walk-in'}
+        lines={remaining}
+        delivery={editing}
+        onSaved={handleSaved}
+      />
+      <DeliveryConfirmDialog
+        delivery={confirming}
+        onOpenChange={(open) => !open && setConfirming(null)}
+        onConfirmed={() => {
+          refetch();
+          onOrderUpdated?.();
+        }}
+      />
+    </div>
+  );
+};
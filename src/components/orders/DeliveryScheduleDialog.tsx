@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Truck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { customersApi } from "@/services/api";
+import { deliveryApi, Delivery, DeliveryDetails, DeliverySlot, DeliverySource } from "@/services/deliveryApi";
+import { DELIVERY_SLOTS, DeliveryLine, getDeliveryError } from "@/utils/deliveries";
+
+interface DeliveryScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  saleId: number;
+  orderNumber: string;
+  source: DeliverySource;
+  customerId?: number | null;
+  customerName: string;
+  lines: DeliveryLine[]; // what is still to be delivered
+  delivery?: Delivery; // reschedules this delivery instead of creating one
+  onSaved?: (delivery: Delivery) => void;
+}
+
+const EMPTY_DETAILS: DeliveryDetails = {
+  address: "",
+  contact_name: "",
+  contact_phone: "",
+  vehicle: "",
+  driver: "",
+  scheduled_date: new Date().toISOString().split('T')[0],
+  slot: 'morning',
+  notes: "",
+};
+
+// Address, contact, vehicle / driver and slot for a delivery; new deliveries also pick the items to load
+export const DeliveryScheduleDialog: React.FC<DeliveryScheduleDialogProps> = ({
+  open,
+  onOpenChange,
+  saleId,
+  orderNumber,
+  source,
+  customerId,
+  customerName,
+  lines,
+  delivery,
+  onSaved
+}) => {
+  const { toast } = useToast();
+  const [details, setDetails] = useState<DeliveryDetails>(EMPTY_DETAILS);
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (delivery) {
+      setDetails({
+        address: delivery.address,
+        contact_name: delivery.contact_name || "",
+        contact_phone: delivery.contact_phone || "",
+        vehicle: delivery.vehicle || "",
+        driver: delivery.driver || "",
+        scheduled_date: delivery.scheduled_date.split('T')[0],
+        slot: delivery.slot,
+        notes: delivery.notes || "",
+      });
+      return;
+    }
+
+    setDetails({ ...EMPTY_DETAILS, contact_name: customerName, scheduled_date: new Date().toISOString().split('T')[0] });
+    setQuantities(Object.fromEntries(lines.map(line => [line.productId, line.quantity])));
+
+    // Start from the address on the customer's file
+    if (customerId) {
+      customersApi.getById(customerId)
+        .then(response => {
+          if (!response.success || !response.data) return;
+          const customer = response.data;
+          setDetails(prev => ({
+            ...prev,
+            address: prev.address || [customer.address, customer.city].filter(Boolean).join(', '),
+            contact_phone: prev.contact_phone || customer.phone || "",
+          }));
+        })
+        .catch(error => console.error('Failed to load customer address:', error));
+    }
+  }, [open, delivery, customerId, customerName, lines]);
+
+  const items = delivery
+    ? delivery.items.map(item => ({ quantity: Number(item.quantity) }))
+    : lines.map(line => ({ quantity: quantities[line.productId] || 0 }));
+  const error = getDeliveryError(details, items);
+
+  const setField = <K extends keyof DeliveryDetails>(key: K, value: DeliveryDetails[K]) =>
+    setDetails(prev => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    setIsSaving(true);
+    try {
+      const payload: DeliveryDetails = {
+        ...details,
+        address: details.address.trim(),
+        notes: details.notes?.trim() || undefined,
+      };
+      const response = delivery
+        ? await deliveryApi.update(delivery.id, payload)
+        : await deliveryApi.create({
+            ...payload,
+            sale_id: saleId,
+            order_number: orderNumber,
+            source,
+            customer_id: customerId,
+            customer_name: customerName,
+            items: lines
+              .filter(line => (quantities[line.productId] || 0) > 0)
+              .map(line => ({
+                product_id: line.productId,
+                product_name: line.productName,
+                quantity: Math.min(quantities[line.productId], line.quantity),
+                unit: line.unit,
+              })),
+          });
+      if (!response.success) throw new Error(response.message || 'Failed to save delivery');
+
+      toast({
+        title: delivery ? "Delivery Rescheduled" : "Delivery Scheduled",
+        description: `Challan ${response.data.challan_number} for ${new Date(response.data.scheduled_date).toLocaleDateString('en-GB')}`,
+      });
+      onSaved?.(response.data);
+      onOpenChange(false);
+    } catch (saveError) {
+      console.error('Delivery save error:', saveError);
+      toast({
+        title: "Error",
+        description: saveError instanceof Error ? saveError.message : "Failed to save delivery",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            {delivery ? `Reschedule ${delivery.challan_number}` : 'Schedule Delivery'}
+          </DialogTitle>
+          <DialogDescription>
+            Order {orderNumber} · {customerName}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <Label>Delivery address</Label>
+            <Textarea
+              rows={2}
+              value={details.address}
+              onChange={(e) => setField('address', e.target.value)}
+              placeholder="House / shop, street, area, city"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Contact person</Label>
+              <Input value={details.contact_name} onChange={(e) => setField('contact_name', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Contact phone</Label>
+              <Input value={details.contact_phone} onChange={(e) => setField('contact_phone', e.target.value)} placeholder="+92" />
+            </div>
+            <div className="space-y-1">
+              <Label>Vehicle</Label>
+              <Input value={details.vehicle} onChange={(e) => setField('vehicle', e.target.value)} placeholder="e.g. Suzuki LES-1234" />
+            </div>
+            <div className="space-y-1">
+              <Label>Driver</Label>
+              <Input value={details.driver} onChange={(e) => setField('driver', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Date</Label>
+              <Input type="date" value={details.scheduled_date} onChange={(e) => setField('scheduled_date', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Slot</Label>
+              <Select value={details.slot} onValueChange={(value) => setField('slot', value as DeliverySlot)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIVERY_SLOTS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!delivery && (
+            <div className="space-y-1">
+              <Label>Items to load</Label>
+              <div className="rounded-lg border divide-y text-sm">
+                {lines.map(line => (
+                  <div key={line.productId} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                    <span className="truncate">{line.productName}</span>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Input
+                        type="number"
+                        min="0"
+                        max={line.quantity}
+                        value={quantities[line.productId] ?? 0}
+                        onChange={(e) => setQuantities(prev => ({
+                          ...prev,
+                          [line.productId]: Math.max(0, Math.min(line.quantity, parseFloat(e.target.value) || 0))
+                        }))}
+                        className="h-7 w-20 text-sm"
+                      />
+                      <span className="text-xs text-muted-foreground w-14">of {line.quantity}</span>
+                    </div>
+                  </div>
+                ))}
+                {lines.length === 0 && (
+                  <p className="px-3 py-2 text-muted-foreground">Everything on this order is already out for delivery.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Notes</Label>
+            <Input value={details.notes} onChange={(e) => setField('notes', e.target.value)} placeholder="e.g. call before arriving, 2nd floor" />
+          </div>
+
+          {error && details.address && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={!!error || isSaving}>
+              {delivery ? 'Save Changes' : 'Schedule'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -10,6 +10,9 @@ import { useToast } from "@/hooks/use-toast";
 import { salesApi, customersApi } from "@/services/api";
 import { useCustomerBalance } from "@/hooks/useCustomerBalance";
 import { useStockManagement } from "@/hooks/useStockManagement";
+import { LayawayPanel } from "./LayawayPanel";
+import { DeliveryPanel } from "./DeliveryPanel";
+import { LAYAWAY_SALE_STATUS } from "@/utils/layaway";
 
 interface Sale {
   id: number;
@@ -86,6 +89,9 @@ export const ExpandedOrderRow = ({ order, onOrderUpdated }: ExpandedOrderRowProp
     const variants: Record<string, string> = {
       completed: "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20",
       pending: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20",
+      layaway: "bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 border-indigo-500/20",
+      delivered: "bg-teal-500/10 text-teal-600 dark:text-teal-400 border-teal-500/20",
+      partially_delivered: "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20",
       cancelled: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20"
     };
     return variants[status] || "bg-muted text-muted-foreground border-border";
@@ -281,6 +287,9 @@ export const ExpandedOrderRow = ({ order, onOrderUpdated }: ExpandedOrderRowProp
                   <SelectContent>
                     <SelectItem value="completed">Completed</SelectItem>
                     <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="layaway">Layaway</SelectItem>
+                    <SelectItem value="partially_delivered">Partially Delivered</SelectItem>
+                    <SelectItem value="delivered">Delivered</SelectItem>
                     <SelectItem value="cancelled">Cancelled</SelectItem>
                   </SelectContent>
                 </Select>
@@ -293,7 +302,7 @@ export const ExpandedOrderRow = ({ order, onOrderUpdated }: ExpandedOrderRowProp
               </div>
             ) : (
               <Badge variant="outline" className={`${getStatusBadge(order.status)} text-xs capitalize`}>
-                {order.status}
+                {order.status.replace('_', ' ')}
               </Badge>
             )}
           </div>
@@ -482,6 +491,14 @@ export const ExpandedOrderRow = ({ order, onOrderUpdated }: ExpandedOrderRowProp
         </div>
       </div>
 
+      {order.status === LAYAWAY_SALE_STATUS && (
+        <LayawayPanel saleId={order.id} onOrderUpdated={onOrderUpdated} />
+      )}
+
+      {order.status !== LAYAWAY_SALE_STATUS && (
+        <DeliveryPanel order={order} onOrderUpdated={onOrderUpdated} />
+      )}
+
       {/* Outsourced Items */}
       {order.outsourcedItems && order.outsourcedItems.length > 0 && (
         <div className="mt-4 bg-card rounded-lg border border-orange-200 dark:border-orange-800 overflow-hidden">
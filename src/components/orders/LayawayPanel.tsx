@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, PackageCheck, Printer, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCashShift } from "@/hooks/useCashShift";
+import { layawayApi, Layaway, LayawayPayment } from "@/services/layawayApi";
+import { newFinanceApi } from "@/services/newFinanceApi";
+import { shiftApi } from "@/services/shiftApi";
+import { TENDER_METHOD_LABELS, TenderMethod, getTenderAccountType, roundCurrency } from "@/utils/paymentTenders";
+import {
+  InstallmentReceipt,
+  InstallmentState,
+  LAYAWAY_PAYMENT_METHODS,
+  LAYAWAY_STATUS_LABELS,
+  getInstallmentReceiptNumber,
+  getInstallmentRows,
+  getNextInstallment,
+  getPaymentError
+} from "@/utils/layaway";
+import { printInstallmentReceipt } from "@/utils/installmentReceiptPdfGenerator";
+
+interface LayawayPanelProps {
+  saleId: number;
+  onOrderUpdated?: () => void;
+}
+
+const STATE_BADGES: Record<InstallmentState, string> = {
+  paid: "bg-green-500/10 text-green-600 border-green-500/20",
+  partial: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  due: "bg-muted text-muted-foreground border-border",
+  overdue: "bg-red-500/10 text-red-600 border-red-500/20",
+};
+
+const formatCurrency = (val: number) =>
+  `Rs. ${Number(val).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+// Receipt for a payment already on the layaway, for printing now or reprinting later
+const toInstallmentReceipt = (layaway: Layaway, payment: LayawayPayment): InstallmentReceipt => {
+  const upTo = layaway.payments.slice(0, layaway.payments.indexOf(payment) + 1);
+  const paidToDate = roundCurrency(upTo.reduce((sum, entry) => sum + Number(entry.amount), 0));
+  return {
+    receiptNumber: payment.receipt_number,
+    orderNumber: layaway.order_number,
+    customerName: layaway.customer_name,
+    date: payment.paid_at,
+    amount: Number(payment.amount),
+    method: payment.method,
+    isDeposit: !!payment.is_deposit,
+    total: Number(layaway.total),
+    paidToDate,
+    balance: roundCurrency(Number(layaway.total) - paidToDate),
+    nextDue: getNextInstallment(getInstallmentRows(layaway.schedule, upTo)),
+    pickupDate: layaway.pickup_date
+  };
+};
+
+// Payment schedule, installment history and pickup for a layaway / advance order
+export const LayawayPanel = ({ saleId, onOrderUpdated }: LayawayPanelProps) => {
+  const { toast } = useToast();
+  const { shift } = useCashShift();
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<TenderMethod>('cash');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['layaway', saleId],
+    queryFn: () => layawayApi.getBySale(saleId),
+    retry: false,
+  });
+  const layaway = data?.success ? data.data : null;
+
+  if (isLoading) {
+    return <div className="mt-4 text-sm text-muted-foreground">Loading layaway schedule...</div>;
+  }
+
+  if (!layaway) {
+    return (
+      <div className="mt-4 rounded-lg border border-border bg-card p-3 text-sm text-muted-foreground">
+        No layaway schedule was found for this order.
+      </div>
+    );
+  }
+
+  const balance = Number(layaway.balance);
+  const rows = getInstallmentRows(layaway.schedule, layaway.payments);
+  const nextDue = getNextInstallment(rows);
+  const paymentAmount = roundCurrency(parseFloat(amount) || 0);
+  const paymentError = getPaymentError(paymentAmount, balance);
+  const isOpen = layaway.status === 'active' || layaway.status === 'paid';
+
+  const postCashFlow = async (value: number, tenderMethod: TenderMethod, reference: string) => {
+    const accountType = getTenderAccountType(tenderMethod);
+    try {
+      if (accountType === 'cash' && shift) {
+        await shiftApi.addMovement(shift.id, {
+          type: 'cash_in',
+          amount: value,
+          reason: `Layaway installment for ${layaway.order_number}`,
+        });
+      }
+      let accountId = accountType === 'cash' ? shift?.account_id : undefined;
+      if (accountType === 'bank') {
+        const accountsResponse = await newFinanceApi.getAccounts({ type: 'bank', active: true });
+        const bankAccount = accountsResponse.data?.find((acc: { account_type?: string; account_name?: string }) =>
+          acc.account_type?.toLowerCase() === 'bank' || acc.account_name?.toLowerCase().includes('bank')
+        );
+        accountId = bankAccount ? parseInt(bankAccount.id) : undefined;
+      }
+      await newFinanceApi.createFinanceCashFlow({
+        type: 'inflow',
+        amount: value,
+        date: new Date().toISOString().split('T')[0],
+        account_id: accountId,
+        reference,
+        description: `Layaway installment - ${layaway.customer_name} - order ${layaway.order_number}`
+      });
+    } catch (cashFlowError) {
+      console.error('Failed to create cash flow entry for layaway installment:', cashFlowError);
+    }
+  };
+
+  const printReceipt = async (receipt: InstallmentReceipt) => {
+    const printed = await printInstallmentReceipt(receipt);
+    if (!printed) {
+      toast({
+        title: "Printer Unavailable",
+        description: "Receipt downloaded as PDF instead",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRecordPayment = async () => {
+    if (paymentError) return;
+    setIsSaving(true);
+    try {
+      const receiptNumber = getInstallmentReceiptNumber(layaway.order_number, layaway.payments.length);
+      const response = await layawayApi.recordPayment(layaway.id, {
+        receipt_number: receiptNumber,
+        amount: paymentAmount,
+        method,
+        shift_id: shift?.id,
+        received_by: "POS User"
+      });
+      if (!response.success) throw new Error(response.message || 'Failed to record payment');
+
+      await postCashFlow(paymentAmount, method, receiptNumber);
+      const updated = response.data;
+      const payment = updated.payments.find(entry => entry.receipt_number === receiptNumber);
+      if (payment) await printReceipt(toInstallmentReceipt(updated, payment));
+
+      toast({
+        title: "Payment Recorded",
+        description: `${formatCurrency(paymentAmount)} received. Balance ${formatCurrency(Number(updated.balance))}.`,
+      });
+      setAmount("");
+      refetch();
+    } catch (error) {
+      console.error('Layaway payment error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMarkDelivered = async () => {
+    if (!confirm(`Hand over order ${layaway.order_number} to ${layaway.customer_name}?`)) return;
+    setIsSaving(true);
+    try {
+      const response = await layawayApi.markDelivered(layaway.id);
+      if (!response.success) throw new Error(response.message || 'Failed to mark as delivered');
+      toast({
+        title: "Order Delivered",
+        description: `${layaway.order_number} has been picked up and completed`,
+      });
+      refetch();
+      onOrderUpdated?.();
+    } catch (error) {
+      console.error('Layaway delivery error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to mark as delivered",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-card rounded-lg border border-indigo-200 dark:border-indigo-800 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 bg-indigo-50 dark:bg-indigo-950/20 border-b border-indigo-200 dark:border-indigo-800">
+        <h4 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Layaway · {LAYAWAY_STATUS_LABELS[layaway.status]}
+        </h4>
+        <div className="text-sm text-muted-foreground">
+          Paid <span className="font-semibold text-foreground">{formatCurrency(layaway.paid)}</span>
+          <span className="mx-2">•</span>
+          Balance <span className="font-bold text-primary">{formatCurrency(balance)}</span>
+          {layaway.pickup_date && (
+            <>
+              <span className="mx-2">•</span>
+              Pickup from {new Date(layaway.pickup_date).toLocaleDateString('en-GB')}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4 p-4">
+        {/* Payment schedule */}
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-2">Payment Schedule</p>
+          <table className="w-full text-sm">
+            <tbody className="divide-y divide-border">
+              <tr>
+                <td className="py-1.5 text-muted-foreground">Deposit</td>
+                <td className="py-1.5">{new Date(layaway.created_at).toLocaleDateString('en-GB')}</td>
+                <td className="py-1.5 text-right">{formatCurrency(layaway.deposit)}</td>
+                <td className="py-1.5 text-right">
+                  <Badge variant="outline" className={`${STATE_BADGES.paid} text-xs`}>paid</Badge>
+                </td>
+              </tr>
+              {rows.map(row => (
+                <tr key={row.number}>
+                  <td className="py-1.5 text-muted-foreground">#{row.number}</td>
+                  <td className="py-1.5">{new Date(row.due_date).toLocaleDateString('en-GB')}</td>
+                  <td className="py-1.5 text-right">
+                    {formatCurrency(row.amount)}
+                    {row.state === 'partial' && <span className="block text-xs text-muted-foreground">{formatCurrency(row.paid)} paid</span>}
+                  </td>
+                  <td className="py-1.5 text-right">
+                    <Badge variant="outline" className={`${STATE_BADGES[row.state]} text-xs capitalize`}>{row.state}</Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Payments received */}
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-2">Payments Received</p>
+          <div className="divide-y divide-border text-sm">
+            {layaway.payments.map(payment => (
+              <div key={payment.receipt_number} className="flex items-center justify-between py-1.5">
+                <div>
+                  <p className="font-medium">{payment.receipt_number}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(payment.paid_at).toLocaleDateString('en-GB')} · {TENDER_METHOD_LABELS[payment.method] || payment.method}
+                    {payment.is_deposit && ' · deposit'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{formatCurrency(payment.amount)}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    title="Reprint receipt"
+                    onClick={() => printReceipt(toInstallmentReceipt(layaway, payment))}
+                  >
+                    <Printer className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {isOpen && (
+            <div className="mt-3 space-y-2">
+              {balance > 0 && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder={nextDue ? `Next due ${Math.min(nextDue.amount - nextDue.paid, balance).toLocaleString()}` : 'Amount'}
+                    className="h-8 text-sm"
+                  />
+                  <Select value={method} onValueChange={(value) => setMethod(value as TenderMethod)}>
+                    <SelectTrigger className="h-8 w-36 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LAYAWAY_PAYMENT_METHODS.map(option => (
+                        <SelectItem key={option} value={option}>{TENDER_METHOD_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" className="h-8" onClick={handleRecordPayment} disabled={isSaving || !!paymentError}>
+                    <Wallet className="h-3 w-3 mr-1" />
+                    Record
+                  </Button>
+                </div>
+              )}
+              {amount && paymentError && <p className="text-xs text-red-600">{paymentError}</p>}
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 w-full"
+                onClick={handleMarkDelivered}
+                disabled={isSaving || balance > 0}
+                title={balance > 0 ? 'The balance must be cleared before pickup' : undefined}
+              >
+                <PackageCheck className="h-3 w-3 mr-1" />
+                Mark Delivered (final pickup)
+              </Button>
+            </div>
+          )}
+          {layaway.delivered_at && (
+            <p className="mt-3 text-xs text-muted-foreground">
+              Delivered {new Date(layaway.delivered_at).toLocaleString('en-GB')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
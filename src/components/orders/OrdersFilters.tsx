@@ -54,6 +54,9 @@ export const OrdersFilters = ({
             <SelectItem value="all">All Status</SelectItem>
             <SelectItem value="completed">Completed</SelectItem>
             <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="layaway">Layaway / Advance</SelectItem>
+            <SelectItem value="partially_delivered">Partially Delivered</SelectItem>
+            <SelectItem value="delivered">Delivered</SelectItem>
             <SelectItem value="cancelled">Cancelled</SelectItem>
           </SelectContent>
         </Select>
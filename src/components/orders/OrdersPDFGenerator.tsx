@@ -1,6 +1,7 @@
 import jsPDF from 'jspdf';
 import QRCode from 'qrcode';
 import { useToast } from "@/hooks/use-toast";
+import { getReceiptQrData } from "@/utils/receiptSignature";
 
 interface Sale {
   id: number;
@@ -55,16 +56,18 @@ export const useOrderPDFGenerator = () => {
       // Calculate final total without tax (subtotal - discount)
       const finalTotal = order.subtotal - order.discount;
       
-      // Generate QR code with proper encoding
-      const qrData = `USMAN-HARDWARE-${order.orderNumber}-${finalTotal}-VERIFIED`;
+      // Signed QR linking to the verification page
+      const qrData = await getReceiptQrData(
+        { id: order.id, orderNumber: order.orderNumber, total: order.total, date: order.date }
+      );
       const qrCodeDataURL = await QRCode.toDataURL(qrData, {
-        width: 60,
+        width: 120,
         margin: 1,
         color: {
           dark: '#1a365d',
           light: '#ffffff'
         },
-        errorCorrectionLevel: 'H'
+        errorCorrectionLevel: 'M'
       });
 
       // Dynamic height calculation
@@ -54,6 +54,12 @@ export const OrdersTable = ({
         return <Badge className="bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20">Completed</Badge>;
       case "pending":
         return <Badge className="bg-yellow-500/10 text-yellow-700 dark:text-yellow-400 border-yellow-500/20">Pending</Badge>;
+      case "layaway":
+        return <Badge className="bg-indigo-500/10 text-indigo-700 dark:text-indigo-400 border-indigo-500/20">Layaway</Badge>;
+      case "delivered":
+        return <Badge className="bg-teal-500/10 text-teal-700 dark:text-teal-400 border-teal-500/20">Delivered</Badge>;
+      case "partially_delivered":
+        return <Badge className="bg-orange-500/10 text-orange-700 dark:text-orange-400 border-orange-500/20">Partially Delivered</Badge>;
       case "cancelled":
         return <Badge className="bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20">Cancelled</Badge>;
       default:
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X } from "lucide-react";
+import { formatQuantity } from "@/lib/utils";
+import { searchProducts } from "@/utils/posCommands";
+import {
+  KitComponent,
+  KitProduct,
+  ProductLookup,
+  getComponentsValue,
+  getKitAvailability,
+  getKitError,
+  isKit
+} from "@/utils/kits";
+
+export interface KitCatalogueProduct extends KitProduct {
+  name: string;
+  sku?: string;
+  barcode?: string;
+  category?: string;
+}
+
+interface KitComponentsEditorProps {
+  components: KitComponent[];
+  catalogue: KitCatalogueProduct[];
+  lookup: ProductLookup;
+  kitId?: number | string;
+  kitPrice: number;
+  loading?: boolean;
+  onChange: (components: KitComponent[]) => void;
+}
+
+// Products that make up a kit, with how many of each go into one kit
+export const KitComponentsEditor = ({
+  components,
+  catalogue,
+  lookup,
+  kitId,
+  kitPrice,
+  loading = false,
+  onChange
+}: KitComponentsEditorProps) => {
+  const [search, setSearch] = useState("");
+  const error = getKitError(components, kitId, lookup);
+  const componentsValue = getComponentsValue(components, lookup);
+  const matches = searchProducts(
+    catalogue.filter(product =>
+      !isKit(product) &&
+      Number(product.id) !== Number(kitId) &&
+      !components.some(component => component.productId === Number(product.id))
+    ),
+    search,
+    6
+  );
+
+  const addComponent = (product: KitCatalogueProduct) => {
+    onChange([...components, { productId: Number(product.id), quantity: 1 }]);
+    setSearch("");
+  };
+
+  const updateQuantity = (index: number, value: string) => {
+    onChange(components.map((component, i) => (i === index ? { ...component, quantity: parseFloat(value) || 0 } : component)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Kit Components</Label>
+      <div className="relative">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={loading ? "Loading products..." : "Search a product to add (name or SKU)"}
+          disabled={loading}
+        />
+        {matches.length > 0 && (
+          <div className="absolute z-20 mt-1 w-full rounded-md border bg-popover shadow-md">
+            {matches.map(product => (
+              <button
+                key={product.id}
+                type="button"
+                className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-muted"
+                onClick={() => addComponent(product)}
+              >
+                <span className="truncate">{product.name}</span>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {formatQuantity(product.stock || 0)} {product.unit} · PKR {Number(product.price).toLocaleString()}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {components.map((component, index) => {
+        const product = lookup.get(component.productId);
+        return (
+          <div key={component.productId} className="flex items-center gap-2">
+            <span className="flex-1 truncate text-sm" title={product?.name}>
+              {product?.name || `Product #${component.productId}`}
+            </span>
+            <span className="w-24 text-xs text-muted-foreground">
+              {formatQuantity(product?.stock || 0)} {product?.unit} in stock
+            </span>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-20"
+              placeholder="Qty"
+              value={component.quantity || ''}
+              onChange={(e) => updateQuantity(index, e.target.value)}
+            />
+            <span className="w-10 text-xs text-muted-foreground">{product?.unit || ''}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => onChange(components.filter((_, i) => i !== index))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        );
+      })}
+      {components.length > 0 && !error && (
+        <div className="flex items-center justify-between p-2 bg-muted/50 rounded-lg text-sm">
+          <span>
+            Components PKR {componentsValue.toLocaleString()}
+            {kitPrice > 0 && componentsValue > 0 && ` · bundle ${kitPrice <= componentsValue ? 'saves' : 'adds'} PKR ${Math.abs(componentsValue - kitPrice).toLocaleString()}`}
+          </span>
+          <span className="font-medium">
+            {formatQuantity(getKitAvailability({ id: kitId || 0, price: kitPrice, kitComponents: components }, lookup))} kits available
+          </span>
+        </div>
+      )}
+      {components.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add the hinges, handles, channels and screws that go into one kit.
+        </p>
+      )}
+      {error && components.length > 0 && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tag, Search, Printer, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { productsApi } from "@/services/api";
+import {
+  LABEL_LAYOUTS,
+  LabelLayoutId,
+  generateLabelsPDF,
+  getLabelLayout,
+  getLabelsPerPage
+} from "@/utils/labelPdfGenerator";
+
+interface LabelPrintModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialProductIds?: number[];
+}
+
+interface LabelProductRow {
+  id: number;
+  name: string;
+  sku: string;
+  barcode?: string;
+  price: number;
+  unit?: string;
+  category?: string;
+  stock?: number;
+}
+
+export const LabelPrintModal = ({ open, onOpenChange, initialProductIds }: LabelPrintModalProps) => {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [copies, setCopies] = useState<{ [productId: number]: number }>({});
+  const [layoutId, setLayoutId] = useState<LabelLayoutId>('a4-65');
+  const [startPosition, setStartPosition] = useState(1);
+  const [showPrice, setShowPrice] = useState(true);
+
+  // Preselect products when opened for specific items
+  useEffect(() => {
+    if (open && initialProductIds && initialProductIds.length > 0) {
+      setCopies(Object.fromEntries(initialProductIds.map(id => [id, 1])));
+    }
+  }, [open, initialProductIds]);
+
+  const { data: productsData, isLoading } = useQuery({
+    queryKey: ['label-products'],
+    queryFn: () => productsApi.getAll({ limit: 1000, status: 'active' }),
+    enabled: open,
+  });
+
+  const productsList = productsData?.data?.products || productsData?.data || [];
+  const products: LabelProductRow[] = Array.isArray(productsList) ? productsList : [];
+  const categories = [...new Set(products.map(product => product.category).filter(Boolean))].sort();
+
+  const filteredProducts = products.filter(product =>
+    product.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    product.sku?.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const layout = getLabelLayout(layoutId);
+  const perPage = getLabelsPerPage(layout);
+  const isSheet = perPage > 1;
+  const selectedIds = Object.keys(copies).map(Number).filter(id => copies[id] > 0);
+  const totalLabels = selectedIds.reduce((sum, id) => sum + copies[id], 0);
+
+  const toggleProduct = (productId: number, checked: boolean) => {
+    setCopies(prev => {
+      const next = { ...prev };
+      if (checked) {
+        next[productId] = 1;
+      } else {
+        delete next[productId];
+      }
+      return next;
+    });
+  };
+
+  // Select every product in a category, one label each
+  const selectCategory = (category: string) => {
+    setCopies(prev => {
+      const next = { ...prev };
+      products
+        .filter(product => category === 'all' || product.category === category)
+        .forEach(product => {
+          if (!next[product.id]) next[product.id] = 1;
+        });
+      return next;
+    });
+  };
+
+  const handleLayoutChange = (value: string) => {
+    setLayoutId(value as LabelLayoutId);
+    setStartPosition(1);
+  };
+
+  const handlePrint = () => {
+    const labelProducts = products
+      .filter(product => copies[product.id] > 0)
+      .map(product => ({
+        name: product.name,
+        price: Number(product.price) || 0,
+        unit: product.unit,
+        sku: product.sku,
+        barcode: product.barcode,
+        copies: copies[product.id],
+      }));
+
+    try {
+      const count = generateLabelsPDF(labelProducts, { layoutId, startPosition: isSheet ? startPosition : 1, showPrice });
+      toast({
+        title: "Labels Ready",
+        description: `${count} labels generated for ${labelProducts.length} products.`,
+      });
+    } catch (error) {
+      console.error('Failed to generate labels:', error);
+      toast({
+        title: "Label Printing Failed",
+        description: error instanceof Error ? error.message : "Could not generate the label sheet.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5 text-blue-600" />
+            Print Shelf Labels
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Product selection */}
+          <div className="md:col-span-2 space-y-3">
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                <Input
+                  placeholder="Search products..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value="" onValueChange={selectCategory}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Add category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All products</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>{selectedIds.length} products selected, {totalLabels} labels</span>
+              {selectedIds.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => setCopies({})}>
+                  Clear selection
+                </Button>
+              )}
+            </div>
+
+            <div className="border rounded-lg max-h-[45vh] overflow-y-auto divide-y">
+              {isLoading ? (
+                <div className="flex items-center justify-center p-8">
+                  <Loader2 className="h-6 w-6 animate-spin" />
+                </div>
+              ) : filteredProducts.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center p-8">No products found</p>
+              ) : (
+                filteredProducts.map(product => {
+                  const isSelected = copies[product.id] > 0;
+                  return (
+                    <div key={product.id} className="flex items-center gap-3 px-3 py-2">
+                      <Checkbox
+                        checked={isSelected}
+                        onCheckedChange={(checked) => toggleProduct(product.id, !!checked)}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{product.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {product.sku} • Rs. {Number(product.price || 0).toLocaleString()}
+                          {product.category && ` • ${product.category}`}
+                        </p>
+                      </div>
+                      {isSelected && (
+                        <Input
+                          type="number"
+                          min="1"
+                          value={copies[product.id]}
+                          onChange={(e) => setCopies(prev => ({ ...prev, [product.id]: Math.max(1, parseInt(e.target.value) || 1) }))}
+                          className="w-20 h-8"
+                          title="Number of labels"
+                        />
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+
+          {/* Layout options */}
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Label Layout</Label>
+              <Select value={layoutId} onValueChange={handleLayoutChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABEL_LAYOUTS.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="showPrice">Show price</Label>
+              <Switch id="showPrice" checked={showPrice} onCheckedChange={setShowPrice} />
+            </div>
+
+            {isSheet && (
+              <div className="space-y-2">
+                <Label>Start at label {startPosition}</Label>
+                <p className="text-xs text-muted-foreground">Pick the first free sticker on a partly used sheet.</p>
+                <div
+                  className="grid gap-0.5 border rounded p-1 bg-muted/30"
+                  style={{ gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))` }}
+                >
+                  {Array.from({ length: perPage }, (_, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => setStartPosition(index + 1)}
+                      className={`h-3 rounded-sm ${
+                        index + 1 < startPosition
+                          ? 'bg-gray-300'
+                          : index + 1 === startPosition
+                            ? 'bg-blue-600'
+                            : 'bg-white border'
+                      }`}
+                      title={`Label ${index + 1}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2 flex-wrap">
+              <Badge variant="outline">{perPage} per {isSheet ? 'sheet' : 'label'}</Badge>
+              {isSheet && totalLabels > 0 && (
+                <Badge variant="outline">
+                  {Math.ceil((totalLabels + startPosition - 1) / perPage)} sheets
+                </Badge>
+              )}
+            </div>
+
+            <Button className="w-full" onClick={handlePrint} disabled={totalLabels === 0}>
+              <Printer className="h-4 w-4 mr-2" />
+              Generate Labels PDF
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
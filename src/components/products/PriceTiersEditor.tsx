@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
+import { PriceTier, formatTierRange, getTierError } from "@/utils/quantityTiers";
+
+interface PriceTiersEditorProps {
+  tiers: PriceTier[];
+  basePrice: number;
+  unit?: string;
+  onChange: (tiers: PriceTier[]) => void;
+}
+
+// Quantity-break rates; the base price covers quantities below the first tier
+export const PriceTiersEditor = ({ tiers, basePrice, unit, onChange }: PriceTiersEditorProps) => {
+  const error = getTierError(tiers);
+  const firstTier = [...tiers].sort((a, b) => a.minQuantity - b.minQuantity)[0];
+
+  const updateTier = (index: number, field: keyof PriceTier, value: string) => {
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, [field]: parseFloat(value) || 0 } : tier)));
+  };
+
+  const addTier = () => {
+    const lastQuantity = tiers.reduce((max, tier) => Math.max(max, tier.minQuantity), 1);
+    onChange([...tiers, { minQuantity: lastQuantity < 50 ? 50 : lastQuantity * 2, price: basePrice || 0 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Quantity Pricing</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addTier}>
+          <Plus className="h-3 w-3 mr-1" />
+          Add Tier
+        </Button>
+      </div>
+      {tiers.length > 0 && (
+        <>
+          <div className="flex items-center justify-between p-2 bg-muted/50 rounded-lg text-sm">
+            <span>Qty 1{firstTier?.minQuantity > 1 ? `-${firstTier.minQuantity - 1}` : '+'}</span>
+            <span className="font-medium">PKR {(basePrice || 0).toLocaleString()} / {unit || 'unit'}</span>
+          </div>
+          {tiers.map((tier, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground w-20">
+                Qty {tier.minQuantity > 1 ? formatTierRange(tiers, tier) : '?'}
+              </span>
+              <Input
+                type="number"
+                step="0.01"
+                min="2"
+                className="w-24"
+                placeholder="From qty"
+                value={tier.minQuantity || ''}
+                onChange={(e) => updateTier(index, 'minQuantity', e.target.value)}
+              />
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                className="flex-1"
+                placeholder="Unit price"
+                value={tier.price || ''}
+                onChange={(e) => updateTier(index, 'price', e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { UnitConversion, getConversionError, getUnitLabel } from "@/utils/unitConversions";
+
+interface UnitConversionsEditorProps {
+  baseUnit: string;
+  basePrice: number;
+  conversions: UnitConversion[];
+  units: Array<{ value?: string; name?: string; label: string }>;
+  onChange: (conversions: UnitConversion[]) => void;
+}
+
+// Other units the product is bought or sold in; stock stays in the base unit
+export const UnitConversionsEditor = ({ baseUnit, basePrice, conversions, units, onChange }: UnitConversionsEditorProps) => {
+  const error = baseUnit ? getConversionError(baseUnit, conversions) : null;
+
+  const updateConversion = (index: number, changes: Partial<UnitConversion>) => {
+    onChange(conversions.map((conversion, i) => (i === index ? { ...conversion, ...changes } : conversion)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Unit Conversions</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!baseUnit}
+          onClick={() => onChange([...conversions, { unit: "", factor: 0, purchase: true, sale: true }])}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add Unit
+        </Button>
+      </div>
+      {!baseUnit && conversions.length === 0 && (
+        <p className="text-xs text-muted-foreground">Select the base unit first.</p>
+      )}
+      {conversions.map((conversion, index) => (
+        <div key={index} className="space-y-1 p-2 bg-muted/50 rounded-lg">
+          <div className="flex items-center gap-2">
+            <span className="text-sm">1</span>
+            <Select value={conversion.unit} onValueChange={(value) => updateConversion(index, { unit: value })}>
+              <SelectTrigger className="w-32 h-8">
+                <SelectValue placeholder="Unit" />
+              </SelectTrigger>
+              <SelectContent>
+                {units
+                  .filter((unit) => (unit.value || unit.name) !== baseUnit)
+                  .map((unit) => (
+                    <SelectItem key={unit.value || unit.name} value={unit.value || unit.name}>
+                      {unit.label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm">=</span>
+            <Input
+              type="number"
+              step="0.001"
+              min="0"
+              className="w-24 h-8"
+              value={conversion.factor || ''}
+              onChange={(e) => updateConversion(index, { factor: parseFloat(e.target.value) || 0 })}
+            />
+            <span className="text-sm text-muted-foreground">{getUnitLabel(baseUnit)}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 ml-auto"
+              onClick={() => onChange(conversions.filter((_, i) => i !== index))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-3">
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-32 h-8"
+              placeholder={`${((basePrice || 0) * (conversion.factor || 0)).toFixed(0)}`}
+              value={conversion.price || ''}
+              onChange={(e) => updateConversion(index, { price: parseFloat(e.target.value) || undefined })}
+            />
+            <span className="text-xs text-muted-foreground">Sale price (PKR)</span>
+            <label className="flex items-center gap-1 text-xs">
+              <Checkbox
+                checked={conversion.purchase !== false}
+                onCheckedChange={(checked) => updateConversion(index, { purchase: checked === true })}
+              />
+              Buy
+            </label>
+            <label className="flex items-center gap-1 text-xs">
+              <Checkbox
+                checked={conversion.sale !== false}
+                onCheckedChange={(checked) => updateConversion(index, { sale: checked === true })}
+              />
+              Sell
+            </label>
+          </div>
+        </div>
+      ))}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -14,6 +14,9 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { suppliersApi, productsApi, categoriesApi } from "@/services/api";
 import { generateSKU } from "@/utils/skuGenerator";
 import { units as predefinedUnits } from "@/data/storeData";
+import { useTaxSettings } from "@/hooks/useTaxSettings";
+import { calculateTax, formatTaxLabel } from "@/utils/taxEngine";
+import { UnitOption, getPurchaseUnits, getUnitLabel, toBaseQuantity } from "@/utils/unitConversions";
 
 interface PurchaseOrderFormProps {
   onSubmit: (data: any) => void;
@@ -24,14 +27,20 @@ interface PurchaseOrderFormProps {
 interface OrderItem {
   productId: string;
   productName: string;
-  quantity: number;
-  unitPrice: number;
+  category?: string;
+  quantity: number; // in the purchase unit
+  unitPrice: number; // per purchase unit
   total: number;
+  unit: string;
+  conversionFactor: number; // base units per purchase unit
+  baseUnit: string;
+  unitOptions: UnitOption[];
 }
 
 export const EnhancedPurchaseOrderForm = ({ onSubmit, onClose, isLoading }: PurchaseOrderFormProps) => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { purchaseTaxSettings } = useTaxSettings();
   const [step, setStep] = useState(1);
   const [selectedSupplier, setSelectedSupplier] = useState<any>(null);
   const [supplierSearch, setSupplierSearch] = useState("");
@@ -161,12 +170,18 @@ export const EnhancedPurchaseOrderForm = ({ onSubmit, onClose, isLoading }: Purc
       // Increase quantity if product already exists
       updateItemQuantity(product.id.toString(), existingItem.quantity + 1);
     } else {
+      const unitOptions = getPurchaseUnits(product);
       const newItem: OrderItem = {
         productId: product.id.toString(),
         productName: product.name,
+        category: product.category,
         quantity: 1,
         unitPrice: product.costPrice || product.price || 0,
-        total: product.costPrice || product.price || 0
+        total: product.costPrice || product.price || 0,
+        unit: unitOptions[0].unit,
+        conversionFactor: 1,
+        baseUnit: unitOptions[0].unit,
+        unitOptions
       };
       setItems([...items, newItem]);
     }
@@ -201,13 +216,28 @@ export const EnhancedPurchaseOrderForm = ({ onSubmit, onClose, isLoading }: Purc
     ));
   };
 
+  // Switch the purchase unit, carrying the cost over at the converted rate
+  const updateItemUnit = (productId: string, unit: string) => {
+    setItems(items.map(item => {
+      if (item.productId !== productId) return item;
+      const option = item.unitOptions.find(candidate => candidate.unit === unit);
+      if (!option) return item;
+      const unitPrice = Math.round((item.unitPrice / item.conversionFactor) * option.factor * 100) / 100;
+      return { ...item, unit, conversionFactor: option.factor, unitPrice, total: item.quantity * unitPrice };
+    }));
+  };
+
   const removeItem = (productId: string) => {
     setItems(items.filter(item => item.productId !== productId));
   };
 
-  const getTotalAmount = () => {
-    return items.reduce((sum, item) => sum + item.total, 0);
-  };
+  // Input tax on the order: the store's rates, on the purchase price basis
+  const getTaxResult = () => calculateTax(
+    items.map(item => ({ productId: item.productId, category: item.category, amount: item.total })),
+    purchaseTaxSettings
+  );
+
+  const getTotalAmount = () => getTaxResult().total;
 
   const handleSubmit = () => {
     if (!selectedSupplier) {
@@ -237,15 +267,27 @@ export const EnhancedPurchaseOrderForm = ({ onSubmit, onClose, isLoading }: Purc
       return;
     }
 
+    const taxResult = getTaxResult();
     const submitData = {
       supplierId: selectedSupplier.id,
       expectedDelivery,
       notes,
+      // Quantities go in base units so receiving adds the right stock; the purchase unit is kept for reference
       items: items.map(item => ({
         productId: parseInt(item.productId),
-        quantity: item.quantity,
-        unitPrice: item.unitPrice
-      }))
+        quantity: toBaseQuantity(item.quantity, item.conversionFactor),
+        unitPrice: Math.round((item.unitPrice / item.conversionFactor) * 10000) / 10000,
+        ...(item.conversionFactor !== 1 && {
+          purchaseUnit: item.unit,
+          purchaseQuantity: item.quantity,
+          purchaseUnitPrice: item.unitPrice,
+          conversionFactor: item.conversionFactor
+        })
+      })),
+      subtotal: taxResult.taxableAmount,
+      tax: taxResult.tax,
+      taxInclusive: taxResult.inclusive,
+      total: taxResult.total
     };
 
     onSubmit(submitData);
@@ -596,13 +638,32 @@ export const EnhancedPurchaseOrderForm = ({ onSubmit, onClose, isLoading }: Purc
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                               <div className="space-y-1">
                                 <Label className="text-sm font-medium text-gray-600">Quantity</Label>
-                                <Input
-                                  type="number"
-                                  value={item.quantity}
-                                  onChange={(e) => updateItemQuantity(item.productId, parseInt(e.target.value) || 0)}
-                                  className="h-10 border-2 border-gray-200 focus:border-green-400 rounded-lg"
-                                  min="1"
-                                />
+                                <div className="flex gap-2">
+                                  <Input
+                                    type="number"
+                                    value={item.quantity}
+                                    onChange={(e) => updateItemQuantity(item.productId, parseInt(e.target.value) || 0)}
+                                    className="h-10 border-2 border-gray-200 focus:border-green-400 rounded-lg"
+                                    min="1"
+                                  />
+                                  {item.unitOptions.length > 1 && (
+                                    <Select value={item.unit} onValueChange={(value) => updateItemUnit(item.productId, value)}>
+                                      <SelectTrigger className="h-10 w-28">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {item.unitOptions.map(option => (
+                                          <SelectItem key={option.unit} value={option.unit}>{getUnitLabel(option.unit)}</SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  )}
+                                </div>
+                                {item.conversionFactor !== 1 && (
+                                  <p className="text-xs text-muted-foreground">
+                                    = {toBaseQuantity(item.quantity, item.conversionFactor)} {getUnitLabel(item.baseUnit)} into stock
+                                  </p>
+                                )}
                               </div>
                               <div className="space-y-1">
                                 <Label className="text-sm font-medium text-gray-600">Unit Price (Rs.)</Label>
@@ -664,6 +725,12 @@ export const EnhancedPurchaseOrderForm = ({ onSubmit, onClose, isLoading }: Purc
                       Rs. {getTotalAmount().toLocaleString()}
                     </span>
                   </div>
+                  {getTaxResult().tax > 0 && (
+                    <div className="flex justify-between text-sm text-gray-600 mt-2">
+                      <span>{formatTaxLabel(getTaxResult())}</span>
+                      <span>Rs. {getTaxResult().tax.toLocaleString()}</span>
+                    </div>
+                  )}
                   <div className="mt-3 pt-3 border-t border-blue-200">
                     <div className="flex justify-between text-sm text-gray-600">
                       <span>Items: {items.length}</span>
@@ -7,6 +7,7 @@ import { Truck, Calendar, DollarSign, Edit2, Save, X, Loader2 } from "lucide-rea
 import { useToast } from "@/hooks/use-toast";
 import { purchaseOrdersApi } from "@/services/api";
 import { newFinanceApi } from "@/services/newFinanceApi";
+import { getReceivedBaseQuantity, getUnitLabel } from "@/utils/unitConversions";
 import { useQueryClient } from "@tanstack/react-query";
 
 interface PurchaseOrder {
@@ -23,6 +24,9 @@ interface PurchaseOrder {
     quantity: number;
     unitPrice: number;
     sku?: string;
+    purchaseUnit?: string;
+    purchaseQuantity?: number;
+    conversionFactor?: number;
   }>;
   total: number;
   notes?: string;
@@ -85,7 +89,7 @@ export const ExpandedPurchaseOrderRow = ({ order, onOrderUpdated }: ExpandedPurc
         const receiveData = {
           items: order.items.map((item) => ({
             productId: item.productId,
-            quantityReceived: item.quantity,
+            quantityReceived: getReceivedBaseQuantity(item),
             condition: "good"
           })),
           notes: statusNotes || "All items received in good condition"
@@ -296,6 +300,11 @@ export const ExpandedPurchaseOrderRow = ({ order, onOrderUpdated }: ExpandedPurc
                     </td>
                     <td className="px-3 py-2 text-center">
                       <Badge variant="secondary" className="text-xs">{item.quantity}</Badge>
+                      {item.purchaseUnit && (
+                        <p className="text-[10px] text-muted-foreground">
+                          {item.purchaseQuantity} {getUnitLabel(item.purchaseUnit)}
+                        </p>
+                      )}
                     </td>
                     <td className="px-3 py-2 text-right text-muted-foreground">
                       Rs. {item.unitPrice?.toLocaleString()}
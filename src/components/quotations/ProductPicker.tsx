@@ -8,6 +8,8 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, Command
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { productsApi } from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
+import { usePriceLists } from "@/hooks/usePriceLists";
+import { resolveCustomerPrice } from "@/utils/priceLists";
 
 interface Product {
   id: number;
@@ -16,6 +18,8 @@ interface Product {
   category?: string;
   price?: number;
   salePrice?: number;
+  listPrice?: number;
+  priceListLabel?: string;
   stock?: number;
 }
 
@@ -23,14 +27,16 @@ interface ProductPickerProps {
   selectedProduct: Product | null;
   onProductSelect: (product: Product) => void;
   onCreateNew?: () => void;
+  customer?: { priceType?: string; priceOverrides?: Record<string, number> } | null;
 }
 
-export default function ProductPicker({ selectedProduct, onProductSelect, onCreateNew }: ProductPickerProps) {
+export default function ProductPicker({ selectedProduct, onProductSelect, onCreateNew, customer }: ProductPickerProps) {
   const [open, setOpen] = useState(false);
   const [products, setProducts] = useState<Product[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { priceLists } = usePriceLists();
 
   useEffect(() => {
     const fetchProducts = async () => {
@@ -60,7 +66,23 @@ export default function ProductPicker({ selectedProduct, onProductSelect, onCrea
     }
   }, [open, searchTerm, toast]);
 
-  const filteredProducts = products.filter(product =>
+  // Price each product for the selected customer, keeping the catalogue price as listPrice
+  const priceProduct = (product: Product): Product => {
+    const resolved = resolveCustomerPrice(
+      { id: product.id, price: product.listPrice ?? (product.salePrice || product.price || 0) },
+      customer,
+      priceLists
+    );
+    return {
+      ...product,
+      price: resolved.price,
+      salePrice: resolved.price,
+      listPrice: resolved.listPrice,
+      priceListLabel: resolved.source === 'list' ? undefined : resolved.label,
+    };
+  };
+
+  const filteredProducts = products.map(priceProduct).filter(product =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     product.sku?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     product.category?.toLowerCase().includes(searchTerm.toLowerCase())
@@ -87,6 +109,9 @@ export default function ProductPicker({ selectedProduct, onProductSelect, onCrea
                   <div className="flex items-center space-x-2 text-sm text-gray-500">
                     {selectedProduct.sku && <span>SKU: {selectedProduct.sku}</span>}
                     <span>Rs. {selectedProduct.salePrice || selectedProduct.price || 0}</span>
+                    {selectedProduct.priceListLabel && (
+                      <span className="line-through">Rs. {selectedProduct.listPrice}</span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -145,6 +170,9 @@ export default function ProductPicker({ selectedProduct, onProductSelect, onCrea
                           <div className="flex items-center space-x-2 text-sm text-gray-500">
                             {product.sku && <span>SKU: {product.sku}</span>}
                             <span>• Rs. {product.salePrice || product.price || 0}</span>
+                            {product.priceListLabel && (
+                              <span className="line-through" title={product.priceListLabel}>Rs. {product.listPrice}</span>
+                            )}
                             {product.stock !== undefined && (
                               <span className={product.stock > 0 ? "text-green-600" : "text-red-600"}>
                                 • Stock: {product.stock}
@@ -11,6 +11,10 @@ import { Plus, Trash2, Calculator } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import CustomerPicker from "./CustomerPicker";
 import ProductPicker from "./ProductPicker";
+import { useTaxSettings } from "@/hooks/useTaxSettings";
+import { usePriceLists } from "@/hooks/usePriceLists";
+import { resolveCustomerPrice } from "@/utils/priceLists";
+import { allocateDocumentDiscount, calculateTax, formatTaxLabel, isCustomerTaxExempt } from "@/utils/taxEngine";
 
 const quotationSchema = z.object({
   customerId: z.number().min(1, "Customer is required"),
@@ -37,6 +41,8 @@ export default function QuotationForm({ quotation, onSubmit, onCancel, isLoading
   const [selectedCustomer, setSelectedCustomer] = useState<any>(null);
   const [selectedProducts, setSelectedProducts] = useState<{ [key: number]: any }>({});
   const { toast } = useToast();
+  const { priceLists } = usePriceLists();
+  const { taxSettings } = useTaxSettings();
 
   // Set default valid until date (30 days from now)
   const getDefaultValidUntil = () => {
@@ -95,6 +101,27 @@ export default function QuotationForm({ quotation, onSubmit, onCancel, isLoading
   const handleCustomerSelect = (customer: any) => {
     setSelectedCustomer(customer);
     form.setValue("customerId", Number(customer.id)); // Ensure it's a number!
+
+    // Re-price already chosen products for the new customer's price list
+    const repriced = { ...selectedProducts };
+    Object.entries(selectedProducts).forEach(([key, product]) => {
+      if (!product) return;
+      const index = Number(key);
+      const resolved = resolveCustomerPrice(
+        { id: product.id, price: product.listPrice ?? (product.salePrice || product.price || 0) },
+        customer,
+        priceLists
+      );
+      repriced[index] = {
+        ...product,
+        price: resolved.price,
+        salePrice: resolved.price,
+        listPrice: resolved.listPrice,
+        priceListLabel: resolved.source === 'list' ? undefined : resolved.label,
+      };
+      form.setValue(`items.${index}.unitPrice`, resolved.price);
+    });
+    setSelectedProducts(repriced);
   };
 
   const handleProductSelect = (index: number, product: any) => {
@@ -110,10 +137,16 @@ export default function QuotationForm({ quotation, onSubmit, onCancel, isLoading
     }, 0);
   };
 
-  const calculateTotal = () => {
-    const subtotal = calculateSubtotal();
+  // Tax on the discounted lines, using the same store rules as the POS
+  const calculateTaxResult = () => {
+    const items = form.watch("items");
     const discount = form.watch("discount") || 0;
-    return subtotal - discount;
+    const lines = items.map((item, index) => ({
+      productId: item.productId,
+      category: selectedProducts[index]?.category,
+      amount: item.quantity * item.unitPrice,
+    }));
+    return calculateTax(allocateDocumentDiscount(lines, discount), taxSettings, isCustomerTaxExempt(selectedCustomer));
   };
 
   const handleSubmit = (data: QuotationFormData) => {
@@ -128,12 +161,17 @@ export default function QuotationForm({ quotation, onSubmit, onCancel, isLoading
         quantity: Number(item.quantity),
       })),
       discount: Number(data.discount) || 0,
+      tax: taxResult.tax,
+      taxInclusive: taxResult.inclusive,
+      total: taxResult.total,
       notes: data.notes || "",
     };
 
     onSubmit(formattedData);
   };
 
+  const taxResult = calculateTaxResult();
+
   const addNewItem = () => {
     append({ productId: 0, quantity: 1, unitPrice: 0 });
   };
@@ -214,6 +252,7 @@ export default function QuotationForm({ quotation, onSubmit, onCancel, isLoading
                   <ProductPicker
                     selectedProduct={selectedProducts[index] || null}
                     onProductSelect={(product) => handleProductSelect(index, product)}
+                    customer={selectedCustomer}
                   />
                 </div>
 
@@ -237,6 +276,12 @@ export default function QuotationForm({ quotation, onSubmit, onCancel, isLoading
                     className="h-[50px]"
                     {...form.register(`items.${index}.unitPrice`, { valueAsNumber: true })}
                   />
+                  {selectedProducts[index]?.priceListLabel && (
+                    <p className="text-xs text-muted-foreground">
+                      {selectedProducts[index].priceListLabel} · List{" "}
+                      <span className="line-through">Rs. {selectedProducts[index].listPrice}</span>
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -290,9 +335,19 @@ export default function QuotationForm({ quotation, onSubmit, onCancel, isLoading
                 <span>Discount:</span>
                 <span className="font-medium">Rs. {(form.watch("discount") || 0).toFixed(2)}</span>
               </div>
+              {(taxResult.tax > 0 || taxResult.exempt) && (
+                <div className="flex justify-between text-lg">
+                  <span>{formatTaxLabel(taxResult)}:</span>
+                  <span className="font-medium">
+                    {taxResult.exemptAmount > 0
+                      ? `-Rs. ${taxResult.exemptAmount.toFixed(2)}`
+                      : `Rs. ${taxResult.tax.toFixed(2)}`}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between text-xl font-bold border-t pt-4">
                 <span>Total:</span>
-                <span className="text-green-600">Rs. {calculateTotal().toFixed(2)}</span>
+                <span className="text-green-600">Rs. {taxResult.total.toFixed(2)}</span>
               </div>
             </div>
           </div>
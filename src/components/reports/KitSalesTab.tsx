@@ -0,0 +1,111 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Boxes, Layers, TrendingUp } from "lucide-react";
+import { KitComponentSales } from "@/utils/kits";
+
+interface KitSalesTabProps {
+  data: KitComponentSales[];
+  isLoading: boolean;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-PK', {
+    style: 'currency',
+    currency: 'PKR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+export function KitSalesTab({ data, isLoading }: KitSalesTabProps) {
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!data.length) {
+    return (
+      <div className="flex items-center justify-center h-64 text-muted-foreground">
+        No kits sold this month
+      </div>
+    );
+  }
+
+  const totalRevenue = data.reduce((sum, row) => sum + row.allocatedRevenue, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Kit Sales</h2>
+          <p className="text-muted-foreground">
+            Kit revenue split across the components sold inside them, this month
+          </p>
+        </div>
+        <Badge variant="secondary" className="px-3 py-1">
+          <Layers className="h-3 w-3 mr-1" />
+          {data.length} Components
+        </Badge>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Kit Revenue</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totalRevenue)}</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Top Component</CardTitle>
+            <Boxes className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-lg font-bold truncate">{data[0].productName}</div>
+            <p className="text-xs text-muted-foreground">{formatCurrency(data[0].allocatedRevenue)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Allocated Component Revenue</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Component</TableHead>
+                <TableHead className="text-right">Kit Lines</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Allocated Revenue</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.map(row => (
+                <TableRow key={row.productId}>
+                  <TableCell className="font-medium">{row.productName}</TableCell>
+                  <TableCell className="text-right">{row.kitLines}</TableCell>
+                  <TableCell className="text-right">
+                    {row.quantity.toLocaleString()}{row.unit ? ` ${row.unit}` : ''}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(row.allocatedRevenue)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,9 +8,11 @@ import {
   TrendingUp, 
   CreditCard, 
   Banknote, 
-  Building2 
+  Building2,
+  Percent
 } from "lucide-react";
 import { MonthlySalesOverview } from "@/services/reportsApi";
+import { DISCOUNT_REASON_LABELS, DiscountReasonCode } from "@/utils/discounts";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
 
 interface SalesOverviewTabProps {
@@ -58,6 +60,12 @@ export function SalesOverviewTab({ data, isLoading }: SalesOverviewTabProps) {
     { name: 'Bank Transfer', value: latestData.bank_transfer_orders, color: 'hsl(var(--chart-3))' },
   ];
 
+  const grossSales = parseFloat(latestData.total_subtotal) || 0;
+  const totalDiscount = parseFloat(latestData.total_discount) || 0;
+  const discountRate = grossSales > 0 ? (totalDiscount / grossSales) * 100 : 0;
+  const discountByReason = [...(latestData.discount_by_reason || [])]
+    .sort((a, b) => parseFloat(b.total_discount) - parseFloat(a.total_discount));
+
   const customerTypeData = [
     { name: 'Permanent', value: parseFloat(latestData.permanent_customer_revenue), color: 'hsl(var(--chart-1))' },
     { name: 'Semi-Permanent', value: parseFloat(latestData.semi_permanent_customer_revenue), color: 'hsl(var(--chart-2))' },
@@ -126,7 +134,7 @@ export function SalesOverviewTab({ data, isLoading }: SalesOverviewTabProps) {
           <CardContent>
             <div className="text-2xl font-bold">{formatCurrency(latestData.total_discount)}</div>
             <p className="text-xs text-muted-foreground">
-              Tax: {formatCurrency(latestData.total_tax)}
+              {discountRate.toFixed(1)}% of gross sales · Tax: {formatCurrency(latestData.total_tax)}
             </p>
           </CardContent>
         </Card>
@@ -237,6 +245,56 @@ export function SalesOverviewTab({ data, isLoading }: SalesOverviewTabProps) {
           </CardContent>
         </Card>
       </div>
+
+      {/* Discounts Given Away */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            Discounts by Reason
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3 mb-4">
+            <div>
+              <p className="text-xs text-muted-foreground">Gross Sales</p>
+              <p className="text-lg font-semibold">{formatCurrency(grossSales)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Line Discounts</p>
+              <p className="text-lg font-semibold">{formatCurrency(latestData.line_discount_total || 0)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Cart Discounts</p>
+              <p className="text-lg font-semibold">{formatCurrency(latestData.cart_discount_total || 0)}</p>
+            </div>
+          </div>
+          {discountByReason.length > 0 ? (
+            <div className="space-y-2">
+              {discountByReason.map((row) => {
+                const amount = parseFloat(row.total_discount) || 0;
+                const share = totalDiscount > 0 ? (amount / totalDiscount) * 100 : 0;
+                return (
+                  <div key={row.reason} className="space-y-1">
+                    <div className="flex justify-between items-center text-sm">
+                      <span>
+                        {DISCOUNT_REASON_LABELS[row.reason as DiscountReasonCode] || row.reason}
+                        <span className="text-muted-foreground"> · {row.discount_count} times</span>
+                      </span>
+                      <span className="font-medium">{formatCurrency(amount)}</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                      <div className="h-full bg-pink-500" style={{ width: `${share}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No discount reasons recorded for this month</p>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -7,8 +7,19 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { ShoppingCart, User, X, Plus, Minus, UserPlus, Edit2, CreditCard, ChevronRight, ChevronLeft, ExternalLink } from "lucide-react";
+import { ShoppingCart, User, X, Plus, Minus, UserPlus, Edit2, CreditCard, ChevronRight, ChevronLeft, ExternalLink, Percent, History, RotateCcw } from "lucide-react";
 import { OutsourcingModal } from "./OutsourcingModal";
+import { SplitTenderPanel } from "./SplitTenderPanel";
+import { CashTenderPad } from "./CashTenderPad";
+import { CreditNoteRedeemer } from "./CreditNoteRedeemer";
+import { DiscountPopover } from "./DiscountPopover";
+import { PaymentTender, TENDER_METHOD_LABELS, TenderMethod, getCashTender, getTenderAmount, getTenderBalance, roundCurrency } from "@/utils/paymentTenders";
+import { AppliedCreditNote } from "@/utils/creditNotes";
+import { CreditStanding, getCreditCheck, hasCreditLimit } from "@/utils/creditLimit";
+import { TaxResult, formatTaxLabel } from "@/utils/taxEngine";
+import { UnitOption, getUnitLabel } from "@/utils/unitConversions";
+import { Discount, formatDiscount, getCartTotals, getLineDiscountAmount, getLineGrossTotal, getLineNetTotal } from "@/utils/discounts";
+import { HistorySale, LastSoldPrice, formatHistoryDate, getLastSoldLinePrice } from "@/utils/purchaseHistory";
 
 interface CartItem {
   productId: number;
@@ -18,11 +29,17 @@ interface CartItem {
   sku: string;
   unit: string;
   adjustedPrice?: number; // For price negotiations
+  listPrice?: number; // Catalogue price when a customer price list applies
+  priceListLabel?: string;
+  tierLabel?: string; // Quantity tier in effect
+  unitOptions?: UnitOption[]; // Units this product can be sold in
+  conversionFactor?: number;
   // Outsourcing fields
   isOutsourced?: boolean;
   outsourcingSupplierId?: number;
   outsourcingCostPerUnit?: number;
   outsourcingSupplierName?: string;
+  discount?: Discount;
 }
 
 interface CartSidebarProps {
@@ -41,11 +58,28 @@ interface CartSidebarProps {
   onSetOrderStatus: (status: string) => void;
   onSetPaymentMethod: (method: string) => void;
   onUpdateCartQuantity: (productId: number, quantity: number) => void;
+  onUpdateCartUnit?: (productId: number, unit: string) => void;
   onRemoveFromCart: (productId: number) => void;
   onCheckout: () => void;
   onUpdateItemPrice?: (productId: number, newPrice: number) => void;
   onToggleCollapse?: () => void;
   onOutsourceItem?: (productId: number, data: { supplierId: number; costPerUnit: number; notes?: string }) => void;
+  isSplitPayment?: boolean;
+  tenders?: PaymentTender[];
+  onSetIsSplitPayment?: (isSplit: boolean) => void;
+  onSetTenders?: (tenders: PaymentTender[]) => void;
+  cashTendered?: string;
+  onSetCashTendered?: (tendered: string) => void;
+  cartDiscount?: Discount | null;
+  tax?: TaxResult;
+  onUpdateItemDiscount?: (productId: number, discount: Discount | null) => void;
+  onSetCartDiscount?: (discount: Discount | null) => void;
+  creditNote?: AppliedCreditNote | null;
+  onSetCreditNote?: (creditNote: AppliedCreditNote | null) => void;
+  creditStanding?: CreditStanding | null;
+  lastSoldPrices?: Record<number, LastSoldPrice>;
+  lastOrder?: HistorySale | null;
+  onReorderLastPurchase?: () => void;
 }
 
 export const CartSidebar: React.FC<CartSidebarProps> = ({
@@ -64,11 +98,28 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
   onSetOrderStatus,
   onSetPaymentMethod,
   onUpdateCartQuantity,
+  onUpdateCartUnit,
   onRemoveFromCart,
   onCheckout,
   onUpdateItemPrice,
   onToggleCollapse,
-  onOutsourceItem
+  onOutsourceItem,
+  isSplitPayment = false,
+  tenders = [],
+  onSetIsSplitPayment,
+  onSetTenders,
+  cashTendered = "",
+  onSetCashTendered,
+  cartDiscount = null,
+  tax,
+  onUpdateItemDiscount,
+  onSetCartDiscount,
+  creditNote = null,
+  onSetCreditNote,
+  creditStanding = null,
+  lastSoldPrices = {},
+  lastOrder = null,
+  onReorderLastPurchase
 }) => {
   const [priceEditingItem, setPriceEditingItem] = useState<number | null>(null);
   const [tempPrice, setTempPrice] = useState<string>("");
@@ -76,11 +127,37 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
   const [outsourcingModalOpen, setOutsourcingModalOpen] = useState(false);
   const [selectedOutsourcingItem, setSelectedOutsourcingItem] = useState<CartItem | null>(null);
 
-  const getCartTotal = () => {
-    return cart.reduce((total, item) => {
-      const finalPrice = item.adjustedPrice || item.price;
-      return total + (finalPrice * item.quantity);
-    }, 0);
+  const cartTotals = getCartTotals(cart, cartDiscount);
+
+  const getCartTotal = () => (tax ? tax.total : cartTotals.total);
+
+  // Left to pay after any credit note being redeemed
+  const creditNoteAmount = creditNote ? Math.min(creditNote.amount, getCartTotal()) : 0;
+  const getAmountDue = () => roundCurrency(getCartTotal() - creditNoteAmount);
+
+  const tenderBalance = isSplitPayment ? getTenderBalance(tenders, getAmountDue()) : 0;
+
+  // Cash part of the sale, counted against what the customer hands over
+  const cashDue = isSplitPayment ? getTenderAmount(tenders, 'cash') : paymentMethod === 'cash' ? getAmountDue() : 0;
+  const isCashShort = cashDue > 0 && getCashTender(cashTendered, cashDue).change < 0;
+
+  // Headroom on the customer's credit limit, including what this sale puts on account
+  const creditDue = isSplitPayment ? getTenderAmount(tenders, 'credit') : paymentMethod === 'credit' ? getAmountDue() : 0;
+  const creditCheck = creditStanding ? getCreditCheck(creditStanding, creditDue) : null;
+
+  const getCheckoutLabel = () => {
+    if (creditNoteAmount > 0 && getAmountDue() === 0) return TENDER_METHOD_LABELS.store_credit;
+    if (isSplitPayment) return 'Split';
+    return TENDER_METHOD_LABELS[paymentMethod as TenderMethod] || paymentMethod;
+  };
+
+  const handleSplitToggle = () => {
+    if (!onSetIsSplitPayment || !onSetTenders) return;
+    if (!isSplitPayment) {
+      // Start with the whole total on the currently selected method
+      onSetTenders([{ method: paymentMethod as TenderMethod, amount: getAmountDue() }]);
+    }
+    onSetIsSplitPayment(!isSplitPayment);
   };
 
   const handlePriceEdit = (item: CartItem) => {
@@ -212,6 +289,31 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
                 <div>
                   <p className="font-medium text-blue-900 dark:text-blue-200 text-sm">{selectedCustomer.name}</p>
                   <p className="text-xs text-blue-700 dark:text-blue-300">{selectedCustomer.phone}</p>
+                  {creditCheck && (
+                    <p className="text-xs text-muted-foreground">
+                      Balance PKR {creditCheck.balance.toLocaleString()}
+                      {hasCreditLimit(creditCheck) ? ` · Headroom PKR ${creditCheck.headroom.toLocaleString()}` : ' · No credit limit'}
+                    </p>
+                  )}
+                  {creditCheck && hasCreditLimit(creditCheck) && creditDue > 0 && (
+                    <p className={`text-xs font-medium ${creditCheck.exceededBy > 0 ? 'text-red-600' : 'text-green-700 dark:text-green-400'}`}>
+                      {creditCheck.exceededBy > 0
+                        ? `Over limit by PKR ${creditCheck.exceededBy.toLocaleString()} - manager PIN needed`
+                        : `After sale: PKR ${creditCheck.headroomAfter.toLocaleString()} left`}
+                    </p>
+                  )}
+                  {lastOrder && onReorderLastPurchase && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      onClick={onReorderLastPurchase}
+                      className="h-5 p-0 text-xs"
+                      title={`${lastOrder.items.length} item(s) on ${formatHistoryDate(lastOrder.createdAt || lastOrder.date)}`}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Reorder last purchase ({lastOrder.orderNumber})
+                    </Button>
+                  )}
                 </div>
                 <Button
                   variant="ghost"
@@ -249,18 +351,58 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
         </div>
         <div className="p-1 border-b border-border bg-muted/50 flex-shrink-0">
           <div className="space-y-2">
-
-            <Select value={paymentMethod} onValueChange={onSetPaymentMethod}>
-              <SelectTrigger className="h-8 text-xs bg-background border-input">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="cash">Cash</SelectItem>
-                <SelectItem value="credit">Credit</SelectItem>
-                <SelectItem value="card">Card</SelectItem>
-                <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
-              </SelectContent>
-            </Select>
+            {onSetCreditNote && cart.length > 0 && (
+              <CreditNoteRedeemer
+                cartTotal={getCartTotal()}
+                applied={creditNote}
+                onApply={onSetCreditNote}
+              />
+            )}
+            <div className="flex gap-1">
+              {isSplitPayment ? (
+                <div className="flex-1 h-8 flex items-center px-2 text-xs font-medium text-card-foreground">
+                  Split payment
+                </div>
+              ) : (
+                <Select value={paymentMethod} onValueChange={onSetPaymentMethod}>
+                  <SelectTrigger className="h-8 text-xs bg-background border-input flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="credit">Credit</SelectItem>
+                    <SelectItem value="card">Card</SelectItem>
+                    <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {onSetIsSplitPayment && (
+                <Button
+                  variant={isSplitPayment ? "default" : "outline"}
+                  size="sm"
+                  onClick={handleSplitToggle}
+                  className="h-8 px-2 text-xs"
+                  title={isSplitPayment ? "Use a single payment method" : "Split across several payment methods"}
+                >
+                  <CreditCard className="h-3 w-3 mr-1" />
+                  Split
+                </Button>
+              )}
+            </div>
+            {isSplitPayment && onSetTenders && (
+              <SplitTenderPanel
+                tenders={tenders}
+                total={getAmountDue()}
+                onChange={onSetTenders}
+              />
+            )}
+            {onSetCashTendered && cashDue > 0 && cart.length > 0 && (
+              <CashTenderPad
+                cashDue={cashDue}
+                tendered={cashTendered}
+                onChange={onSetCashTendered}
+              />
+            )}
           </div>
         </div>
         <div className="p-1 border-b border-border bg-muted/50 flex-shrink-0">
@@ -273,6 +415,7 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
               <SelectContent>
                 <SelectItem value="completed">Completed</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="layaway">Layaway / Advance</SelectItem>
                 <SelectItem value="cancelled">Cancelled</SelectItem>
               </SelectContent>
             </Select>
@@ -372,6 +515,16 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
                        <span className="text-xs font-medium">
                          PKR {(item.adjustedPrice || item.price).toLocaleString()} / {item.unit}
                        </span>
+                       {item.listPrice !== undefined && item.listPrice !== item.price && (
+                         <span className="text-[10px] text-muted-foreground" title={item.priceListLabel}>
+                           <span className="line-through">{item.listPrice.toLocaleString()}</span> list
+                         </span>
+                       )}
+                       {item.tierLabel && !item.adjustedPrice && (
+                         <Badge variant="outline" className="h-4 px-1 text-[10px] border-emerald-300 text-emerald-700">
+                           {item.tierLabel}
+                         </Badge>
+                       )}
                        <Button
                          variant="ghost"
                          size="sm"
@@ -381,6 +534,23 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
                        >
                          <Edit2 className="h-2.5 w-2.5" />
                        </Button>
+                       {onUpdateItemDiscount && (
+                         <DiscountPopover
+                           title={`Discount on ${item.name}`}
+                           discount={item.discount}
+                           baseAmount={getLineGrossTotal(item)}
+                           onApply={(discount) => onUpdateItemDiscount(item.productId, discount)}
+                         >
+                           <Button
+                             variant="ghost"
+                             size="sm"
+                             className={`h-4 w-4 p-0 ${item.discount ? 'text-pink-600 hover:text-pink-800' : 'text-gray-600 hover:text-pink-600'}`}
+                             title="Line discount"
+                           >
+                             <Percent className="h-2.5 w-2.5" />
+                           </Button>
+                         </DiscountPopover>
+                       )}
                        <Button
                          variant="ghost"
                          size="sm"
@@ -404,6 +574,27 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
                      )}
                    </div>
                     )}
+                    {lastSoldPrices[item.productId] && (() => {
+                      const lastSold = lastSoldPrices[item.productId];
+                      const lastPrice = getLastSoldLinePrice(lastSold, item);
+                      const isCurrent = lastPrice === (item.adjustedPrice || item.price);
+                      return (
+                        <div className="flex items-center gap-1 text-[10px] text-muted-foreground" title={`Order ${lastSold.orderNumber}`}>
+                          <History className="h-2.5 w-2.5" />
+                          <span>Last sold at PKR {lastPrice.toLocaleString()} on {formatHistoryDate(lastSold.date)}</span>
+                          {!isCurrent && onUpdateItemPrice && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              onClick={() => onUpdateItemPrice(item.productId, lastPrice)}
+                              className="h-3 p-0 text-[10px]"
+                            >
+                              Apply
+                            </Button>
+                          )}
+                        </div>
+                      );
+                    })()}
                   </div>
 
                   <div className="space-y-2">
@@ -426,12 +617,40 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
                         >
                           <Plus className="h-3 w-3" />
                         </Button>
+                        {onUpdateCartUnit && item.unitOptions && item.unitOptions.length > 1 && (
+                          <Select value={item.unit} onValueChange={(unit) => onUpdateCartUnit(item.productId, unit)}>
+                            <SelectTrigger className="h-6 w-20 px-1 text-[10px]" title="Sell in unit">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {item.unitOptions.map(option => (
+                                <SelectItem key={option.unit} value={option.unit} className="text-xs">
+                                  {getUnitLabel(option.unit)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        {item.discount && (
+                          <p className="text-[10px] text-muted-foreground line-through">
+                            PKR {getLineGrossTotal(item).toLocaleString()}
+                          </p>
+                        )}
+                        <p className="font-semibold text-blue-600 text-xs">
+                          PKR {getLineNetTotal(item).toLocaleString()}
+                        </p>
                       </div>
-                      <p className="font-semibold text-blue-600 text-xs">
-                        PKR {((item.adjustedPrice || item.price) * item.quantity).toLocaleString()}
-                      </p>
                     </div>
 
+                    {item.discount && (
+                      <div className="flex justify-between text-xs text-pink-600 dark:text-pink-400">
+                        <span>Disc: {formatDiscount(item.discount)}</span>
+                        <span>-PKR {getLineDiscountAmount(item).toLocaleString()}</span>
+                      </div>
+                    )}
+
 
                     {/* Outsourcing Details */}
                     {item.isOutsourced && (
@@ -470,20 +689,75 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
       {cart.length > 0 && (
         <div className="p-3 border-t border-border bg-card flex-shrink-0 sticky bottom-0 z-50 w-full">
           <div className="space-y-2 mb-3">
+            {cartTotals.discountTotal > 0 && (
+              <div className="space-y-1 text-xs">
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Subtotal:</span>
+                  <span>PKR {cartTotals.subtotal.toLocaleString()}</span>
+                </div>
+                {cartTotals.lineDiscountTotal > 0 && (
+                  <div className="flex justify-between text-pink-600 dark:text-pink-400">
+                    <span>Line discounts:</span>
+                    <span>-PKR {cartTotals.lineDiscountTotal.toLocaleString()}</span>
+                  </div>
+                )}
+                {cartDiscount && (
+                  <div className="flex justify-between text-pink-600 dark:text-pink-400">
+                    <span>Cart: {formatDiscount(cartDiscount)}</span>
+                    <span>-PKR {cartTotals.cartDiscountAmount.toLocaleString()}</span>
+                  </div>
+                )}
+              </div>
+            )}
+            {tax && (tax.tax > 0 || tax.exemptAmount > 0 || tax.exempt) && (
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{formatTaxLabel(tax)}:</span>
+                <span>
+                  {tax.exemptAmount > 0
+                    ? `-PKR ${tax.exemptAmount.toLocaleString()}`
+                    : `${tax.inclusive ? '' : '+'}PKR ${tax.tax.toLocaleString()}`}
+                </span>
+              </div>
+            )}
+            {onSetCartDiscount && (
+              <DiscountPopover
+                title="Cart discount"
+                discount={cartDiscount}
+                baseAmount={cartTotals.subtotal - cartTotals.lineDiscountTotal}
+                onApply={onSetCartDiscount}
+              >
+                <Button variant="outline" size="sm" className="w-full h-7 text-xs bg-background">
+                  <Percent className="h-3 w-3 mr-1" />
+                  {cartDiscount ? 'Edit cart discount' : 'Add cart discount'}
+                </Button>
+              </DiscountPopover>
+            )}
             <div>
               <div className="flex justify-between font-bold">
                 <span className="text-sm text-card-foreground">Total:</span>
                 <span className="text-green-600 text-sm">PKR {getCartTotal().toLocaleString()}</span>
               </div>
+              {creditNoteAmount > 0 && (
+                <div className="space-y-1 text-xs">
+                  <div className="flex justify-between text-purple-600 dark:text-purple-400">
+                    <span>Credit note {creditNote?.note.note_number}:</span>
+                    <span>-PKR {creditNoteAmount.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span className="text-card-foreground">Amount due:</span>
+                    <span>PKR {getAmountDue().toLocaleString()}</span>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
           <Button
             onClick={onCheckout}
-            disabled={isProcessingSale}
+            disabled={isProcessingSale || tenderBalance !== 0 || isCashShort}
             className="w-full bg-green-600 hover:bg-green-700 text-white h-10 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
             size="lg"
           >
-            {isProcessingSale ? 'Processing Sale...' : `Complete Sale (${paymentMethod === 'cash' ? 'Cash' : paymentMethod === 'credit' ? 'Credit' : 'Card'})`}
+            {isProcessingSale ? 'Processing Sale...' : `Complete Sale (${getCheckoutLabel()})`}
           </Button>
         </div>
       )}
@@ -496,9 +770,18 @@ export const CartSidebar: React.FC<CartSidebarProps> = ({
           </DialogHeader>
           <div className="space-y-3">
             <Input
+              autoFocus
               placeholder="Search customers..."
               value={customerSearchTerm}
               onChange={(e) => setCustomerSearchTerm(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter picks the top match so the dialog works without the mouse
+                if (e.key === 'Enter' && filteredCustomers.length > 0) {
+                  onSetSelectedCustomer(filteredCustomers[0]);
+                  onSetIsCustomerDialogOpen(false);
+                  setCustomerSearchTerm("");
+                }
+              }}
               className="mb-4 bg-background border-input"
             />
             <div className="max-h-60 overflow-y-auto space-y-2">
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+import { CASH_QUICK_NOTES, getCashTender, getSuggestedCashAmounts, roundCurrency } from "@/utils/paymentTenders";
+
+interface CashTenderPadProps {
+  cashDue: number;
+  tendered: string;
+  onChange: (tendered: string) => void;
+}
+
+export const CashTenderPad: React.FC<CashTenderPadProps> = ({
+  cashDue,
+  tendered,
+  onChange
+}) => {
+  const { change } = getCashTender(tendered, cashDue);
+  const isShort = change < 0;
+
+  // Each note tap adds to what has been counted so far
+  const addNote = (note: number) => {
+    const current = parseFloat(tendered) || 0;
+    onChange(roundCurrency(current + note).toString());
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-muted-foreground whitespace-nowrap">Cash received</span>
+        <Input
+          type="number"
+          min="0"
+          step="1"
+          inputMode="decimal"
+          placeholder={cashDue.toLocaleString()}
+          value={tendered}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-7 text-xs bg-background border-input flex-1"
+        />
+        {tendered !== '' && (
+          <Button variant="ghost" size="sm" onClick={() => onChange('')} className="h-7 w-7 p-0" title="Clear">
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-1">
+        {CASH_QUICK_NOTES.map(note => (
+          <Button
+            key={note}
+            variant="outline"
+            size="sm"
+            onClick={() => addNote(note)}
+            className="h-6 px-1 text-[10px] bg-background"
+          >
+            +{note.toLocaleString()}
+          </Button>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange(cashDue.toString())}
+          className="h-6 px-1 text-[10px] bg-background"
+        >
+          Exact
+        </Button>
+      </div>
+      {getSuggestedCashAmounts(cashDue).length > 0 && (
+        <div className="flex gap-1">
+          {getSuggestedCashAmounts(cashDue).map(amount => (
+            <Button
+              key={amount}
+              variant="secondary"
+              size="sm"
+              onClick={() => onChange(amount.toString())}
+              className="h-6 flex-1 px-1 text-[10px]"
+            >
+              {amount.toLocaleString()}
+            </Button>
+          ))}
+        </div>
+      )}
+      <div className={`flex justify-between text-xs font-medium ${isShort ? 'text-red-600' : 'text-green-600'}`}>
+        <span>{isShort ? 'Short:' : 'Change due:'}</span>
+        <span>PKR {Math.abs(change).toLocaleString()}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Ticket, X, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { creditNoteApi } from "@/services/creditNoteApi";
+import {
+  AppliedCreditNote,
+  getCreditNoteError,
+  getRedeemableAmount,
+  normalizeCreditNoteCode
+} from "@/utils/creditNotes";
+
+interface CreditNoteRedeemerProps {
+  cartTotal: number;
+  applied: AppliedCreditNote | null;
+  onApply: (applied: AppliedCreditNote | null) => void;
+}
+
+export const CreditNoteRedeemer: React.FC<CreditNoteRedeemerProps> = ({
+  cartTotal,
+  applied,
+  onApply
+}) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isEntering, setIsEntering] = useState(false);
+
+  const handleLookup = async () => {
+    if (!code.trim()) return;
+    setIsLookingUp(true);
+    try {
+      const response = await creditNoteApi.getByCode(normalizeCreditNoteCode(code));
+      const note = response.success ? response.data : null;
+      if (!note) {
+        toast({
+          title: "Credit Note Not Found",
+          description: "Check the code printed on the credit note",
+          variant: "destructive"
+        });
+        return;
+      }
+      const error = getCreditNoteError(note);
+      if (error) {
+        toast({ title: "Credit Note Not Usable", description: error, variant: "destructive" });
+        return;
+      }
+      onApply({ note, amount: getRedeemableAmount(note, cartTotal) });
+      setCode("");
+      setIsEntering(false);
+    } catch (error) {
+      console.error('Failed to look up credit note:', error);
+      toast({
+        title: "Lookup Failed",
+        description: "Could not check the credit note",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  if (applied) {
+    return (
+      <div className="space-y-1 rounded-md border border-purple-200 bg-purple-50 dark:bg-purple-950/30 p-2">
+        <div className="flex items-center gap-1 text-xs">
+          <Ticket className="h-3 w-3 text-purple-600" />
+          <span className="font-medium text-purple-700 dark:text-purple-300">{applied.note.note_number}</span>
+          <span className="text-muted-foreground">PKR {Number(applied.note.balance).toLocaleString()} available</span>
+          <Button variant="ghost" size="sm" onClick={() => onApply(null)} className="ml-auto h-5 w-5 p-0" title="Remove credit note">
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-muted-foreground whitespace-nowrap">Use</span>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={applied.amount || ''}
+            onChange={(e) => onApply({ ...applied, amount: getRedeemableAmount(applied.note, cartTotal, parseFloat(e.target.value) || 0) })}
+            className="h-7 text-xs bg-background border-input flex-1"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (!isEntering) {
+    return (
+      <Button variant="outline" size="sm" onClick={() => setIsEntering(true)} className="w-full h-7 text-xs bg-background">
+        <Ticket className="h-3 w-3 mr-1" />
+        Redeem credit note
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Input
+        autoFocus
+        placeholder="Credit note code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleLookup();
+          if (e.key === 'Escape') setIsEntering(false);
+        }}
+        className="h-7 text-xs bg-background border-input flex-1 uppercase"
+      />
+      <Button size="sm" onClick={handleLookup} disabled={isLookingUp || !code.trim()} className="h-7 px-2 text-xs">
+        {isLookingUp ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Apply'}
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => setIsEntering(false)} className="h-7 w-7 p-0">
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
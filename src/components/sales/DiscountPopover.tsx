@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Discount,
+  DiscountReasonCode,
+  DiscountType,
+  DISCOUNT_REASON_CODES,
+  DISCOUNT_REASON_LABELS,
+  calculateDiscountAmount
+} from "@/utils/discounts";
+
+interface DiscountPopoverProps {
+  title: string;
+  discount?: Discount | null;
+  baseAmount: number;
+  onApply: (discount: Discount | null) => void;
+  children: React.ReactNode;
+}
+
+export const DiscountPopover: React.FC<DiscountPopoverProps> = ({
+  title,
+  discount,
+  baseAmount,
+  onApply,
+  children
+}) => {
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<DiscountType>(discount?.type || 'percentage');
+  const [value, setValue] = useState<string>(discount?.value ? discount.value.toString() : '');
+  const [reason, setReason] = useState<DiscountReasonCode>(discount?.reason || 'bulk_order');
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      // Reset the form to the currently applied discount each time it opens
+      setType(discount?.type || 'percentage');
+      setValue(discount?.value ? discount.value.toString() : '');
+      setReason(discount?.reason || 'bulk_order');
+    }
+    setOpen(isOpen);
+  };
+
+  const numericValue = parseFloat(value);
+  const isValid = !isNaN(numericValue) && numericValue > 0 && (type === 'fixed' || numericValue <= 100);
+  const previewAmount = isValid ? calculateDiscountAmount({ type, value: numericValue, reason }, baseAmount) : 0;
+
+  const handleApply = () => {
+    if (!isValid) return;
+    onApply({ type, value: numericValue, reason });
+    setOpen(false);
+  };
+
+  const handleRemove = () => {
+    onApply(null);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-64 p-3 space-y-3" align="end">
+        <p className="text-sm font-medium">{title}</p>
+        <div className="flex gap-1">
+          <Select value={type} onValueChange={(v) => setType(v as DiscountType)}>
+            <SelectTrigger className="h-8 w-20 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="percentage">%</SelectItem>
+              <SelectItem value="fixed">PKR</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            max={type === 'percentage' ? 100 : undefined}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleApply();
+            }}
+            className="h-8 text-xs flex-1"
+            placeholder={type === 'percentage' ? 'e.g. 5' : 'e.g. 250'}
+            autoFocus
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Reason</Label>
+          <Select value={reason} onValueChange={(v) => setReason(v as DiscountReasonCode)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DISCOUNT_REASON_CODES.map(code => (
+                <SelectItem key={code} value={code}>{DISCOUNT_REASON_LABELS[code]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Discount: PKR {previewAmount.toLocaleString()} of PKR {baseAmount.toLocaleString()}
+        </p>
+        <div className="flex gap-2">
+          {discount && (
+            <Button variant="outline" size="sm" className="flex-1 h-7 text-xs" onClick={handleRemove}>
+              Remove
+            </Button>
+          )}
+          <Button size="sm" className="flex-1 h-7 text-xs" onClick={handleApply} disabled={!isValid}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
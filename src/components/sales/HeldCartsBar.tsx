@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { PauseCircle, ShoppingCart, X } from "lucide-react";
+import { HeldCart, getHeldCartItemCount, getHeldCartTotal } from "@/utils/heldCarts";
+
+interface HeldCartsBarProps {
+  heldCarts: HeldCart[];
+  currentItemCount: number;
+  currentLabel: string;
+  defaultParkLabel: string;
+  onPark: (label: string) => void;
+  onResume: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+export const HeldCartsBar: React.FC<HeldCartsBarProps> = ({
+  heldCarts,
+  currentItemCount,
+  currentLabel,
+  defaultParkLabel,
+  onPark,
+  onResume,
+  onDiscard
+}) => {
+  const [isParkOpen, setIsParkOpen] = useState(false);
+  const [label, setLabel] = useState("");
+
+  const handleParkOpenChange = (isOpen: boolean) => {
+    if (isOpen) setLabel(defaultParkLabel);
+    setIsParkOpen(isOpen);
+  };
+
+  const handlePark = () => {
+    onPark(label.trim() || defaultParkLabel);
+    setIsParkOpen(false);
+  };
+
+  return (
+    <div className="flex items-center gap-1 mb-3 overflow-x-auto">
+      <div className="flex items-center gap-1 px-2 py-1 rounded-md border border-blue-300 bg-blue-50 dark:bg-blue-950 text-xs font-medium text-blue-700 dark:text-blue-300 whitespace-nowrap">
+        <ShoppingCart className="h-3 w-3" />
+        {currentLabel}
+        <span className="text-blue-500">({currentItemCount})</span>
+      </div>
+
+      {heldCarts.map(held => (
+        <div
+          key={held.id}
+          className="flex items-center rounded-md border bg-background text-xs whitespace-nowrap hover:bg-muted"
+        >
+          <button
+            type="button"
+            className="flex items-center gap-1 pl-2 pr-1 py-1"
+            onClick={() => onResume(held.id)}
+            title={`Held at ${new Date(held.heldAt).toLocaleTimeString()}`}
+          >
+            <PauseCircle className="h-3 w-3 text-orange-500" />
+            <span className="font-medium">{held.label}</span>
+            <span className="text-muted-foreground">
+              ({getHeldCartItemCount(held)}) PKR {getHeldCartTotal(held).toLocaleString()}
+            </span>
+          </button>
+          <button
+            type="button"
+            className="px-1 py-1 text-muted-foreground hover:text-red-600"
+            onClick={() => onDiscard(held.id)}
+            title="Discard held cart"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+
+      <Popover open={isParkOpen} onOpenChange={handleParkOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs whitespace-nowrap"
+            disabled={currentItemCount === 0}
+          >
+            <PauseCircle className="h-3 w-3 mr-1" />
+            Park Cart
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-60 p-3 space-y-2" align="start">
+          <p className="text-sm font-medium">Park current cart</p>
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handlePark();
+            }}
+            className="h-8 text-xs"
+            placeholder="Label or customer name"
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">Held carts are cleared at the end of the day.</p>
+          <Button size="sm" className="w-full h-7 text-xs" onClick={handlePark}>
+            Park
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
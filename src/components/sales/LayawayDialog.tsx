@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock } from "lucide-react";
+import { TENDER_METHOD_LABELS, TenderMethod, roundCurrency } from "@/utils/paymentTenders";
+import { LAYAWAY_INTERVALS, LAYAWAY_PAYMENT_METHODS, LayawayPlan, buildInstallmentSchedule, getDepositError } from "@/utils/layaway";
+
+interface LayawayDialogProps {
+  open: boolean;
+  total: number;
+  customerName: string;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (plan: LayawayPlan) => void;
+}
+
+// Takes the deposit and sets the installment schedule for a layaway / advance order
+export const LayawayDialog: React.FC<LayawayDialogProps> = ({
+  open,
+  total,
+  customerName,
+  onOpenChange,
+  onConfirm
+}) => {
+  const [deposit, setDeposit] = useState("");
+  const [method, setMethod] = useState<TenderMethod>('cash');
+  const [installments, setInstallments] = useState("3");
+  const [intervalDays, setIntervalDays] = useState(LAYAWAY_INTERVALS[0].value);
+  const [pickupDate, setPickupDate] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const depositAmount = roundCurrency(parseFloat(deposit) || 0);
+  const balance = roundCurrency(total - depositAmount);
+  const error = getDepositError(depositAmount, total);
+  const schedule = error ? [] : buildInstallmentSchedule(balance, parseInt(installments) || 1, parseInt(intervalDays));
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setDeposit("");
+      setPickupDate("");
+      setNotes("");
+    }
+    onOpenChange(value);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    onConfirm({
+      deposit: depositAmount,
+      method,
+      schedule,
+      pickupDate: pickupDate || undefined,
+      notes: notes.trim() || undefined
+    });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Layaway / Advance Order
+          </DialogTitle>
+          <DialogDescription>
+            {customerName} · order total PKR {total.toLocaleString()}. The items stay reserved until final pickup.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Deposit (PKR)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                autoFocus
+                value={deposit}
+                onChange={(e) => setDeposit(e.target.value)}
+              />
+              <div className="flex gap-1">
+                {[25, 50].map(percent => (
+                  <Button
+                    key={percent}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setDeposit(String(Math.round(total * percent / 100)))}
+                  >
+                    {percent}%
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Paid by</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as TenderMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LAYAWAY_PAYMENT_METHODS.map(option => (
+                    <SelectItem key={option} value={option}>{TENDER_METHOD_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Installments</Label>
+              <Input
+                type="number"
+                min="1"
+                max="24"
+                value={installments}
+                onChange={(e) => setInstallments(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Every</Label>
+              <Select value={intervalDays} onValueChange={setIntervalDays}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LAYAWAY_INTERVALS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Pickup from (optional)</Label>
+              <Input type="date" value={pickupDate} onChange={(e) => setPickupDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="e.g. kitchen job, Model Town" />
+            </div>
+          </div>
+
+          {schedule.length > 0 && (
+            <div className="rounded-lg border divide-y text-sm">
+              {schedule.map((installment, index) => (
+                <div key={index} className="flex justify-between px-3 py-1.5">
+                  <span className="text-muted-foreground">
+                    #{index + 1} · due {new Date(installment.due_date).toLocaleDateString('en-GB')}
+                  </span>
+                  <span className="font-medium">PKR {installment.amount.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {!error && balance === 0 && (
+            <p className="text-sm text-muted-foreground">Paid in full now; the order is held for pickup.</p>
+          )}
+          {error && deposit && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={!!error}>
+              Take Deposit
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
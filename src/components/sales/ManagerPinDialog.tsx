@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShieldAlert, Loader2 } from "lucide-react";
+import { hasManagerPin, verifyManagerPin } from "@/utils/pin";
+
+interface ManagerPinDialogProps {
+  open: boolean;
+  title: string;
+  description?: string;
+  children?: React.ReactNode; // details of what is being approved
+  requirePin?: boolean; // false only asks for the reason, for changes inside the cashier's limits
+  onApprove: (reason: string) => void;
+  onCancel: () => void;
+}
+
+// Asks for the manager PIN (set in Settings, separate from the unlock PIN) and a reason before letting a blocked action through.
+// Without requirePin it only records why, for overrides the cashier may make alone.
+export const ManagerPinDialog: React.FC<ManagerPinDialogProps> = ({
+  open,
+  title,
+  description,
+  children,
+  requirePin = true,
+  onApprove,
+  onCancel
+}) => {
+  const [pin, setPin] = useState("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const managerPinSet = !requirePin || hasManagerPin();
+
+  const reset = () => {
+    setPin("");
+    setReason("");
+    setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      setError("Enter a reason for the override");
+      return;
+    }
+    setIsChecking(true);
+    try {
+      if (!requirePin || await verifyManagerPin(pin)) {
+        const approvedReason = reason.trim();
+        reset();
+        onApprove(approvedReason);
+      } else {
+        setError("Incorrect PIN");
+        setPin("");
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { if (!value) { reset(); onCancel(); } }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-orange-600" />
+            {title}
+          </DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        {children}
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <Label>Reason</Label>
+            <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Why this is allowed" />
+          </div>
+          {requirePin && (
+            <div className="space-y-1">
+              <Label>Manager PIN</Label>
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={pin}
+                onChange={(e) => { setPin(e.target.value); setError(""); }}
+              />
+            </div>
+          )}
+          {!managerPinSet && (
+            <p className="text-sm text-orange-600">No manager PIN is set on this counter. Set one in Settings → System.</p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => { reset(); onCancel(); }}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={isChecking || (requirePin && !pin) || !managerPinSet}>
+              {isChecking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {requirePin ? 'Approve' : 'Apply'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from "@/components/ui/command";
+import { Package, User, Tag, Zap } from "lucide-react";
+import { fuzzyScore, parseQuantityQuery, searchProducts } from "@/utils/posCommands";
+
+export type PaletteMode = 'search' | 'price';
+
+export interface PaletteProduct {
+  id: number;
+  name: string;
+  sku?: string;
+  barcode?: string;
+  category?: string;
+  price: number;
+  stock?: number;
+  unit?: string;
+}
+
+export interface PaletteCustomer {
+  id: number;
+  name: string;
+  phone?: string;
+}
+
+export interface PaletteCartLine {
+  productId: number;
+  name: string;
+  quantity: number;
+  unit: string;
+  price: number;
+  adjustedPrice?: number;
+}
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  shortcut?: string;
+  run: () => void;
+}
+
+interface PosCommandPaletteProps {
+  open: boolean;
+  mode: PaletteMode;
+  onOpenChange: (open: boolean) => void;
+  products: PaletteProduct[];
+  customers: PaletteCustomer[];
+  cart: PaletteCartLine[];
+  actions: PaletteAction[];
+  onAddProduct: (product: PaletteProduct, quantity: number) => void;
+  onSelectCustomer: (customer: PaletteCustomer) => void;
+  onSetPrice: (productId: number, price: number) => void;
+}
+
+export const PosCommandPalette: React.FC<PosCommandPaletteProps> = ({
+  open,
+  mode,
+  onOpenChange,
+  products,
+  customers,
+  cart,
+  actions,
+  onAddProduct,
+  onSelectCustomer,
+  onSetPrice
+}) => {
+  const [query, setQuery] = useState("");
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) setQuery("");
+    onOpenChange(value);
+  };
+
+  const close = () => handleOpenChange(false);
+
+  const isCustomerSearch = mode === 'search' && query.startsWith('@');
+  const { quantity, term } = parseQuantityQuery(query);
+  const productMatches = mode === 'search' && !isCustomerSearch ? searchProducts(products, term) : [];
+  const customerTerm = query.slice(1).trim();
+  const customerMatches = isCustomerSearch
+    ? customers
+        .map(customer => ({ customer, score: customerTerm ? fuzzyScore(`${customer.name} ${customer.phone || ''}`, customerTerm) : 1 }))
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 8)
+        .map(result => result.customer)
+    : [];
+  const actionMatches = mode === 'search' && !isCustomerSearch
+    ? actions.filter(action => !query.trim() || fuzzyScore(action.label, query.trim()) > 0)
+    : [];
+  const newPrice = parseFloat(query);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-xl">
+        <Command
+          shouldFilter={false}
+          loop
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2"
+        >
+          <CommandInput
+            autoFocus
+            value={query}
+            onValueChange={setQuery}
+            placeholder={mode === 'price'
+              ? "Type the new price, then pick the item"
+              : "Search products (12 hinge 3in), @customer or a command"}
+          />
+          <CommandList className="max-h-[360px]">
+            <CommandEmpty>{mode === 'price' ? 'The cart is empty' : 'No matches'}</CommandEmpty>
+
+            {productMatches.length > 0 && (
+              <CommandGroup heading={quantity ? `Add ${quantity}` : 'Products'}>
+                {productMatches.map(product => (
+                  <CommandItem
+                    key={product.id}
+                    value={`product-${product.id}`}
+                    onSelect={() => {
+                      onAddProduct(product, quantity || 1);
+                      setQuery("");
+                    }}
+                  >
+                    <Package className="mr-2 h-4 w-4" />
+                    <span className="flex-1 truncate">{product.name}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {product.stock !== undefined && `${product.stock} ${product.unit || ''} · `}PKR {Number(product.price).toLocaleString()}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {customerMatches.length > 0 && (
+              <CommandGroup heading="Customers">
+                {customerMatches.map(customer => (
+                  <CommandItem
+                    key={customer.id}
+                    value={`customer-${customer.id}`}
+                    onSelect={() => {
+                      onSelectCustomer(customer);
+                      close();
+                    }}
+                  >
+                    <User className="mr-2 h-4 w-4" />
+                    <span className="flex-1 truncate">{customer.name}</span>
+                    {customer.phone && <span className="ml-2 text-xs text-muted-foreground">{customer.phone}</span>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {mode === 'price' && cart.length > 0 && (
+              <CommandGroup heading={newPrice > 0 ? `Set price to PKR ${newPrice.toLocaleString()}` : 'Type a price first'}>
+                {[...cart].reverse().map(line => (
+                  <CommandItem
+                    key={line.productId}
+                    value={`price-${line.productId}`}
+                    disabled={!(newPrice > 0)}
+                    onSelect={() => {
+                      onSetPrice(line.productId, newPrice);
+                      close();
+                    }}
+                  >
+                    <Tag className="mr-2 h-4 w-4" />
+                    <span className="flex-1 truncate">{line.name}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {line.quantity} {line.unit} · PKR {(line.adjustedPrice || line.price).toLocaleString()}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {actionMatches.length > 0 && (
+              <CommandGroup heading="Commands">
+                {actionMatches.map(action => (
+                  <CommandItem
+                    key={action.id}
+                    value={`action-${action.id}`}
+                    onSelect={() => {
+                      close();
+                      action.run();
+                    }}
+                  >
+                    <Zap className="mr-2 h-4 w-4" />
+                    <span className="flex-1">{action.label}</span>
+                    {action.shortcut && <CommandShortcut>{action.shortcut}</CommandShortcut>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+          <div className="border-t px-3 py-2 text-xs text-muted-foreground">
+            Enter to pick · ↑↓ to move · Esc to close · F1 for all shortcuts
+          </div>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
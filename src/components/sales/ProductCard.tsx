@@ -8,6 +8,9 @@ import { ProductDetailsModal } from "./ProductDetailsModal";
 import { QuantitySuggestionPopup } from "./QuantitySuggestionPopup";
 import { useStockManagement } from '@/hooks/useStockManagement';
 import { formatQuantity } from "@/lib/utils";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getSaleUnits, getUnitLabel, toBaseQuantity } from "@/utils/unitConversions";
+import { ProductLookup, getAvailableStock, isKit, normalizeKitComponents } from "@/utils/kits";
 
 interface ProductCardProps {
   product: any;
@@ -15,10 +18,11 @@ interface ProductCardProps {
   quantityInput: string;
   onTogglePin: (productId: number) => void;
   onQuantityChange: (productId: number, value: string) => void;
-  onAddToCart: (product: any, quantity?: number) => void;
-  onAddCustomQuantity: (product: any) => void;
+  onAddToCart: (product: any, quantity?: number, unit?: string) => void;
+  onAddCustomQuantity: (product: any, unit?: string) => void;
   viewMode?: 'card' | 'slim';
   index?: number; // For displaying product index in slim view
+  productLookup?: ProductLookup; // Catalogue by id, for working out kit availability from component stock
 }
 
 export const ProductCard: React.FC<ProductCardProps> = ({
@@ -30,12 +34,21 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   onAddToCart,
   onAddCustomQuantity,
   viewMode = 'card',
-  index
+  index,
+  productLookup
 }) => {
   const { toast } = useToast();
   const { validateStock } = useStockManagement();
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
+  const saleUnits = getSaleUnits(product);
+  const [saleUnit, setSaleUnit] = useState<string>(saleUnits[0].unit);
+  const saleFactor = saleUnits.find(option => option.unit === saleUnit)?.factor || 1;
+  const isKitProduct = isKit(product);
+  const stock = productLookup ? getAvailableStock(product, productLookup) : product.stock || 0;
+  const stockUnit = isKitProduct ? 'kits' : product.unit;
+  // Kits are offered and described by what their components can make
+  const stockedProduct = isKitProduct ? { ...product, stock } : product;
 
   const handleQuantityInputChange = (value: string) => {
     // Allow decimal numbers with up to 2 decimal places
@@ -50,16 +63,16 @@ export const ProductCard: React.FC<ProductCardProps> = ({
     if (quantityInput && !isNaN(quantity) && quantity > 0) {
       // Skip heavy stock validation for better performance
       // Basic stock check only
-      if (!product.incompleteQuantity && !product.needsQuantityUpdate && (product.stock || 0) < quantity) {
+      if (!product.incompleteQuantity && !product.needsQuantityUpdate && stock < toBaseQuantity(quantity, saleFactor)) {
         toast({
           title: "Insufficient Stock",
-          description: `Only ${product.stock || 0} ${product.unit} available`,
+          description: `Only ${stock} ${stockUnit} available`,
           variant: "destructive"
         });
         return;
       }
       
-      onAddCustomQuantity(product);
+      onAddCustomQuantity(product, saleUnit);
     } else {
       toast({
         title: "Invalid Quantity",
@@ -72,17 +85,17 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   const handleQuantitySuggestion = (quantity: number) => {
     // Skip heavy validation for better performance
     // Basic stock check only
-    if (!product.incompleteQuantity && !product.needsQuantityUpdate && (product.stock || 0) < quantity) {
+    if (!product.incompleteQuantity && !product.needsQuantityUpdate && stock < toBaseQuantity(quantity, saleFactor)) {
       toast({
         title: "Insufficient Stock",
-        description: `Only ${product.stock || 0} ${product.unit} available`,
+        description: `Only ${stock} ${stockUnit} available`,
         variant: "destructive"
       });
       return;
     }
     
     // Add the suggested quantity to cart
-    onAddToCart(product, quantity);
+    onAddToCart(product, quantity, saleUnit);
   };
 
   const handleQuickAdd = () => {
@@ -91,21 +104,23 @@ export const ProductCard: React.FC<ProductCardProps> = ({
     
     // Skip heavy validation for better performance  
     // Basic stock check only
-    if (!product.incompleteQuantity && !product.needsQuantityUpdate && (product.stock || 0) < quantity) {
+    if (!product.incompleteQuantity && !product.needsQuantityUpdate && stock < toBaseQuantity(quantity, saleFactor)) {
       toast({
         title: "Insufficient Stock",
-        description: `Only ${product.stock || 0} ${product.unit} available`,
+        description: `Only ${stock} ${stockUnit} available`,
         variant: "destructive"
       });
       return;
     }
     
-    onAddToCart(product, quantity);
+    onAddToCart(product, quantity, saleUnit);
   };
 
   // Check if product has incomplete quantity information
   const hasIncompleteQuantity = product.incompleteQuantity || product.needsQuantityUpdate;
-  const isOutOfStock = !hasIncompleteQuantity && (product.stock || 0) <= 0;
+  const isOutOfStock = !hasIncompleteQuantity && stock <= 0;
+  // Set when a customer price list changes the price shown
+  const hasListPrice = product.listPrice !== undefined && product.listPrice !== product.price;
 
   if (viewMode === 'slim') {
     return (
@@ -160,13 +175,18 @@ export const ProductCard: React.FC<ProductCardProps> = ({
             <div className="text-sm font-bold text-blue-600">
               PKR {product.price.toLocaleString()}
             </div>
+            {hasListPrice && (
+              <div className="text-[10px] text-muted-foreground" title={product.priceListLabel}>
+                <span className="line-through">{product.listPrice.toLocaleString()}</span> list
+              </div>
+            )}
             <div className="text-[10px] text-muted-foreground">
               {hasIncompleteQuantity ? (
                 <span className="text-orange-600 font-medium">Unknown qty</span>
               ) : isOutOfStock ? (
                 <span className="text-red-600 font-medium">Out of stock</span>
               ) : (
-                <>{formatQuantity(product.stock)} {product.unit}</>
+                <>{formatQuantity(stock)} {stockUnit}</>
               )}
             </div>
           </div>
@@ -209,7 +229,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
           {/* Actions */}
           <div className="flex items-center gap-1 flex-shrink-0">
             <QuantitySuggestionPopup
-              product={product}
+              product={stockedProduct}
               onAddQuantity={handleQuantitySuggestion}
               disabled={isOutOfStock && !hasIncompleteQuantity || isValidating}
             />
@@ -240,7 +260,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
         <ProductDetailsModal
           open={isDetailsOpen}
           onOpenChange={setIsDetailsOpen}
-          product={product}
+          product={stockedProduct}
         />
       </>
     );
@@ -302,12 +322,20 @@ export const ProductCard: React.FC<ProductCardProps> = ({
                 {product.name}
               </h3>
               <p className="text-[10px] text-muted-foreground">SKU: {product.sku}</p>
+              {isKitProduct && (
+                <p className="text-[10px] text-purple-600">Kit of {normalizeKitComponents(product.kitComponents).length} items</p>
+              )}
             </div>
             
             {/* Price and Stock */}
             <div className="space-y-0.5">
               <div className="text-sm font-bold text-blue-600">
                 PKR {product.price.toLocaleString()}
+                {hasListPrice && (
+                  <span className="ml-1 text-[10px] font-normal text-muted-foreground line-through" title={product.priceListLabel}>
+                    {product.listPrice.toLocaleString()}
+                  </span>
+                )}
               </div>
               <div className="text-[10px] text-muted-foreground">
                 {hasIncompleteQuantity ? (
@@ -320,7 +348,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
                   </span>
                 ) : (
                   <>
-                    {formatQuantity(product.stock)} {product.unit} available
+                    {formatQuantity(stock)} {stockUnit} available
                   </>
                 )}
               </div>
@@ -329,6 +357,11 @@ export const ProductCard: React.FC<ProductCardProps> = ({
                   {product.quantityNote}
                 </div>
               )}
+              {saleUnits.slice(1).map(option => (
+                <div key={option.unit} className="text-[10px] text-muted-foreground">
+                  {getUnitLabel(option.unit)}: PKR {option.price.toLocaleString()}
+                </div>
+              ))}
             </div>
           </div>
 
@@ -338,7 +371,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
             <div className="flex items-center gap-1">
               <Input
                 type="text"
-                placeholder={`Qty (${product.unit})`}
+                placeholder={`Qty (${saleUnit})`}
                 value={quantityInput}
                 onChange={(e) => handleQuantityInputChange(e.target.value)}
                 onKeyDown={(e) => {
@@ -350,8 +383,22 @@ export const ProductCard: React.FC<ProductCardProps> = ({
                 className="h-6 text-[10px] flex-1 bg-background border-input px-1"
                 disabled={isOutOfStock && !hasIncompleteQuantity}
               />
+              {saleUnits.length > 1 && (
+                <Select value={saleUnit} onValueChange={setSaleUnit}>
+                  <SelectTrigger className="h-6 w-16 px-1 text-[10px]" title="Sell in unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {saleUnits.map(option => (
+                      <SelectItem key={option.unit} value={option.unit} className="text-xs">
+                        {getUnitLabel(option.unit)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               <QuantitySuggestionPopup
-                product={product}
+                product={stockedProduct}
                 onAddQuantity={handleQuantitySuggestion}
                 disabled={isOutOfStock && !hasIncompleteQuantity || isValidating}
               />
@@ -372,11 +419,11 @@ export const ProductCard: React.FC<ProductCardProps> = ({
               {isValidating ? (
                 'Validating...'
               ) : hasIncompleteQuantity ? (
-                <>Quick Add ({formatQuantity(quantityInput || '1')} {product.unit}) ⚠️</>
+                <>Quick Add ({formatQuantity(quantityInput || '1')} {saleUnit}) ⚠️</>
               ) : isOutOfStock ? (
                 'Out of Stock'
               ) : (
-                <>Quick Add ({formatQuantity(quantityInput || '1')} {product.unit})</>
+                <>Quick Add ({formatQuantity(quantityInput || '1')} {saleUnit})</>
               )}
             </Button>
           </div>
@@ -387,7 +434,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
       <ProductDetailsModal
         open={isDetailsOpen}
         onOpenChange={setIsDetailsOpen}
-        product={product}
+        product={stockedProduct}
       />
     </>
   );
@@ -11,6 +11,7 @@ import { productsApi } from "@/services/api";
 import { Package, AlertTriangle, RefreshCw } from "lucide-react";
 import { generateSKU } from "@/utils/skuGenerator";
 import { units as predefinedUnits } from "@/data/storeData";
+import { detectBarcodeFormat, getBarcodeError, hasBarcode, normalizeBarcode } from "@/utils/barcode";
 
 // Units Select Component
 const UnitsSelect = ({ value, onValueChange }: { value: string; onValueChange: (value: string) => void }) => {
@@ -41,19 +42,22 @@ interface QuickProductAddModalProps {
   onOpenChange: (open: boolean) => void;
   onProductAdded: (product: any) => void;
   categories: string[];
+  initialBarcode?: string;
 }
 
 export const QuickProductAddModal: React.FC<QuickProductAddModalProps> = ({
   open,
   onOpenChange,
   onProductAdded,
-  categories
+  categories,
+  initialBarcode
 }) => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     sku: '',
+    barcode: '',
     category: '',
     price: '',
     costPrice: '',
@@ -61,6 +65,15 @@ export const QuickProductAddModal: React.FC<QuickProductAddModalProps> = ({
     description: ''
   });
 
+  // Prefill the barcode when opened from an unknown scan at the POS
+  useEffect(() => {
+    if (open && initialBarcode) {
+      setFormData(prev => ({ ...prev, barcode: initialBarcode }));
+    }
+  }, [open, initialBarcode]);
+
+  const barcodeError = getBarcodeError(formData.barcode);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -73,6 +86,15 @@ export const QuickProductAddModal: React.FC<QuickProductAddModalProps> = ({
       return;
     }
 
+    if (barcodeError) {
+      toast({
+        title: "Invalid Barcode",
+        description: barcodeError,
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
       setLoading(true);
       
@@ -86,7 +108,7 @@ export const QuickProductAddModal: React.FC<QuickProductAddModalProps> = ({
         unit: formData.unit || 'piece',
         description: formData.description.trim() || 'N/A',
         status: 'active',
-        barcode: 'N/A',
+        barcode: hasBarcode(formData.barcode) ? normalizeBarcode(formData.barcode) : 'N/A',
         brand: 'N/A',
         supplier: 'N/A',
         costPrice: parseFloat(formData.costPrice) || (parseFloat(formData.price) * 0.7) || 0,
@@ -123,6 +145,7 @@ export const QuickProductAddModal: React.FC<QuickProductAddModalProps> = ({
         setFormData({
           name: '',
           sku: '',
+          barcode: '',
           category: '',
           price: '',
           costPrice: '',
@@ -148,7 +171,7 @@ export const QuickProductAddModal: React.FC<QuickProductAddModalProps> = ({
         if (error.message.includes('400')) {
           errorMessage = 'Invalid product data. Please verify all required fields are properly filled.';
         } else if (error.message.includes('409')) {
-          errorMessage = 'A product with this SKU already exists. Please use a different SKU.';
+          errorMessage = 'A product with this SKU or barcode already exists. Please use a different code.';
         } else if (error.message.includes('422')) {
           errorMessage = 'Validation error. Please check the data format and try again.';
         } else if (error.message.includes('500')) {
@@ -264,6 +287,23 @@ export const QuickProductAddModal: React.FC<QuickProductAddModalProps> = ({
             </div>
           </div>
 
+          {/* Barcode */}
+          <div>
+            <Label htmlFor="barcode" className="text-sm font-medium">Barcode (EAN / UPC / Code128)</Label>
+            <Input
+              id="barcode"
+              value={formData.barcode}
+              onChange={(e) => handleInputChange('barcode', e.target.value)}
+              placeholder="Scan or type the product barcode"
+              className="mt-1"
+            />
+            {hasBarcode(formData.barcode) && (
+              <p className={`text-xs mt-1 ${barcodeError ? 'text-red-600' : 'text-muted-foreground'}`}>
+                {barcodeError || detectBarcodeFormat(formData.barcode)}
+              </p>
+            )}
+          </div>
+
           {/* Row 3: Category and Unit */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
             <div>
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Printer, Plug, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { EscPosEncoder, PaperWidth } from "@/utils/escPosEncoder";
+import {
+  PrinterConnection,
+  ReceiptOutput,
+  ReceiptPrinterSettings,
+  getPrinterSettings,
+  isConnectionSupported,
+  printRaw,
+  requestPrinter,
+  savePrinterSettings
+} from "@/utils/thermalPrinter";
+
+interface ReceiptPrinterDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ReceiptPrinterDialog: React.FC<ReceiptPrinterDialogProps> = ({
+  open,
+  onOpenChange
+}) => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<ReceiptPrinterSettings>(getPrinterSettings);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const updateSettings = (changes: Partial<ReceiptPrinterSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePrinterSettings(next);
+  };
+
+  const handleConnect = async () => {
+    try {
+      const name = await requestPrinter(settings.connection);
+      toast({ title: "Printer Connected", description: `${name} will be used for receipts` });
+    } catch (error) {
+      toast({
+        title: "Printer Not Connected",
+        description: error instanceof Error ? error.message : "No printer was selected",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleTestPrint = async () => {
+    setIsBusy(true);
+    try {
+      const test = new EscPosEncoder(settings.paperWidth)
+        .initialize()
+        .align('center').bold().size(2).line('USMAN HARDWARE').size(1).bold(false)
+        .line('Printer test')
+        .rule()
+        .align('left')
+        .columnsLine('Paper width:', `${settings.paperWidth}mm`)
+        .columnsLine('Printed:', new Date().toLocaleString('en-GB'))
+        .feed(3)
+        .cut(true)
+        .encode();
+      await printRaw(test, settings);
+      toast({ title: "Test Sent", description: "Check the printer for the test slip" });
+    } catch (error) {
+      toast({
+        title: "Print Failed",
+        description: error instanceof Error ? error.message : "The printer could not be reached",
+        variant: "destructive"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const connectionSupported = isConnectionSupported(settings.connection);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="h-5 w-5" />
+            Receipt Printer
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Receipt output</Label>
+            <Select value={settings.output} onValueChange={(value) => updateSettings({ output: value as ReceiptOutput })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pdf">PDF download</SelectItem>
+                <SelectItem value="escpos">Thermal printer (ESC/POS)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.output === 'escpos' && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Paper width</Label>
+                  <Select
+                    value={String(settings.paperWidth)}
+                    onValueChange={(value) => updateSettings({ paperWidth: Number(value) as PaperWidth })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="58">58mm</SelectItem>
+                      <SelectItem value="80">80mm</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Connection</Label>
+                  <Select
+                    value={settings.connection}
+                    onValueChange={(value) => updateSettings({ connection: value as PrinterConnection })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="usb">USB</SelectItem>
+                      <SelectItem value="serial">Serial / Bluetooth</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {settings.connection === 'serial' && (
+                <div className="space-y-1">
+                  <Label>Baud rate</Label>
+                  <Input
+                    type="number"
+                    value={settings.baudRate}
+                    onChange={(e) => updateSettings({ baudRate: parseInt(e.target.value) || 9600 })}
+                  />
+                </div>
+              )}
+
+              {!connectionSupported && (
+                <p className="text-xs text-orange-600">
+                  This browser cannot reach {settings.connection === 'usb' ? 'USB' : 'serial'} printers. Receipts will download as PDF.
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={handleConnect} disabled={!connectionSupported}>
+                  <Plug className="h-4 w-4 mr-2" />
+                  Connect Printer
+                </Button>
+                <Button className="flex-1" onClick={handleTestPrint} disabled={!connectionSupported || isBusy}>
+                  {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Printer className="h-4 w-4 mr-2" />}
+                  Test Print
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                If the printer cannot be reached at checkout, the receipt downloads as PDF instead.
+              </p>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
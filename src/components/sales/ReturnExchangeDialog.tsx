@@ -0,0 +1,688 @@
+import React, { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Undo2, Search, Loader2, Trash2, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { customersApi, fetchAllSales, productsApi, salesApi } from "@/services/api";
+import { newFinanceApi } from "@/services/newFinanceApi";
+import { customerBalanceService } from "@/services/customerBalanceService";
+import { CashShift, shiftApi } from "@/services/shiftApi";
+import { CreditNote, creditNoteApi } from "@/services/creditNoteApi";
+import { useTaxSettings } from "@/hooks/useTaxSettings";
+import { usePriceLists } from "@/hooks/usePriceLists";
+import { verifyReceiptToken } from "@/utils/receiptSignature";
+import { PricedCustomer } from "@/utils/priceLists";
+import { PriceTier } from "@/utils/quantityTiers";
+import { calculateTax, isCustomerTaxExempt } from "@/utils/taxEngine";
+import {
+  REFUND_METHOD_LABELS,
+  RETURN_REASONS,
+  RefundMethod,
+  ReplacementLine,
+  ReturnLine,
+  getKitComponentReturns,
+  getReturnLines,
+  getReturnSettlement,
+  getSettlementMethods,
+  matchesOrderNumber,
+  priceReplacement
+} from "@/utils/returnExchange";
+import { ReturnSlip, generateReturnSlipPDF } from "@/utils/returnSlipPdfGenerator";
+import { encodeReturnSlip } from "@/utils/receiptEscPos";
+import { getPrinterSettings, printRaw } from "@/utils/thermalPrinter";
+import { generateCreditNoteCode } from "@/utils/creditNotes";
+import { printCreditNote } from "@/utils/creditNotePdfGenerator";
+
+interface ExchangeProduct {
+  id: number;
+  name: string;
+  sku?: string;
+  barcode?: string;
+  price: number;
+  listPrice?: number;
+  priceTiers?: PriceTier[] | string | null;
+  category?: string;
+  stock: number;
+}
+
+type ExchangeCustomer = PricedCustomer & { taxExempt?: boolean | number | string };
+
+interface ReturnExchangeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: ExchangeProduct[];
+  shift: CashShift | null;
+  onCompleted: () => void;
+}
+
+interface OriginalSale {
+  id: number;
+  orderNumber: string;
+  customerId?: number | null;
+  customerName?: string | null;
+  date: string;
+  total: number;
+  status: string;
+  items: Array<Record<string, unknown>>;
+}
+
+export const ReturnExchangeDialog: React.FC<ReturnExchangeDialogProps> = ({
+  open,
+  onOpenChange,
+  products,
+  shift,
+  onCompleted
+}) => {
+  const { toast } = useToast();
+  const { taxSettings } = useTaxSettings();
+  const { priceLists } = usePriceLists();
+  const [receiptInput, setReceiptInput] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [sale, setSale] = useState<OriginalSale | null>(null);
+  const [lines, setLines] = useState<ReturnLine[]>([]);
+  const [customer, setCustomer] = useState<ExchangeCustomer | null>(null);
+  const [picked, setPicked] = useState<Array<{ productId: number; quantity: number }>>([]);
+  const [productSearch, setProductSearch] = useState("");
+  const [method, setMethod] = useState<RefundMethod>('cash');
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Replacements are repriced as quantities change so tiers and tax follow the cart rules
+  const customerExempt = isCustomerTaxExempt(customer);
+  const replacements = useMemo<ReplacementLine[]>(() => picked.flatMap(pick => {
+    const product = products.find(p => p.id === pick.productId);
+    return product ? [priceReplacement(product, pick.quantity, customer, priceLists, taxSettings, customerExempt)] : [];
+  }), [picked, products, customer, priceLists, taxSettings, customerExempt]);
+
+  const settlement = getReturnSettlement(lines, replacements);
+  const methods = getSettlementMethods(settlement.difference, !!sale?.customerId);
+  const settlementMethod = methods.includes(method) ? method : 'cash';
+
+  const productMatches = useMemo(() => {
+    const term = productSearch.trim().toLowerCase();
+    if (!term) return [];
+    return products
+      .filter(product =>
+        product.name?.toLowerCase().includes(term) ||
+        product.sku?.toLowerCase().includes(term) ||
+        product.barcode === productSearch.trim()
+      )
+      .slice(0, 6);
+  }, [products, productSearch]);
+
+  const reset = () => {
+    setReceiptInput("");
+    setSale(null);
+    setCustomer(null);
+    setLines([]);
+    setPicked([]);
+    setProductSearch("");
+    setMethod('cash');
+    setNotes("");
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  // Finds the sale from a scanned receipt QR, or by its receipt number across every page of sales
+  const findSaleId = async (input: string): Promise<number | null> => {
+    const verification = await verifyReceiptToken(input);
+    if (verification.status === 'invalid') {
+      throw new Error('The receipt QR signature does not match. Check the receipt on the Verify page.');
+    }
+    const claimId = Number(verification.claim?.id);
+    if (claimId > 0) return claimId;
+
+    const orderNumber = verification.claim?.orderNumber || input;
+    const sales = await fetchAllSales<{ id: number; orderNumber?: string }>();
+    const match = sales.find(s => matchesOrderNumber(s.orderNumber, orderNumber));
+    return match ? Number(match.id) : null;
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receiptInput.trim()) return;
+
+    setIsLookingUp(true);
+    try {
+      const saleId = await findSaleId(receiptInput);
+      const response = saleId ? await salesApi.getById(saleId) : null;
+      if (!response?.success || !response.data) {
+        toast({
+          title: "Receipt Not Found",
+          description: "No sale matches this receipt number",
+          variant: "destructive"
+        });
+        return;
+      }
+      if (response.data.status === 'cancelled') {
+        toast({
+          title: "Sale Cancelled",
+          description: `Order ${response.data.orderNumber} was cancelled and cannot be returned`,
+          variant: "destructive"
+        });
+        return;
+      }
+      // The customer's price list, overrides and tax exemption price the replacements
+      const customerResponse = response.data.customerId
+        ? await customersApi.getById(Number(response.data.customerId)).catch(() => null)
+        : null;
+      setSale(response.data);
+      setCustomer(customerResponse?.success ? customerResponse.data : null);
+      setLines(getReturnLines(response.data));
+      setPicked([]);
+    } catch (error) {
+      console.error('Failed to look up receipt:', error);
+      toast({
+        title: "Lookup Failed",
+        description: error instanceof Error ? error.message : "Could not load the original sale",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<ReturnLine>) => {
+    setLines(lines.map((line, i) => {
+      if (i !== index) return line;
+      const next = { ...line, ...changes };
+      next.returnQuantity = Math.max(0, Math.min(next.returnQuantity || 0, line.soldQuantity));
+      return next;
+    }));
+  };
+
+  const addReplacement = (product: ExchangeProduct) => {
+    const existing = picked.find(pick => pick.productId === product.id);
+    if (existing) {
+      updateReplacement(product.id, existing.quantity + 1);
+    } else {
+      setPicked([...picked, { productId: product.id, quantity: 1 }]);
+    }
+    setProductSearch("");
+  };
+
+  const updateReplacement = (productId: number, quantity: number) => {
+    const stock = Number(products.find(p => p.id === productId)?.stock) || 0;
+    setPicked(picked.map(pick =>
+      pick.productId === productId ? { ...pick, quantity: Math.max(0, Math.min(quantity, stock)) } : pick
+    ));
+  };
+
+  const removeReplacement = (productId: number) => {
+    setPicked(picked.filter(pick => pick.productId !== productId));
+  };
+
+  const printSlip = async (slip: ReturnSlip) => {
+    const printerSettings = getPrinterSettings();
+    if (printerSettings.output === 'escpos') {
+      try {
+        await printRaw(encodeReturnSlip(slip, printerSettings.paperWidth), printerSettings);
+        return;
+      } catch (error) {
+        console.error('Thermal print failed, falling back to PDF:', error);
+        toast({
+          title: "Printer Unavailable",
+          description: "Slip downloaded as PDF instead",
+          variant: "destructive"
+        });
+      }
+    }
+    generateReturnSlipPDF(slip);
+  };
+
+  // Returned kits go back into stock as their components, scaled to the quantity returned
+  const restockKitComponents = async (returned: ReturnLine[], reference: string) => {
+    const failed: string[] = [];
+    for (const component of getKitComponentReturns(returned)) {
+      try {
+        await productsApi.adjustStock(component.productId, {
+          type: 'adjustment',
+          quantity: component.quantity,
+          reason: `Kit component returned on ${reference}`,
+          reference
+        });
+      } catch (error) {
+        console.error('Failed to restock kit component:', error);
+        failed.push(`${component.productName} (${component.quantity}${component.unit ? ` ${component.unit}` : ''})`);
+      }
+    }
+    if (failed.length > 0) {
+      toast({
+        title: "Kit Stock Not Fully Restocked",
+        description: `Adjust stock from Inventory for: ${failed.join(', ')}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Cash flow, drawer and customer balance entries for the difference; returns the credit note when one is issued
+  const postSettlement = async (reference: string): Promise<CreditNote | null> => {
+    const amount = Math.abs(settlement.difference);
+    if (!sale || amount === 0) return null;
+    const isRefund = settlement.difference > 0;
+    const customerName = sale.customerName || 'Walk-in Customer';
+
+    if (settlementMethod === 'cash') {
+      if (shift) {
+        try {
+          await shiftApi.addMovement(shift.id, {
+            type: isRefund ? 'refund' : 'cash_in',
+            amount,
+            reason: `${isRefund ? 'Return refund' : 'Exchange top-up'} for ${sale.orderNumber}`,
+          });
+        } catch (movementError) {
+          console.error('Failed to record drawer movement for return:', movementError);
+        }
+      }
+      try {
+        await newFinanceApi.createFinanceCashFlow({
+          type: isRefund ? 'outflow' : 'inflow',
+          amount,
+          date: new Date().toISOString().split('T')[0],
+          account_id: shift?.account_id,
+          reference,
+          description: `${isRefund ? 'Return refund' : 'Exchange difference'} - ${customerName} - order ${sale.orderNumber}`
+        });
+      } catch (cashFlowError) {
+        console.error('Failed to create cash flow entry for return:', cashFlowError);
+      }
+    } else if (settlementMethod === 'balance' && sale.customerId) {
+      const response = await customerBalanceService.updateBalance({
+        customerId: sale.customerId,
+        orderId: sale.id,
+        amount,
+        type: isRefund ? 'debit' : 'credit',
+        orderNumber: sale.orderNumber,
+        description: isRefund
+          ? `Return ${reference} credited against order ${sale.orderNumber}`
+          : `Exchange ${reference} difference charged to account`
+      });
+      if (!response.success) {
+        toast({
+          title: "Balance Not Updated",
+          description: response.message || "Update the customer balance manually",
+          variant: "destructive"
+        });
+      }
+    } else if (settlementMethod === 'store_credit' && isRefund) {
+      try {
+        const response = await creditNoteApi.issue({
+          code: generateCreditNoteCode(),
+          customer_id: sale.customerId || null,
+          customer_name: sale.customerName || null,
+          amount,
+          source: 'return',
+          reference,
+          order_number: sale.orderNumber,
+          issued_by: shift?.cashier,
+          notes: notes.trim() || undefined
+        });
+        if (response.success) return response.data;
+      } catch (issueError) {
+        console.error('Failed to issue credit note for return:', issueError);
+      }
+      toast({
+        title: "Credit Note Not Issued",
+        description: `Issue PKR ${amount.toLocaleString()} by hand from the Credits page`,
+        variant: "destructive"
+      });
+    }
+    return null;
+  };
+
+  const handleProcess = async () => {
+    if (!sale) return;
+    const returned = lines.filter(line => line.returnQuantity > 0);
+    const exchanged = replacements.filter(line => line.quantity > 0);
+    if (returned.length === 0) {
+      toast({
+        title: "No Items to Return",
+        description: "Enter the quantity being returned for at least one line",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (settlementMethod === 'balance' && !sale.customerId) {
+      toast({
+        title: "Customer Required",
+        description: "Walk-in sales can only be settled in cash or store credit",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const reference = `RET-${sale.orderNumber}-${Date.now().toString(36).toUpperCase().slice(-4)}`;
+
+      // Replacements go out as their own sale so stock and revenue are recorded normally. It is saved
+      // before the return so that a failure here leaves nothing recorded
+      let exchangeSaleRecord: { id?: number; orderNumber?: string } | null = null;
+      if (exchanged.length > 0) {
+        const exchangeTax = calculateTax(
+          exchanged.map(line => ({ productId: line.productId, category: line.category, amount: line.quantity * line.unitPrice })),
+          taxSettings,
+          customerExempt
+        );
+        try {
+          const exchangeSale = await salesApi.create({
+            shiftId: shift?.id,
+            customerId: sale.customerId || null,
+            customerName: sale.customerName || "Walk-in Customer",
+            items: exchanged.map(line => ({
+              productId: line.productId,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              listPrice: line.listPrice,
+              ...(line.tierLabel && { priceTier: line.tierLabel }),
+              totalPrice: line.quantity * line.unitPrice,
+              paidTotal: line.total,
+              paidUnitPrice: line.total / (line.quantity || 1),
+              discount: 0
+            })),
+            totalAmount: settlement.replacementTotal,
+            subtotal: exchanged.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0),
+            tax: exchangeTax.tax,
+            taxAmount: exchangeTax.tax,
+            taxableAmount: exchangeTax.taxableAmount,
+            taxInclusive: exchangeTax.inclusive,
+            taxExempt: exchangeTax.exempt,
+            taxBreakdown: exchangeTax.breakdown,
+            discount: 0,
+            paymentMethod: 'exchange',
+            exchangeFor: { orderId: sale.id, orderNumber: sale.orderNumber, reference },
+            notes: `Exchange for ${sale.orderNumber} (${reference})`,
+            status: 'completed'
+          });
+          if (!exchangeSale.success) throw new Error(exchangeSale.message || 'Failed to record the replacement items');
+          exchangeSaleRecord = exchangeSale.data || {};
+        } catch (createError) {
+          const reason = createError instanceof Error ? createError.message : 'Failed to record the replacement items';
+          throw new Error(`${reason}. Nothing was saved; try again.`);
+        }
+      }
+      const exchangeOrderNumber = exchangeSaleRecord?.orderNumber;
+
+      try {
+        const adjustment = await salesApi.adjustOrder(sale.id, {
+          type: exchanged.length > 0 ? "exchange" : "return",
+          items: returned.map(line => ({
+            productId: line.productId,
+            quantity: line.returnQuantity,
+            reason: line.reason,
+            // Kits hold no stock of their own; their components are restocked below
+            ...(line.kitComponents?.length && { restockItems: false })
+          })),
+          adjustmentReason: notes.trim() || `POS ${exchanged.length > 0 ? 'exchange' : 'return'} ${reference}`,
+          refundAmount: settlement.returnTotal,
+          refundMethod: settlementMethod,
+          settlementAmount: settlement.difference,
+          reference,
+          restockItems: true
+        });
+        if (!adjustment.success) throw new Error(adjustment.message || 'Failed to record the return');
+      } catch (adjustError) {
+        // Without the return the replacement sale would stand on its own, so it is cancelled
+        console.error('Failed to record return:', adjustError);
+        let cancelled = false;
+        if (exchangeSaleRecord?.id) {
+          try {
+            cancelled = (await salesApi.updateStatus(exchangeSaleRecord.id, { status: 'cancelled' })).success;
+          } catch (cancelError) {
+            console.error('Failed to cancel exchange sale:', cancelError);
+          }
+        }
+        const reason = adjustError instanceof Error ? adjustError.message : 'Failed to record the return';
+        toast({
+          title: "Return Not Recorded",
+          description: !exchangeSaleRecord
+            ? `${reason}. Nothing was saved; try again.`
+            : cancelled
+            ? `${reason}. Replacement order ${exchangeOrderNumber} was cancelled, so nothing was saved; try again.`
+            : `${reason}. Replacement order ${exchangeOrderNumber} was saved without the return. Cancel it from the Orders page before trying again.`,
+          variant: "destructive"
+        });
+        if (exchangeSaleRecord) onCompleted();
+        return;
+      }
+
+      await restockKitComponents(returned, reference);
+
+      const creditNote = await postSettlement(reference);
+
+      await printSlip({
+        reference,
+        originalOrderNumber: sale.orderNumber,
+        exchangeOrderNumber,
+        customerName: sale.customerName,
+        date: new Date().toISOString(),
+        returned,
+        replacements: exchanged,
+        settlement,
+        method: settlementMethod,
+        creditNoteNumber: creditNote?.note_number,
+        notes: notes.trim() || undefined
+      });
+      if (creditNote && !(await printCreditNote(creditNote))) {
+        toast({
+          title: "Printer Unavailable",
+          description: "Credit note downloaded as PDF instead",
+          variant: "destructive"
+        });
+      }
+
+      toast({
+        title: exchanged.length > 0 ? "Exchange Completed" : "Return Completed",
+        description: settlement.difference === 0
+          ? `Even exchange against order ${sale.orderNumber}`
+          : creditNote
+          ? `Credit note ${creditNote.note_number} issued for PKR ${Number(creditNote.amount).toLocaleString()}`
+          : `PKR ${Math.abs(settlement.difference).toLocaleString()} ${settlement.difference > 0 ? 'refunded' : 'collected'} by ${REFUND_METHOD_LABELS[settlementMethod].toLowerCase()}`,
+      });
+      onCompleted();
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Failed to process return:', error);
+      toast({
+        title: "Return Failed",
+        description: error instanceof Error ? error.message : "Failed to process the return",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Return / Exchange
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleLookup} className="flex gap-2">
+          <Input
+            autoFocus
+            placeholder="Receipt number or scan the receipt QR"
+            value={receiptInput}
+            onChange={(e) => setReceiptInput(e.target.value)}
+            className="flex-1"
+          />
+          <Button type="submit" variant="outline" disabled={isLookingUp || !receiptInput.trim()}>
+            {isLookingUp ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+            Find Sale
+          </Button>
+        </form>
+
+        {sale && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="secondary">#{sale.orderNumber}</Badge>
+              <span>{sale.customerName || 'Walk-in Customer'}</span>
+              <span className="text-muted-foreground">{new Date(sale.date).toLocaleDateString('en-GB')}</span>
+              <span className="ml-auto font-medium">PKR {Number(sale.total).toLocaleString()}</span>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Sold</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="w-24">Return</TableHead>
+                  <TableHead className="w-36">Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => (
+                  <TableRow key={`${line.productId}-${index}`}>
+                    <TableCell className="font-medium">{line.productName}</TableCell>
+                    <TableCell className="text-right">{line.soldQuantity}</TableCell>
+                    <TableCell className="text-right">{line.unitPrice.toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={line.soldQuantity}
+                        value={line.returnQuantity || ""}
+                        onChange={(e) => updateLine(index, { returnQuantity: parseFloat(e.target.value) || 0 })}
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select value={line.reason} onValueChange={(value) => updateLine(index, { reason: value })}>
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(RETURN_REASONS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label>Replacement items (optional)</Label>
+              <div className="relative">
+                <Input
+                  placeholder="Search products to exchange for"
+                  value={productSearch}
+                  onChange={(e) => setProductSearch(e.target.value)}
+                />
+                {productMatches.length > 0 && (
+                  <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md">
+                    {productMatches.map(product => (
+                      <button
+                        key={product.id}
+                        type="button"
+                        className="flex w-full items-center justify-between px-3 py-2 text-sm hover:bg-muted disabled:opacity-50"
+                        disabled={(Number(product.stock) || 0) <= 0}
+                        onClick={() => addReplacement(product)}
+                      >
+                        <span className="flex items-center gap-2">
+                          <Plus className="h-3 w-3" />
+                          {product.name}
+                        </span>
+                        <span className="text-muted-foreground">
+                          PKR {Number(product.listPrice ?? product.price).toLocaleString()} - {product.stock} in stock
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {replacements.map(line => (
+                <div key={line.productId} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 truncate">{line.productName}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={line.stock}
+                    value={line.quantity || ""}
+                    onChange={(e) => updateReplacement(line.productId, parseFloat(e.target.value) || 0)}
+                    className="h-8 w-20"
+                  />
+                  <span className="w-28 text-right">PKR {line.total.toLocaleString()}</span>
+                  <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={() => removeReplacement(line.productId)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Returned value</span>
+                  <span>PKR {settlement.returnTotal.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Replacement value</span>
+                  <span>PKR {settlement.replacementTotal.toLocaleString()}</span>
+                </div>
+                <div className={`flex justify-between font-bold ${settlement.difference < 0 ? 'text-orange-600' : 'text-green-700'}`}>
+                  <span>{settlement.difference < 0 ? 'Customer pays' : 'Refund due'}</span>
+                  <span>PKR {Math.abs(settlement.difference).toLocaleString()}</span>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>{settlement.difference < 0 ? 'Collect by' : 'Refund by'}</Label>
+                <Select
+                  value={settlementMethod}
+                  onValueChange={(value) => setMethod(value as RefundMethod)}
+                  disabled={settlement.difference === 0}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {methods.map(option => (
+                      <SelectItem key={option} value={option}>{REFUND_METHOD_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {settlementMethod === 'cash' && settlement.difference > 0 && !shift && (
+                  <p className="text-xs text-orange-600">No shift is open; the refund will not appear in a drawer count.</p>
+                )}
+              </div>
+            </div>
+
+            <Textarea
+              placeholder="Notes (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+
+            <Button className="w-full" onClick={handleProcess} disabled={saving || settlement.returnTotal <= 0}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Undo2 className="h-4 w-4 mr-2" />}
+              {replacements.length > 0 ? 'Complete Exchange' : 'Complete Return'} and Print Slip
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
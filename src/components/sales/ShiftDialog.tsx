@@ -0,0 +1,407 @@
+import React, { useState } from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Wallet, ArrowDownCircle, ArrowUpCircle, Lock, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fetchAllSales } from "@/services/api";
+import { newFinanceApi } from "@/services/newFinanceApi";
+import { CashMovementType, CashShift, shiftApi } from "@/services/shiftApi";
+import {
+  DenominationCount,
+  PKR_DENOMINATIONS,
+  ShiftSale,
+  calculateShiftSummary,
+  getDenominationTotal
+} from "@/utils/cashShift";
+import { generateZReportPDF } from "@/utils/zReportPdfGenerator";
+
+interface ShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shift: CashShift | null;
+  terminal: string;
+  onShiftChange: () => void;
+}
+
+const MOVEMENT_OPTIONS: { value: CashMovementType; label: string }[] = [
+  { value: 'cash_in', label: 'Cash In' },
+  { value: 'cash_out', label: 'Cash Out' },
+  { value: 'refund', label: 'Cash Refund' },
+];
+
+export const ShiftDialog: React.FC<ShiftDialogProps> = ({
+  open,
+  onOpenChange,
+  shift,
+  terminal,
+  onShiftChange
+}) => {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  // Open shift form
+  const [cashier, setCashier] = useState(() => localStorage.getItem('lastCashierName') || "");
+  const [accountId, setAccountId] = useState("");
+  const [openingFloat, setOpeningFloat] = useState("");
+
+  // Cash in / out form
+  const [movementType, setMovementType] = useState<CashMovementType>('cash_in');
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+
+  // Close shift form
+  const [denominations, setDenominations] = useState<DenominationCount>({});
+  const [closingNotes, setClosingNotes] = useState("");
+
+  const { data: accountsData } = useQuery({
+    queryKey: ['cash-accounts'],
+    queryFn: () => newFinanceApi.getAccounts({ type: 'cash', active: true }),
+    enabled: open && !shift,
+  });
+  const cashAccounts = accountsData?.success && Array.isArray(accountsData.data) ? accountsData.data : [];
+
+  const shiftDate = shift ? shift.opened_at.split('T')[0] : '';
+  const today = new Date().toISOString().split('T')[0];
+
+  const { data: shiftActivity, isLoading: activityLoading, refetch: refetchActivity } = useQuery({
+    queryKey: ['shift-activity', shift?.id],
+    queryFn: async () => {
+      // Every page of the shift's days, so a busy shift is not cut off at one page of sales
+      const [sales, expensesResponse] = await Promise.all([
+        fetchAllSales<ShiftSale>({ dateFrom: shiftDate, dateTo: today }),
+        newFinanceApi.getExpenses({ date_from: shiftDate, date_to: today, payment_method: 'cash', limit: 500 }),
+      ]);
+      return {
+        sales,
+        expenses: Array.isArray(expensesResponse.data) ? expensesResponse.data : [],
+      };
+    },
+    enabled: open && !!shift,
+  });
+
+  const summary = shift ? calculateShiftSummary(shift, shiftActivity?.sales || [], shiftActivity?.expenses || []) : null;
+  const countedCash = getDenominationTotal(denominations);
+  const variance = summary ? Math.round((countedCash - summary.expectedCash) * 100) / 100 : 0;
+
+  const handleOpenShift = async () => {
+    const float = parseFloat(openingFloat);
+    if (!cashier.trim() || isNaN(float) || float < 0) {
+      toast({
+        title: "Missing Details",
+        description: "Enter the cashier name and the opening float",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await shiftApi.open({
+        cashier: cashier.trim(),
+        terminal,
+        account_id: accountId ? parseInt(accountId) : undefined,
+        opening_float: float,
+      });
+      if (!response.success) throw new Error(response.message || 'Failed to open shift');
+
+      localStorage.setItem('lastCashierName', cashier.trim());
+      setOpeningFloat("");
+      onShiftChange();
+      toast({
+        title: "Shift Opened",
+        description: `Opening float PKR ${float.toLocaleString()} recorded.`,
+      });
+    } catch (error) {
+      console.error('Failed to open shift:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open shift",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddMovement = async () => {
+    if (!shift) return;
+    const amount = parseFloat(movementAmount);
+    if (isNaN(amount) || amount <= 0 || !movementReason.trim()) {
+      toast({
+        title: "Missing Details",
+        description: "Enter an amount and a reason",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await shiftApi.addMovement(shift.id, {
+        type: movementType,
+        amount,
+        reason: movementReason.trim(),
+      });
+      if (!response.success) throw new Error(response.message || 'Failed to record cash movement');
+
+      // Mirror the drawer movement in the cash account
+      try {
+        await newFinanceApi.createFinanceCashFlow({
+          type: movementType === 'cash_in' ? 'inflow' : 'outflow',
+          amount,
+          date: today,
+          account_id: shift.account_id,
+          reference: `Shift-${shift.shift_number || shift.id}`,
+          description: `${MOVEMENT_OPTIONS.find(option => option.value === movementType)?.label}: ${movementReason.trim()}`
+        });
+      } catch (cashFlowError) {
+        console.error('Failed to create cash flow entry for drawer movement:', cashFlowError);
+      }
+
+      setMovementAmount("");
+      setMovementReason("");
+      onShiftChange();
+      toast({
+        title: "Cash Movement Recorded",
+        description: `PKR ${amount.toLocaleString()} ${movementType === 'cash_in' ? 'added to' : 'taken from'} the drawer.`,
+      });
+    } catch (error) {
+      console.error('Failed to record cash movement:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record cash movement",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCloseShift = async () => {
+    if (!shift || !summary) return;
+    if (!confirm(`Close shift with counted cash PKR ${countedCash.toLocaleString()}?`)) return;
+
+    setSaving(true);
+    try {
+      const closing = {
+        closed_at: new Date().toISOString(),
+        cash_sales: summary.cashSales,
+        cash_refunds: summary.cashRefunds,
+        cash_expenses: summary.cashExpenses,
+        cash_in: summary.cashIn,
+        cash_out: summary.cashOut,
+        expected_cash: summary.expectedCash,
+        counted_cash: countedCash,
+        variance,
+        denominations,
+        sales_count: summary.salesCount,
+        total_sales: summary.totalSales,
+        notes: closingNotes.trim() || undefined,
+      };
+      const response = await shiftApi.close(shift.id, closing);
+      if (!response.success) throw new Error(response.message || 'Failed to close shift');
+
+      generateZReportPDF({ ...shift, ...closing, ...(response.data || {}) }, summary, denominations, countedCash);
+
+      setDenominations({});
+      setClosingNotes("");
+      onShiftChange();
+      onOpenChange(false);
+      toast({
+        title: "Shift Closed",
+        description: variance === 0
+          ? "Drawer balanced. Z-report downloaded."
+          : `Drawer ${variance > 0 ? 'over' : 'short'} by PKR ${Math.abs(variance).toLocaleString()}. Z-report downloaded.`,
+        variant: variance < 0 ? "destructive" : "default"
+      });
+    } catch (error) {
+      console.error('Failed to close shift:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to close shift",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-blue-600" />
+            {shift ? `Shift ${shift.shift_number || shift.id}` : 'Open Shift'}
+            <Badge variant="outline" className="ml-2">{terminal}</Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        {!shift ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="cashier">Cashier</Label>
+              <Input id="cashier" value={cashier} onChange={(e) => setCashier(e.target.value)} placeholder="Cashier name" />
+            </div>
+            <div>
+              <Label>Cash Drawer Account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select cash account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cashAccounts.map(account => (
+                    <SelectItem key={account.id} value={String(account.id)}>
+                      {account.account_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="openingFloat">Opening Float (PKR)</Label>
+              <Input
+                id="openingFloat"
+                type="number"
+                min="0"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                placeholder="Cash in the drawer at start"
+              />
+            </div>
+            <Button className="w-full" onClick={handleOpenShift} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wallet className="h-4 w-4 mr-2" />}
+              Open Shift
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="text-muted-foreground">Cashier</div>
+              <div className="text-right font-medium">{shift.cashier}</div>
+              <div className="text-muted-foreground">Opened</div>
+              <div className="text-right">{new Date(shift.opened_at).toLocaleString()}</div>
+            </div>
+
+            {/* Drawer summary */}
+            <div className="rounded-lg border p-3 space-y-1 text-sm">
+              {activityLoading || !summary ? (
+                <div className="flex justify-center py-4"><Loader2 className="h-5 w-5 animate-spin" /></div>
+              ) : (
+                <>
+                  <div className="flex justify-between"><span>Opening float</span><span>PKR {Number(shift.opening_float).toLocaleString()}</span></div>
+                  <div className="flex justify-between"><span>+ Cash sales ({summary.salesCount} sales)</span><span>PKR {summary.cashSales.toLocaleString()}</span></div>
+                  <div className="flex justify-between"><span>+ Cash in</span><span>PKR {summary.cashIn.toLocaleString()}</span></div>
+                  <div className="flex justify-between"><span>- Cash out</span><span>PKR {summary.cashOut.toLocaleString()}</span></div>
+                  <div className="flex justify-between"><span>- Cash refunds</span><span>PKR {summary.cashRefunds.toLocaleString()}</span></div>
+                  <div className="flex justify-between"><span>- Cash expenses</span><span>PKR {summary.cashExpenses.toLocaleString()}</span></div>
+                  <Separator className="my-1" />
+                  <div className="flex justify-between font-bold"><span>Expected in drawer</span><span>PKR {summary.expectedCash.toLocaleString()}</span></div>
+                </>
+              )}
+            </div>
+
+            {/* Cash in / out */}
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">Cash In / Out</h4>
+              <div className="flex gap-2">
+                <Select value={movementType} onValueChange={(value) => setMovementType(value as CashMovementType)}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MOVEMENT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  className="w-28"
+                  placeholder="Amount"
+                  value={movementAmount}
+                  onChange={(e) => setMovementAmount(e.target.value)}
+                />
+                <Input
+                  className="flex-1"
+                  placeholder="Reason"
+                  value={movementReason}
+                  onChange={(e) => setMovementReason(e.target.value)}
+                />
+                <Button variant="outline" onClick={handleAddMovement} disabled={saving}>
+                  {movementType === 'cash_in' ? <ArrowDownCircle className="h-4 w-4" /> : <ArrowUpCircle className="h-4 w-4" />}
+                </Button>
+              </div>
+              {(shift.movements || []).length > 0 && (
+                <div className="space-y-1 max-h-32 overflow-y-auto">
+                  {shift.movements.map((movement, index) => (
+                    <div key={movement.id || index} className="flex justify-between text-xs bg-muted/50 rounded px-2 py-1">
+                      <span>
+                        {MOVEMENT_OPTIONS.find(option => option.value === movement.type)?.label} - {movement.reason}
+                      </span>
+                      <span className={movement.type === 'cash_in' ? 'text-green-600' : 'text-red-600'}>
+                        {movement.type === 'cash_in' ? '+' : '-'}PKR {Number(movement.amount).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Close shift */}
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">Close Shift - Count the Drawer</h4>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                {PKR_DENOMINATIONS.map(note => (
+                  <div key={note}>
+                    <Label className="text-xs">{note}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="h-8"
+                      value={denominations[note] ?? ''}
+                      onChange={(e) => setDenominations(prev => ({ ...prev, [note]: Math.max(0, parseInt(e.target.value) || 0) }))}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="rounded-lg border p-3 space-y-1 text-sm">
+                <div className="flex justify-between"><span>Counted cash</span><span className="font-medium">PKR {countedCash.toLocaleString()}</span></div>
+                <div className="flex justify-between"><span>Expected cash</span><span>PKR {(summary?.expectedCash || 0).toLocaleString()}</span></div>
+                <div className={`flex justify-between font-bold ${variance < 0 ? 'text-red-600' : variance > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                  <span>Variance</span>
+                  <span>{variance === 0 ? 'Balanced' : `${variance > 0 ? 'Over' : 'Short'} PKR ${Math.abs(variance).toLocaleString()}`}</span>
+                </div>
+              </div>
+              <Textarea
+                placeholder="Closing notes (optional)"
+                value={closingNotes}
+                onChange={(e) => setClosingNotes(e.target.value)}
+                rows={2}
+              />
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => refetchActivity()} disabled={saving}>
+                  Refresh Totals
+                </Button>
+                <Button className="flex-1 bg-red-600 hover:bg-red-700" onClick={handleCloseShift} disabled={saving || !summary}>
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+                  Close Shift & Print Z-Report
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Keyboard } from "lucide-react";
+import { POS_SHORTCUTS } from "@/utils/posCommands";
+
+interface ShortcutsCheatSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ShortcutsCheatSheet: React.FC<ShortcutsCheatSheetProps> = ({
+  open,
+  onOpenChange
+}) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-md">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Keyboard className="h-5 w-5" />
+          Keyboard Shortcuts
+        </DialogTitle>
+      </DialogHeader>
+      <div className="divide-y">
+        {POS_SHORTCUTS.map((shortcut, index) => (
+          <div key={index} className="flex items-center justify-between py-2 text-sm">
+            <span className="text-muted-foreground">{shortcut.label}</span>
+            <span className="flex gap-1">
+              {shortcut.keys.map(key => (
+                <kbd key={key} className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs">{key}</kbd>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import {
+  PaymentTender,
+  TenderMethod,
+  TENDER_METHODS,
+  TENDER_METHOD_LABELS,
+  getTenderBalance,
+  roundCurrency
+} from "@/utils/paymentTenders";
+
+interface SplitTenderPanelProps {
+  tenders: PaymentTender[];
+  total: number;
+  onChange: (tenders: PaymentTender[]) => void;
+}
+
+export const SplitTenderPanel: React.FC<SplitTenderPanelProps> = ({
+  tenders,
+  total,
+  onChange
+}) => {
+  const balance = getTenderBalance(tenders, total);
+
+  const updateTender = (index: number, changes: Partial<PaymentTender>) => {
+    onChange(tenders.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)));
+  };
+
+  const removeTender = (index: number) => {
+    onChange(tenders.filter((_, i) => i !== index));
+  };
+
+  const addTender = () => {
+    const unusedMethod = TENDER_METHODS.find(method => !tenders.some(t => t.method === method)) || 'cash';
+    onChange([...tenders, { method: unusedMethod, amount: balance > 0 ? balance : 0 }]);
+  };
+
+  // Put whatever is still owed on this row
+  const fillRemaining = (index: number) => {
+    updateTender(index, { amount: roundCurrency((tenders[index].amount || 0) + balance) });
+  };
+
+  return (
+    <div className="space-y-1">
+      {tenders.map((tender, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <Select
+            value={tender.method}
+            onValueChange={(value) => updateTender(index, { method: value as TenderMethod })}
+          >
+            <SelectTrigger className="h-7 w-24 text-xs bg-background border-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TENDER_METHODS.map(method => (
+                <SelectItem key={method} value={method}>{TENDER_METHOD_LABELS[method]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={tender.amount || ''}
+            onChange={(e) => updateTender(index, { amount: parseFloat(e.target.value) || 0 })}
+            onDoubleClick={() => fillRemaining(index)}
+            className="h-7 text-xs flex-1"
+            placeholder="Amount"
+            title="Double-click to fill the remaining amount"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeTender(index)}
+            className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+            disabled={tenders.length <= 1}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addTender}
+          className="h-6 px-2 text-xs bg-background"
+          disabled={tenders.length >= TENDER_METHODS.length}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add tender
+        </Button>
+        <span className={`text-xs font-medium ${balance === 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {balance === 0
+            ? 'Fully tendered'
+            : balance > 0
+              ? `Remaining: PKR ${balance.toLocaleString()}`
+              : `Over by: PKR ${Math.abs(balance).toLocaleString()}`}
+        </span>
+      </div>
+    </div>
+  );
+};
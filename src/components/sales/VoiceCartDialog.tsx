@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mic, Loader2, RotateCcw } from "lucide-react";
+import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
+import { VOICE_LANGUAGES, VoiceCartMatch, VoiceProduct, matchVoiceRequests, resolveVoiceUnit } from "@/utils/voiceCart";
+import { VOICE_CART_PARSERS, getVoiceParserId, parseVoiceCart, saveVoiceParserId } from "@/utils/voiceCartParsers";
+import { getSaleUnits, getUnitLabel } from "@/utils/unitConversions";
+
+export interface VoiceCartLine<T extends VoiceProduct = VoiceProduct> {
+  product: T;
+  quantity: number;
+  unit: string;
+}
+
+interface VoiceCartDialogProps<T extends VoiceProduct> {
+  open: boolean;
+  products: T[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (lines: VoiceCartLine<T>[]) => void;
+}
+
+const LANGUAGE_KEY = 'voiceCartLanguage';
+
+// Push-to-talk order taking: speech becomes a list of matched lines the cashier confirms before they reach the cart
+export const VoiceCartDialog = <T extends VoiceProduct>({
+  open,
+  products,
+  onOpenChange,
+  onConfirm
+}: VoiceCartDialogProps<T>) => {
+  const [language, setLanguage] = useState(() => localStorage.getItem(LANGUAGE_KEY) || VOICE_LANGUAGES[0].value);
+  const [parserId, setParserId] = useState(getVoiceParserId);
+  const [matches, setMatches] = useState<VoiceCartMatch<T>[]>([]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [parsing, setParsing] = useState(false);
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+
+  const readOrder = async (text: string) => {
+    if (!text.trim()) return;
+    setParsing(true);
+    try {
+      const result = await parseVoiceCart(text, products.map(product => product.name), parserId);
+      setMatches(matchVoiceRequests(result.requests, products));
+      setExcluded(new Set());
+      setFallbackReason(result.fallbackReason || null);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const speech = useSpeechRecognition({ lang: language, onFinal: readOrder });
+
+  const updateMatch = (key: string, changes: Partial<VoiceCartMatch<T>>) => {
+    setMatches(prev => prev.map(match => (match.key === key ? { ...match, ...changes } : match)));
+  };
+
+  const changeProduct = (match: VoiceCartMatch<T>, productId: string) => {
+    const product = match.alternatives.find(candidate => String(candidate.id) === productId);
+    if (!product) return;
+    updateMatch(match.key, { product, ...resolveVoiceUnit(product, match.request.quantity, match.request.unit) });
+  };
+
+  const toggleLine = (key: string, checked: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (checked) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const confirmedLines = matches.filter(match => match.product && match.quantity > 0 && !excluded.has(match.key));
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      speech.stop();
+      speech.setTranscript("");
+      setMatches([]);
+      setFallbackReason(null);
+    }
+    onOpenChange(value);
+  };
+
+  const handleConfirm = () => {
+    onConfirm(confirmedLines.map(match => ({ product: match.product, quantity: match.quantity, unit: match.unit })));
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Mic className="h-5 w-5" />
+            Voice Order
+          </DialogTitle>
+          <DialogDescription>
+            Hold the button and say the order, e.g. "do dozen 3 inch hinge aur ek tala". Nothing is added until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              type="button"
+              size="lg"
+              variant={speech.listening ? "destructive" : "default"}
+              disabled={!speech.supported || parsing}
+              className="select-none"
+              onPointerDown={speech.start}
+              onPointerUp={speech.stop}
+              onPointerLeave={speech.stop}
+            >
+              <Mic className={`h-5 w-5 mr-2 ${speech.listening ? 'animate-pulse' : ''}`} />
+              {speech.listening ? 'Listening… release to finish' : 'Hold to talk'}
+            </Button>
+            <Select
+              value={language}
+              onValueChange={(value) => {
+                setLanguage(value);
+                localStorage.setItem(LANGUAGE_KEY, value);
+              }}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VOICE_LANGUAGES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={parserId}
+              onValueChange={(value) => {
+                setParserId(value);
+                saveVoiceParserId(value);
+              }}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VOICE_CART_PARSERS.map(parser => (
+                  <SelectItem key={parser.id} value={parser.id}>{parser.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!speech.supported && (
+            <p className="text-sm text-muted-foreground">
+              This browser has no speech recognition. Type the order below instead.
+            </p>
+          )}
+          {speech.error && <p className="text-sm text-red-600">{speech.error}</p>}
+
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              readOrder(speech.transcript);
+            }}
+          >
+            <Input
+              value={speech.transcript}
+              onChange={(e) => speech.setTranscript(e.target.value)}
+              placeholder="What was heard appears here; correct it and read again"
+              disabled={speech.listening}
+            />
+            <Button type="submit" variant="outline" disabled={parsing || speech.listening || !speech.transcript.trim()}>
+              {parsing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+              <span className="ml-1">Read</span>
+            </Button>
+          </form>
+
+          {fallbackReason && (
+            <p className="text-xs text-amber-600">{fallbackReason}; read on this device instead.</p>
+          )}
+
+          {matches.length > 0 && (
+            <div className="rounded-lg border divide-y max-h-80 overflow-y-auto">
+              {matches.map(match => {
+                const unitOptions = match.product ? getSaleUnits(match.product) : [];
+                return (
+                  <div key={match.key} className="flex items-start gap-3 px-3 py-2">
+                    <Checkbox
+                      className="mt-2"
+                      checked={!!match.product && !excluded.has(match.key)}
+                      disabled={!match.product}
+                      onCheckedChange={(checked) => toggleLine(match.key, checked === true)}
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-xs text-muted-foreground truncate">"{match.request.phrase}"</p>
+                      {match.product ? (
+                        <Select value={String(match.product.id)} onValueChange={(value) => changeProduct(match, value)}>
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {match.alternatives.map(product => (
+                              <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <p className="text-sm text-red-600">No product matches "{match.request.term}"</p>
+                      )}
+                      {match.note && <p className="text-xs text-amber-600">{match.note}</p>}
+                    </div>
+                    {match.product && (
+                      <>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="h-8 w-20"
+                          value={match.quantity}
+                          onChange={(e) => updateMatch(match.key, { quantity: parseFloat(e.target.value) || 0 })}
+                        />
+                        <Select value={match.unit} onValueChange={(value) => updateMatch(match.key, { unit: value })}>
+                          <SelectTrigger className="h-8 w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {unitOptions.map(option => (
+                              <SelectItem key={option.unit} value={option.unit}>{getUnitLabel(option.unit)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="button" className="flex-1" disabled={confirmedLines.length === 0} onClick={handleConfirm}>
+              Add {confirmedLines.length || ''} to Cart
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { MonitorSmartphone, ExternalLink } from "lucide-react";
+import { SettingsData } from "@/services/settingsApi";
+import { DEFAULT_PROMOTIONS, formatPromotions, openCustomerDisplayWindow, parsePromotions } from "@/utils/customerDisplay";
+
+interface CustomerDisplayCardProps {
+  store: SettingsData['store'];
+  onChange: <K extends keyof SettingsData['store']>(field: K, value: SettingsData['store'][K]) => void;
+}
+
+export const CustomerDisplayCard = ({ store, onChange }: CustomerDisplayCardProps) => {
+  const [text, setText] = useState(() => formatPromotions(store.displayPromotions));
+
+  const handleChange = (value: string) => {
+    setText(value);
+    onChange('displayPromotions', parsePromotions(value));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Customer Display
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Open the customer display on a second monitor at the till. It follows the POS cart live and
+          cycles through these promotions while the cart is empty.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="displayPromotions">Promotions (one per line, "Title | subtitle")</Label>
+          <Textarea
+            id="displayPromotions"
+            rows={4}
+            value={text}
+            onChange={(e) => handleChange(e.target.value)}
+            placeholder={formatPromotions(DEFAULT_PROMOTIONS)}
+          />
+        </div>
+        <Button type="button" variant="link" className="px-0" onClick={openCustomerDisplayWindow}>
+          Open customer display
+          <ExternalLink className="h-3 w-3 ml-1" />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,61 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShieldAlert, ExternalLink } from "lucide-react";
+import { SettingsData } from "@/services/settingsApi";
+import { getMinimumPrice, getPriceGuardSettings } from "@/utils/priceGuard";
+
+interface PriceGuardCardProps {
+  store: SettingsData['store'];
+  onChange: <K extends keyof SettingsData['store']>(field: K, value: SettingsData['store'][K]) => void;
+}
+
+export const PriceGuardCard = ({ store, onChange }: PriceGuardCardProps) => {
+  const settings = getPriceGuardSettings(store);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Price Override Guard
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Cashiers can change a line price at the till, but a price below cost or below the minimum margin
+          needs the manager PIN. Every override is logged with the old and new price.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="minimumMarginPercent">Minimum Margin (%)</Label>
+            <Input
+              id="minimumMarginPercent"
+              type="number"
+              min="0"
+              max="99"
+              step="0.5"
+              value={store.minimumMarginPercent ?? 0}
+              onChange={(e) => onChange('minimumMarginPercent', parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div className="flex items-end">
+            <p className="text-sm text-muted-foreground">
+              {settings.minimumMarginPercent > 0
+                ? `An item costing PKR 100 cannot go below PKR ${getMinimumPrice(100, settings).toLocaleString()} without approval.`
+                : 'Only prices below cost need approval.'}
+            </p>
+          </div>
+        </div>
+        <Button type="button" variant="link" className="px-0" asChild>
+          <Link to="/audit-logs">
+            Review price overrides
+            <ExternalLink className="h-3 w-3 ml-1" />
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
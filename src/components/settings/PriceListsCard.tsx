@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tags, Plus, X } from "lucide-react";
+import { productsApi } from "@/services/api";
+import { SettingsData } from "@/services/settingsApi";
+import { CustomerType } from "@/data/storeData";
+import { PRICE_LIST_TYPES, PriceListRule, getPriceListLabel } from "@/utils/priceLists";
+
+interface PriceListsCardProps {
+  store: SettingsData['store'];
+  onChange: <K extends keyof SettingsData['store']>(field: K, value: SettingsData['store'][K]) => void;
+}
+
+const EMPTY_RULE: PriceListRule = { discountPercent: 0, productPrices: {} };
+
+export const PriceListsCard = ({ store, onChange }: PriceListsCardProps) => {
+  const [activeType, setActiveType] = useState<CustomerType>(PRICE_LIST_TYPES[0]);
+  const [productId, setProductId] = useState("");
+  const [productPrice, setProductPrice] = useState("");
+
+  const { data: productsData } = useQuery({
+    queryKey: ['settings-products'],
+    queryFn: () => productsApi.getAll({ limit: 1000, status: 'active' }),
+  });
+
+  const productsList = productsData?.data?.products || productsData?.data || [];
+  const products: Array<{ id: number; name: string; price: number }> = Array.isArray(productsList) ? productsList : [];
+
+  const priceLists = store.priceLists || {};
+
+  const updateRule = (type: CustomerType, changes: Partial<PriceListRule>) => {
+    onChange('priceLists', {
+      ...priceLists,
+      [type]: { ...EMPTY_RULE, ...priceLists[type], ...changes },
+    });
+  };
+
+  const addProductPrice = (type: CustomerType) => {
+    if (!productId || productPrice === '') return;
+    const rule = priceLists[type] || EMPTY_RULE;
+    updateRule(type, { productPrices: { ...rule.productPrices, [productId]: parseFloat(productPrice) || 0 } });
+    setProductId("");
+    setProductPrice("");
+  };
+
+  const removeProductPrice = (type: CustomerType, id: string) => {
+    const next = { ...(priceLists[type]?.productPrices || {}) };
+    delete next[id];
+    updateRule(type, { productPrices: next });
+  };
+
+  const getProduct = (id: string) => products.find((p) => String(p.id) === id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Customer Price Lists
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4">
+          Prices used automatically at the POS and on quotations once a customer with this price list is selected.
+          Agreed prices for a single customer are set on the customer.
+        </p>
+        <Tabs value={activeType} onValueChange={(value) => setActiveType(value as CustomerType)}>
+          <TabsList className="flex-wrap h-auto">
+            {PRICE_LIST_TYPES.map(type => (
+              <TabsTrigger key={type} value={type}>{getPriceListLabel(type)}</TabsTrigger>
+            ))}
+          </TabsList>
+
+          {PRICE_LIST_TYPES.map(type => {
+            const rule = priceLists[type] || EMPTY_RULE;
+            return (
+              <TabsContent key={type} value={type} className="space-y-4 pt-2">
+                <div className="flex items-center gap-2">
+                  <Label className="flex-1">Discount off list price</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    className="w-24"
+                    value={rule.discountPercent || ''}
+                    placeholder="0"
+                    onChange={(e) => updateRule(type, { discountPercent: parseFloat(e.target.value) || 0 })}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="font-medium text-sm">Product Prices</h4>
+                  <div className="flex gap-2">
+                    <Select value={productId} onValueChange={setProductId}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent className="max-h-72">
+                        {products.map((product) => (
+                          <SelectItem key={product.id} value={String(product.id)}>
+                            {product.name} (PKR {Number(product.price || 0).toLocaleString()})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-28"
+                      placeholder="Price"
+                      value={productPrice}
+                      onChange={(e) => setProductPrice(e.target.value)}
+                    />
+                    <Button type="button" variant="outline" onClick={() => addProductPrice(type)} disabled={!productId || productPrice === ''}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {Object.entries(rule.productPrices || {}).map(([id, price]) => {
+                    const product = getProduct(id);
+                    return (
+                      <div key={id} className="flex items-center justify-between p-2 bg-muted/50 rounded-lg">
+                        <span className="text-sm">{product?.name || `Product #${id}`}</span>
+                        <div className="flex items-center gap-2">
+                          {product && (
+                            <span className="text-xs text-muted-foreground line-through">
+                              PKR {Number(product.price || 0).toLocaleString()}
+                            </span>
+                          )}
+                          <span className="text-sm font-medium">PKR {Number(price).toLocaleString()}</span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() => removeProductPrice(type, id)}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,66 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { QrCode, KeyRound, ExternalLink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useReceiptSigning } from "@/hooks/useReceiptSigning";
+
+export const ReceiptVerificationCard = () => {
+  const { toast } = useToast();
+  const { keyStatus, isLoading, isError, rotateKey } = useReceiptSigning();
+  const hasKey = !!keyStatus?.configured;
+
+  const handleGenerate = async () => {
+    if (hasKey && !confirm("Receipts printed with the current key will no longer verify. Generate a new key?")) return;
+    try {
+      await rotateKey();
+      toast({ title: "Signing Key Ready", description: "New receipts are signed with the new key." });
+    } catch {
+      toast({ title: "Error", description: "Could not generate a signing key on the server", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Receipt Verification
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Receipt QR codes are signed by the server with a store key so returns can be checked against the original sale.
+          The key is kept on the server and never sent to this browser.
+        </p>
+        <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+          <div className="flex items-center gap-2">
+            <KeyRound className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm font-medium">Signing key</span>
+            {isLoading ? (
+              <Badge variant="outline">Checking...</Badge>
+            ) : isError ? (
+              <Badge variant="outline">Server unavailable</Badge>
+            ) : hasKey ? (
+              <Badge variant="secondary">
+                Set{keyStatus?.rotated_at ? ` on ${new Date(keyStatus.rotated_at).toLocaleDateString('en-GB')}` : ''}
+              </Badge>
+            ) : (
+              <Badge variant="destructive">Not set</Badge>
+            )}
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={handleGenerate} disabled={isLoading || isError}>
+            {hasKey ? 'Rotate Key' : 'Generate Key'}
+          </Button>
+        </div>
+        <Button type="button" variant="link" className="px-0" asChild>
+          <Link to="/verify">
+            Open receipt verification
+            <ExternalLink className="h-3 w-3 ml-1" />
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
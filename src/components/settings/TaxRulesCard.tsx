@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Receipt, Plus, X } from "lucide-react";
+import { categoriesApi, productsApi } from "@/services/api";
+import { SettingsData } from "@/services/settingsApi";
+
+interface TaxRulesCardProps {
+  store: SettingsData['store'];
+  onChange: <K extends keyof SettingsData['store']>(field: K, value: SettingsData['store'][K]) => void;
+}
+
+export const TaxRulesCard = ({ store, onChange }: TaxRulesCardProps) => {
+  const [overrideProductId, setOverrideProductId] = useState<string>("");
+  const [overrideRate, setOverrideRate] = useState<string>("");
+
+  const { data: categoriesData } = useQuery({
+    queryKey: ['categories'],
+    queryFn: categoriesApi.getAll,
+  });
+
+  const { data: productsData } = useQuery({
+    queryKey: ['settings-products'],
+    queryFn: () => productsApi.getAll({ limit: 1000, status: 'active' }),
+  });
+
+  const categories: string[] = Array.isArray(categoriesData?.data) ? categoriesData.data.filter(Boolean) : [];
+  const productsList = productsData?.data?.products || productsData?.data || [];
+  const products: Array<{ id: number; name: string }> = Array.isArray(productsList) ? productsList : [];
+
+  const categoryRates = store.categoryTaxRates || {};
+  const productRates = store.productTaxRates || {};
+
+  const setCategoryRate = (category: string, value: string) => {
+    const next = { ...categoryRates };
+    if (value === '') {
+      delete next[category];
+    } else {
+      next[category] = parseFloat(value) || 0;
+    }
+    onChange('categoryTaxRates', next);
+  };
+
+  const addProductOverride = () => {
+    if (!overrideProductId || overrideRate === '') return;
+    onChange('productTaxRates', { ...productRates, [overrideProductId]: parseFloat(overrideRate) || 0 });
+    setOverrideProductId("");
+    setOverrideRate("");
+  };
+
+  const removeProductOverride = (productId: string) => {
+    const next = { ...productRates };
+    delete next[productId];
+    onChange('productTaxRates', next);
+  };
+
+  const getProductName = (productId: string) =>
+    products.find((p) => String(p.id) === productId)?.name || `Product #${productId}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Sales Tax Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="pricesIncludeTax">Prices Include Tax</Label>
+            <p className="text-sm text-muted-foreground">
+              When on, product prices are tax-inclusive and tax is extracted from them. When off, tax is added at checkout.
+            </p>
+          </div>
+          <Switch
+            id="pricesIncludeTax"
+            checked={store.pricesIncludeTax || false}
+            onCheckedChange={(checked) => onChange('pricesIncludeTax', checked)}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="purchasePricesIncludeTax">Supplier Costs Include Tax</Label>
+            <p className="text-sm text-muted-foreground">
+              When on, cost prices on purchase orders are tax-inclusive. When off, input tax is added on top of them.
+            </p>
+          </div>
+          <Switch
+            id="purchasePricesIncludeTax"
+            checked={store.purchasePricesIncludeTax || false}
+            onCheckedChange={(checked) => onChange('purchasePricesIncludeTax', checked)}
+          />
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium">Category Rates</h4>
+            <p className="text-sm text-muted-foreground">
+              Leave blank to use the store tax rate ({store.taxRate || 0}%).
+            </p>
+          </div>
+          {categories.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {categories.map((category) => (
+                <div key={category} className="flex items-center gap-2">
+                  <Label className="flex-1 truncate" title={category}>{category}</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-24"
+                    placeholder={`${store.taxRate || 0}`}
+                    value={categoryRates[category] ?? ''}
+                    onChange={(e) => setCategoryRate(category, e.target.value)}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No categories found</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium">Product Overrides</h4>
+            <p className="text-sm text-muted-foreground">
+              A product rate takes priority over its category rate.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={overrideProductId} onValueChange={setOverrideProductId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Select product" />
+              </SelectTrigger>
+              <SelectContent className="max-h-72">
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={String(product.id)}>
+                    {product.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-24"
+              placeholder="Rate %"
+              value={overrideRate}
+              onChange={(e) => setOverrideRate(e.target.value)}
+            />
+            <Button type="button" variant="outline" onClick={addProductOverride} disabled={!overrideProductId || overrideRate === ''}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          {Object.keys(productRates).length > 0 && (
+            <div className="space-y-2">
+              {Object.entries(productRates).map(([productId, rate]) => (
+                <div key={productId} className="flex items-center justify-between p-2 bg-muted/50 rounded-lg">
+                  <span className="text-sm">{getProductName(productId)}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{rate}%</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => removeProductOverride(productId)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
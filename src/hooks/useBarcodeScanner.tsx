@@ -0,0 +1,72 @@
+import { useEffect, useRef } from "react";
+
+interface BarcodeScannerOptions {
+  onScan: (code: string) => void;
+  enabled?: boolean;
+  minLength?: number;
+  maxKeyInterval?: number; // ms between keystrokes; scanners type far faster than people
+}
+
+// Reset a React-controlled input so the scanned characters do not stay in it
+const restoreInputValue = (element: HTMLInputElement | HTMLTextAreaElement, value: string) => {
+  const prototype = element instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+  setter?.call(element, value);
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+/**
+ * Detects keyboard-wedge barcode scanners anywhere on the page.
+ * A scan is a burst of quick keystrokes ending in Enter or Tab.
+ */
+export function useBarcodeScanner({ onScan, enabled = true, minLength = 4, maxKeyInterval = 35 }: BarcodeScannerOptions) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyTime = 0;
+    let burstTarget: HTMLInputElement | HTMLTextAreaElement | null = null;
+    let valueBeforeBurst = "";
+
+    const reset = () => {
+      buffer = "";
+      burstTarget = null;
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey) return;
+
+      const now = Date.now();
+      const isBurst = now - lastKeyTime <= maxKeyInterval;
+      lastKeyTime = now;
+
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        if (isBurst && buffer.length >= minLength) {
+          event.preventDefault();
+          event.stopPropagation();
+          if (burstTarget) restoreInputValue(burstTarget, valueBeforeBurst);
+          onScanRef.current(buffer);
+        }
+        reset();
+        return;
+      }
+
+      if (event.key.length !== 1) return;
+
+      if (!isBurst) {
+        // First key of a possible scan: remember the field it lands in
+        buffer = "";
+        const target = event.target;
+        burstTarget = target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement ? target : null;
+        valueBeforeBurst = burstTarget?.value || "";
+      }
+      buffer += event.key;
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled, minLength, maxKeyInterval]);
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { shiftApi } from "@/services/shiftApi";
+import { getTerminalId } from "@/utils/terminal";
+
+export function useCashShift() {
+  const terminal = getTerminalId();
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['current-shift', terminal],
+    queryFn: () => shiftApi.getCurrent(terminal),
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const shift = data?.success && data.data?.status === 'open' ? data.data : null;
+
+  return {
+    shift,
+    terminal,
+    isLoading,
+    refetch,
+  };
+}
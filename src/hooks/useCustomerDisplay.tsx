@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  CustomerDisplayCart,
+  CustomerDisplayMessage,
+  CustomerDisplaySale,
+  openDisplayChannel
+} from "@/utils/customerDisplay";
+
+// Keeps the customer display in step with the till's cart
+export function useCustomerDisplay(cart: CustomerDisplayCart) {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const cartRef = useRef(cart);
+  cartRef.current = cart;
+
+  useEffect(() => {
+    const channel = openDisplayChannel();
+    if (!channel) return;
+    channelRef.current = channel;
+    // A display opened mid-sale asks for the cart instead of waiting for the next change
+    channel.onmessage = (event: MessageEvent<CustomerDisplayMessage>) => {
+      if (event.data?.type === 'request_state') {
+        channel.postMessage({ type: 'cart', cart: cartRef.current } as CustomerDisplayMessage);
+      }
+    };
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // Posting only when the content changes keeps re-renders of the till off the channel
+  const serialized = JSON.stringify(cart);
+  useEffect(() => {
+    channelRef.current?.postMessage({ type: 'cart', cart: JSON.parse(serialized) } as CustomerDisplayMessage);
+  }, [serialized]);
+
+  const announceSale = useCallback((sale: CustomerDisplaySale) => {
+    channelRef.current?.postMessage({ type: 'sale_complete', sale } as CustomerDisplayMessage);
+  }, []);
+
+  return { announceSale };
+}
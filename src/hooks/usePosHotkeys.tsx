@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+
+// Key combos like 'F2', 'Mod+K' or 'Mod+Enter'; Mod is Ctrl, or Cmd on a Mac
+export type HotkeyBindings = Record<string, () => void>;
+
+const getCombo = (event: KeyboardEvent): string => {
+  const key = event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  return `${event.ctrlKey || event.metaKey ? 'Mod+' : ''}${event.altKey ? 'Alt+' : ''}${key}`;
+};
+
+/**
+ * Page-level hotkeys for the POS. Function keys and Mod combos work while typing in a field,
+ * so the cashier never has to leave the keyboard.
+ */
+export function usePosHotkeys(bindings: HotkeyBindings, enabled = true) {
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const handler = bindingsRef.current[getCombo(event)];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
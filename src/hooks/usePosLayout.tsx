@@ -0,0 +1,80 @@
+import { useEffect, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { settingsApi, SettingsData } from "@/services/settingsApi";
+import { getTerminalId } from "@/utils/terminal";
+import {
+  PosLayout,
+  cachePosLayout,
+  getLegacyPosLayout,
+  getTerminalScope,
+  getUserScope,
+  normalizePosLayout,
+  resolvePosLayout
+} from "@/utils/posLayout";
+
+type SettingsQueryData = { success: boolean; data: SettingsData } | undefined;
+
+/**
+ * The POS layout for this cashier (when a shift is open) or this counter, from the shared settings.
+ * Changes are shown at once and saved to the cashier's or counter's own entry.
+ */
+export function usePosLayout(cashier?: string | null) {
+  const queryClient = useQueryClient();
+  const terminal = getTerminalId();
+  // Shares the 'settings' query with the Settings page and the POS pricing hooks
+  const { data: settingsData, isLoading, isError } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsApi.getSettings,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const settings = (settingsData && 'data' in settingsData ? settingsData.data : settingsData) as Partial<SettingsData> | undefined;
+  const store = settings?.store;
+  const scopes = useMemo(
+    () => [...(cashier ? [getUserScope(cashier)] : []), getTerminalScope(terminal)],
+    [cashier, terminal]
+  );
+  const saveScope = scopes[0];
+
+  const resolved = useMemo(() => {
+    // Offline, or nothing set up yet: keep what this browser had
+    const legacy = getLegacyPosLayout();
+    if (isError) return { layout: legacy || resolvePosLayout(undefined, scopes).layout, source: 'default' as const };
+    const result = resolvePosLayout(store, scopes);
+    return result.source === 'default' && legacy ? { layout: legacy, source: result.source } : result;
+  }, [store, scopes, isError]);
+
+  useEffect(() => {
+    if (!isLoading) cachePosLayout(resolved.layout);
+  }, [resolved.layout, isLoading]);
+
+  const saveLayout = async (changes: Partial<PosLayout>) => {
+    const layout = normalizePosLayout({
+      ...resolved.layout,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+      updatedBy: cashier || terminal,
+    });
+    // Show the change straight away; the server copy follows
+    queryClient.setQueryData<SettingsQueryData>(['settings'], old =>
+      old?.data ? { ...old, data: { ...old.data, store: { ...old.data.store, posLayouts: { ...old.data.store?.posLayouts, [saveScope]: layout } } } } : old
+    );
+    cachePosLayout(layout);
+    try {
+      await settingsApi.updateStoreFields(current => ({ posLayouts: { ...current.posLayouts, [saveScope]: layout } }));
+      return true;
+    } catch (error) {
+      console.error('Failed to save POS layout:', error);
+      return false;
+    }
+  };
+
+  return {
+    layout: resolved.layout,
+    source: resolved.source,
+    scope: saveScope,
+    isLoading,
+    saveLayout,
+  };
+}
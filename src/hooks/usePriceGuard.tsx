@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { settingsApi, SettingsData } from "@/services/settingsApi";
+import { getPriceGuardSettings } from "@/utils/priceGuard";
+
+export function usePriceGuard() {
+  // Shares the 'settings' query with the Settings page and the POS pricing hooks
+  const { data: settingsData, isLoading } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsApi.getSettings,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const settings = (settingsData && 'data' in settingsData ? settingsData.data : settingsData) as Partial<SettingsData> | undefined;
+
+  return {
+    priceGuardSettings: getPriceGuardSettings(settings?.store),
+    isLoading,
+  };
+}
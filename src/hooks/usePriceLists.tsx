@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { settingsApi, SettingsData } from "@/services/settingsApi";
+import { EMPTY_PRICE_LISTS, PriceLists } from "@/utils/priceLists";
+
+export function usePriceLists() {
+  // Shares the 'settings' query with the Settings page and the tax rules
+  const { data: settingsData, isLoading } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsApi.getSettings,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const settings = (settingsData && 'data' in settingsData ? settingsData.data : settingsData) as Partial<SettingsData> | undefined;
+  const priceLists: PriceLists = settings?.store?.priceLists || EMPTY_PRICE_LISTS;
+
+  return {
+    priceLists,
+    isLoading,
+  };
+}
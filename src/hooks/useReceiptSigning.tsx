@@ -0,0 +1,26 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { receiptApi } from "@/services/receiptApi";
+
+export function useReceiptSigning() {
+  // Only whether a key exists; the key itself stays on the server
+  const queryClient = useQueryClient();
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['receipt-signing-key'],
+    queryFn: receiptApi.getKeyStatus,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const rotateKey = async () => {
+    const response = await receiptApi.rotateKey();
+    queryClient.setQueryData(['receipt-signing-key'], response);
+    return response.data;
+  };
+
+  return {
+    keyStatus: data?.data,
+    isLoading,
+    isError,
+    rotateKey,
+  };
+}
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const SPEECH_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was blocked. Allow it in the browser to use voice.',
+  'no-speech': 'Nothing was heard. Hold the button and speak.',
+  'audio-capture': 'No microphone was found.',
+  'network': 'Speech recognition needs an internet connection in this browser.',
+};
+
+const getRecognitionClass = () =>
+  typeof window === 'undefined' ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+/**
+ * Push-to-talk speech recognition: start() while the button is held, stop() on release.
+ * The transcript builds up live and the final text is passed to onFinal.
+ */
+export function useSpeechRecognition({ lang, onFinal }: { lang: string; onFinal: (transcript: string) => void }) {
+  const [listening, setListening] = useState(false);
+  const [transcript, setTranscript] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const finalRef = useRef("");
+  const onFinalRef = useRef(onFinal);
+  onFinalRef.current = onFinal;
+
+  const supported = !!getRecognitionClass();
+
+  const start = useCallback(() => {
+    const Recognition = getRecognitionClass();
+    if (!Recognition || recognitionRef.current) return;
+
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    finalRef.current = "";
+    setTranscript("");
+    setError(null);
+
+    recognition.onresult = (event) => {
+      let interim = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const text = event.results[i][0].transcript;
+        if (event.results[i].isFinal) finalRef.current = `${finalRef.current} ${text}`.trim();
+        else interim += text;
+      }
+      setTranscript(`${finalRef.current} ${interim}`.trim());
+    };
+    recognition.onerror = (event) => {
+      if (event.error !== 'aborted') setError(SPEECH_ERRORS[event.error] || `Speech recognition failed: ${event.error}`);
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setListening(false);
+      if (finalRef.current) onFinalRef.current(finalRef.current);
+    };
+
+    recognitionRef.current = recognition;
+    recognition.start();
+    setListening(true);
+  }, [lang]);
+
+  // Releasing the button lets the browser finish the last words before onend fires
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  return { supported, listening, transcript, setTranscript, error, start, stop };
+}
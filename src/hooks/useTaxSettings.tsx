@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { settingsApi, SettingsData } from "@/services/settingsApi";
+import { getPurchaseTaxSettings, getTaxSettings } from "@/utils/taxEngine";
+
+export function useTaxSettings() {
+  // Shares the 'settings' query with the Settings page so saved tax rules apply immediately
+  const { data: settingsData, isLoading } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsApi.getSettings,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  // Handle both API response format and the Settings page fallback format
+  const settings = (settingsData && 'data' in settingsData ? settingsData.data : settingsData) as Partial<SettingsData> | undefined;
+
+  return {
+    taxSettings: getTaxSettings(settings?.store),
+    purchaseTaxSettings: getPurchaseTaxSettings(settings?.store),
+    isLoading,
+  };
+}
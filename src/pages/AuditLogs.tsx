@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { apiConfig } from "@/utils/apiConfig";
+import { PriceOverrideLog } from "@/components/audit/PriceOverrideLog";
 import { format } from "date-fns";
 
 interface AuditLog {
@@ -447,6 +448,8 @@ const AuditLogs = () => {
           </div>
         )}
 
+        <PriceOverrideLog />
+
         {/* Filters */}
         <Card className="mb-6 border-border/50">
           <CardContent className="p-4">
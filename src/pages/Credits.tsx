@@ -14,6 +14,7 @@ import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { customersApi } from "@/services/api";
 import { useCustomerBalance } from "@/hooks/useCustomerBalance";
+import { CreditNotesLedger } from "@/components/credits/CreditNotesLedger";
 import { format } from "date-fns";
 import { GeminiService } from "@/services/geminiApi";
 import { Loader2 } from "lucide-react";
@@ -463,6 +464,8 @@ const Credits = () => {
         </CardContent>
       </Card>
 
+      <CreditNotesLedger customers={customers} />
+
       {/* Modals */}
       {selectedCustomer && (
         <>
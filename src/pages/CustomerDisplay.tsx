@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Maximize, ShoppingCart } from "lucide-react";
+import { settingsApi, SettingsData } from "@/services/settingsApi";
+import {
+  CustomerDisplayCart,
+  CustomerDisplayMessage,
+  CustomerDisplaySale,
+  SLIDE_INTERVAL_MS,
+  THANK_YOU_MS,
+  getDisplayPromotions,
+  openDisplayChannel
+} from "@/utils/customerDisplay";
+
+const formatAmount = (amount: number) =>
+  `PKR ${Number(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+// Second-monitor view for the customer: the live cart while ringing up, promotions when idle
+const CustomerDisplay = () => {
+  const [cart, setCart] = useState<CustomerDisplayCart | null>(null);
+  const [completedSale, setCompletedSale] = useState<CustomerDisplaySale | null>(null);
+  const [slide, setSlide] = useState(0);
+  const [isConnected, setIsConnected] = useState(true);
+
+  const { data: settingsData } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsApi.getSettings,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+  const settings = (settingsData && 'data' in settingsData ? settingsData.data : settingsData) as Partial<SettingsData> | undefined;
+  const storeName = settings?.store?.name || 'Usman Hardware';
+  const promotions = getDisplayPromotions(settings?.store);
+
+  useEffect(() => {
+    const channel = openDisplayChannel();
+    if (!channel) {
+      setIsConnected(false);
+      return;
+    }
+    channel.onmessage = (event: MessageEvent<CustomerDisplayMessage>) => {
+      const message = event.data;
+      if (message?.type === 'cart') setCart(message.cart);
+      if (message?.type === 'sale_complete') setCompletedSale(message.sale);
+    };
+    channel.postMessage({ type: 'request_state' } as CustomerDisplayMessage);
+    return () => channel.close();
+  }, []);
+
+  // The thank-you screen stays up briefly, or until the next customer's first item
+  useEffect(() => {
+    if (!completedSale) return;
+    const timer = setTimeout(() => setCompletedSale(null), THANK_YOU_MS);
+    return () => clearTimeout(timer);
+  }, [completedSale]);
+
+  const hasItems = !!cart && cart.lines.length > 0;
+  useEffect(() => {
+    if (hasItems) setCompletedSale(null);
+  }, [hasItems]);
+
+  useEffect(() => {
+    if (hasItems || promotions.length < 2) return;
+    const timer = setInterval(() => setSlide(current => current + 1), SLIDE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasItems, promotions.length]);
+
+  const fullscreenButton = (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="absolute top-3 right-3 opacity-30 hover:opacity-100"
+      onClick={() => document.documentElement.requestFullscreen?.()}
+      title="Full screen"
+    >
+      <Maximize className="h-5 w-5" />
+    </Button>
+  );
+
+  if (completedSale) {
+    return (
+      <div className="relative min-h-screen flex flex-col items-center justify-center gap-6 bg-background text-foreground p-10">
+        {fullscreenButton}
+        <h1 className="text-6xl font-bold text-green-600">Thank you!</h1>
+        <p className="text-3xl">Total paid {formatAmount(completedSale.total)}</p>
+        {completedSale.changeDue !== undefined && completedSale.changeDue > 0 && (
+          <div className="rounded-2xl bg-green-500/10 border border-green-500/20 px-10 py-6 text-center">
+            <p className="text-xl text-muted-foreground">Your change</p>
+            <p className="text-6xl font-bold text-green-600">{formatAmount(completedSale.changeDue)}</p>
+          </div>
+        )}
+        {completedSale.orderNumber && <p className="text-lg text-muted-foreground">Order {completedSale.orderNumber}</p>}
+      </div>
+    );
+  }
+
+  if (!hasItems) {
+    const promotion = promotions[slide % promotions.length];
+    return (
+      <div className="relative min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-primary/10 via-background to-primary/5 text-foreground p-10">
+        {fullscreenButton}
+        <p className="text-2xl font-semibold tracking-widest uppercase text-muted-foreground mb-12">{storeName}</p>
+        <div key={slide} className="text-center animate-in fade-in duration-700 max-w-4xl">
+          <h1 className="text-6xl font-bold leading-tight">{promotion.title}</h1>
+          {promotion.subtitle && <p className="text-3xl text-muted-foreground mt-6">{promotion.subtitle}</p>}
+        </div>
+        {promotions.length > 1 && (
+          <div className="flex gap-2 mt-16">
+            {promotions.map((_, index) => (
+              <span
+                key={index}
+                className={`h-2 w-8 rounded-full ${index === slide % promotions.length ? 'bg-primary' : 'bg-muted'}`}
+              />
+            ))}
+          </div>
+        )}
+        {!isConnected && (
+          <p className="absolute bottom-4 text-sm text-muted-foreground">
+            This browser cannot link to the till. Open the display from the POS screen in Chrome or Edge.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative min-h-screen grid grid-cols-5 bg-background text-foreground">
+      {fullscreenButton}
+      {/* Items */}
+      <div className="col-span-3 flex flex-col p-8 overflow-hidden">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            <ShoppingCart className="h-8 w-8" />
+            Your Items
+          </h1>
+          {cart.customerName && <p className="text-xl text-muted-foreground">{cart.customerName}</p>}
+        </div>
+        <div className="flex-1 overflow-y-auto divide-y divide-border">
+          {/* Newest line at the top, where the customer is looking */}
+          {[...cart.lines].reverse().map((line, index) => (
+            <div key={`${line.name}-${index}`} className="flex items-center justify-between gap-6 py-4">
+              <div className="min-w-0">
+                <p className="text-2xl font-medium truncate">{line.name}</p>
+                <p className="text-lg text-muted-foreground">
+                  {line.quantity} {line.unit} × {line.listPrice && (
+                    <span className="line-through mr-2">{formatAmount(line.listPrice)}</span>
+                  )}
+                  {formatAmount(line.unitPrice)}
+                  {line.discount > 0 && <span className="ml-3 text-green-600">-{formatAmount(line.discount)}</span>}
+                </p>
+              </div>
+              <p className="text-2xl font-semibold whitespace-nowrap">{formatAmount(line.total)}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="col-span-2 flex flex-col justify-center gap-4 p-10 bg-muted/40 border-l border-border">
+        <p className="text-lg font-semibold tracking-widest uppercase text-muted-foreground">{storeName}</p>
+        <div className="space-y-3 text-2xl">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Items</span>
+            <span>{cart.itemCount}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Subtotal</span>
+            <span>{formatAmount(cart.subtotal)}</span>
+          </div>
+          {cart.discount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>You save</span>
+              <span>-{formatAmount(cart.discount)}</span>
+            </div>
+          )}
+          {cart.tax > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{cart.taxLabel || 'Tax'}</span>
+              <span>{formatAmount(cart.tax)}</span>
+            </div>
+          )}
+        </div>
+        <div className="border-t border-border pt-4">
+          <p className="text-xl text-muted-foreground">Total</p>
+          <p className="text-7xl font-bold text-primary">{formatAmount(cart.total)}</p>
+        </div>
+        {cart.cashTendered !== undefined && (
+          <div className="space-y-2 text-2xl">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Cash received</span>
+              <span>{formatAmount(cart.cashTendered)}</span>
+            </div>
+            {cart.changeDue !== undefined && cart.changeDue >= 0 && (
+              <div className="flex justify-between font-bold text-green-600 text-4xl">
+                <span>Change</span>
+                <span>{formatAmount(cart.changeDue)}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomerDisplay;
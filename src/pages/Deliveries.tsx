@@ -0,0 +1,207 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Clock, FileText, MapPin, PackageCheck, Phone, RefreshCw, Truck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { deliveryApi, Delivery } from "@/services/deliveryApi";
+import { DELIVERY_STATUS_LABELS, getSlotLabel, groupDeliveriesByDay, isDeliveryOpen } from "@/utils/deliveries";
+import { generateDeliveryChallanPDF } from "@/utils/deliveryChallanPdfGenerator";
+import { DeliveryStatusBadge } from "@/components/orders/DeliveryPanel";
+import { DeliveryConfirmDialog } from "@/components/orders/DeliveryConfirmDialog";
+
+const BOARD_DAYS = 7;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return toDateString(next);
+};
+
+// Delivery board: the week's deliveries grouped by day, for loading vehicles and chasing sign-offs
+const Deliveries = () => {
+  const { toast } = useToast();
+  const today = toDateString(new Date());
+  const [weekStart, setWeekStart] = useState(today);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [confirming, setConfirming] = useState<Delivery | null>(null);
+  const weekEnd = addDays(weekStart, BOARD_DAYS - 1);
+
+  const { data, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['deliveries', 'board', weekStart],
+    queryFn: () => deliveryApi.getAll({ date_from: weekStart, date_to: weekEnd }),
+    retry: false,
+  });
+
+  const deliveries = useMemo(() => {
+    const all = data?.success ? data.data : [];
+    if (statusFilter === 'open') return all.filter(isDeliveryOpen);
+    if (statusFilter === 'all') return all;
+    return all.filter(delivery => delivery.status === statusFilter);
+  }, [data, statusFilter]);
+
+  // Every day of the week gets a column, even when nothing is booked
+  const days = useMemo(() => {
+    const grouped = new Map(groupDeliveriesByDay(deliveries).map(day => [day.date, day.deliveries]));
+    return Array.from({ length: BOARD_DAYS }, (_, index) => {
+      const date = addDays(weekStart, index);
+      return { date, deliveries: grouped.get(date) || [] };
+    });
+  }, [deliveries, weekStart]);
+
+  const handleDispatch = async (delivery: Delivery) => {
+    try {
+      const response = await deliveryApi.updateStatus(delivery.id, 'out_for_delivery');
+      if (!response.success) throw new Error(response.message || 'Failed to update delivery');
+      toast({
+        title: "Dispatched",
+        description: `${delivery.challan_number} is out for delivery`,
+      });
+      refetch();
+    } catch (error) {
+      console.error('Delivery dispatch error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update delivery",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Deliveries</h1>
+          <p className="text-muted-foreground">Scheduled deliveries for sales and outsourced orders</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Still to deliver</SelectItem>
+              <SelectItem value="all">All deliveries</SelectItem>
+              {Object.entries(DELIVERY_STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -BOARD_DAYS))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setWeekStart(today)} disabled={weekStart === today}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, BOARD_DAYS))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading deliveries...</div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {days.map(day => (
+            <Card key={day.date} className={day.date === today ? 'border-primary/40' : undefined}>
+              <CardHeader className="py-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  {new Date(day.date).toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'short' })}
+                  {day.date === today && <Badge variant="secondary" className="text-xs">Today</Badge>}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {day.deliveries.length} {day.deliveries.length === 1 ? 'delivery' : 'deliveries'}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                {day.deliveries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing booked.</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                    {day.deliveries.map(delivery => (
+                      <div key={delivery.id} className="rounded-lg border border-border p-3 space-y-2 text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="font-semibold truncate">{delivery.customer_name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {delivery.challan_number} · order {delivery.order_number}
+                              {delivery.source === 'outsourced' && ' · outsourced'}
+                            </p>
+                          </div>
+                          <DeliveryStatusBadge status={delivery.status} />
+                        </div>
+                        <div className="space-y-1 text-muted-foreground">
+                          <p className="flex items-center gap-1.5">
+                            <Clock className="h-3 w-3 flex-shrink-0" />
+                            {getSlotLabel(delivery.slot)}
+                          </p>
+                          <p className="flex items-start gap-1.5">
+                            <MapPin className="h-3 w-3 flex-shrink-0 mt-0.5" />
+                            <span className="line-clamp-2">{delivery.address}</span>
+                          </p>
+                          {(delivery.contact_name || delivery.contact_phone) && (
+                            <p className="flex items-center gap-1.5">
+                              <Phone className="h-3 w-3 flex-shrink-0" />
+                              {[delivery.contact_name, delivery.contact_phone].filter(Boolean).join(' · ')}
+                            </p>
+                          )}
+                          {(delivery.vehicle || delivery.driver) && (
+                            <p className="flex items-center gap-1.5">
+                              <Truck className="h-3 w-3 flex-shrink-0" />
+                              {[delivery.vehicle, delivery.driver].filter(Boolean).join(' / ')}
+                            </p>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {delivery.items.map(item => `${item.product_name} x${Number(item.quantity)}`).join(', ')}
+                        </p>
+                        <div className="flex flex-wrap gap-1 pt-1">
+                          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => generateDeliveryChallanPDF(delivery)}>
+                            <FileText className="h-3 w-3 mr-1" />
+                            Challan
+                          </Button>
+                          {delivery.status === 'scheduled' && (
+                            <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => handleDispatch(delivery)}>
+                              <Truck className="h-3 w-3 mr-1" />
+                              Dispatch
+                            </Button>
+                          )}
+                          {isDeliveryOpen(delivery) && (
+                            <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => setConfirming(delivery)}>
+                              <PackageCheck className="h-3 w-3 mr-1" />
+                              Delivered
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <DeliveryConfirmDialog
+        delivery={confirming}
+        onOpenChange={(open) => !open && setConfirming(null)}
+        onConfirmed={() => refetch()}
+      />
+    </div>
+  );
+};
+
+export default Deliveries;
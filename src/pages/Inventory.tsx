@@ -9,12 +9,13 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
-import { Package, Search, Plus, AlertTriangle, TrendingUp, DollarSign, Edit, Trash2 } from "lucide-react";
+import { Package, Search, Plus, AlertTriangle, TrendingUp, DollarSign, Edit, Trash2, Tag } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { inventoryApi, productsApi, categoriesApi } from "@/services/api";
 import { FilteredProductsModal } from "@/components/FilteredProductsModal";
 import { InventorySummaryCards } from "@/components/inventory/InventorySummaryCards";
 import { useInventorySummary } from "@/hooks/useInventorySummary";
+import { LabelPrintModal } from "@/components/products/LabelPrintModal";
 
 const Inventory = () => {
   const { toast } = useToast();
@@ -30,6 +31,7 @@ const Inventory = () => {
   const [selectedProduct, setSelectedProduct] = useState<any>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isStockAdjustmentOpen, setIsStockAdjustmentOpen] = useState(false);
+  const [labelPrint, setLabelPrint] = useState<{ open: boolean; productIds: number[] }>({ open: false, productIds: [] });
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [totalItems, setTotalItems] = useState(0);
@@ -384,10 +386,14 @@ const Inventory = () => {
     <div className="flex-1 p-6 space-y-6 min-h-[calc(100vh-65px)] bg-background">
       <div className="flex items-center gap-4">
         <SidebarTrigger />
-        <div>
+        <div className="flex-1">
           <h1 className="text-3xl font-bold text-foreground">Inventory Management</h1>
           <p className="text-muted-foreground">Monitor stock levels and track inventory movements</p>
         </div>
+        <Button variant="outline" onClick={() => setLabelPrint({ open: true, productIds: [] })}>
+          <Tag className="h-4 w-4 mr-2" />
+          Print Labels
+        </Button>
       </div>
 
       {/* Use the new reusable summary cards */}
@@ -511,6 +517,14 @@ const Inventory = () => {
                                   <TrendingUp className="h-3 w-3 mr-1" />
                                   Adjust
                                 </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  title="Print shelf label"
+                                  onClick={() => setLabelPrint({ open: true, productIds: [Number(item.productId || item.id)] })}
+                                >
+                                  <Tag className="h-3 w-3" />
+                                </Button>
                                 <Button
                                   size="sm"
                                   variant="outline"
@@ -578,6 +592,12 @@ const Inventory = () => {
         </TabsContent>
       </Tabs>
 
+      <LabelPrintModal
+        open={labelPrint.open}
+        onOpenChange={(open) => setLabelPrint(prev => ({ ...prev, open }))}
+        initialProductIds={labelPrint.productIds}
+      />
+
       {/* Stock Adjustment Dialog */}
       {selectedProduct && (
         <Dialog open={isStockAdjustmentOpen} onOpenChange={setIsStockAdjustmentOpen}>
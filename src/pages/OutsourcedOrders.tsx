@@ -9,7 +9,10 @@ import { formatQuantity } from "@/lib/utils";
 import { toast } from "sonner";
 import { API_CONFIG } from "@/config/api";
 import { OrderDetailsModal } from "@/components/orders/OrderDetailsModal";
+import { DeliveryScheduleDialog } from "@/components/orders/DeliveryScheduleDialog";
 import { salesApi } from "@/services/api";
+import { deliveryApi } from "@/services/deliveryApi";
+import { DeliveryLine, getRemainingLines } from "@/utils/deliveries";
 
 interface OutsourcingOrder {
   id: number;
@@ -40,6 +43,14 @@ interface GroupedOutsourcingOrder {
   sale_status: string;
 }
 
+interface OutsourcedDelivery {
+  saleId: number;
+  orderNumber: string;
+  customerId: number | null;
+  customerName: string;
+  lines: DeliveryLine[];
+}
+
 const OutsourcedOrders = () => {
   const [orders, setOrders] = useState<OutsourcingOrder[]>([]);
   const [groupedOrders, setGroupedOrders] = useState<GroupedOutsourcingOrder[]>([]);
@@ -49,6 +60,7 @@ const OutsourcedOrders = () => {
   const [selectedOrderDetails, setSelectedOrderDetails] = useState<any>(null);
   const [showOrderModal, setShowOrderModal] = useState(false);
   const [loadingOrderDetails, setLoadingOrderDetails] = useState(false);
+  const [deliveryOrder, setDeliveryOrder] = useState<OutsourcedDelivery | null>(null);
 
   const ordersPerPage = 10;
 
@@ -174,6 +186,43 @@ const OutsourcedOrders = () => {
     }
   };
 
+  // Supplier goods often go straight to the customer, so they get their own delivery and challan
+  const handleScheduleDelivery = async (groupedOrder: GroupedOutsourcingOrder) => {
+    try {
+      const [saleResponse, deliveriesResponse] = await Promise.all([
+        salesApi.getById(groupedOrder.sale_id),
+        deliveryApi.getBySale(groupedOrder.sale_id)
+      ]);
+      if (!saleResponse.success) {
+        throw new Error(saleResponse.message || 'Failed to fetch order details');
+      }
+
+      const lines = getRemainingLines(
+        groupedOrder.items.map(item => ({
+          productId: item.product_id,
+          productName: item.product_name,
+          quantity: Number(item.quantity)
+        })),
+        deliveriesResponse.success ? deliveriesResponse.data : []
+      );
+      if (lines.length === 0) {
+        toast.info('All outsourced items on this order are already scheduled for delivery');
+        return;
+      }
+
+      setDeliveryOrder({
+        saleId: groupedOrder.sale_id,
+        orderNumber: saleResponse.data.orderNumber,
+        customerId: saleResponse.data.customerId || null,
+        customerName: saleResponse.data.customerName || 'Walk-in',
+        lines
+      });
+    } catch (error) {
+      console.error('Error preparing delivery:', error);
+      toast.error('Failed to load order for delivery');
+    }
+  };
+
   const updateOrderStatus = async (orderId: number, status: string, notes?: string) => {
     try {
       const response = await fetch(`${API_CONFIG.BASE_URL}/outsourcing/${orderId}/status`, {
@@ -344,6 +393,14 @@ const OutsourcedOrders = () => {
                             <Eye className="h-3 w-3 mr-1" />
                             {loadingOrderDetails ? 'Loading...' : 'View Order'}
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleScheduleDelivery(groupedOrder)}
+                          >
+                            <Truck className="h-3 w-3 mr-1" />
+                            Delivery
+                          </Button>
                         </div>
                       </TableCell>
                     </TableRow>
@@ -409,6 +466,19 @@ const OutsourcedOrders = () => {
           setShowOrderModal(false);
         }}
       />
+
+      {deliveryOrder && (
+        <DeliveryScheduleDialog
+          open={!!deliveryOrder}
+          onOpenChange={(open) => !open && setDeliveryOrder(null)}
+          saleId={deliveryOrder.saleId}
+          orderNumber={deliveryOrder.orderNumber}
+          source="outsourced"
+          customerId={deliveryOrder.customerId}
+          customerName={deliveryOrder.customerName}
+          lines={deliveryOrder.lines}
+        />
+      )}
     </div>
   );
 };
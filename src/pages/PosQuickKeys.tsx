@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pin, Search, Send, Save, Star, Trash2, X, Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { productsApi } from "@/services/api";
+import { settingsApi, SettingsData } from "@/services/settingsApi";
+import { searchProducts } from "@/utils/posCommands";
+import {
+  DEFAULT_POS_LAYOUT,
+  MAX_PRODUCTS_LAYOUT,
+  MIN_PRODUCTS_LAYOUT,
+  PosLayout,
+  StandardPosLayout,
+  getLayoutState,
+  getProductsLayoutLabel,
+  getScopeLabel,
+  normalizePosLayout
+} from "@/utils/posLayout";
+
+interface QuickKeyProduct {
+  id: number;
+  name: string;
+  sku?: string;
+  category?: string;
+}
+
+const LAYOUT_OPTIONS = Array.from({ length: MAX_PRODUCTS_LAYOUT - MIN_PRODUCTS_LAYOUT + 1 }, (_, index) => MIN_PRODUCTS_LAYOUT + index);
+
+const formatWhen = (date?: string) =>
+  date ? new Date(date).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : '-';
+
+// Admin screen for the standard POS quick keys, and the layouts counters and cashiers have saved
+const PosQuickKeys = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<PosLayout | null>(null);
+  const [search, setSearch] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const { data: settingsData, isLoading } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsApi.getSettings,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+  const settings = (settingsData && 'data' in settingsData ? settingsData.data : settingsData) as Partial<SettingsData> | undefined;
+  const standard = settings?.store?.standardPosLayout ? normalizePosLayout<StandardPosLayout>(settings.store.standardPosLayout) : undefined;
+  const savedLayouts = Object.entries(settings?.store?.posLayouts || {});
+
+  const { data: productsData } = useQuery({
+    queryKey: ['products', 'quick-keys'],
+    queryFn: () => productsApi.getAll({ limit: 1000, status: 'active' }),
+    retry: false,
+  });
+
+  const products: QuickKeyProduct[] = useMemo(() => {
+    const list = productsData?.data?.products || productsData?.data || [];
+    return Array.isArray(list) ? list : [];
+  }, [productsData]);
+
+  const categories = useMemo(
+    () => [...new Set(products.map(product => product.category).filter((category): category is string => !!category))],
+    [products]
+  );
+
+  // Start from the current standard once settings arrive
+  useEffect(() => {
+    if (!draft && !isLoading) setDraft(standard || DEFAULT_POS_LAYOUT);
+  }, [draft, isLoading, standard]);
+
+  const layout = draft || DEFAULT_POS_LAYOUT;
+  const productName = (id: number) => products.find(product => product.id === id)?.name || `Product #${id}`;
+  const results = search.trim()
+    ? searchProducts(products, search, 8).filter(product => !layout.pinnedProducts.includes(product.id))
+    : [];
+
+  const updateDraft = (changes: Partial<PosLayout>) => setDraft({ ...layout, ...changes });
+
+  const toggleCategory = (category: string) => {
+    updateDraft({
+      favouriteCategories: layout.favouriteCategories.includes(category)
+        ? layout.favouriteCategories.filter(favourite => favourite !== category)
+        : [...layout.favouriteCategories, category]
+    });
+  };
+
+  const saveStore = async (update: (store: SettingsData['store']) => Partial<SettingsData['store']>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await settingsApi.updateStoreFields(update);
+      if (!response.success) throw new Error(response.message || 'Failed to save settings');
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      toast({ title: "Quick Keys Saved", description: successMessage });
+    } catch (error) {
+      console.error('Quick keys save error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save quick keys",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Saving keeps layouts counters already have; pushing replaces them on their next load
+  const handleSave = (push: boolean) => {
+    if (push && !confirm('Push this layout to every counter? Layouts saved by counters and cashiers will be replaced.')) return;
+    const now = new Date().toISOString();
+    const next: StandardPosLayout = {
+      ...normalizePosLayout(layout),
+      updatedAt: now,
+      pushedAt: push ? now : standard?.pushedAt,
+    };
+    saveStore(
+      () => ({ standardPosLayout: next }),
+      push ? 'The standard layout was pushed to all counters' : 'Counters without their own layout will use it'
+    );
+  };
+
+  const removeSavedLayout = (scope: string) => {
+    if (!confirm(`Remove the layout saved for ${getScopeLabel(scope)}? It will use the standard quick keys.`)) return;
+    saveStore(store => {
+      const posLayouts = { ...store.posLayouts };
+      delete posLayouts[scope];
+      return { posLayouts };
+    }, `${getScopeLabel(scope)} now uses the standard quick keys`);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">POS Quick Keys</h1>
+          <p className="text-muted-foreground">
+            The standard pinned products, favourite categories and grid for every counter
+            {standard?.pushedAt && ` · last pushed ${formatWhen(standard.pushedAt)}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleSave(false)} disabled={saving || !draft}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Standard
+          </Button>
+          <Button onClick={() => handleSave(true)} disabled={saving || !draft}>
+            <Send className="h-4 w-4 mr-2" />
+            Push to All Counters
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading quick keys...</div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Pin className="h-5 w-5" />
+                Quick Keys
+              </CardTitle>
+              <CardDescription>Pinned products are listed first on the POS grid.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  className="pl-10"
+                  placeholder="Search products to pin..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+              {results.length > 0 && (
+                <div className="rounded-lg border divide-y">
+                  {results.map(product => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      className="w-full px-3 py-2 text-left text-sm hover:bg-muted"
+                      onClick={() => {
+                        updateDraft({ pinnedProducts: [...layout.pinnedProducts, product.id] });
+                        setSearch("");
+                      }}
+                    >
+                      {product.name}
+                      {product.sku && <span className="ml-2 text-xs text-muted-foreground">{product.sku}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {layout.pinnedProducts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No quick keys yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {layout.pinnedProducts.map(id => (
+                    <Badge key={id} variant="secondary" className="gap-1 pr-1">
+                      {productName(id)}
+                      <button
+                        type="button"
+                        className="rounded-sm hover:bg-background/60"
+                        onClick={() => updateDraft({ pinnedProducts: layout.pinnedProducts.filter(pinned => pinned !== id) })}
+                        title="Unpin"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Star className="h-5 w-5" />
+                Categories and Grid
+              </CardTitle>
+              <CardDescription>Favourite categories get one-tap buttons above the product grid.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {categories.map(category => (
+                  <Button
+                    key={category}
+                    size="sm"
+                    variant={layout.favouriteCategories.includes(category) ? "default" : "outline"}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => toggleCategory(category)}
+                  >
+                    {category}
+                  </Button>
+                ))}
+              </div>
+              <div className="space-y-1 max-w-xs">
+                <Label>Product grid</Label>
+                <Select value={layout.productsLayout.toString()} onValueChange={(value) => updateDraft({ productsLayout: parseInt(value) })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LAYOUT_OPTIONS.map(option => (
+                      <SelectItem key={option} value={option.toString()}>{getProductsLayoutLabel(option)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Saved on Counters</CardTitle>
+              <CardDescription>Layouts cashiers and counters changed for themselves. Pushing the standard replaces them all.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {savedLayouts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every counter uses the standard quick keys.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Counter / cashier</TableHead>
+                      <TableHead>Quick keys</TableHead>
+                      <TableHead>Favourite categories</TableHead>
+                      <TableHead>Grid</TableHead>
+                      <TableHead>Changed</TableHead>
+                      <TableHead>State</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {savedLayouts.map(([scope, saved]) => {
+                      const savedLayout = normalizePosLayout(saved);
+                      return (
+                        <TableRow key={scope}>
+                          <TableCell className="font-medium">{getScopeLabel(scope)}</TableCell>
+                          <TableCell>{savedLayout.pinnedProducts.length}</TableCell>
+                          <TableCell className="max-w-xs truncate">{savedLayout.favouriteCategories.join(', ') || '-'}</TableCell>
+                          <TableCell>{getProductsLayoutLabel(savedLayout.productsLayout)}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {formatWhen(saved.updatedAt)}
+                            {saved.updatedBy && ` by ${saved.updatedBy}`}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{getLayoutState(saved, standard)}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button size="sm" variant="ghost" onClick={() => setDraft(savedLayout)} title="Use as the starting point for the standard">
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => removeSavedLayout(scope)} disabled={saving} title="Remove">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PosQuickKeys;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -16,17 +16,25 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from "@/components/ui/pagination";
-import { Package, Search, Plus, Edit, Trash2, AlertTriangle, RefreshCw, FileText } from "lucide-react";
+import { Package, Search, Plus, Edit, Trash2, AlertTriangle, RefreshCw, FileText, Tag } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { productsApi, categoriesApi } from "@/services/api";
 import ProductDetailsModal from "@/components/reports/ProductDetailsModal";
 import { FilteredProductsModal } from "@/components/FilteredProductsModal";
 import { EnhancedExportModal } from "@/components/products/EnhancedExportModal";
+import { LabelPrintModal } from "@/components/products/LabelPrintModal";
 import { Eye } from "lucide-react";
 import { generateSKU } from "@/utils/skuGenerator";
 import { formatQuantity } from "@/lib/utils";
 import { generateStockReportPDF } from "@/utils/stockReportPdfGenerator";
 import { units as predefinedUnits } from "@/data/storeData";
+import { detectBarcodeFormat, getBarcodeError, hasBarcode, normalizeBarcode } from "@/utils/barcode";
+import { PriceTier, getTierError, normalizePriceTiers } from "@/utils/quantityTiers";
+import { PriceTiersEditor } from "@/components/products/PriceTiersEditor";
+import { UnitConversion, getConversionError, normalizeUnitConversions } from "@/utils/unitConversions";
+import { UnitConversionsEditor } from "@/components/products/UnitConversionsEditor";
+import { KitComponent, ProductType, buildProductLookup, getKitError, isKit, normalizeKitComponents } from "@/utils/kits";
+import { KitCatalogueProduct, KitComponentsEditor } from "@/components/products/KitComponentsEditor";
 
 const Products = () => {
   const { toast } = useToast();
@@ -36,6 +44,7 @@ const Products = () => {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isCategoryDialogOpen, setIsCategoryDialogOpen] = useState(false);
   const [isEnhancedExportOpen, setIsEnhancedExportOpen] = useState(false);
+  const [isLabelPrintOpen, setIsLabelPrintOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<any>(null);
   const [products, setProducts] = useState<any[]>([]);
   const [categories, setCategories] = useState<any[]>([]);
@@ -504,6 +513,10 @@ const Products = () => {
           </div>
         </div>
         <div className="flex flex-col sm:flex-row gap-2 w-full md:w-auto">
+          <Button variant="outline" className="w-full sm:w-auto" onClick={() => setIsLabelPrintOpen(true)}>
+            <Tag className="h-4 w-4 mr-2" />
+            Print Labels
+          </Button>
           <Dialog open={isCategoryDialogOpen} onOpenChange={setIsCategoryDialogOpen}>
             <DialogTrigger asChild>
               <Button variant="outline" className="w-full sm:w-auto">
@@ -574,6 +587,8 @@ const Products = () => {
         exportLoading={exportLoading}
       />
 
+      <LabelPrintModal open={isLabelPrintOpen} onOpenChange={setIsLabelPrintOpen} />
+
       <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
         <Card className="border-l-4 border-l-blue-500 cursor-pointer hover:shadow-lg transition-shadow">
           <CardContent className="p-4">
@@ -667,7 +682,9 @@ const Products = () => {
               <div className="space-y-2 overflow-y-auto">
                 {products.map((product, index) => {
                   const hasIncompleteQuantity = product.incompleteQuantity || product.needsQuantityUpdate;
-                  const isOutOfStock = !hasIncompleteQuantity && (product.stock || 0) <= 0;
+                  const isKitProduct = isKit(product);
+                  // A kit's availability depends on its components, which may not be on this page
+                  const isOutOfStock = !hasIncompleteQuantity && !isKitProduct && (product.stock || 0) <= 0;
                   
                   return (
                     <div 
@@ -723,6 +740,8 @@ const Products = () => {
                         <div className="text-[10px] text-muted-foreground">
                           {hasIncompleteQuantity ? (
                             <span className="text-orange-600 font-medium">Unknown qty</span>
+                          ) : isKitProduct ? (
+                            <span className="text-purple-600 font-medium">Kit of {normalizeKitComponents(product.kitComponents).length} items</span>
                           ) : isOutOfStock ? (
                             <span className="text-red-600 font-medium">Out of stock</span>
                           ) : (
@@ -832,6 +851,7 @@ const ProductDialog = ({
   const [formData, setFormData] = useState({
     name: initialData?.name || "",
     sku: initialData?.sku || "",
+    barcode: hasBarcode(initialData?.barcode) ? initialData.barcode : "",
     price: initialData?.price?.toString() || "",
     stock: initialData?.stock?.toString() || "",
     category: initialData?.category || "",
@@ -842,13 +862,46 @@ const ProductDialog = ({
     maxStock: initialData?.maxStock?.toString() || ""
   });
 
+  const [priceTiers, setPriceTiers] = useState<PriceTier[]>(() => normalizePriceTiers(initialData?.priceTiers));
+  const [unitConversions, setUnitConversions] = useState<UnitConversion[]>(() => normalizeUnitConversions(initialData?.unitConversions));
+  const [productType, setProductType] = useState<ProductType>(isKit(initialData) ? 'kit' : 'standard');
+  const [kitComponents, setKitComponents] = useState<KitComponent[]>(() => normalizeKitComponents(initialData?.kitComponents));
+  const [catalogue, setCatalogue] = useState<KitCatalogueProduct[]>([]);
+  const [catalogueLoading, setCatalogueLoading] = useState(false);
+  const catalogueLookup = useMemo(() => buildProductLookup(catalogue), [catalogue]);
+
+  // Components are picked from the whole catalogue, not just the page being listed
+  useEffect(() => {
+    if (productType !== 'kit' || catalogue.length > 0) return;
+    setCatalogueLoading(true);
+    productsApi.getAll({ limit: 1000, status: 'active' })
+      .then(response => {
+        const productsData = response?.data?.products || response?.data || [];
+        setCatalogue(Array.isArray(productsData) ? productsData : []);
+      })
+      .catch(error => console.error('Failed to load products for kit components:', error))
+      .finally(() => setCatalogueLoading(false));
+  }, [productType, catalogue.length]);
+
+  const barcodeError = getBarcodeError(formData.barcode);
+  const tierError = getTierError(priceTiers);
+  const conversionError = getConversionError(formData.unit, unitConversions);
+  const kitError = productType === 'kit' ? getKitError(kitComponents, initialData?.id, catalogueLookup) : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (barcodeError || tierError || conversionError || kitError) return;
     const submitData = {
       ...formData,
+      barcode: hasBarcode(formData.barcode) ? normalizeBarcode(formData.barcode) : 'N/A',
       price: parseFloat(formData.price),
-      // For new products, stock MUST be 0 - stock is added via Purchase Orders only
-      stock: isEdit ? parseFloat(formData.stock) : 0,
+      priceTiers: normalizePriceTiers(priceTiers),
+      unitConversions: normalizeUnitConversions(unitConversions),
+      productType,
+      kitComponents: productType === 'kit' ? normalizeKitComponents(kitComponents) : [],
+      // For new products, stock MUST be 0 - stock is added via Purchase Orders only.
+      // Kits never hold stock of their own; availability comes from the components
+      stock: isEdit && productType !== 'kit' ? parseFloat(formData.stock) : 0,
       minStock: parseFloat(formData.minStock),
       costPrice: parseFloat(formData.costPrice),
       maxStock: parseFloat(formData.maxStock)
@@ -856,9 +909,13 @@ const ProductDialog = ({
     onSubmit(submitData);
     if (!isEdit) {
       setFormData({ 
-        name: "", sku: "", price: "", stock: "", category: "", 
+        name: "", sku: "", barcode: "", price: "", stock: "", category: "", 
         unit: "", minStock: "", description: "", costPrice: "", maxStock: "" 
       });
+      setPriceTiers([]);
+      setUnitConversions([]);
+      setProductType('standard');
+      setKitComponents([]);
     }
   };
 
@@ -925,8 +982,47 @@ const ProductDialog = ({
               )}
             </div>
           </div>
+          <div className="col-span-2">
+            <Label htmlFor="barcode">Barcode (EAN / UPC / Code128)</Label>
+            <Input
+              id="barcode"
+              value={formData.barcode}
+              onChange={(e) => handleInputChange('barcode', e.target.value)}
+              placeholder="Scan or type the product barcode"
+            />
+            {hasBarcode(formData.barcode) && (
+              <p className={`text-xs mt-1 ${barcodeError ? 'text-red-600' : 'text-muted-foreground'}`}>
+                {barcodeError || detectBarcodeFormat(formData.barcode)}
+              </p>
+            )}
+          </div>
+          <div className="col-span-2">
+            <Label>Product Type</Label>
+            <Select value={productType} onValueChange={(value) => setProductType(value as ProductType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="standard">Standard product</SelectItem>
+                <SelectItem value="kit">Kit / bundle (sold as one line, stock from components)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {productType === 'kit' && (
+            <div className="col-span-2">
+              <KitComponentsEditor
+                components={kitComponents}
+                catalogue={catalogue}
+                lookup={catalogueLookup}
+                kitId={initialData?.id}
+                kitPrice={parseFloat(formData.price) || 0}
+                loading={catalogueLoading}
+                onChange={setKitComponents}
+              />
+            </div>
+          )}
           <div>
-            <Label htmlFor="price">Price (PKR)</Label>
+            <Label htmlFor="price">{productType === 'kit' ? 'Bundle Price (PKR)' : 'Price (PKR)'}</Label>
             <Input
               id="price"
               type="number"
@@ -945,6 +1041,14 @@ const ProductDialog = ({
               required
             />
           </div>
+          <div className="col-span-2">
+            <PriceTiersEditor
+              tiers={priceTiers}
+              basePrice={parseFloat(formData.price) || 0}
+              unit={formData.unit}
+              onChange={setPriceTiers}
+            />
+          </div>
           <div>
             <Label htmlFor="minStock">Minimum Stock</Label>
             <Input
@@ -996,6 +1100,15 @@ const ProductDialog = ({
               </SelectContent>
             </Select>
           </div>
+          <div className="col-span-2">
+            <UnitConversionsEditor
+              baseUnit={formData.unit}
+              basePrice={parseFloat(formData.price) || 0}
+              conversions={unitConversions}
+              units={units}
+              onChange={setUnitConversions}
+            />
+          </div>
           <div className="col-span-2">
             <Label htmlFor="description">Description</Label>
             <Input
@@ -1008,7 +1121,7 @@ const ProductDialog = ({
         </div>
 
         <div className="flex gap-2 pt-4">
-          <Button type="submit" className="flex-1">
+          <Button type="submit" className="flex-1" disabled={!!barcodeError || !!tierError || !!conversionError || !!kitError}>
             {isEdit ? 'Update Product' : 'Add Product'}
           </Button>
           <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
@@ -33,6 +33,7 @@ import {
 import { SinglePurchaseOrderForm } from "@/components/purchase-orders/SinglePurchaseOrderForm";
 import { ExpandedPurchaseOrderRow } from "@/components/purchase-orders/ExpandedPurchaseOrderRow";
 import { apiConfig } from "@/utils/apiConfig";
+import { getReceivedBaseQuantity, getUnitLabel } from "@/utils/unitConversions";
 
 const PurchaseOrders = () => {
   const { toast } = useToast();
@@ -96,7 +97,7 @@ const PurchaseOrders = () => {
         const receiveData = {
           items: order.items.map((item: any) => ({
             productId: item.productId,
-            quantityReceived: item.quantity,
+            quantityReceived: getReceivedBaseQuantity(item),
             condition: "good"
           })),
           notes: notes || "All items received in good condition"
@@ -701,7 +702,12 @@ const PurchaseOrders = () => {
                       {selectedOrder.items.map((item: any, index: number) => (
                         <TableRow key={index}>
                           <TableCell>{item.productName}</TableCell>
-                          <TableCell>{item.quantity}</TableCell>
+                          <TableCell>
+                            {item.quantity}
+                            {item.purchaseUnit && (
+                              <span className="text-xs text-muted-foreground"> ({item.purchaseQuantity} {getUnitLabel(item.purchaseUnit)})</span>
+                            )}
+                          </TableCell>
                           <TableCell>Rs. {item.unitPrice?.toLocaleString()}</TableCell>
                           <TableCell>Rs. {item.total?.toLocaleString()}</TableCell>
                           {selectedOrder.status === 'received' && (
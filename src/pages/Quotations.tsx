@@ -85,6 +85,8 @@ export default function Quotations() {
           items: response.data.items || [],
           subtotal: response.data.subtotal || 0,
           discount: response.data.discount || 0,
+          tax: response.data.tax || 0,
+          taxInclusive: response.data.taxInclusive,
           total: response.data.total || 0,
           notes: response.data.notes,
           createdBy: response.data.createdBy,
@@ -244,6 +246,8 @@ export default function Quotations() {
       items: quotation.items || [],
       subtotal: quotation.subtotal || 0,
       discount: quotation.discount || 0,
+      tax: quotation.tax || 0,
+      taxInclusive: quotation.taxInclusive,
       total: quotation.total || 0,
       notes: quotation.notes,
       createdBy: quotation.createdBy,
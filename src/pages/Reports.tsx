@@ -8,16 +8,20 @@ import {
   FolderOpen, 
   ShoppingCart, 
   TrendingUp,
-  RefreshCw
+  RefreshCw,
+  Layers
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { reportsApi } from "@/services/reportsApi";
+import { fetchAllSales } from "@/services/api";
+import { summarizeKitComponentSales } from "@/utils/kits";
 import { SalesOverviewTab } from "@/components/reports/SalesOverviewTab";
 import { TopProductsTab } from "@/components/reports/TopProductsTab";
 import { TopCustomersTab } from "@/components/reports/TopCustomersTab";
 import { CategoryPerformanceTab } from "@/components/reports/CategoryPerformanceTab";
 import { ProductSalesTab } from "@/components/reports/ProductSalesTab";
 import { CustomerPurchasesTab } from "@/components/reports/CustomerPurchasesTab";
+import { KitSalesTab } from "@/components/reports/KitSalesTab";
 
 const Reports = () => {
   const [activeTab, setActiveTab] = useState("overview");
@@ -52,6 +56,18 @@ const Reports = () => {
     queryFn: reportsApi.getMonthlyCustomerPurchases,
   });
 
+  // Kit revenue is split per component at checkout; the sales of the month carry that split
+  const { data: kitSales = [], isLoading: loadingKitSales, refetch: refetchKitSales } = useQuery({
+    queryKey: ['monthly-kit-sales'],
+    queryFn: async () => {
+      const now = new Date();
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+      const toDate = (date: Date) =>
+        `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+      return summarizeKitComponentSales(await fetchAllSales({ dateFrom: toDate(monthStart), dateTo: toDate(now) }));
+    },
+  });
+
   const handleRefreshAll = () => {
     refetchOverview();
     refetchTopProducts();
@@ -59,6 +75,7 @@ const Reports = () => {
     refetchCategories();
     refetchProductSales();
     refetchCustomerPurchases();
+    refetchKitSales();
   };
 
   return (
@@ -79,7 +96,7 @@ const Reports = () => {
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2 md:grid-cols-3 lg:grid-cols-6 h-auto gap-1 bg-muted p-1">
+        <TabsList className="grid w-full grid-cols-2 md:grid-cols-3 lg:grid-cols-7 h-auto gap-1 bg-muted p-1">
           <TabsTrigger value="overview" className="gap-2 data-[state=active]:bg-background">
             <BarChart3 className="h-4 w-4" />
             <span className="hidden sm:inline">Overview</span>
@@ -104,6 +121,10 @@ const Reports = () => {
             <ShoppingCart className="h-4 w-4" />
             <span className="hidden sm:inline">Customer Purchases</span>
           </TabsTrigger>
+          <TabsTrigger value="kit-sales" className="gap-2 data-[state=active]:bg-background">
+            <Layers className="h-4 w-4" />
+            <span className="hidden sm:inline">Kit Sales</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="mt-6">
@@ -129,6 +150,10 @@ const Reports = () => {
         <TabsContent value="customer-purchases" className="mt-6">
           <CustomerPurchasesTab data={customerPurchases} isLoading={loadingCustomerPurchases} />
         </TabsContent>
+
+        <TabsContent value="kit-sales" className="mt-6">
+          <KitSalesTab data={kitSales} isLoading={loadingKitSales} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,11 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SidebarTrigger } from "@/components/ui/sidebar";
-import { Package, Search, Plus, Minus, Pin, PinOff, Filter, Menu, X, AlertTriangle, Maximize, Minimize, LayoutGrid, Columns2, Columns3, Columns4, Grid3X3, Grid2X2 } from "lucide-react";
+import { Package, Search, Plus, Minus, Pin, PinOff, Filter, Menu, X, AlertTriangle, Maximize, Minimize, LayoutGrid, Columns2, Columns3, Columns4, Grid3X3, Grid2X2, Wallet, Printer, Undo2, Keyboard, MonitorSmartphone, Mic, Star, Command as CommandIcon } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { salesApi, customersApi, productsApi, suppliersApi } from "@/services/api";
@@ -20,6 +20,95 @@ import { useIsMobile } from "@/hooks/use-mobile";
 import jsPDF from 'jspdf';
 import QRCode from 'qrcode';
 import { formatQuantity } from "@/lib/utils";
+import {
+  PaymentTender,
+  TenderMethod,
+  TENDER_METHOD_LABELS,
+  getCashTender,
+  getPaymentMethodLabel,
+  getTenderAccountType,
+  getTenderAmount,
+  getTenderBalance,
+  groupTendersByAccountType,
+  TENDER_METHODS,
+  mergeTenders,
+  roundCurrency
+} from "@/utils/paymentTenders";
+import {
+  Discount,
+  DISCOUNT_REASON_LABELS,
+  getCartTotals,
+  getLineDiscountAmount,
+  getLineGrossTotal,
+  getLineNetTotal
+} from "@/utils/discounts";
+import { TaxResult, allocateDocumentDiscount, calculateTax, formatTaxLabel, getLinePayables, isCustomerTaxExempt } from "@/utils/taxEngine";
+import { useTaxSettings } from "@/hooks/useTaxSettings";
+import { HeldCartsBar } from "@/components/sales/HeldCartsBar";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
+import { useCashShift } from "@/hooks/useCashShift";
+import { usePriceLists } from "@/hooks/usePriceLists";
+import { PriceLists, PricedCustomer, applyCustomerPrice } from "@/utils/priceLists";
+import { PriceTier, normalizePriceTiers, resolveQuantityPrice } from "@/utils/quantityTiers";
+import { UnitOption, getSaleUnits, toBaseQuantity } from "@/utils/unitConversions";
+import { ShiftDialog } from "@/components/sales/ShiftDialog";
+import { ReceiptPrinterDialog } from "@/components/sales/ReceiptPrinterDialog";
+import { ReturnExchangeDialog } from "@/components/sales/ReturnExchangeDialog";
+import { encodeReceipt } from "@/utils/receiptEscPos";
+import { getPrinterSettings, printRaw } from "@/utils/thermalPrinter";
+import { usePriceGuard } from "@/hooks/usePriceGuard";
+import { useCustomerDisplay } from "@/hooks/useCustomerDisplay";
+import { openCustomerDisplayWindow } from "@/utils/customerDisplay";
+import { getReceiptQrData } from "@/utils/receiptSignature";
+import { AppliedCreditNote, getCreditNoteError } from "@/utils/creditNotes";
+import { creditNoteApi } from "@/services/creditNoteApi";
+import { layawayApi } from "@/services/layawayApi";
+import { LayawayDialog } from "@/components/sales/LayawayDialog";
+import { LAYAWAY_SALE_STATUS, LayawayPlan, getInstallmentReceiptNumber } from "@/utils/layaway";
+import { printInstallmentReceipt } from "@/utils/installmentReceiptPdfGenerator";
+import { customerBalanceService } from "@/services/customerBalanceService";
+import { CreditCheck, CreditLimitOverride, CreditStanding, getCreditCheck, toCreditLimitOverride } from "@/utils/creditLimit";
+import { PriceCheck, getNetUnitPrices, getPriceCheck, getUnitCost } from "@/utils/priceGuard";
+import { priceOverrideApi } from "@/services/priceOverrideApi";
+import { ManagerPinDialog } from "@/components/sales/ManagerPinDialog";
+import { HISTORY_ORDER_LIMIT, HistorySale, getLastOrder, getLastSoldPrices, getReorderLines } from "@/utils/purchaseHistory";
+import { PaletteAction, PaletteMode, PaletteProduct, PosCommandPalette } from "@/components/sales/PosCommandPalette";
+import { ShortcutsCheatSheet } from "@/components/sales/ShortcutsCheatSheet";
+import { VoiceCartDialog, VoiceCartLine } from "@/components/sales/VoiceCartDialog";
+import { VoiceProduct } from "@/utils/voiceCart";
+import { usePosHotkeys } from "@/hooks/usePosHotkeys";
+import { usePosLayout } from "@/hooks/usePosLayout";
+import { POS_LAYOUT_SOURCE_LABELS, PosLayout, getProductsLayoutLabel, sortCategoriesByFavourite } from "@/utils/posLayout";
+import { findProductByCode, normalizeBarcode } from "@/utils/barcode";
+import {
+  HeldCart,
+  createHeldCart,
+  getBusinessDay,
+  getDefaultHeldCartLabel,
+  loadActiveCart,
+  loadHeldCarts,
+  saveActiveCart,
+  saveHeldCarts
+} from "@/utils/heldCarts";
+import {
+  KitAllocation,
+  KitComponent,
+  allocateKitRevenue,
+  buildProductLookup,
+  getAvailableStock,
+  getStockDemand,
+  isKit,
+  normalizeKitComponents
+} from "@/utils/kits";
+
+// A price change or discount waiting for its reason, and for a manager PIN when it breaks the guard
+interface PendingPriceOverride {
+  title: string;
+  description: string;
+  checks: PriceCheck[];
+  requiresApproval: boolean;
+  apply: (reason: string) => void;
+}
 
 interface CartItem {
   productId: number;
@@ -29,59 +118,238 @@ interface CartItem {
   sku: string;
   unit: string;
   adjustedPrice?: number; // For price negotiations
+  listPrice?: number; // Catalogue price when a customer price list applies
+  priceListLabel?: string;
+  priceTiers?: PriceTier[];
+  tierLabel?: string; // Quantity tier in effect, e.g. "Qty 50-199"
+  // Unit of measure: quantity and price are in `unit`; stock moves in base units
+  baseUnit?: string;
+  conversionFactor?: number;
+  baseListPrice?: number;
+  unitOptions?: UnitOption[];
   // Outsourcing fields
   isOutsourced?: boolean;
   outsourcingSupplierId?: number;
   outsourcingCostPerUnit?: number;
   outsourcingSupplierName?: string;
   outsourcingNotes?: string;
+  discount?: Discount;
+  kitComponents?: KitComponent[]; // Set on kit lines; stock moves on these instead of the kit
 }
 
+// Price a cart line for its quantity, unit and the selected customer; listPrice keeps the catalogue price
+const priceCartLine = (
+  item: CartItem,
+  quantity: number,
+  customer: PricedCustomer | null,
+  priceLists: PriceLists
+): CartItem => {
+  const factor = item.conversionFactor || 1;
+  const baseListPrice = item.baseListPrice ?? item.listPrice ?? item.price;
+  const resolved = resolveQuantityPrice(
+    { id: item.productId, price: baseListPrice, priceTiers: item.priceTiers },
+    toBaseQuantity(quantity, factor),
+    customer,
+    priceLists
+  );
+  // Other units keep their own catalogue price and get the same customer/tier reduction as the base unit
+  const unitListPrice = factor === 1
+    ? resolved.listPrice
+    : item.unitOptions?.find(option => option.unit === item.unit)?.price ?? Math.round(resolved.listPrice * factor * 100) / 100;
+  const price = factor === 1 || resolved.listPrice <= 0
+    ? resolved.price
+    : Math.round(unitListPrice * (resolved.price / resolved.listPrice) * 100) / 100;
+  return {
+    ...item,
+    quantity,
+    price,
+    listPrice: unitListPrice,
+    baseListPrice: resolved.listPrice,
+    priceListLabel: resolved.source === 'list' ? undefined : resolved.label,
+    tierLabel: resolved.tierLabel,
+  };
+};
+
+// Current balance and credit limit from the balance service
+const fetchCreditStanding = async (customerId: number): Promise<CreditStanding | null> => {
+  const response = await customerBalanceService.getCustomerBalance(customerId);
+  if (!response.success || !response.data) return null;
+  return {
+    balance: Number(response.data.currentBalance) || 0,
+    limit: Number(response.data.creditLimit) || 0,
+  };
+};
+
+// The customer's latest orders, for last-sold price hints and reorder
+const fetchPurchaseHistory = async (customerId: number): Promise<HistorySale[]> => {
+  const response = await salesApi.getAll({ customerId, limit: HISTORY_ORDER_LIMIT });
+  const sales = response?.data?.sales || response?.data || [];
+  return Array.isArray(sales) ? sales : [];
+};
+
 const Sales = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const { taxSettings } = useTaxSettings();
+  const { priceLists } = usePriceLists();
+  const { priceGuardSettings } = usePriceGuard();
+  const { shift: currentShift, terminal, refetch: refetchShift } = useCashShift();
+  const { layout: posLayout, source: posLayoutSource, saveLayout } = usePosLayout(currentShift?.cashier);
+  const { pinnedProducts, favouriteCategories, productsLayout } = posLayout;
+  const [isShiftDialogOpen, setIsShiftDialogOpen] = useState(false);
+  const [isPrinterDialogOpen, setIsPrinterDialogOpen] = useState(false);
+  const [isReturnDialogOpen, setIsReturnDialogOpen] = useState(false);
+  const [isLayawayDialogOpen, setIsLayawayDialogOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [paletteMode, setPaletteMode] = useState<PaletteMode>('search');
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isVoiceOpen, setIsVoiceOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [products, setProducts] = useState<any[]>([]);
+  const productLookup = useMemo(() => buildProductLookup(products), [products]);
   const [categories, setCategories] = useState<string[]>([]);
   const [customers, setCustomers] = useState<any[]>([]);
-  const [cart, setCart] = useState<CartItem[]>([]);
-  const [selectedCustomer, setSelectedCustomer] = useState<any>(null);
+  // Restore the cart in progress so a page reload does not lose it
+  const [restoredCart] = useState(() => loadActiveCart<CartItem>());
+  const [cart, setCart] = useState<CartItem[]>(restoredCart?.items || []);
+  const [selectedCustomer, setSelectedCustomer] = useState<any>(restoredCart?.customer || null);
+  const [heldCarts, setHeldCarts] = useState<HeldCart<CartItem>[]>(() => loadHeldCarts<CartItem>());
+  const [activeCartLabel, setActiveCartLabel] = useState(restoredCart?.label || "");
   const [isQuickCustomerOpen, setIsQuickCustomerOpen] = useState(false);
   const [isTodaysOrdersOpen, setIsTodaysOrdersOpen] = useState(false);
   const [isQuickProductAddOpen, setIsQuickProductAddOpen] = useState(false);
+  const [unknownScanCode, setUnknownScanCode] = useState("");
   const [todaysOrders, setTodaysOrders] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
-  const [pinnedProducts, setPinnedProducts] = useState<number[]>([]);
   const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [isSplitPayment, setIsSplitPayment] = useState(false);
+  const [splitTenders, setSplitTenders] = useState<PaymentTender[]>([]);
+  const [cashTendered, setCashTendered] = useState("");
+  const [creditNote, setCreditNote] = useState<AppliedCreditNote | null>(null);
+  const [creditStanding, setCreditStanding] = useState<CreditStanding | null>(null);
+  const [purchaseHistory, setPurchaseHistory] = useState<HistorySale[]>([]);
+  const [pendingCreditCheck, setPendingCreditCheck] = useState<CreditCheck | null>(null);
+  const [pendingPriceOverride, setPendingPriceOverride] = useState<PendingPriceOverride | null>(null);
+  const [cartDiscount, setCartDiscount] = useState<Discount | null>(restoredCart?.cartDiscount || null);
   const [orderStatus, setOrderStatus] = useState("completed");
   const [quantityInputs, setQuantityInputs] = useState<{[key: number]: string}>({});
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isCustomerDialogOpen, setIsCustomerDialogOpen] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isCartCollapsed, setIsCartCollapsed] = useState(false);
-  const [productsLayout, setProductsLayout] = useState(1); // Default to slim view
   const [isProcessingSale, setIsProcessingSale] = useState(false); // Prevent double-clicking complete sale
 
-  // Load layout preference from localStorage
+  // Keep the cart in progress in localStorage
   useEffect(() => {
-    const savedLayout = localStorage.getItem('salesLayoutPreference');
-    if (savedLayout) {
-      const layoutValue = parseInt(savedLayout);
-      if (layoutValue >= 1 && layoutValue <= 7) {
-        setProductsLayout(layoutValue);
-      }
+    saveActiveCart({ items: cart, customer: selectedCustomer, cartDiscount, label: activeCartLabel || undefined });
+  }, [cart, selectedCustomer, cartDiscount, activeCartLabel]);
+
+  // Re-price the cart for the selected customer's price list
+  useEffect(() => {
+    setCart(prev => {
+      let changed = false;
+      const next = prev.map(item => {
+        const priced = priceCartLine(item, item.quantity, selectedCustomer, priceLists);
+        if (item.price === priced.price && item.priceListLabel === priced.priceListLabel && item.tierLabel === priced.tierLabel) return item;
+        changed = true;
+        return priced;
+      });
+      return changed ? next : prev;
+    });
+  }, [selectedCustomer, priceLists]);
+
+  // Balance and limit of the selected customer, for the credit headroom shown in the cart
+  const selectedCustomerId = selectedCustomer?.id;
+  useEffect(() => {
+    if (!selectedCustomerId) {
+      setCreditStanding(null);
+      return;
     }
+    let cancelled = false;
+    fetchCreditStanding(selectedCustomerId).then(standing => {
+      if (!cancelled) setCreditStanding(standing);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCustomerId]);
+
+  // What the selected customer bought before: last prices per product and the order to repeat
+  useEffect(() => {
+    setPurchaseHistory([]);
+    if (!selectedCustomerId) return;
+    let cancelled = false;
+    fetchPurchaseHistory(selectedCustomerId)
+      .then(sales => {
+        if (!cancelled) setPurchaseHistory(sales);
+      })
+      .catch(error => console.error('Failed to fetch purchase history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCustomerId]);
+
+  const lastSoldPrices = useMemo(() => getLastSoldPrices(purchaseHistory), [purchaseHistory]);
+  const lastOrder = useMemo(() => getLastOrder(purchaseHistory), [purchaseHistory]);
+
+  // Drop held carts and the cart in progress from a previous day when the counter stays open past
+  // midnight; checked every minute and whenever the till comes back into view
+  const businessDayRef = useRef(getBusinessDay());
+  useEffect(() => {
+    const expireStaleCarts = () => {
+      setHeldCarts(prev => {
+        const current = loadHeldCarts<CartItem>();
+        const unchanged = current.length === prev.length && current.every((cart, index) => cart.id === prev[index].id);
+        return unchanged ? prev : current;
+      });
+      const today = getBusinessDay();
+      if (businessDayRef.current === today) return;
+      businessDayRef.current = today;
+      setCart([]);
+      setSelectedCustomer(null);
+      setCartDiscount(null);
+      setActiveCartLabel("");
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') expireStaleCarts();
+    };
+    const interval = setInterval(expireStaleCarts, 60000);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
   }, []);
 
-  // Save layout preference to localStorage when it changes
-  const handleLayoutChange = (newLayout: number) => {
-    setProductsLayout(newLayout);
-    localStorage.setItem('salesLayoutPreference', newLayout.toString());
-    toast({
-      title: "Layout Updated",
-      description: `Products layout set to ${newLayout === 1 ? 'Slim' : newLayout + ' columns'}`,
+  // Layout changes are saved for this cashier or counter so every till keeps its own setup
+  const savePosLayout = async (changes: Partial<PosLayout>) => {
+    const saved = await saveLayout(changes);
+    if (!saved) {
+      toast({
+        title: "Layout Not Saved",
+        description: "The change applies here but could not be saved to the server",
+        variant: "destructive"
+      });
+    }
+    return saved;
+  };
+
+  const handleLayoutChange = async (newLayout: number) => {
+    if (await savePosLayout({ productsLayout: newLayout })) {
+      toast({
+        title: "Layout Updated",
+        description: `Products layout set to ${getProductsLayoutLabel(newLayout)}`,
+      });
+    }
+  };
+
+  const toggleFavouriteCategory = (category: string) => {
+    savePosLayout({
+      favouriteCategories: favouriteCategories.includes(category)
+        ? favouriteCategories.filter(favourite => favourite !== category)
+        : [...favouriteCategories, category]
     });
   };
 
@@ -144,16 +412,6 @@ const formatPakistaniTime = (timeString: string): string => {
     fetchProducts();
     fetchCustomers();
     fetchTodaysOrders();
-    // Load pinned products from localStorage
-    const saved = localStorage.getItem('pinnedProducts');
-    if (saved) {
-      try {
-        setPinnedProducts(JSON.parse(saved));
-      } catch (error) {
-        console.error('Error parsing pinned products from localStorage:', error);
-        setPinnedProducts([]);
-      }
-    }
   }, []);
 
   const fetchProducts = async () => {
@@ -238,6 +496,12 @@ const formatPakistaniTime = (timeString: string): string => {
       setCategories(prev => [...prev, newProduct.category]);
     }
     
+    // A product created from an unknown scan goes straight into the cart
+    if (unknownScanCode) {
+      addToCartWithCustomQuantity(newProduct, 1);
+      setUnknownScanCode("");
+    }
+
     // Show special notification for incomplete quantity products
     if (newProduct.incompleteQuantity) {
       toast({
@@ -248,13 +512,41 @@ const formatPakistaniTime = (timeString: string): string => {
     }
   };
 
+  const handleBarcodeScan = (code: string) => {
+    const scannedCode = normalizeBarcode(code);
+    const product = findProductByCode(products, scannedCode);
+
+    if (product) {
+      addToCartWithCustomQuantity(product, 1);
+      setSearchTerm(prev => (normalizeBarcode(prev) === scannedCode ? "" : prev));
+      toast({
+        title: "Item Scanned",
+        description: `${product.name} added to cart`,
+      });
+      return;
+    }
+
+    toast({
+      title: "Unknown Barcode",
+      description: `No product found for ${scannedCode}. Add it now to sell it.`,
+      variant: "destructive"
+    });
+    setUnknownScanCode(scannedCode);
+    setIsQuickProductAddOpen(true);
+  };
+
+  // Keyboard-wedge scanners type the code anywhere on the page
+  useBarcodeScanner({
+    onScan: handleBarcodeScan,
+    enabled: !isQuickProductAddOpen && !isReturnDialogOpen && !loading,
+  });
+
   const togglePinProduct = (productId: number) => {
     const newPinned = pinnedProducts.includes(productId)
       ? pinnedProducts.filter(id => id !== productId)
       : [...pinnedProducts, productId];
     
-    setPinnedProducts(newPinned);
-    localStorage.setItem('pinnedProducts', JSON.stringify(newPinned));
+    savePosLayout({ pinnedProducts: newPinned });
     
     toast({
       title: pinnedProducts.includes(productId) ? "Product Unpinned" : "Product Pinned",
@@ -269,14 +561,14 @@ const formatPakistaniTime = (timeString: string): string => {
     }
   };
 
-  const addCustomQuantityToCart = (product: any) => {
+  const addCustomQuantityToCart = (product: any, saleUnit?: string) => {
     const inputValue = quantityInputs[product.id];
     const quantity = parseFloat(inputValue);
     
     if (inputValue && !isNaN(quantity) && quantity > 0) {
       // Round to 2 decimal places to match database precision
       const roundedQuantity = Math.round(quantity * 100) / 100;
-      addToCartWithCustomQuantity(product, roundedQuantity);
+      addToCartWithCustomQuantity(product, roundedQuantity, saleUnit);
     } else {
       toast({
         title: "Invalid Quantity",
@@ -286,30 +578,47 @@ const formatPakistaniTime = (timeString: string): string => {
     }
   };
 
-  const addToCartWithCustomQuantity = (product: any, customQuantity?: number) => {
+  const addToCartWithCustomQuantity = (product: any, customQuantity?: number, saleUnit?: string) => {
     const quantity = customQuantity || 1;
     // Round to 2 decimal places to match database precision
     const roundedQuantity = Math.round(quantity * 100) / 100;
+    const unitOptions = getSaleUnits(product);
+    const unitOption = unitOptions.find(option => option.unit === saleUnit) || unitOptions[0];
     
-    const existingItem = cart.find(item => item.productId === product.id);
-    
-    if (existingItem) {
-      const newQuantity = Math.round((existingItem.quantity + roundedQuantity) * 100) / 100;
-      setCart(cart.map(item => 
+    // Functional update so several lines can be added in one go (voice orders)
+    setCart(current => {
+      const existingItem = current.find(item => item.productId === product.id);
+      if (!existingItem) {
+        return [...current, priceCartLine({
+          productId: product.id,
+          name: product.name,
+          price: product.price,
+          listPrice: product.listPrice,
+          baseListPrice: product.listPrice ?? product.price,
+          priceTiers: normalizePriceTiers(product.priceTiers),
+          quantity: roundedQuantity,
+          sku: product.sku,
+          unit: unitOption.unit,
+          baseUnit: product.unit,
+          conversionFactor: unitOption.factor,
+          ...(unitOptions.length > 1 && { unitOptions }),
+          ...(isKit(product) && { kitComponents: normalizeKitComponents(product.kitComponents) })
+        }, roundedQuantity, selectedCustomer, priceLists)];
+      }
+      // Adding in another unit converts the existing line into that unit
+      const existingQuantity = existingItem.unit === unitOption.unit
+        ? existingItem.quantity
+        : toBaseQuantity(existingItem.quantity, existingItem.conversionFactor) / unitOption.factor;
+      const newQuantity = Math.round((existingQuantity + roundedQuantity) * 100) / 100;
+      const line = existingItem.unit === unitOption.unit
+        ? existingItem
+        : { ...existingItem, unit: unitOption.unit, conversionFactor: unitOption.factor, adjustedPrice: undefined };
+      return current.map(item => 
         item.productId === product.id 
-          ? { ...item, quantity: newQuantity }
+          ? priceCartLine(line, newQuantity, selectedCustomer, priceLists)
           : item
-      ));
-    } else {
-      setCart([...cart, {
-        productId: product.id,
-        name: product.name,
-        price: product.price,
-        quantity: roundedQuantity,
-        sku: product.sku,
-        unit: product.unit
-      }]);
-    }
+      );
+    });
 
     // Clear the quantity input for this product
     setQuantityInputs(prev => ({...prev, [product.id]: ""}));
@@ -325,35 +634,85 @@ const formatPakistaniTime = (timeString: string): string => {
       const roundedQuantity = Math.round(quantity * 100) / 100;
       setCart(cart.map(item => 
         item.productId === productId 
-          ? { ...item, quantity: roundedQuantity }
+          ? priceCartLine(item, roundedQuantity, selectedCustomer, priceLists)
           : item
       ));
     }
   };
 
+  // Sell the line in another allowed unit at that unit's price
+  const updateCartUnit = (productId: number, unit: string) => {
+    setCart(cart.map(item => {
+      if (item.productId !== productId) return item;
+      const option = item.unitOptions?.find(candidate => candidate.unit === unit);
+      if (!option) return item;
+      return priceCartLine(
+        { ...item, unit: option.unit, conversionFactor: option.factor, adjustedPrice: undefined },
+        item.quantity,
+        selectedCustomer,
+        priceLists
+      );
+    }));
+  };
+
   const removeFromCart = (productId: number) => {
     setCart(cart.filter(item => item.productId !== productId));
   };
 
+  const getLineCost = (item: CartItem) =>
+    getUnitCost(item, (id) => Number(products.find(product => product.id === id)?.costPrice) || 0);
+
+  // Every hand price is logged with its reason; the ones under the guard also carry the manager's approval
+  const logPriceOverride = (check: PriceCheck, reason: string) => {
+    // The log is for review only; a failed write must not hold up the sale
+    priceOverrideApi.log({
+      product_id: check.productId,
+      product_name: check.productName,
+      unit: check.unit,
+      cost_price: check.costPrice,
+      old_price: check.oldPrice,
+      new_price: check.newPrice,
+      minimum_price: check.minimumPrice,
+      margin_percent: check.marginPercent,
+      below_cost: check.belowCost,
+      approved: check.requiresApproval,
+      user: currentShift?.cashier || "POS User",
+      terminal_id: terminal,
+      shift_id: currentShift?.id,
+      reason
+    }).catch(error => console.error('Failed to log price override:', error));
+  };
+
+  // Hand-priced lines always need a reason; under the guard they also wait for a manager PIN
   const updateItemPrice = (productId: number, newPrice: number) => {
-    console.log('updateItemPrice called with:', { productId, newPrice });
-    
-    setCart(prevCart => {
-      const updatedCart = prevCart.map(item => {
-        if (item.productId === productId) {
-          console.log('Updating item price:', { 
-            productId: item.productId, 
-            oldPrice: item.price, 
-            oldAdjustedPrice: item.adjustedPrice,
-            newPrice 
-          });
-          return { ...item, adjustedPrice: newPrice };
-        }
-        return item;
-      });
-      console.log('Updated cart:', updatedCart);
-      return updatedCart;
+    const item = cart.find(line => line.productId === productId);
+    if (!item) return;
+    const check = getPriceCheck({
+      productId,
+      productName: item.name,
+      unit: item.unit,
+      oldPrice: item.adjustedPrice ?? item.price,
+      newPrice,
+      costPrice: getLineCost(item)
+    }, priceGuardSettings);
+    if (check.oldPrice === newPrice) return;
+
+    setPendingPriceOverride({
+      title: check.requiresApproval ? (check.belowCost ? "Price Below Cost" : "Price Below Minimum Margin") : "Price Override",
+      description: check.requiresApproval
+        ? `${item.name} cannot be sold at this price without a manager's approval.`
+        : `Give a reason for changing the price of ${item.name}.`,
+      checks: [check],
+      requiresApproval: check.requiresApproval,
+      apply: (reason) => applyItemPrice(check, reason)
     });
+  };
+
+  const applyItemPrice = (check: PriceCheck, reason: string) => {
+    const { productId, newPrice } = check;
+    setCart(prevCart => prevCart.map(item =>
+      item.productId === productId ? { ...item, adjustedPrice: newPrice } : item
+    ));
     
     const originalItem = cart.find(item => item.productId === productId);
     const originalPrice = originalItem?.price || 0;
@@ -364,8 +723,274 @@ const formatPakistaniTime = (timeString: string): string => {
       title: "Price Updated",
       description: `Item price has been ${changeType} to PKR ${newPrice.toLocaleString()} (${priceChange >= 0 ? '+' : ''}${priceChange.toLocaleString()} from original)`,
     });
+
+    logPriceOverride(check, reason);
   };
 
+  // Discounts are checked on what each unit nets after line and cart discounts; a change that takes
+  // a line under cost or the minimum margin waits for a manager PIN
+  const getDiscountPriceChecks = (items: CartItem[], discount: Discount | null): PriceCheck[] => {
+    const before = getNetUnitPrices(cart, cartDiscount);
+    const after = getNetUnitPrices(items, discount);
+    return items
+      .map(item => getPriceCheck({
+        productId: item.productId,
+        productName: item.name,
+        unit: item.unit,
+        oldPrice: before.get(item.productId) ?? (item.adjustedPrice || item.price),
+        newPrice: after.get(item.productId) ?? 0,
+        costPrice: getLineCost(item)
+      }, priceGuardSettings))
+      .filter(check => check.requiresApproval && check.newPrice < check.oldPrice);
+  };
+
+  const guardDiscount = (items: CartItem[], discount: Discount | null, label: string, apply: () => void) => {
+    const checks = getDiscountPriceChecks(items, discount);
+    if (checks.length === 0) {
+      apply();
+      return;
+    }
+    setPendingPriceOverride({
+      title: checks.some(check => check.belowCost) ? "Discount Below Cost" : "Discount Below Minimum Margin",
+      description: `${label} takes ${checks.length === 1 ? checks[0].productName : `${checks.length} items`} under the allowed price. A manager can approve it.`,
+      checks,
+      requiresApproval: true,
+      apply: (reason) => {
+        apply();
+        checks.forEach(check => logPriceOverride(check, reason));
+      }
+    });
+  };
+
+  const updateItemDiscount = (productId: number, discount: Discount | null) => {
+    const applyDiscount = () => setCart(prevCart => prevCart.map(item =>
+      item.productId === productId
+        ? { ...item, discount: discount || undefined }
+        : item
+    ));
+    const items = cart.map(item => (item.productId === productId ? { ...item, discount: discount || undefined } : item));
+    guardDiscount(items, cartDiscount, 'This discount', applyDiscount);
+  };
+
+  const updateCartDiscount = (discount: Discount | null) => {
+    guardDiscount(cart, discount, 'The cart discount', () => setCartDiscount(discount));
+  };
+
+  // Each line's share of the discounted total, in cart order
+  const getTaxLines = (items: CartItem[], discount: Discount | null) =>
+    allocateDocumentDiscount(items.map(item => ({
+      productId: item.productId,
+      category: products.find(product => product.id === item.productId)?.category,
+      amount: getLineNetTotal(item)
+    })), getCartTotals(items, discount).cartDiscountAmount);
+
+  // Tax on each line's share of the discounted total, per the store tax rules
+  const getCartTax = (items: CartItem[], discount: Discount | null): TaxResult =>
+    calculateTax(getTaxLines(items, discount), taxSettings, isCustomerTaxExempt(selectedCustomer));
+
+  const updateHeldCarts = (carts: HeldCart<CartItem>[]) => {
+    setHeldCarts(carts);
+    saveHeldCarts(carts);
+  };
+
+  const loadCartState = (snapshot: HeldCart<CartItem> | null) => {
+    setCart(snapshot?.items || []);
+    setSelectedCustomer(snapshot?.customer || null);
+    setCartDiscount(snapshot?.cartDiscount || null);
+    setActiveCartLabel(snapshot?.label || "");
+    setQuantityInputs({});
+    setIsSplitPayment(false);
+    setSplitTenders([]);
+    setCashTendered("");
+    setCreditNote(null);
+  };
+
+  const holdCurrentCart = (label: string, carts: HeldCart<CartItem>[]) => [
+    ...carts,
+    createHeldCart<CartItem>({ items: cart, customer: selectedCustomer, cartDiscount }, label)
+  ];
+
+  const parkCurrentCart = (label: string) => {
+    if (cart.length === 0) return;
+    updateHeldCarts(holdCurrentCart(label, heldCarts));
+    loadCartState(null);
+    toast({
+      title: "Cart Parked",
+      description: `"${label}" is on hold. Start the next customer's cart.`,
+    });
+  };
+
+  // Switching to a held cart parks whatever is currently being rung up
+  const resumeHeldCart = (id: string) => {
+    // Re-read the held carts so one left over from a previous day is not brought back
+    const current = loadHeldCarts<CartItem>();
+    const target = current.find(held => held.id === id);
+    if (!target) {
+      setHeldCarts(current);
+      toast({
+        title: "Held Cart Expired",
+        description: "Held carts are cleared at the end of the business day",
+        variant: "destructive"
+      });
+      return;
+    }
+    let remaining = current.filter(held => held.id !== id);
+    if (cart.length > 0) {
+      remaining = holdCurrentCart(activeCartLabel || getDefaultHeldCartLabel(selectedCustomer, remaining), remaining);
+    }
+    updateHeldCarts(remaining);
+    loadCartState(target);
+  };
+
+  const discardHeldCart = (id: string) => {
+    const target = heldCarts.find(held => held.id === id);
+    if (!target || !confirm(`Discard held cart "${target.label}"?`)) return;
+    updateHeldCarts(heldCarts.filter(held => held.id !== id));
+  };
+
+  const openPalette = (mode: PaletteMode) => {
+    setPaletteMode(mode);
+    setIsPaletteOpen(true);
+  };
+
+  // Kits and loose components draw on the same stock, so demand is counted per stocked product
+  const getCartStockDemand = (currentCart: CartItem[]) =>
+    getStockDemand(currentCart.map(item => ({
+      productId: item.productId,
+      quantity: toBaseQuantity(item.quantity, item.conversionFactor),
+      kitComponents: item.kitComponents
+    })));
+
+  // Checked against what the cart already holds, like lines added in bulk
+  const addFromPalette = (product: PaletteProduct, quantity: number) => {
+    const fullProduct = products.find(p => p.id === product.id) || product;
+    const available = getAvailableStock(fullProduct, productLookup, getCartStockDemand(cart));
+    if (!fullProduct.incompleteQuantity && !fullProduct.needsQuantityUpdate && available < quantity) {
+      toast({
+        title: "Insufficient Stock",
+        description: `Only ${available} more ${isKit(fullProduct) ? 'kits' : fullProduct.unit} of ${fullProduct.name} available`,
+        variant: "destructive"
+      });
+      return;
+    }
+    addToCartWithCustomQuantity(fullProduct, quantity);
+  };
+
+  // Adds several lines at once; short lines are left out and named so the cashier can deal with them
+  // Stock is checked against what the cart already holds plus each line added before it
+  const addCartLines = (
+    lines: Array<{ product: VoiceProduct; quantity: number; unit?: string }>,
+    source: string,
+    missing: string[] = [],
+    currentCart: CartItem[] = cart
+  ) => {
+    const skipped: string[] = [];
+    const demand = getCartStockDemand(currentCart);
+    lines.forEach(({ product, quantity, unit }) => {
+      const fullProduct = products.find(p => p.id === product.id) || product;
+      const factor = getSaleUnits(fullProduct).find(option => option.unit === unit)?.factor || 1;
+      const baseQuantity = toBaseQuantity(quantity, factor);
+      const available = getAvailableStock(fullProduct, productLookup, demand);
+      if (!fullProduct.incompleteQuantity && !fullProduct.needsQuantityUpdate && available < baseQuantity) {
+        skipped.push(`${fullProduct.name} (only ${available} ${isKit(fullProduct) ? 'kits' : fullProduct.unit} left)`);
+        return;
+      }
+      getStockDemand([{
+        productId: fullProduct.id,
+        quantity: baseQuantity,
+        kitComponents: isKit(fullProduct) ? normalizeKitComponents(fullProduct.kitComponents) : undefined
+      }], demand);
+      addToCartWithCustomQuantity(fullProduct, quantity, unit);
+    });
+    const added = lines.length - skipped.length;
+    const problems = [
+      ...(skipped.length > 0 ? [`Not enough stock: ${skipped.join(', ')}`] : []),
+      ...(missing.length > 0 ? [`No longer sold: ${missing.join(', ')}`] : []),
+    ];
+    toast({
+      title: `${added} item${added === 1 ? '' : 's'} added ${source}`,
+      ...(problems.length > 0 && { description: problems.join('. '), variant: "destructive" as const })
+    });
+  };
+
+  const addVoiceLines = (lines: VoiceCartLine[]) => addCartLines(lines, 'by voice');
+
+  // Rebuilds the cart from the customer's last order at today's prices; last-sold hints show what they paid
+  const reorderLastPurchase = () => {
+    if (!lastOrder) return;
+    if (cart.length > 0 && !confirm(`Replace the ${cart.length} item(s) in the cart with order ${lastOrder.orderNumber}?`)) return;
+    const lines = getReorderLines(lastOrder);
+    const missing = lines.filter(line => !products.some(p => p.id === line.productId)).map(line => line.productName);
+    setCart([]);
+    addCartLines(
+      lines
+        .map(line => ({ product: products.find(p => p.id === line.productId), quantity: line.quantity, unit: line.unit }))
+        .filter(line => line.product),
+      `from ${lastOrder.orderNumber}`,
+      missing,
+      []
+    );
+  };
+
+  const selectPaymentMethod = (method: string) => {
+    setIsSplitPayment(false);
+    setPaymentMethod(method);
+  };
+
+  const cyclePaymentMethod = () => {
+    if (isSplitPayment) return;
+    const index = TENDER_METHODS.indexOf(paymentMethod as TenderMethod);
+    const next = TENDER_METHODS[(index + 1) % TENDER_METHODS.length];
+    setPaymentMethod(next);
+    toast({ title: `Payment: ${TENDER_METHOD_LABELS[next]}` });
+  };
+
+  const openCustomerSelect = () => {
+    setIsCartCollapsed(false);
+    setIsCustomerDialogOpen(true);
+  };
+
+  const holdCartFromKeyboard = () => {
+    parkCurrentCart(activeCartLabel || getDefaultHeldCartLabel(selectedCustomer, heldCarts));
+  };
+
+  // Hotkeys belong to the sale screen; with any dialog up, F9 or F8 must not act on the cart behind it
+  const isAnyDialogOpen = isShiftDialogOpen || isPrinterDialogOpen || isReturnDialogOpen || isLayawayDialogOpen ||
+    isPaletteOpen || isShortcutsOpen || isVoiceOpen || isQuickCustomerOpen || isTodaysOrdersOpen ||
+    isQuickProductAddOpen || isCustomerDialogOpen || !!pendingCreditCheck || !!pendingPriceOverride;
+
+  usePosHotkeys({
+    'Mod+K': () => openPalette('search'),
+    F2: () => openPalette('search'),
+    F3: openCustomerSelect,
+    F4: cyclePaymentMethod,
+    F6: () => openPalette('price'),
+    F8: holdCartFromKeyboard,
+    F9: () => handleCheckout(),
+    'Mod+Enter': () => handleCheckout(),
+    F1: () => setIsShortcutsOpen(true),
+  }, !loading && !isAnyDialogOpen);
+
+  const paletteActions: PaletteAction[] = [
+    { id: 'customer', label: 'Select customer', shortcut: 'F3', run: openCustomerSelect },
+    { id: 'walk-in', label: 'Walk-in customer', run: () => setSelectedCustomer(null) },
+    ...TENDER_METHODS.map(method => ({
+      id: `pay-${method}`,
+      label: `Pay by ${TENDER_METHOD_LABELS[method]}`,
+      run: () => selectPaymentMethod(method)
+    })),
+    { id: 'price', label: 'Edit a cart price', shortcut: 'F6', run: () => openPalette('price') },
+    { id: 'hold', label: 'Hold cart', shortcut: 'F8', run: holdCartFromKeyboard },
+    { id: 'checkout', label: 'Complete sale', shortcut: 'F9', run: () => handleCheckout() },
+    { id: 'return', label: 'Return / exchange', run: () => setIsReturnDialogOpen(true) },
+    { id: 'orders', label: "Today's orders", run: () => setIsTodaysOrdersOpen(true) },
+    { id: 'shift', label: 'Cash shift', run: () => setIsShiftDialogOpen(true) },
+    { id: 'display', label: 'Open customer display', run: openCustomerDisplayWindow },
+    { id: 'voice', label: 'Voice order', run: () => setIsVoiceOpen(true) },
+    ...(lastOrder ? [{ id: 'reorder', label: `Reorder last purchase (${lastOrder.orderNumber})`, run: reorderLastPurchase }] : []),
+    { id: 'shortcuts', label: 'Keyboard shortcuts', shortcut: 'F1', run: () => setIsShortcutsOpen(true) },
+  ];
+
   const handleOutsourceItem = async (productId: number, data: { supplierId: number; costPerUnit: number; notes?: string }) => {
     try {
       // Find supplier name for display
@@ -412,7 +1037,7 @@ const formatPakistaniTime = (timeString: string): string => {
     }
   };
 
-  const handleCheckout = async () => {
+  const handleCheckout = async (creditOverride?: CreditLimitOverride, layawayPlan?: LayawayPlan) => {
     if (cart.length === 0) {
       toast({
         title: "Empty Cart",
@@ -422,6 +1047,89 @@ const formatPakistaniTime = (timeString: string): string => {
       return;
     }
 
+    // Layaway orders take a deposit against a schedule instead of settling the total now
+    if (orderStatus === LAYAWAY_SALE_STATUS && !layawayPlan) {
+      if (!selectedCustomer) {
+        toast({
+          title: "Customer Required",
+          description: "Select the customer the order is being held for",
+          variant: "destructive"
+        });
+        return;
+      }
+      if (creditNote) {
+        toast({
+          title: "Credit Note Not Allowed",
+          description: "Remove the credit note before taking a layaway deposit",
+          variant: "destructive"
+        });
+        return;
+      }
+      setIsLayawayDialogOpen(true);
+      return;
+    }
+
+    const cartTotals = getCartTotals(cart, cartDiscount);
+    const cartTax = getCartTax(cart, cartDiscount);
+    const cartTotal = cartTax.total;
+    // A redeemed credit note covers part of the total; the other tenders settle the rest
+    const creditNoteAmount = creditNote ? Math.min(creditNote.amount, cartTotal) : 0;
+    const amountDue = roundCurrency(cartTotal - creditNoteAmount);
+    const tenders: PaymentTender[] = layawayPlan
+      ? [{ method: layawayPlan.method, amount: layawayPlan.deposit }]
+      : mergeTenders([
+          ...(creditNoteAmount > 0 ? [{ method: 'store_credit' as TenderMethod, amount: creditNoteAmount }] : []),
+          ...(isSplitPayment ? splitTenders : [{ method: paymentMethod as TenderMethod, amount: amountDue }])
+        ]);
+
+    if (isSplitPayment && !layawayPlan) {
+      const balance = getTenderBalance(tenders, cartTotal);
+      if (balance !== 0) {
+        toast({
+          title: "Payment Mismatch",
+          description: balance > 0
+            ? `Tenders are PKR ${balance.toLocaleString()} short of the total`
+            : `Tenders exceed the total by PKR ${Math.abs(balance).toLocaleString()}`,
+          variant: "destructive"
+        });
+        return;
+      }
+      if (getTenderAmount(tenders, 'credit') > 0 && !selectedCustomer) {
+        toast({
+          title: "Customer Required",
+          description: "Select a customer to leave part of the sale on credit",
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    const cashDue = getTenderAmount(tenders, 'cash');
+    // The layaway dialog takes the deposit itself, so the cash pad does not apply
+    const cashTender = cashDue > 0 && !layawayPlan ? getCashTender(cashTendered, cashDue) : null;
+    if (cashTender && cashTender.change < 0) {
+      toast({
+        title: "Cash Short",
+        description: `Cash received is PKR ${Math.abs(cashTender.change).toLocaleString()} short of the cash due`,
+        variant: "destructive"
+      });
+      return;
+    }
+    const saleRecordedPaymentMethod = getPaymentMethodLabel(tenders);
+
+    // Credit sales past the customer's limit need a manager override
+    const creditAmount = getTenderAmount(tenders, 'credit');
+    if (creditAmount > 0 && selectedCustomer?.id && !creditOverride) {
+      const standing = await fetchCreditStanding(selectedCustomer.id);
+      if (standing) {
+        setCreditStanding(standing);
+        const creditCheck = getCreditCheck(standing, creditAmount);
+        if (creditCheck.exceededBy > 0) {
+          setPendingCreditCheck(creditCheck);
+          return;
+        }
+      }
+    }
+
     // Prevent double-clicking - check if sale is already being processed
     if (isProcessingSale) {
       toast({
@@ -434,21 +1142,78 @@ const formatPakistaniTime = (timeString: string): string => {
 
     try {
       setIsProcessingSale(true); // Set processing flag to prevent double-clicks
-      
-      // Calculate total without any tax
-      const totalAmount = cart.reduce((sum, item) => {
-        const finalPrice = item.adjustedPrice || item.price;
-        return sum + (finalPrice * item.quantity);
-      }, 0);
+
+      // The note may have been used at another till since it was applied
+      if (creditNoteAmount > 0) {
+        const latest = await creditNoteApi.getByCode(creditNote.note.code);
+        if (!latest.success || !latest.data || getCreditNoteError(latest.data) || Number(latest.data.balance) < creditNoteAmount) {
+          throw new Error(`Credit note ${creditNote.note.note_number} no longer has PKR ${creditNoteAmount.toLocaleString()} available`);
+        }
+      }
+
+      // Payable total after line and cart discounts and sales tax
+      const totalAmount = cartTotal;
+
+      // Kit lines split their revenue across the components for reporting; component stock is deducted once the sale is saved
+      const kitAllocations = new Map<number, KitAllocation[]>(
+        cart
+          .filter(item => item.kitComponents?.length)
+          .map(item => [
+            item.productId,
+            allocateKitRevenue(
+              { id: item.productId, price: item.price, kitComponents: item.kitComponents },
+              item.quantity,
+              getLineNetTotal(item),
+              productLookup
+            )
+          ])
+      );
+
+      // What each line actually cost the customer, so returns refund the cart discount and tax share too
+      const linePayables = getLinePayables(getTaxLines(cart, cartDiscount), taxSettings, isCustomerTaxExempt(selectedCustomer));
 
       const saleData = {
+        shiftId: currentShift?.id,
+        terminalId: terminal,
         customerId: selectedCustomer?.id || null,
         customerName: selectedCustomer?.name || "Walk-in Customer",
-        items: cart.map(item => ({
+        items: cart.map((item, index) => ({
           productId: item.productId,
-          quantity: item.quantity,
-          unitPrice: item.adjustedPrice || item.price,
-          totalPrice: (item.adjustedPrice || item.price) * item.quantity,
+          // Stock is deducted in base units; the unit sold is kept alongside
+          quantity: toBaseQuantity(item.quantity, item.conversionFactor),
+          unitPrice: (item.adjustedPrice || item.price) / (item.conversionFactor || 1),
+          listPrice: (item.listPrice ?? item.price) / (item.conversionFactor || 1),
+          ...((item.conversionFactor || 1) !== 1 && {
+            saleUnit: item.unit,
+            saleQuantity: item.quantity,
+            saleUnitPrice: item.adjustedPrice || item.price,
+            conversionFactor: item.conversionFactor
+          }),
+          ...(item.priceListLabel && { priceList: item.priceListLabel }),
+          ...(item.tierLabel && { priceTier: item.tierLabel }),
+          totalPrice: getLineNetTotal(item),
+          paidTotal: linePayables[index],
+          paidUnitPrice: linePayables[index] / (toBaseQuantity(item.quantity, item.conversionFactor) || 1),
+          discount: getLineDiscountAmount(item),
+          ...(item.discount && {
+            discountType: item.discount.type,
+            discountValue: item.discount.value,
+            discountReason: item.discount.reason
+          }),
+          // Kit stock is moved through the components, so the backend must not deduct or check the kit itself
+          ...(kitAllocations.has(item.productId) && {
+            isKit: true,
+            skipStock: true,
+            kit: {
+              components: kitAllocations.get(item.productId)!.map(component => ({
+                productId: component.productId,
+                productName: component.productName,
+                quantity: component.quantity,
+                unit: component.unit,
+                allocatedRevenue: component.allocatedRevenue
+              }))
+            }
+          }),
           // Outsourcing data - structure matches backend expectation
           ...(item.isOutsourced && item.outsourcingSupplierId && {
             outsourcing: {
@@ -458,108 +1223,142 @@ const formatPakistaniTime = (timeString: string): string => {
             }
           })
         })),
-        totalAmount: totalAmount, // Pure total without tax
-        subtotal: totalAmount, // Same as total since no tax
-        tax: 0, // Explicitly set tax to 0
-        discount: 0,
-        paymentMethod: paymentMethod,
+        totalAmount: totalAmount,
+        subtotal: cartTotals.subtotal, // Before line and cart discounts
+        tax: cartTax.tax,
+        taxableAmount: cartTax.taxableAmount,
+        taxInclusive: cartTax.inclusive,
+        taxExempt: cartTax.exempt,
+        taxBreakdown: cartTax.breakdown,
+        discount: cartTotals.discountTotal,
+        ...(cartDiscount && {
+          cartDiscount: {
+            type: cartDiscount.type,
+            value: cartDiscount.value,
+            reason: cartDiscount.reason,
+            amount: cartTotals.cartDiscountAmount
+          }
+        }),
+        paymentMethod: saleRecordedPaymentMethod,
+        payments: tenders.map(tender => ({
+          method: tender.method,
+          amount: tender.amount
+        })),
+        ...(cashTender && {
+          cashTendered: cashTender.tendered,
+          changeDue: cashTender.change
+        }),
+        ...(creditOverride && { creditLimitOverride: creditOverride }),
+        ...(layawayPlan && {
+          layaway: {
+            deposit: layawayPlan.deposit,
+            balance: roundCurrency(totalAmount - layawayPlan.deposit),
+            schedule: layawayPlan.schedule,
+            pickupDate: layawayPlan.pickupDate
+          }
+        }),
+        ...(creditNoteAmount > 0 && {
+          creditNote: {
+            id: creditNote.note.id,
+            noteNumber: creditNote.note.note_number,
+            amount: creditNoteAmount
+          }
+        }),
         status: orderStatus,
         saleDate: new Date().toISOString(),
         notes: selectedCustomer ? `Sale to ${selectedCustomer.name}` : "Walk-in customer sale"
       };
 
-      console.log('Sending sale data:', saleData);
-
       const response = await salesApi.create(saleData);
       
       if (response.success) {
-        // AUTO-GENERATE RECEIPT after successful sale
-        await generateReceiptPDF({
-          id: response.data?.id || Date.now(),
-          orderNumber: response.data?.orderNumber || `UH-${Date.now()}`,
-          customerId: selectedCustomer?.id || null,
-          customerName: selectedCustomer?.name || null,
-          date: new Date().toISOString().split('T')[0],
-          time: new Date().toLocaleTimeString('en-GB', { hour12: false }),
-          items: cart.map(item => ({
-            productId: item.productId,
-            productName: item.name,
-            quantity: item.quantity,
-            unitPrice: item.adjustedPrice || item.price,
-            total: (item.adjustedPrice || item.price) * item.quantity
-          })),
-          subtotal: totalAmount,
-          discount: 0,
-          tax: 0,
-          total: totalAmount,
-          paymentMethod: paymentMethod,
-          status: orderStatus,
-          createdBy: "POS User",
-          createdAt: new Date().toISOString()
-        });
-
-        // Add cash flow entry for completed sale (credit/inflow)
-        try {
-          // Determine account based on payment method
-          let accountId: number | undefined;
-          
-          if (paymentMethod.toLowerCase() === 'cash') {
-            // Find Cash account using the same approach as PurchaseOrders
-            const accountsResponse = await newFinanceApi.getAccounts({ type: 'cash', active: true });
-            if (accountsResponse.success && accountsResponse.data) {
-              const cashAccount = accountsResponse.data.find((acc: any) => 
-                acc.account_type?.toLowerCase() === 'cash' || acc.account_name?.toLowerCase().includes('cash')
-              );
-              
-              if (cashAccount) {
-                accountId = parseInt(cashAccount.id);
-                console.log('Found cash account:', cashAccount);
-              } else {
-                console.log('No cash account found in response');
-              }
-            }
-          } else if (paymentMethod.toLowerCase() === 'bank_transfer' || paymentMethod.toLowerCase() === 'card') {
-            // Find Bank account using the same approach as PurchaseOrders
-            const accountsResponse = await newFinanceApi.getAccounts({ type: 'bank', active: true });
-            if (accountsResponse.success && accountsResponse.data) {
-              const bankAccount = accountsResponse.data.find((acc: any) => 
-                acc.account_type?.toLowerCase() === 'bank' || acc.account_name?.toLowerCase().includes('bank')
-              );
-              
-              if (bankAccount) {
-                accountId = parseInt(bankAccount.id);
-                console.log('Found bank account:', bankAccount);
-              } else {
-                console.log('No bank account found in response');
-              }
-            }
-          }
-
-          // Create cashflow entry
-          const cashFlowResponse = await newFinanceApi.createFinanceCashFlow({
-            type: 'inflow',
-            amount: totalAmount,
+        if (layawayPlan) {
+          // Without its schedule the sale is rolled back, so the cart stays for another try
+          if (!await openLayaway(layawayPlan, response.data, totalAmount)) return;
+        } else {
+          // AUTO-GENERATE RECEIPT after successful sale
+          await generateReceiptPDF({
+            id: response.data?.id || Date.now(),
+            orderNumber: response.data?.orderNumber || `UH-${Date.now()}`,
+            customerId: selectedCustomer?.id || null,
+            customerName: selectedCustomer?.name || null,
             date: new Date().toISOString().split('T')[0],
-            account_id: accountId,
-            reference: response.data?.orderNumber || `Sale-${Date.now()}`,
-            description: `Sale completed - ${selectedCustomer?.name || 'Walk-in Customer'} - ${paymentMethod} payment`
+            time: new Date().toLocaleTimeString('en-GB', { hour12: false }),
+            items: cart.map(item => ({
+              productId: item.productId,
+              productName: item.name,
+              quantity: item.quantity,
+              saleUnit: (item.conversionFactor || 1) !== 1 ? item.unit : undefined,
+              unitPrice: item.adjustedPrice || item.price,
+              tierLabel: item.adjustedPrice ? undefined : item.tierLabel,
+              total: getLineGrossTotal(item),
+              discount: getLineDiscountAmount(item),
+              discountReason: item.discount?.reason,
+              components: kitAllocations.get(item.productId)
+            })),
+            subtotal: cartTotals.subtotal,
+            discount: cartTotals.discountTotal,
+            cartDiscountReason: cartDiscount?.reason,
+            tax: cartTax.tax,
+            taxLabel: formatTaxLabel(cartTax),
+            taxInclusive: cartTax.inclusive,
+            taxExemptAmount: cartTax.exemptAmount,
+            total: totalAmount,
+            paymentMethod: saleRecordedPaymentMethod,
+            payments: tenders,
+            cashTendered: cashTender?.tendered,
+            changeDue: cashTender?.change,
+            status: orderStatus,
+            createdBy: "POS User",
+            createdAt: new Date().toISOString()
           });
-          
-          console.log('Cash flow entry created successfully:', cashFlowResponse);
-        } catch (cashFlowError) {
-          console.error('Failed to create cash flow entry for sale:', cashFlowError);
-          // Don't break the sale flow if cash flow fails
         }
 
-        setCart([]);
-        setSelectedCustomer(null);
-        setQuantityInputs({});
+        await deductKitComponents(kitAllocations, response.data?.orderNumber || `Sale-${Date.now()}`);
+
+        // Add cash flow entries for completed sale, one per ledger account the tenders settle into
+        await postSaleCashFlow(
+          tenders,
+          response.data?.orderNumber || `Sale-${Date.now()}`,
+          selectedCustomer?.name || 'Walk-in Customer'
+        );
+
+        if (creditNoteAmount > 0) {
+          try {
+            await creditNoteApi.redeem(creditNote.note.id, {
+              amount: creditNoteAmount,
+              sale_id: response.data?.id,
+              order_number: response.data?.orderNumber
+            });
+          } catch (redeemError) {
+            console.error('Failed to redeem credit note:', redeemError);
+            toast({
+              title: "Credit Note Not Updated",
+              description: `Reduce ${creditNote.note.note_number} by PKR ${creditNoteAmount.toLocaleString()} from the Credits page`,
+              variant: "destructive"
+            });
+          }
+        }
+
+        announceSale({
+          orderNumber: response.data?.orderNumber,
+          total: layawayPlan ? layawayPlan.deposit : totalAmount,
+          cashTendered: cashTender?.tendered,
+          changeDue: cashTender?.change
+        });
+        loadCartState(null);
         setPaymentMethod("cash");
+        if (layawayPlan) setOrderStatus("completed");
         fetchTodaysOrders();
-        toast({
-          title: "Sale Completed Successfully",
-          description: `Order has been processed with status: ${orderStatus}. Payment: ${paymentMethod}. Total: PKR ${saleData.totalAmount.toFixed(2)}. Receipt downloaded automatically.`,
-        });
+        toast(layawayPlan
+          ? {
+              title: "Layaway Opened",
+              description: `Order ${response.data?.orderNumber || ''} is on layaway. Deposit PKR ${layawayPlan.deposit.toFixed(2)} received, balance PKR ${roundCurrency(totalAmount - layawayPlan.deposit).toFixed(2)} due before pickup. Deposit receipt issued.`,
+            }
+          : {
+              title: "Sale Completed Successfully",
+              description: `Order has been processed with status: ${orderStatus}. Payment: ${saleRecordedPaymentMethod}. Total: PKR ${saleData.totalAmount.toFixed(2)}. Receipt downloaded automatically.`,
+            });
       } else {
         throw new Error(response.message || 'Failed to process sale');
       }
@@ -575,6 +1374,146 @@ const formatPakistaniTime = (timeString: string): string => {
     }
   };
 
+  // Records the layaway against the new sale and prints the deposit receipt. When the layaway cannot
+  // be saved the sale is cancelled, since a layaway sale without its schedule cannot be paid off.
+  const openLayaway = async (plan: LayawayPlan, sale: { id: number; orderNumber: string }, total: number): Promise<boolean> => {
+    const orderNumber = sale?.orderNumber || `UH-${Date.now()}`;
+    const receiptNumber = getInstallmentReceiptNumber(orderNumber, 0);
+    try {
+      await layawayApi.create({
+        sale_id: sale?.id,
+        order_number: orderNumber,
+        customer_id: selectedCustomer.id,
+        customer_name: selectedCustomer.name,
+        total,
+        schedule: plan.schedule,
+        pickup_date: plan.pickupDate || null,
+        notes: plan.notes,
+        deposit: {
+          receipt_number: receiptNumber,
+          amount: plan.deposit,
+          method: plan.method,
+          shift_id: currentShift?.id,
+          received_by: "POS User"
+        }
+      });
+    } catch (error) {
+      console.error('Failed to record layaway:', error);
+      let cancelled = false;
+      try {
+        cancelled = !!sale?.id && (await salesApi.updateStatus(sale.id, { status: 'cancelled' })).success;
+      } catch (cancelError) {
+        console.error('Failed to cancel layaway sale:', cancelError);
+      }
+      toast({
+        title: "Layaway Not Opened",
+        description: cancelled
+          ? `The payment schedule could not be saved, so order ${orderNumber} was cancelled. Do not take the deposit; try again.`
+          : `The payment schedule could not be saved. Cancel order ${orderNumber} from the Orders page before trying again.`,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    const printed = await printInstallmentReceipt({
+      receiptNumber,
+      orderNumber,
+      customerName: selectedCustomer.name,
+      date: new Date().toISOString(),
+      amount: plan.deposit,
+      method: plan.method,
+      isDeposit: true,
+      total,
+      paidToDate: plan.deposit,
+      balance: roundCurrency(total - plan.deposit),
+      nextDue: plan.schedule[0],
+      pickupDate: plan.pickupDate,
+      reservedItems: cart.map(item => ({ productName: item.name, quantity: item.quantity }))
+    });
+    if (!printed) {
+      toast({
+        title: "Printer Unavailable",
+        description: "Deposit receipt downloaded as PDF instead",
+        variant: "destructive"
+      });
+    }
+    return true;
+  };
+
+  // Find the ledger account a tender settles into, using the same lookup as PurchaseOrders
+  const findAccountId = async (accountType: 'cash' | 'bank'): Promise<number | undefined> => {
+    // Cash settles into the drawer account chosen when the shift was opened
+    if (accountType === 'cash' && currentShift?.account_id) {
+      return Number(currentShift.account_id);
+    }
+
+    const accountsResponse = await newFinanceApi.getAccounts({ type: accountType, active: true });
+    if (accountsResponse.success && accountsResponse.data) {
+      const account = accountsResponse.data.find((acc: any) =>
+        acc.account_type?.toLowerCase() === accountType ||
+        acc.account_name?.toLowerCase().includes(accountType)
+      );
+      if (account) return parseInt(account.id);
+    }
+    return undefined;
+  };
+
+  // The sale moves the kit line only, so each component comes out of stock through a stock adjustment
+  const deductKitComponents = async (kitAllocations: Map<number, KitAllocation[]>, orderNumber: string) => {
+    const failed: string[] = [];
+    for (const component of [...kitAllocations.values()].flat()) {
+      try {
+        await productsApi.adjustStock(component.productId, {
+          type: 'adjustment',
+          quantity: -component.quantity,
+          reason: `Kit component sold on ${orderNumber}`,
+          reference: orderNumber
+        });
+      } catch (error) {
+        console.error('Failed to deduct kit component stock:', error);
+        failed.push(`${component.productName} (${component.quantity}${component.unit ? ` ${component.unit}` : ''})`);
+      }
+    }
+    if (failed.length > 0) {
+      toast({
+        title: "Kit Stock Not Fully Deducted",
+        description: `Adjust stock from Inventory for: ${failed.join(', ')}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const postSaleCashFlow = async (tenders: PaymentTender[], reference: string, customerName: string) => {
+    const totalsByAccount = groupTendersByAccountType(tenders);
+
+    // Only tenders actually paid move money. Sales on credit are owed on the customer's account until
+    // they pay, and store credit was booked when the note was issued
+    for (const accountType of ['cash', 'bank'] as const) {
+      const amount = totalsByAccount[accountType];
+      if (amount <= 0) continue;
+
+      try {
+        const methods = tenders
+          .filter(tender => getTenderAccountType(tender.method) === accountType)
+          .map(tender => tender.method)
+          .join(' + ');
+        const accountId = await findAccountId(accountType);
+
+        await newFinanceApi.createFinanceCashFlow({
+          type: 'inflow',
+          amount,
+          date: new Date().toISOString().split('T')[0],
+          account_id: accountId,
+          reference,
+          description: `Sale completed - ${customerName} - ${methods} payment`
+        });
+      } catch (cashFlowError) {
+        console.error(`Failed to create ${accountType} cash flow entry for sale:`, cashFlowError);
+        // Don't break the sale flow if cash flow fails
+      }
+    }
+  };
+
   // Helper to calculate dynamic receipt height
   const calculateReceiptHeight = (order: any) => {
     let yPos = 8; // initial offset
@@ -604,13 +1543,20 @@ const formatPakistaniTime = (timeString: string): string => {
       }
       const itemHeight = Math.max(5, lines * 4);
       yPos += itemHeight;
+      if (item.tierLabel) yPos += 4; // quantity tier
+      if (item.components) yPos += item.components.length * 3.5; // kit contents
+      if (item.discount > 0) yPos += 4; // line discount
     });
 
     yPos += 3 + 6; // separator and space
     yPos += 4; // subtotal
     if (order.discount > 0) yPos += 4;
+    if (order.cartDiscountReason) yPos += 4;
+    if (order.tax > 0 || order.taxExemptAmount > 0) yPos += 4;
     yPos += 7 + 12; // total and payment method
     yPos += 5 + 12; // payment method bar and space
+    if (order.payments?.length > 1) yPos += order.payments.length * 4; // split tender lines
+    if (order.cashTendered !== undefined && order.cashTendered !== null) yPos += 8 + 2; // cash received and change
     yPos += 4 + 28; // QR code
     yPos += 20; // thank you
     yPos += 23; // footer policies
@@ -622,17 +1568,41 @@ const formatPakistaniTime = (timeString: string): string => {
 
   // AUTO RECEIPT GENERATION FUNCTION
   const generateReceiptPDF = async (order: any) => {
+    // Signed QR linking to the verification page
+    const qrData = await getReceiptQrData(
+      { id: order.id, orderNumber: order.orderNumber, total: order.total, date: order.date }
+    );
+
+    // Raw thermal printing when set up on this machine; any failure falls through to the PDF
+    const printer = getPrinterSettings();
+    if (printer.output === 'escpos') {
+      try {
+        await printRaw(encodeReceipt(order, {
+          paperWidth: printer.paperWidth,
+          qrData,
+          timeLabel: formatPakistaniTime(order.time)
+        }), printer);
+        return;
+      } catch (error) {
+        console.error('Thermal print failed, falling back to PDF:', error);
+        toast({
+          title: "Printer Unavailable",
+          description: "Receipt downloaded as PDF instead",
+          variant: "destructive"
+        });
+      }
+    }
+
     try {
       // Generate QR code with proper encoding
-      const qrData = `USMAN-HARDWARE-${order.orderNumber}-${order.total}-VERIFIED`;
       const qrCodeDataURL = await QRCode.toDataURL(qrData, {
-        width: 60,
+        width: 120,
         margin: 1,
         color: {
           dark: '#1a365d',
           light: '#ffffff'
         },
-        errorCorrectionLevel: 'H'
+        errorCorrectionLevel: 'M'
       });
 
       // Calculate dynamic height
@@ -792,10 +1762,34 @@ const formatPakistaniTime = (timeString: string): string => {
         lines.forEach((line, lineIndex) => {
           pdf.text(line, 8, yPos + 3 + (lineIndex * 3.5));
         });
-        pdf.text(item.quantity.toString(), 50, yPos + 3);
+        pdf.text(item.saleUnit ? `${item.quantity} ${item.saleUnit}` : item.quantity.toString(), 50, yPos + 3);
         pdf.text(item.unitPrice.toFixed(0), 58, yPos + 3);
         pdf.text(item.total.toFixed(0), 68, yPos + 3);
         yPos += itemHeight;
+        if (item.tierLabel) {
+          pdf.setTextColor(100, 116, 139);
+          pdf.text(`  ${item.tierLabel} rate`, 8, yPos + 3);
+          pdf.setTextColor(0, 0, 0);
+          yPos += 4;
+        }
+        if (item.components) {
+          pdf.setFontSize(6);
+          pdf.setTextColor(100, 116, 139);
+          item.components.forEach((component: KitAllocation) => {
+            const name = component.productName.length > 30 ? component.productName.substring(0, 30) + '...' : component.productName;
+            pdf.text(`  - ${component.quantity}${component.unit ? ` ${component.unit}` : ''} ${name}`, 8, yPos + 2.5);
+            yPos += 3.5;
+          });
+          pdf.setFontSize(7);
+          pdf.setTextColor(0, 0, 0);
+        }
+        if (item.discount > 0) {
+          pdf.setTextColor(220, 38, 127);
+          pdf.text(`  Disc (${DISCOUNT_REASON_LABELS[item.discountReason] || 'Line'})`, 8, yPos + 3);
+          pdf.text(`-${item.discount.toFixed(0)}`, 68, yPos + 3);
+          pdf.setTextColor(0, 0, 0);
+          yPos += 4;
+        }
       });
 
       // SEPARATOR LINE
@@ -816,7 +1810,22 @@ const formatPakistaniTime = (timeString: string): string => {
         pdf.setTextColor(220, 38, 127);
         pdf.text('Discount:', totalsStartX, yPos);
         pdf.text(`-PKR ${order.discount.toFixed(0)}`, totalsStartX + 35, yPos);
+        yPos += 4;
+        if (order.cartDiscountReason) {
+          pdf.setFontSize(6);
+          pdf.text(`Cart discount: ${DISCOUNT_REASON_LABELS[order.cartDiscountReason] || order.cartDiscountReason}`, totalsStartX, yPos);
+          pdf.setFontSize(7);
+          yPos += 4;
+        }
         pdf.setTextColor(0, 0, 0);
+      }
+      if (order.tax > 0) {
+        pdf.text(`${order.taxLabel || 'Sales Tax'}:`, totalsStartX, yPos);
+        pdf.text(`${order.taxInclusive ? '' : '+'}PKR ${order.tax.toFixed(0)}`, totalsStartX + 40, yPos);
+        yPos += 4;
+      } else if (order.taxExemptAmount > 0) {
+        pdf.text('Tax exemption:', totalsStartX, yPos);
+        pdf.text(`-PKR ${order.taxExemptAmount.toFixed(0)}`, totalsStartX + 35, yPos);
         yPos += 4;
       }
       pdf.setFillColor(26, 54, 93);
@@ -825,7 +1834,7 @@ const formatPakistaniTime = (timeString: string): string => {
       pdf.setFont('helvetica', 'bold');
       pdf.setFontSize(8);
       pdf.text('TOTAL:', 8, yPos + 4);
-      pdf.text(`PKR ${(order.subtotal - order.discount).toFixed(0)}`, 50, yPos + 4.5);
+      pdf.text(`PKR ${order.total.toFixed(0)}`, 50, yPos + 4.5);
       yPos += 12;
 
       // PAYMENT METHOD
@@ -843,6 +1852,32 @@ const formatPakistaniTime = (timeString: string): string => {
       pdf.text(order.paymentMethod.toUpperCase(), pageWidth / 2, yPos + 3.5, { align: 'center' });
       yPos += 12;
 
+      // SPLIT TENDER BREAKDOWN
+      if (order.payments?.length > 1) {
+        pdf.setTextColor(0, 0, 0);
+        pdf.setFontSize(7);
+        pdf.setFont('helvetica', 'normal');
+        order.payments.forEach((tender: PaymentTender) => {
+          pdf.text(`${TENDER_METHOD_LABELS[tender.method] || tender.method}:`, totalsStartX, yPos);
+          pdf.text(`PKR ${tender.amount.toFixed(0)}`, totalsStartX + 42, yPos);
+          yPos += 4;
+        });
+      }
+
+      // CASH RECEIVED AND CHANGE
+      if (order.cashTendered !== undefined && order.cashTendered !== null) {
+        pdf.setTextColor(0, 0, 0);
+        pdf.setFontSize(7);
+        pdf.setFont('helvetica', 'normal');
+        pdf.text('Cash received:', totalsStartX, yPos);
+        pdf.text(`PKR ${Number(order.cashTendered).toFixed(0)}`, totalsStartX + 42, yPos);
+        yPos += 4;
+        pdf.setFont('helvetica', 'bold');
+        pdf.text('Change:', totalsStartX, yPos);
+        pdf.text(`PKR ${Number(order.changeDue || 0).toFixed(0)}`, totalsStartX + 42, yPos);
+        yPos += 6;
+      }
+
       // QR CODE SECTION
       pdf.setTextColor(0, 0, 0);
       pdf.setFontSize(8);
@@ -900,8 +1935,6 @@ const formatPakistaniTime = (timeString: string): string => {
       const sanitizedCustomerName = customerFilenamePart.replace(/[^a-zA-Z0-9-_]/g, '-');
       const filename = `${sanitizedCustomerName}-${order.orderNumber}.pdf`;
       pdf.save(filename);
-      
-      console.log('Auto-generated receipt for order:', order.orderNumber);
     } catch (error) {
       console.error('Failed to auto-generate receipt:', error);
       // Don't show error toast for auto-generation to avoid interrupting the sale flow
@@ -909,9 +1942,15 @@ const formatPakistaniTime = (timeString: string): string => {
   };
 
   // Filter products by category and search term
-  const filteredProducts = products.filter(product => {
+  // Show the selected customer's prices on the product grid
+  const pricedProducts = selectedCustomer
+    ? products.map(product => applyCustomerPrice(product, selectedCustomer, priceLists))
+    : products;
+
+  const filteredProducts = pricedProducts.filter(product => {
     const matchesSearch = product?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      product?.sku?.toLowerCase().includes(searchTerm.toLowerCase());
+      product?.sku?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (!!searchTerm && product?.barcode?.toLowerCase() === searchTerm.trim().toLowerCase());
     
     const matchesCategory = selectedCategory === null || product?.category === selectedCategory;
     
@@ -928,12 +1967,44 @@ const formatPakistaniTime = (timeString: string): string => {
     return (a.name || '').localeCompare(b.name || '');
   });
 
+  // Kits show how many can be made from component stock
+  const paletteProducts = products.map(product =>
+    isKit(product) ? { ...product, stock: getAvailableStock(product, productLookup) } : product
+  );
+
   // Calculate total cart items and value (with proper decimal handling)
   const totalCartItems = cart.reduce((sum, item) => sum + item.quantity, 0);
-  const totalCartValue = cart.reduce((sum, item) => {
-    const finalPrice = item.adjustedPrice || item.price;
-    return sum + (finalPrice * item.quantity);
-  }, 0);
+  const cartTax = getCartTax(cart, cartDiscount);
+  const totalCartValue = cartTax.total;
+
+  // Mirror the cart on the customer display; change is shown once the cashier keys in cash received
+  const displayTotals = getCartTotals(cart, cartDiscount);
+  const displayCashDue = isSplitPayment
+    ? getTenderAmount(splitTenders, 'cash')
+    : paymentMethod === 'cash'
+    ? roundCurrency(totalCartValue - (creditNote ? Math.min(creditNote.amount, totalCartValue) : 0))
+    : 0;
+  const displayCashTender = displayCashDue > 0 && cashTendered.trim() ? getCashTender(cashTendered, displayCashDue) : null;
+  const { announceSale } = useCustomerDisplay({
+    customerName: selectedCustomer?.name,
+    lines: cart.map(item => ({
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      unitPrice: item.adjustedPrice || item.price,
+      listPrice: item.listPrice && item.listPrice > (item.adjustedPrice || item.price) ? item.listPrice : undefined,
+      discount: getLineDiscountAmount(item),
+      total: getLineNetTotal(item)
+    })),
+    itemCount: totalCartItems,
+    subtotal: displayTotals.subtotal,
+    discount: displayTotals.discountTotal,
+    tax: cartTax.tax,
+    taxLabel: cartTax.tax > 0 ? formatTaxLabel(cartTax) : undefined,
+    total: totalCartValue,
+    cashTendered: displayCashTender?.tendered,
+    changeDue: displayCashTender?.change
+  });
 
   // Count products with incomplete quantity information
   const incompleteQuantityCount = products.filter(p => p.incompleteQuantity).length;
@@ -955,11 +2026,20 @@ const formatPakistaniTime = (timeString: string): string => {
         {/* Products Section - NO SCROLLBARS, FIXED HEIGHT */}
         <div className="flex-1 overflow-hidden bg-background flex flex-col min-h-0">
           <div className="p-1  md:p-4 flex-shrink-0">
+            <HeldCartsBar
+              heldCarts={heldCarts}
+              currentItemCount={totalCartItems}
+              currentLabel={activeCartLabel || selectedCustomer?.name || "Current Cart"}
+              defaultParkLabel={activeCartLabel || getDefaultHeldCartLabel(selectedCustomer, heldCarts)}
+              onPark={parkCurrentCart}
+              onResume={resumeHeldCart}
+              onDiscard={discardHeldCart}
+            />
             <div className="flex items-center gap-2 mb-3">
               <h2 className="text-base md:text-lg font-semibold text-foreground flex items-center gap-2">
                 <Package className="h-4 w-4 text-blue-600" />
                 Products
-                <Badge variant="outline" className="ml-1 text-xs">{pinnedProducts.length} pinned</Badge>
+                <Badge variant="outline" className="ml-1 text-xs" title={POS_LAYOUT_SOURCE_LABELS[posLayoutSource]}>{pinnedProducts.length} pinned</Badge>
                 {incompleteQuantityCount > 0 && (
                   <Badge variant="outline" className="ml-1 text-xs text-orange-600 border-orange-300">
                     <AlertTriangle className="h-3 w-3 mr-1" />
@@ -970,6 +2050,70 @@ const formatPakistaniTime = (timeString: string): string => {
               <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded-full hidden md:inline">
                 {totalCartItems} items - PKR {totalCartValue.toLocaleString()}
               </span>
+              <Button
+                size="sm"
+                variant="outline"
+                className={`text-xs md:text-sm h-8 md:h-9 px-2 md:px-3 ${currentShift ? 'border-green-300 text-green-700' : 'border-orange-300 text-orange-700'}`}
+                onClick={() => setIsShiftDialogOpen(true)}
+              >
+                <Wallet className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+                {currentShift ? `Shift ${currentShift.shift_number || currentShift.id}` : 'Open Shift'}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs md:text-sm h-8 md:h-9 px-2 md:px-3"
+                onClick={() => openPalette('search')}
+                title="Command palette (Ctrl+K)"
+              >
+                <CommandIcon className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+                Ctrl K
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 md:h-9 px-2"
+                onClick={() => setIsShortcutsOpen(true)}
+                title="Keyboard shortcuts (F1)"
+              >
+                <Keyboard className="h-3 w-3 md:h-4 md:w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 md:h-9 px-2"
+                onClick={() => setIsPrinterDialogOpen(true)}
+                title="Receipt printer"
+              >
+                <Printer className="h-3 w-3 md:h-4 md:w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 md:h-9 px-2"
+                onClick={openCustomerDisplayWindow}
+                title="Open customer display"
+              >
+                <MonitorSmartphone className="h-3 w-3 md:h-4 md:w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 md:h-9 px-2"
+                onClick={() => setIsVoiceOpen(true)}
+                title="Voice order"
+              >
+                <Mic className="h-3 w-3 md:h-4 md:w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs md:text-sm h-8 md:h-9 px-2 md:px-3"
+                onClick={() => setIsReturnDialogOpen(true)}
+              >
+                <Undo2 className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+                Return / Exchange
+              </Button>
               {/* Quick Add Product Button */}
               <Button 
                 size="sm" 
@@ -1007,16 +2151,27 @@ const formatPakistaniTime = (timeString: string): string => {
                 </SelectTrigger>
                 <SelectContent className="bg-background border-input shadow-lg z-50">
                   <SelectItem value="all">All ({products.length})</SelectItem>
-                  {categories.map((category) => {
+                  {sortCategoriesByFavourite(categories, favouriteCategories).map((category) => {
                     const categoryCount = products.filter(p => p.category === category).length;
                     return (
                       <SelectItem key={category} value={category}>
-                        {category} ({categoryCount})
+                        {favouriteCategories.includes(category) ? '★ ' : ''}{category} ({categoryCount})
                       </SelectItem>
                     );
                   })}
                 </SelectContent>
               </Select>
+              {selectedCategory && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-9 md:h-10 px-2"
+                  onClick={() => toggleFavouriteCategory(selectedCategory)}
+                  title={favouriteCategories.includes(selectedCategory) ? 'Remove from favourite categories' : 'Add to favourite categories'}
+                >
+                  <Star className={`h-4 w-4 ${favouriteCategories.includes(selectedCategory) ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+                </Button>
+              )}
               
               {/* Layout Dropdown */}
               <Select value={productsLayout.toString()} onValueChange={(value) => handleLayoutChange(parseInt(value))}>
@@ -1035,6 +2190,23 @@ const formatPakistaniTime = (timeString: string): string => {
                 </SelectContent>
               </Select>
             </div>
+            {favouriteCategories.some(category => categories.includes(category)) && (
+              <div className="flex flex-wrap gap-1 -mt-2 mb-3">
+                {sortCategoriesByFavourite(categories, favouriteCategories)
+                  .filter(category => favouriteCategories.includes(category))
+                  .map(category => (
+                    <Button
+                      key={category}
+                      size="sm"
+                      variant={selectedCategory === category ? "default" : "outline"}
+                      className="h-7 px-2 text-xs"
+                      onClick={() => setSelectedCategory(selectedCategory === category ? null : category)}
+                    >
+                      {category}
+                    </Button>
+                  ))}
+              </div>
+            )}
 
           </div>
 
@@ -1055,6 +2227,7 @@ const formatPakistaniTime = (timeString: string): string => {
                     onAddCustomQuantity={addCustomQuantityToCart}
                     viewMode="slim"
                     index={index + 1}
+                    productLookup={productLookup}
                   />
                 ))}
               </div>
@@ -1078,6 +2251,7 @@ const formatPakistaniTime = (timeString: string): string => {
                     onAddToCart={addToCartWithCustomQuantity}
                     onAddCustomQuantity={addCustomQuantityToCart}
                     viewMode="card"
+                    productLookup={productLookup}
                   />
                 ))}
               </div>
@@ -1104,11 +2278,28 @@ const formatPakistaniTime = (timeString: string): string => {
           onSetOrderStatus={setOrderStatus}
           onSetPaymentMethod={setPaymentMethod}
           onUpdateCartQuantity={updateCartQuantity}
+          onUpdateCartUnit={updateCartUnit}
           onRemoveFromCart={removeFromCart}
-          onCheckout={handleCheckout}
+          onCheckout={() => handleCheckout()}
           onUpdateItemPrice={updateItemPrice}
           onToggleCollapse={() => setIsCartCollapsed(!isCartCollapsed)}
           onOutsourceItem={handleOutsourceItem}
+          isSplitPayment={isSplitPayment}
+          tenders={splitTenders}
+          onSetIsSplitPayment={setIsSplitPayment}
+          onSetTenders={setSplitTenders}
+          cashTendered={cashTendered}
+          onSetCashTendered={setCashTendered}
+          cartDiscount={cartDiscount}
+          tax={cartTax}
+          onUpdateItemDiscount={updateItemDiscount}
+          onSetCartDiscount={updateCartDiscount}
+          creditNote={creditNote}
+          onSetCreditNote={setCreditNote}
+          creditStanding={creditStanding}
+          lastSoldPrices={lastSoldPrices}
+          lastOrder={lastOrder}
+          onReorderLastPurchase={reorderLastPurchase}
         />
       </div>
 
@@ -1176,7 +2367,7 @@ const formatPakistaniTime = (timeString: string): string => {
                           </Button>
                         </div>
                         <span className="font-bold text-green-600 text-sm">
-                          PKR {(item.price * item.quantity).toFixed(2)}
+                          PKR {getLineNetTotal(item).toFixed(2)}
                         </span>
                       </div>
                     </Card>
@@ -1203,7 +2394,7 @@ const formatPakistaniTime = (timeString: string): string => {
                     setIsCartOpen(false);
                   }}
                 >
-                  {isProcessingSale ? 'Processing Sale...' : `Complete Sale (${paymentMethod})`}
+                  {isProcessingSale ? 'Processing Sale...' : `Complete Sale (${isSplitPayment ? 'split' : paymentMethod})`}
                 </Button>
               </div>
             )}
@@ -1228,12 +2419,125 @@ const formatPakistaniTime = (timeString: string): string => {
         }}
       />
 
+      <ShiftDialog
+        open={isShiftDialogOpen}
+        onOpenChange={setIsShiftDialogOpen}
+        shift={currentShift}
+        terminal={terminal}
+        onShiftChange={() => refetchShift()}
+      />
+
+      <ReceiptPrinterDialog
+        open={isPrinterDialogOpen}
+        onOpenChange={setIsPrinterDialogOpen}
+      />
+
+      <PosCommandPalette
+        open={isPaletteOpen}
+        mode={paletteMode}
+        onOpenChange={setIsPaletteOpen}
+        products={paletteProducts}
+        customers={customers}
+        cart={cart}
+        actions={paletteActions}
+        onAddProduct={addFromPalette}
+        onSelectCustomer={setSelectedCustomer}
+        onSetPrice={updateItemPrice}
+      />
+
+      <VoiceCartDialog
+        open={isVoiceOpen}
+        onOpenChange={setIsVoiceOpen}
+        products={products}
+        onConfirm={addVoiceLines}
+      />
+
+      <ShortcutsCheatSheet
+        open={isShortcutsOpen}
+        onOpenChange={setIsShortcutsOpen}
+      />
+
+      <ManagerPinDialog
+        open={!!pendingCreditCheck}
+        title="Credit Limit Exceeded"
+        description={`${selectedCustomer?.name || 'This customer'} would go over their credit limit. A manager can approve this sale.`}
+        onApprove={(reason) => {
+          const check = pendingCreditCheck;
+          setPendingCreditCheck(null);
+          if (check) handleCheckout(toCreditLimitOverride(check, reason));
+        }}
+        onCancel={() => setPendingCreditCheck(null)}
+      >
+        {pendingCreditCheck && (
+          <div className="space-y-1 rounded-md bg-muted p-3 text-sm">
+            <div className="flex justify-between"><span>Credit limit</span><span>PKR {pendingCreditCheck.limit.toLocaleString()}</span></div>
+            <div className="flex justify-between"><span>Current balance</span><span>PKR {pendingCreditCheck.balance.toLocaleString()}</span></div>
+            <div className="flex justify-between"><span>On credit this sale</span><span>PKR {pendingCreditCheck.creditAmount.toLocaleString()}</span></div>
+            <div className="flex justify-between font-semibold text-red-600"><span>Over limit by</span><span>PKR {pendingCreditCheck.exceededBy.toLocaleString()}</span></div>
+          </div>
+        )}
+      </ManagerPinDialog>
+
+      <ManagerPinDialog
+        open={!!pendingPriceOverride}
+        title={pendingPriceOverride?.title || "Price Override"}
+        description={pendingPriceOverride?.description}
+        requirePin={pendingPriceOverride?.requiresApproval ?? true}
+        onApprove={(reason) => {
+          const pending = pendingPriceOverride;
+          setPendingPriceOverride(null);
+          pending?.apply(reason);
+        }}
+        onCancel={() => setPendingPriceOverride(null)}
+      >
+        {pendingPriceOverride?.checks.map(check => (
+          <div key={check.productId} className="space-y-1 rounded-md bg-muted p-3 text-sm">
+            {pendingPriceOverride.checks.length > 1 && <div className="font-medium">{check.productName}</div>}
+            {check.costPrice > 0 && (
+              <>
+                <div className="flex justify-between"><span>Cost price</span><span>PKR {check.costPrice.toLocaleString()}</span></div>
+                <div className="flex justify-between"><span>Lowest allowed</span><span>PKR {check.minimumPrice.toLocaleString()}</span></div>
+              </>
+            )}
+            <div className="flex justify-between"><span>Current price</span><span>PKR {check.oldPrice.toLocaleString()}</span></div>
+            <div className={`flex justify-between font-semibold ${check.requiresApproval ? 'text-red-600' : ''}`}>
+              <span>New price</span>
+              <span>PKR {check.newPrice.toLocaleString()}{check.costPrice > 0 && ` (${check.marginPercent}% margin)`}</span>
+            </div>
+          </div>
+        ))}
+      </ManagerPinDialog>
+
+      <LayawayDialog
+        open={isLayawayDialogOpen}
+        total={getCartTax(cart, cartDiscount).total}
+        customerName={selectedCustomer?.name || ''}
+        onOpenChange={setIsLayawayDialogOpen}
+        onConfirm={(plan) => handleCheckout(undefined, plan)}
+      />
+
+      <ReturnExchangeDialog
+        open={isReturnDialogOpen}
+        onOpenChange={setIsReturnDialogOpen}
+        products={products}
+        shift={currentShift}
+        onCompleted={() => {
+          fetchProducts();
+          fetchTodaysOrders();
+          refetchShift();
+        }}
+      />
+
       {/* Quick Product Add Modal */}
       <QuickProductAddModal
         open={isQuickProductAddOpen}
-        onOpenChange={setIsQuickProductAddOpen}
+        onOpenChange={(open) => {
+          setIsQuickProductAddOpen(open);
+          if (!open) setUnknownScanCode("");
+        }}
         onProductAdded={handleProductAdded}
         categories={categories}
+        initialBarcode={unknownScanCode}
       />
     </div>
   );
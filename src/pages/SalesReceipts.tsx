@@ -10,6 +10,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Search, Eye, FileText, CreditCard, Receipt, DollarSign, Download, Printer } from "lucide-react";
 import { salesApi } from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
+import { getReceiptQrData } from "@/utils/receiptSignature";
 import QRCode from 'qrcode';
 import jsPDF from 'jspdf';
 
@@ -105,10 +106,13 @@ const SalesReceipts = () => {
     if (!selectedReceipt) return;
 
     try {
-      // Generate QR code for the receipt
-      const qrData = `USMAN-HARDWARE-${selectedReceipt.orderNumber}-${selectedReceipt.total}`;
+      // Signed QR linking to the verification page
+      const qrData = await getReceiptQrData(
+        { id: selectedReceipt.id, orderNumber: selectedReceipt.orderNumber, total: selectedReceipt.total, date: selectedReceipt.date }
+      );
       const qrCodeDataURL = await QRCode.toDataURL(qrData, {
-        width: 100,
+        width: 120,
+        errorCorrectionLevel: 'M',
         margin: 1,
         color: {
           dark: '#000000',
@@ -16,7 +16,12 @@ import { useState, useEffect } from "react";
 import { apiConfig } from "@/utils/apiConfig";
 import { useFont, fontOptions } from "@/components/FontProvider";
 import { z } from "zod";
-import { verifyPin, changePin } from "@/utils/pin";
+import { verifyPin, changePin, hasManagerPin, setManagerPin, verifyManagerPin } from "@/utils/pin";
+import { TaxRulesCard } from "@/components/settings/TaxRulesCard";
+import { PriceListsCard } from "@/components/settings/PriceListsCard";
+import { ReceiptVerificationCard } from "@/components/settings/ReceiptVerificationCard";
+import { PriceGuardCard } from "@/components/settings/PriceGuardCard";
+import { CustomerDisplayCard } from "@/components/settings/CustomerDisplayCard";
 
 export default function Settings() {
   const { toast } = useToast();
@@ -31,6 +36,41 @@ export default function Settings() {
   const [newPin, setNewPin] = useState("");
   const [confirmPin, setConfirmPin] = useState("");
   const [changing, setChanging] = useState(false);
+  const [managerAdminPassword, setManagerAdminPassword] = useState("");
+  const [currentManagerPin, setCurrentManagerPin] = useState("");
+  const [newManagerPin, setNewManagerPin] = useState("");
+  const [confirmManagerPin, setConfirmManagerPin] = useState("");
+  const [managerPinSet, setManagerPinSet] = useState(hasManagerPin);
+
+  // Manager PIN for till overrides; kept apart from the unlock pincode every cashier uses
+  const handleChangeManagerPin = async () => {
+    if (managerAdminPassword !== ADMIN_PASSWORD) {
+      toast({ title: "Invalid credentials", description: "Admin password is incorrect.", variant: "destructive" });
+      return;
+    }
+    if (!/^\d{4,7}$/.test(newManagerPin)) {
+      toast({ title: "Validation error", description: "Manager PIN must be 4 to 7 digits.", variant: "destructive" });
+      return;
+    }
+    if (newManagerPin !== confirmManagerPin) {
+      toast({ title: "Mismatch", description: "New manager PIN and confirmation do not match.", variant: "destructive" });
+      return;
+    }
+    if (managerPinSet && !(await verifyManagerPin(currentManagerPin))) {
+      toast({ title: "Invalid current PIN", description: "Please enter the correct current manager PIN.", variant: "destructive" });
+      return;
+    }
+    if (!(await setManagerPin(newManagerPin))) {
+      toast({ title: "Not allowed", description: "The manager PIN cannot be the same as the unlock pincode.", variant: "destructive" });
+      return;
+    }
+    setManagerAdminPassword("");
+    setCurrentManagerPin("");
+    setNewManagerPin("");
+    setConfirmManagerPin("");
+    setManagerPinSet(true);
+    toast({ title: "Manager PIN updated", description: "Overrides on this counter now need the new manager PIN." });
+  };
 
   const handleChangePin = async () => {
     try {
@@ -101,6 +141,13 @@ export default function Settings() {
             address: "",
             currency: "PKR",
             taxRate: 0,
+            pricesIncludeTax: false,
+            purchasePricesIncludeTax: false,
+            categoryTaxRates: {},
+            productTaxRates: {},
+            priceLists: {},
+            minimumMarginPercent: 0,
+            displayPromotions: [],
             lowStockThreshold: 10,
             openTime: "09:00",
             closeTime: "21:00",
@@ -299,7 +346,7 @@ export default function Settings() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="taxRate">Tax Rate (%)</Label>
+                  <Label htmlFor="taxRate">Default Tax Rate (%)</Label>
                   <Input 
                     id="taxRate" 
                     type="number" 
@@ -351,6 +398,28 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          <TaxRulesCard
+            store={formData.store}
+            onChange={(field, value) => updateField('store', field, value)}
+          />
+
+          <PriceListsCard
+            store={formData.store}
+            onChange={(field, value) => updateField('store', field, value)}
+          />
+
+          <PriceGuardCard
+            store={formData.store}
+            onChange={(field, value) => updateField('store', field, value)}
+          />
+
+          <ReceiptVerificationCard />
+
+          <CustomerDisplayCard
+            store={formData.store}
+            onChange={(field, value) => updateField('store', field, value)}
+          />
         </TabsContent>
 
         <TabsContent value="notifications" className="space-y-6">
@@ -508,6 +577,47 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Manager PIN */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5" />
+                Manager PIN
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Approves credit limit and below-cost price overrides at the till. It must differ from the unlock pincode and is set on each counter.
+                {!managerPinSet && ' No manager PIN is set on this counter yet, so overrides cannot be approved.'}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="managerAdminPassword">Admin Password</Label>
+                  <Input id="managerAdminPassword" type="password" value={managerAdminPassword} onChange={(e) => setManagerAdminPassword(e.target.value)} />
+                </div>
+                {managerPinSet && (
+                  <div className="space-y-2">
+                    <Label htmlFor="currentManagerPin">Current Manager PIN</Label>
+                    <Input id="currentManagerPin" type="password" inputMode="numeric" maxLength={7} value={currentManagerPin} onChange={(e) => setCurrentManagerPin(e.target.value.replace(/\D/g, '').slice(0,7))} />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="newManagerPin">New Manager PIN</Label>
+                  <Input id="newManagerPin" type="password" inputMode="numeric" maxLength={7} value={newManagerPin} onChange={(e) => setNewManagerPin(e.target.value.replace(/\D/g, '').slice(0,7))} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmManagerPin">Confirm Manager PIN</Label>
+                  <Input id="confirmManagerPin" type="password" inputMode="numeric" maxLength={7} value={confirmManagerPin} onChange={(e) => setConfirmManagerPin(e.target.value.replace(/\D/g, '').slice(0,7))} />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleChangeManagerPin}>
+                  {managerPinSet ? 'Change Manager PIN' : 'Set Manager PIN'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="api" className="space-y-6">
@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldCheck, ShieldAlert, ShieldQuestion, Search, Loader2 } from "lucide-react";
+import { salesApi } from "@/services/api";
+import { ReceiptVerification, verifyReceiptToken } from "@/utils/receiptSignature";
+
+interface VerifiedSale {
+  id: number;
+  orderNumber: string;
+  customerName: string | null;
+  date: string;
+  time?: string;
+  total: number;
+  status: string;
+  paymentMethod: string;
+  items: Array<{ productName: string; quantity: number; unitPrice: number; total: number }>;
+}
+
+const STATUS_MESSAGES: Record<ReceiptVerification['status'], { title: string; description: string }> = {
+  valid: { title: "Genuine receipt", description: "The signature matches this store's key." },
+  invalid: { title: "Forged or altered receipt", description: "The signature does not match. Do not accept this receipt." },
+  unsigned: { title: "Unsigned receipt", description: "Printed before a signing key was set up, so it cannot be proven genuine." },
+  legacy: { title: "Old-style receipt", description: "Older QR codes are not signed. Check the details against the order below." },
+  malformed: { title: "Not a receipt code", description: "The scanned text is not a receipt QR from this store." },
+  no_key: { title: "No signing key", description: "Set up a receipt signing key in Settings to verify receipts." },
+  unavailable: { title: "Could not check signature", description: "The server could not be reached. Try again, or check the details against the order below." },
+};
+
+const VerifyReceipt = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialToken] = useState(() => searchParams.get('r') || "");
+  const [input, setInput] = useState(initialToken);
+  const [result, setResult] = useState<ReceiptVerification | null>(null);
+  const [sale, setSale] = useState<VerifiedSale | null>(null);
+  const [lookupError, setLookupError] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+
+  const verify = useCallback(async (value: string) => {
+    if (!value.trim()) return;
+    setIsChecking(true);
+    setSale(null);
+    setLookupError("");
+    try {
+      const verification = await verifyReceiptToken(value);
+      setResult(verification);
+
+      const saleId = Number(verification.claim?.id);
+      if (verification.status !== 'malformed' && saleId > 0) {
+        const response = await salesApi.getById(saleId);
+        if (response.success && response.data) {
+          setSale(response.data);
+        } else {
+          setLookupError("No sale found for this receipt");
+        }
+      } else if (verification.status === 'legacy') {
+        setLookupError("Old-style receipts do not carry the sale id; search the order number on the Orders page");
+      }
+    } catch (error) {
+      console.error('Receipt verification failed:', error);
+      setLookupError("Could not load the sale for this receipt");
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  // Verify links opened from a phone camera
+  useEffect(() => {
+    if (initialToken) verify(initialToken);
+  }, [initialToken, verify]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchParams(input.trim() ? { r: input.trim() } : {});
+    verify(input);
+  };
+
+  const claim = result?.claim;
+  const totalMatches = sale && claim ? Math.abs(Number(sale.total) - claim.total) < 0.01 : true;
+  const numberMatches = sale && claim ? sale.orderNumber === claim.orderNumber : true;
+  const isGenuine = result?.status === 'valid' && totalMatches && numberMatches;
+  const StatusIcon = isGenuine ? ShieldCheck : result?.status === 'invalid' || !totalMatches || !numberMatches ? ShieldAlert : ShieldQuestion;
+
+  return (
+    <div className="flex-1 p-6 space-y-4 min-h-[calc(100vh-65px)] bg-background">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Verify Receipt</h1>
+        <p className="text-muted-foreground">Scan or paste the QR code from a receipt to check it against the original sale</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              autoFocus
+              placeholder="Scan the receipt QR or paste its contents"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              className="flex-1"
+            />
+            <Button type="submit" disabled={isChecking || !input.trim()}>
+              {isChecking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+              Verify
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Alert variant={isGenuine ? "default" : "destructive"} className={isGenuine ? "border-green-300 bg-green-50 text-green-800" : ""}>
+          <StatusIcon className="h-4 w-4" />
+          <AlertTitle>
+            {!totalMatches || !numberMatches ? "Receipt does not match the sale" : STATUS_MESSAGES[result.status].title}
+          </AlertTitle>
+          <AlertDescription>
+            {!totalMatches || !numberMatches
+              ? "The order number or total on the receipt differs from the recorded sale."
+              : STATUS_MESSAGES[result.status].description}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {claim && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Receipt Details</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Order number</p>
+              <p className="font-medium">{claim.orderNumber}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Total</p>
+              <p className="font-medium">PKR {claim.total.toLocaleString()}</p>
+            </div>
+            {claim.date && (
+              <div>
+                <p className="text-muted-foreground">Date</p>
+                <p className="font-medium">{new Date(claim.date).toLocaleDateString('en-GB')}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {lookupError && <p className="text-sm text-muted-foreground">{lookupError}</p>}
+
+      {sale && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center justify-between">
+              Recorded Sale
+              <Badge variant="secondary">{sale.status}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Order number</p>
+                <p className="font-medium">{sale.orderNumber}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Customer</p>
+                <p className="font-medium">{sale.customerName || 'Walk-in Customer'}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Date</p>
+                <p className="font-medium">{new Date(sale.date).toLocaleDateString('en-GB')} {sale.time || ''}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Payment</p>
+                <p className="font-medium capitalize">{sale.paymentMethod}</p>
+              </div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(sale.items || []).map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{item.productName}</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">{Number(item.unitPrice).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{Number(item.total).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex justify-end font-bold">
+              Total: PKR {Number(sale.total).toLocaleString()}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default VerifyReceipt;
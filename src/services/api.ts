@@ -380,6 +380,25 @@ export const salesApi = {
     }),
 };
 
+// Every sale matching the filters, following the pages instead of trusting one large limit
+export const fetchAllSales = async <T = Record<string, unknown>>(params: {
+  dateFrom?: string;
+  dateTo?: string;
+  customerId?: number;
+  status?: string;
+} = {}): Promise<T[]> => {
+  const limit = 200;
+  const sales: T[] = [];
+  for (let page = 1; ; page++) {
+    const response = await salesApi.getAll({ ...params, page, limit });
+    const data = response.data?.sales || response.data || [];
+    const batch: T[] = Array.isArray(data) ? data : [];
+    sales.push(...batch);
+    const totalPages = Number(response.data?.pagination?.totalPages) || 0;
+    if (batch.length < limit || (totalPages > 0 && page >= totalPages)) return sales;
+  }
+};
+
 // Inventory API
 export const inventoryApi = {
   getAll: (params?: {
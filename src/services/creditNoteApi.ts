@@ -0,0 +1,106 @@
+import { apiConfig } from '@/utils/apiConfig';
+
+export type CreditNoteStatus = 'open' | 'redeemed' | 'void';
+export type CreditNoteSource = 'return' | 'manual';
+
+export interface CreditNoteRedemption {
+  id?: number;
+  amount: number;
+  sale_id?: number;
+  order_number?: string;
+  redeemed_at: string;
+}
+
+export interface CreditNote {
+  id: number;
+  note_number: string;
+  code: string; // printed redemption code, checked at the till
+  customer_id?: number | null;
+  customer_name?: string | null;
+  amount: number;
+  balance: number; // value still available to redeem
+  status: CreditNoteStatus;
+  source: CreditNoteSource;
+  reference?: string; // return slip or reason it was issued
+  order_number?: string; // original sale for notes issued on a return
+  issued_by?: string;
+  issued_at: string;
+  notes?: string;
+  redemptions: CreditNoteRedemption[];
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const apiRequest = async <T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> => {
+  const url = `${apiConfig.getBaseUrl()}${endpoint}`;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Credit note API request failed:', error);
+    throw error;
+  }
+};
+
+export const creditNoteApi = {
+  getAll: (params?: {
+    status?: CreditNoteStatus;
+    customer_id?: number;
+    date_from?: string;
+    date_to?: string;
+  }) => {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) queryParams.append(key, value.toString());
+      });
+    }
+    const query = queryParams.toString();
+    return apiRequest<ApiResponse<CreditNote[]>>(`/credit-notes${query ? `?${query}` : ''}`);
+  },
+
+  getByCode: (code: string) =>
+    apiRequest<ApiResponse<CreditNote | null>>(`/credit-notes/lookup?code=${encodeURIComponent(code)}`),
+
+  issue: (note: {
+    code: string;
+    customer_id?: number | null;
+    customer_name?: string | null;
+    amount: number;
+    source: CreditNoteSource;
+    reference?: string;
+    order_number?: string;
+    issued_by?: string;
+    notes?: string;
+  }) =>
+    apiRequest<ApiResponse<CreditNote>>('/credit-notes', {
+      method: 'POST',
+      body: JSON.stringify(note),
+    }),
+
+  redeem: (id: number, redemption: Omit<CreditNoteRedemption, 'id' | 'redeemed_at'>) =>
+    apiRequest<ApiResponse<CreditNote>>(`/credit-notes/${id}/redeem`, {
+      method: 'POST',
+      body: JSON.stringify(redemption),
+    }),
+};
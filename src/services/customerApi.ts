@@ -1,4 +1,5 @@
 import { apiConfig } from '@/utils/apiConfig';
+import type { CustomerType } from '@/data/storeData';
 
 // API response types
 export interface ApiResponse<T> {
@@ -33,6 +34,9 @@ export interface Customer {
   creditLimit: number;
   currentBalance: number;
   totalPurchases: number;
+  taxExempt?: boolean;
+  priceType?: CustomerType; // selects the price list this customer buys on
+  priceOverrides?: Record<string, number>; // productId -> agreed price
   lastPurchase: string | null;
   createdAt: string;
   updatedAt?: string;
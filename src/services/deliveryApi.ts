@@ -0,0 +1,134 @@
+import { apiConfig } from '@/utils/apiConfig';
+
+export type DeliverySource = 'sale' | 'outsourced';
+
+export type DeliveryStatus = 'scheduled' | 'out_for_delivery' | 'partially_delivered' | 'delivered' | 'cancelled';
+
+export type DeliverySlot = 'morning' | 'afternoon' | 'evening';
+
+export interface DeliveryItem {
+  product_id: number;
+  product_name: string;
+  quantity: number; // loaded for this delivery
+  delivered_quantity: number; // signed for by the customer
+  unit?: string;
+}
+
+export interface Delivery {
+  id: number;
+  challan_number: string;
+  sale_id: number;
+  order_number: string;
+  source: DeliverySource;
+  customer_id?: number | null;
+  customer_name: string;
+  address: string;
+  contact_name?: string;
+  contact_phone?: string;
+  vehicle?: string;
+  driver?: string;
+  scheduled_date: string;
+  slot: DeliverySlot;
+  status: DeliveryStatus;
+  items: DeliveryItem[];
+  notes?: string;
+  received_by?: string | null;
+  delivered_at?: string | null;
+  created_at: string;
+}
+
+export type DeliveryDetails = Pick<
+  Delivery,
+  'address' | 'contact_name' | 'contact_phone' | 'vehicle' | 'driver' | 'scheduled_date' | 'slot' | 'notes'
+>;
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const apiRequest = async <T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> => {
+  const url = `${apiConfig.getBaseUrl()}${endpoint}`;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Delivery API request failed:', error);
+    throw error;
+  }
+};
+
+export const deliveryApi = {
+  getAll: (params?: {
+    date_from?: string;
+    date_to?: string;
+    status?: DeliveryStatus;
+    source?: DeliverySource;
+  }) => {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) queryParams.append(key, value.toString());
+      });
+    }
+    const query = queryParams.toString();
+    return apiRequest<ApiResponse<Delivery[]>>(`/deliveries${query ? `?${query}` : ''}`);
+  },
+
+  getBySale: (saleId: number) =>
+    apiRequest<ApiResponse<Delivery[]>>(`/deliveries/by-sale/${saleId}`),
+
+  // The backend numbers the challan; one order can go out over several deliveries
+  create: (delivery: DeliveryDetails & {
+    sale_id: number;
+    order_number: string;
+    source: DeliverySource;
+    customer_id?: number | null;
+    customer_name: string;
+    items: Omit<DeliveryItem, 'delivered_quantity'>[];
+  }) =>
+    apiRequest<ApiResponse<Delivery>>('/deliveries', {
+      method: 'POST',
+      body: JSON.stringify(delivery),
+    }),
+
+  update: (id: number, details: Partial<DeliveryDetails>) =>
+    apiRequest<ApiResponse<Delivery>>(`/deliveries/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(details),
+    }),
+
+  updateStatus: (id: number, status: DeliveryStatus) =>
+    apiRequest<ApiResponse<Delivery>>(`/deliveries/${id}/status`, {
+      method: 'PUT',
+      body: JSON.stringify({ status }),
+    }),
+
+  // Records what the customer signed for; short deliveries come back as partially_delivered
+  confirm: (id: number, confirmation: {
+    items: Array<{ product_id: number; delivered_quantity: number }>;
+    received_by: string;
+    status: DeliveryStatus;
+  }) =>
+    apiRequest<ApiResponse<Delivery>>(`/deliveries/${id}/confirm`, {
+      method: 'POST',
+      body: JSON.stringify(confirmation),
+    }),
+};
@@ -259,6 +259,17 @@ export interface TaxSummary {
     total_expenses: string;
     total_expense_amount: string;
   };
+  // Input tax recorded on purchase orders
+  purchase_tax_summary?: {
+    total_purchases: string;
+    total_tax_paid: string;
+  };
+  // Sales tax grouped by the rate captured in each sale's taxBreakdown
+  tax_by_rate?: Array<{
+    rate: string;
+    taxable_amount: string;
+    total_tax: string;
+  }>;
   tax_breakdown: Array<{
     tax_status: string;
     transaction_count: string;
@@ -533,6 +544,7 @@ export const financeApi = {
   getTaxSummary: (params?: {
     year?: number;
     quarter?: number;
+    month?: number;
   }) => {
     const queryParams = new URLSearchParams();
     if (params) {
@@ -300,4 +300,46 @@ Roman Urdu text to convert:
       throw error;
     }
   }
+
+  // Spoken counter order to cart requests; item names are matched to the catalogue on the client
+  static async parseCartOrder(
+    transcript: string,
+    productNames: string[]
+  ): Promise<Array<{ quantity: number; unit?: string; item: string; phrase?: string }>> {
+    const systemPrompt = `You take orders at a hardware store counter in Pakistan. The customer speaks Urdu, Roman Urdu or English, often mixed.
+
+Split the order into items. For each item return the quantity as a number, the unit if one was said (one of: piece, pair, set, pack, box, dozen, meter, feet, kg, gram, liter, ml, gallon, bottle, roll, bundle, coil, sheet, tube) and the item in English words close to these catalogue names.
+Sizes such as "3 inch" belong to the item, not the quantity. When no quantity is said, use 1.
+
+Catalogue names (sample):
+${productNames.slice(0, 200).join('\n')}
+
+Return ONLY JSON:
+{"items": [{"quantity": 2, "unit": "dozen", "item": "3 inch hinge", "phrase": "do dozen 3 inch hinge"}]}
+
+Order: "${transcript}"`;
+
+    const request: GeminiRequest = {
+      contents: [
+        {
+          role: 'user',
+          parts: [{ text: systemPrompt }]
+        }
+      ],
+      generationConfig: {
+        temperature: 0,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 1024,
+      }
+    };
+
+    const response = await this.makeRequest(request);
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON found in response');
+    }
+    const parsed = JSON.parse(jsonMatch[0]);
+    return Array.isArray(parsed.items) ? parsed.items : [];
+  }
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { apiConfig } from '@/utils/apiConfig';
+import type { TenderMethod } from '@/utils/paymentTenders';
+
+export type LayawayStatus = 'active' | 'paid' | 'delivered' | 'cancelled';
+
+export interface LayawayInstallment {
+  due_date: string;
+  amount: number;
+}
+
+export interface LayawayPayment {
+  id?: number;
+  receipt_number: string;
+  amount: number;
+  method: TenderMethod;
+  is_deposit?: boolean;
+  shift_id?: number;
+  received_by?: string;
+  paid_at: string;
+}
+
+export interface Layaway {
+  id: number;
+  sale_id: number;
+  order_number: string;
+  customer_id: number;
+  customer_name: string;
+  total: number;
+  deposit: number;
+  paid: number;
+  balance: number; // still owed before pickup
+  status: LayawayStatus;
+  schedule: LayawayInstallment[];
+  payments: LayawayPayment[];
+  pickup_date?: string | null;
+  delivered_at?: string | null;
+  notes?: string;
+  created_at: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const apiRequest = async <T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> => {
+  const url = `${apiConfig.getBaseUrl()}${endpoint}`;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Layaway API request failed:', error);
+    throw error;
+  }
+};
+
+export const layawayApi = {
+  getAll: (params?: {
+    status?: LayawayStatus;
+    customer_id?: number;
+    due_before?: string;
+  }) => {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) queryParams.append(key, value.toString());
+      });
+    }
+    const query = queryParams.toString();
+    return apiRequest<ApiResponse<Layaway[]>>(`/layaways${query ? `?${query}` : ''}`);
+  },
+
+  getBySale: (saleId: number) =>
+    apiRequest<ApiResponse<Layaway | null>>(`/layaways/by-sale/${saleId}`),
+
+  // Opens the layaway with its deposit recorded as the first payment. The layaway sale already took
+  // the items out of stock like any sale, which is what keeps them put aside for the customer
+  create: (layaway: {
+    sale_id: number;
+    order_number: string;
+    customer_id: number;
+    customer_name: string;
+    total: number;
+    schedule: LayawayInstallment[];
+    pickup_date?: string | null;
+    notes?: string;
+    deposit: Omit<LayawayPayment, 'id' | 'paid_at' | 'is_deposit'>;
+  }) =>
+    apiRequest<ApiResponse<Layaway>>('/layaways', {
+      method: 'POST',
+      body: JSON.stringify(layaway),
+    }),
+
+  recordPayment: (id: number, payment: Omit<LayawayPayment, 'id' | 'paid_at' | 'is_deposit'>) =>
+    apiRequest<ApiResponse<Layaway>>(`/layaways/${id}/payments`, {
+      method: 'POST',
+      body: JSON.stringify(payment),
+    }),
+
+  // Final pickup: completes the sale; its stock already left when the layaway sale was recorded
+  markDelivered: (id: number) =>
+    apiRequest<ApiResponse<Layaway>>(`/layaways/${id}/deliver`, {
+      method: 'POST',
+    }),
+};
@@ -0,0 +1,77 @@
+import { apiConfig } from '@/utils/apiConfig';
+
+export interface PriceOverride {
+  id: number;
+  product_id: number;
+  product_name: string;
+  unit?: string;
+  cost_price: number;
+  old_price: number;
+  new_price: number;
+  minimum_price: number;
+  margin_percent: number;
+  below_cost: boolean;
+  approved: boolean; // manager PIN entered for a price under the guard
+  user: string;
+  terminal_id?: string;
+  shift_id?: number;
+  reason?: string | null;
+  created_at: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const apiRequest = async <T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> => {
+  const url = `${apiConfig.getBaseUrl()}${endpoint}`;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Price override API request failed:', error);
+    throw error;
+  }
+};
+
+export const priceOverrideApi = {
+  getAll: (params?: {
+    date_from?: string;
+    date_to?: string;
+    user?: string;
+    approved?: boolean;
+  }) => {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) queryParams.append(key, value.toString());
+      });
+    }
+    const query = queryParams.toString();
+    return apiRequest<ApiResponse<PriceOverride[]>>(`/price-overrides${query ? `?${query}` : ''}`);
+  },
+
+  log: (override: Omit<PriceOverride, 'id' | 'created_at'>) =>
+    apiRequest<ApiResponse<PriceOverride>>('/price-overrides', {
+      method: 'POST',
+      body: JSON.stringify(override),
+    }),
+};
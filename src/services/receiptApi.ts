@@ -0,0 +1,65 @@
+import { apiConfig } from '@/utils/apiConfig';
+
+// Receipt signing lives on the server: the HMAC key never leaves it, the browser only asks for
+// tokens and for checks
+export type ServerVerificationStatus = 'valid' | 'invalid' | 'no_key';
+
+export interface SigningKeyStatus {
+  configured: boolean;
+  rotated_at?: string | null;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const apiRequest = async <T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> => {
+  const url = `${apiConfig.getBaseUrl()}${endpoint}`;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Receipt API request failed:', error);
+    throw error;
+  }
+};
+
+export const receiptApi = {
+  // Signs the sale as recorded, so a token can only ever vouch for what the server holds
+  sign: (saleId: number) =>
+    apiRequest<ApiResponse<{ token: string }>>('/receipts/sign', {
+      method: 'POST',
+      body: JSON.stringify({ sale_id: saleId }),
+    }),
+
+  verify: (token: string) =>
+    apiRequest<ApiResponse<{ status: ServerVerificationStatus }>>('/receipts/verify', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    }),
+
+  getKeyStatus: () => apiRequest<ApiResponse<SigningKeyStatus>>('/receipts/signing-key'),
+
+  rotateKey: () =>
+    apiRequest<ApiResponse<SigningKeyStatus>>('/receipts/signing-key/rotate', {
+      method: 'POST',
+    }),
+};
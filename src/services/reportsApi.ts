@@ -93,6 +93,15 @@ export interface MonthlySalesOverview {
   permanent_customer_revenue: string;
   semi_permanent_customer_revenue: string;
   temporary_customer_revenue: string;
+  line_discount_total?: string;
+  cart_discount_total?: string;
+  discount_by_reason?: MonthlyDiscountByReason[];
+}
+
+export interface MonthlyDiscountByReason {
+  reason: string;
+  discount_count: number;
+  total_discount: string;
 }
 
 // Legacy interfaces for backward compatibility
@@ -1,4 +1,7 @@
 import { apiConfig } from '@/utils/apiConfig';
+import type { PriceLists } from '@/utils/priceLists';
+import type { DisplayPromotion } from '@/utils/customerDisplay';
+import type { PosLayout, StandardPosLayout } from '@/utils/posLayout';
 
 export interface SettingsData {
   profile: {
@@ -12,6 +15,15 @@ export interface SettingsData {
     address: string;
     currency: string;
     taxRate: number;
+    pricesIncludeTax?: boolean;
+    purchasePricesIncludeTax?: boolean; // supplier costs, separate from the selling price basis
+    categoryTaxRates?: Record<string, number>;
+    productTaxRates?: Record<string, number>;
+    priceLists?: PriceLists;
+    minimumMarginPercent?: number;
+    displayPromotions?: DisplayPromotion[];
+    posLayouts?: Record<string, PosLayout>; // keyed by "user:<cashier>" or "terminal:<id>"
+    standardPosLayout?: StandardPosLayout;
     lowStockThreshold: number;
     openTime: string;
     closeTime: string;
@@ -66,11 +78,14 @@ export const settingsApi = {
   getSettings: async () => {
     const response = await apiRequest<{ success: boolean; data: any }>('/settings');
     // Transform the API response to match our interface
+    const store = { ...(response.data.groups || response.data.store) };
+    // Receipt signing keys belong to the server; drop any left in older settings so a save removes them
+    delete store.receiptSigningKey;
     return {
       success: response.success,
       data: {
         ...response.data,
-        store: response.data.groups || response.data.store
+        store
       }
     };
   },
@@ -80,4 +95,11 @@ export const settingsApi = {
       method: 'PUT',
       body: JSON.stringify(settings),
     }),
+
+  // For screens other than Settings: re-reads the store first so only the given fields change
+  updateStoreFields: async (update: (store: SettingsData['store']) => Partial<SettingsData['store']>) => {
+    const current = await settingsApi.getSettings();
+    const store = current.data.store || {};
+    return settingsApi.updateSettings({ store: { ...store, ...update(store) } });
+  },
 };
@@ -0,0 +1,118 @@
+import { apiConfig } from '@/utils/apiConfig';
+
+export type CashMovementType = 'cash_in' | 'cash_out' | 'refund';
+
+export interface CashMovement {
+  id?: number;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  created_at: string;
+}
+
+export interface CashShift {
+  id: number;
+  shift_number: string;
+  status: 'open' | 'closed';
+  cashier: string;
+  terminal?: string;
+  account_id?: number; // cash drawer account that cash sales settle into
+  opened_at: string;
+  closed_at?: string;
+  opening_float: number;
+  movements: CashMovement[];
+  // Filled in at close
+  cash_sales?: number;
+  cash_refunds?: number;
+  cash_expenses?: number;
+  cash_in?: number;
+  cash_out?: number;
+  expected_cash?: number;
+  counted_cash?: number;
+  variance?: number;
+  denominations?: Record<string, number>;
+  sales_count?: number;
+  total_sales?: number;
+  notes?: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const apiRequest = async <T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> => {
+  const url = `${apiConfig.getBaseUrl()}${endpoint}`;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      ...options,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Shift API request failed:', error);
+    throw error;
+  }
+};
+
+export const shiftApi = {
+  getCurrent: (terminal?: string) =>
+    apiRequest<ApiResponse<CashShift | null>>(`/shifts/current${terminal ? `?terminal=${encodeURIComponent(terminal)}` : ''}`),
+
+  getAll: (params?: {
+    page?: number;
+    limit?: number;
+    status?: string;
+    date_from?: string;
+    date_to?: string;
+  }) => {
+    const queryParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) queryParams.append(key, value.toString());
+      });
+    }
+    const query = queryParams.toString();
+    return apiRequest<ApiResponse<CashShift[]>>(`/shifts${query ? `?${query}` : ''}`);
+  },
+
+  getById: (id: number) => apiRequest<ApiResponse<CashShift>>(`/shifts/${id}`),
+
+  open: (shift: {
+    cashier: string;
+    terminal?: string;
+    account_id?: number;
+    opening_float: number;
+    notes?: string;
+  }) =>
+    apiRequest<ApiResponse<CashShift>>('/shifts', {
+      method: 'POST',
+      body: JSON.stringify(shift),
+    }),
+
+  addMovement: (shiftId: number, movement: Omit<CashMovement, 'id' | 'created_at'>) =>
+    apiRequest<ApiResponse<CashShift>>(`/shifts/${shiftId}/movements`, {
+      method: 'POST',
+      body: JSON.stringify(movement),
+    }),
+
+  close: (shiftId: number, closing: Omit<CashShift, 'id' | 'shift_number' | 'status' | 'cashier' | 'opened_at' | 'opening_float' | 'movements'>) =>
+    apiRequest<ApiResponse<CashShift>>(`/shifts/${shiftId}/close`, {
+      method: 'PUT',
+      body: JSON.stringify(closing),
+    }),
+};
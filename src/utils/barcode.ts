@@ -0,0 +1,64 @@
+// Barcode helpers for product codes (EAN-13, EAN-8, UPC-A and free-form Code 128)
+
+export type BarcodeFormat = 'EAN-13' | 'EAN-8' | 'UPC-A' | 'Code128';
+
+// Placeholder the API stores when a product has no barcode
+const EMPTY_BARCODES = ['', 'N/A', 'NA', '-'];
+
+export const normalizeBarcode = (code: string | null | undefined): string =>
+  (code || '').trim().replace(/\s+/g, '');
+
+export const hasBarcode = (code: string | null | undefined): boolean =>
+  !EMPTY_BARCODES.includes(normalizeBarcode(code).toUpperCase());
+
+// GS1 mod-10 check digit used by EAN and UPC
+const hasValidCheckDigit = (digits: string): boolean => {
+  const body = digits.slice(0, -1).split('').reverse();
+  const sum = body.reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return checkDigit === Number(digits[digits.length - 1]);
+};
+
+export const detectBarcodeFormat = (code: string): BarcodeFormat | null => {
+  const value = normalizeBarcode(code);
+  if (!value) return null;
+  if (/^\d+$/.test(value)) {
+    if (value.length === 13 && hasValidCheckDigit(value)) return 'EAN-13';
+    if (value.length === 12 && hasValidCheckDigit(value)) return 'UPC-A';
+    if (value.length === 8 && hasValidCheckDigit(value)) return 'EAN-8';
+  }
+  // Code 128 carries any printable ASCII
+  if (/^[\x20-\x7E]+$/.test(value)) return 'Code128';
+  return null;
+};
+
+// Numeric codes of retail length must carry a valid check digit
+export const getBarcodeError = (code: string): string | null => {
+  const value = normalizeBarcode(code);
+  if (!hasBarcode(value)) return null;
+  if (/^\d+$/.test(value) && [8, 12, 13].includes(value.length) && !hasValidCheckDigit(value)) {
+    return 'Check digit does not match (EAN/UPC)';
+  }
+  if (!detectBarcodeFormat(value)) return 'Barcode contains unsupported characters';
+  return null;
+};
+
+// A UPC-A code scans as the same EAN-13 with a leading zero
+const getCodeVariants = (code: string): string[] => {
+  const value = normalizeBarcode(code).toUpperCase();
+  if (/^\d{12}$/.test(value)) return [value, `0${value}`];
+  if (/^0\d{12}$/.test(value)) return [value, value.slice(1)];
+  return [value];
+};
+
+export const findProductByCode = <T extends { barcode?: string; sku?: string }>(
+  products: T[],
+  code: string
+): T | undefined => {
+  const variants = getCodeVariants(code);
+  if (!variants[0]) return undefined;
+  return (
+    products.find(product => hasBarcode(product.barcode) && variants.includes(normalizeBarcode(product.barcode).toUpperCase())) ||
+    products.find(product => normalizeBarcode(product.sku).toUpperCase() === variants[0])
+  );
+};
@@ -0,0 +1,82 @@
+// Encodes product codes into bar/space modules for drawing with jsPDF.
+// '1' is a dark bar module and '0' a light one; quiet zones are left to the caller.
+
+import { BarcodeFormat, detectBarcodeFormat, normalizeBarcode } from './barcode';
+
+// Code 128 symbol widths (bar, space, bar, space, bar, space), values 0-106
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+const EAN_L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G_CODES = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R_CODES = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+// Parity of the left half of an EAN-13 chosen by its first digit
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+export interface EncodedBarcode {
+  format: BarcodeFormat;
+  text: string;
+  modules: string;
+}
+
+const widthsToModules = (widths: string): string =>
+  widths.split('').map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width))).join('');
+
+// Code set B covers printable ASCII, which is what SKUs use
+export const encodeCode128 = (text: string): string => {
+  const values = text.split('').map(char => {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) throw new Error(`Character "${char}" cannot be encoded in Code 128`);
+    return code - 32;
+  });
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), CODE128_START_B) % 103;
+  return [CODE128_START_B, ...values, checksum, CODE128_STOP]
+    .map(value => widthsToModules(CODE128_PATTERNS[value]))
+    .join('');
+};
+
+export const encodeEAN13 = (digits: string): string => {
+  const parity = EAN13_PARITY[Number(digits[0])];
+  const left = digits.slice(1, 7).split('').map((digit, index) =>
+    (parity[index] === 'L' ? EAN_L_CODES : EAN_G_CODES)[Number(digit)]
+  ).join('');
+  const right = digits.slice(7).split('').map(digit => EAN_R_CODES[Number(digit)]).join('');
+  return `101${left}01010${right}101`;
+};
+
+export const encodeEAN8 = (digits: string): string => {
+  const left = digits.slice(0, 4).split('').map(digit => EAN_L_CODES[Number(digit)]).join('');
+  const right = digits.slice(4).split('').map(digit => EAN_R_CODES[Number(digit)]).join('');
+  return `101${left}01010${right}101`;
+};
+
+// Retail codes keep their own symbology; anything else prints as Code 128
+export const encodeBarcode = (code: string): EncodedBarcode | null => {
+  const text = normalizeBarcode(code);
+  const format = detectBarcodeFormat(text);
+  switch (format) {
+    case 'EAN-13':
+      return { format, text, modules: encodeEAN13(text) };
+    case 'UPC-A':
+      return { format, text, modules: encodeEAN13(`0${text}`) };
+    case 'EAN-8':
+      return { format, text, modules: encodeEAN8(text) };
+    case 'Code128':
+      return { format, text, modules: encodeCode128(text) };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,99 @@
+// Cash drawer shift calculations: denomination counts and expected cash at close
+
+import type { CashMovement, CashShift } from '@/services/shiftApi';
+
+// PKR notes and coins, largest first
+export const PKR_DENOMINATIONS = [5000, 1000, 500, 100, 50, 20, 10, 5, 2, 1];
+
+export type DenominationCount = Record<string, number>;
+
+export interface ShiftSale {
+  shiftId?: number;
+  terminalId?: string;
+  createdAt?: string;
+  status?: string;
+  paymentMethod?: string;
+  totalAmount?: number;
+  total?: number;
+  payments?: Array<{ method: string; amount: number }>;
+}
+
+export interface ShiftExpense {
+  amount: string | number;
+  payment_method?: string;
+  created_at?: string;
+}
+
+export interface ShiftSummary {
+  salesCount: number;
+  totalSales: number;
+  cashSales: number;
+  cashRefunds: number;
+  cashExpenses: number;
+  cashIn: number;
+  cashOut: number;
+  expectedCash: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const getDenominationTotal = (counts: DenominationCount): number =>
+  round2(PKR_DENOMINATIONS.reduce((sum, note) => sum + note * (Number(counts[note]) || 0), 0));
+
+const isWithinShift = (timestamp: string | undefined, shift: Pick<CashShift, 'opened_at' | 'closed_at'>): boolean => {
+  if (!timestamp) return false;
+  const time = new Date(timestamp).getTime();
+  const closedAt = shift.closed_at ? new Date(shift.closed_at).getTime() : Date.now();
+  return time >= new Date(shift.opened_at).getTime() && time <= closedAt;
+};
+
+// Sales tagged with the shift, or untagged ones rung up on the shift's terminal while it was open.
+// A sale with neither belongs to no drawer we can prove, so it is left out rather than guessed.
+export const isShiftSale = (sale: ShiftSale, shift: CashShift): boolean => {
+  if (sale.shiftId !== undefined && sale.shiftId !== null) return Number(sale.shiftId) === shift.id;
+  if (!sale.terminalId || !shift.terminal) return false;
+  return sale.terminalId === shift.terminal && isWithinShift(sale.createdAt, shift);
+};
+
+// Cash taken into the drawer for a sale; split tenders only count their cash part
+export const getSaleCashAmount = (sale: ShiftSale): number => {
+  if (sale.status === 'cancelled') return 0;
+  if (Array.isArray(sale.payments) && sale.payments.length > 0) {
+    return round2(sale.payments
+      .filter(payment => payment.method === 'cash')
+      .reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0));
+  }
+  return sale.paymentMethod === 'cash' ? Number(sale.totalAmount ?? sale.total) || 0 : 0;
+};
+
+const sumMovements = (movements: CashMovement[], type: CashMovement['type']): number =>
+  round2(movements.filter(movement => movement.type === type).reduce((sum, movement) => sum + Number(movement.amount), 0));
+
+export const calculateShiftSummary = (
+  shift: CashShift,
+  sales: ShiftSale[],
+  expenses: ShiftExpense[]
+): ShiftSummary => {
+  const shiftSales = sales.filter(sale => isShiftSale(sale, shift) && sale.status !== 'cancelled');
+  const cashSales = round2(shiftSales.reduce((sum, sale) => sum + getSaleCashAmount(sale), 0));
+  const totalSales = round2(shiftSales.reduce((sum, sale) => sum + (Number(sale.totalAmount ?? sale.total) || 0), 0));
+  const cashExpenses = round2(expenses
+    .filter(expense => expense.payment_method === 'cash' && isWithinShift(expense.created_at, shift))
+    .reduce((sum, expense) => sum + (Number(expense.amount) || 0), 0));
+
+  const movements = shift.movements || [];
+  const cashRefunds = sumMovements(movements, 'refund');
+  const cashIn = sumMovements(movements, 'cash_in');
+  const cashOut = sumMovements(movements, 'cash_out');
+
+  return {
+    salesCount: shiftSales.length,
+    totalSales,
+    cashSales,
+    cashRefunds,
+    cashExpenses,
+    cashIn,
+    cashOut,
+    expectedCash: round2(Number(shift.opening_float) + cashSales + cashIn - cashOut - cashRefunds - cashExpenses),
+  };
+};
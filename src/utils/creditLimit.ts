@@ -0,0 +1,49 @@
+// Credit limit checks for sales that leave part of the total on the customer's account
+
+import { roundCurrency } from './paymentTenders';
+
+export interface CreditStanding {
+  balance: number; // amount the customer already owes
+  limit: number; // 0 when no limit has been set
+}
+
+export interface CreditCheck extends CreditStanding {
+  creditAmount: number; // put on account by this sale
+  headroom: number; // left before this sale
+  headroomAfter: number;
+  exceededBy: number; // 0 when the sale stays within the limit
+}
+
+// Stored with the sale when a manager lets a credit sale go over the limit
+export interface CreditLimitOverride {
+  limit: number;
+  balanceBefore: number;
+  creditAmount: number;
+  exceededBy: number;
+  reason: string;
+  approvedAt: string;
+}
+
+export const hasCreditLimit = (standing: CreditStanding | null | undefined): boolean =>
+  !!standing && standing.limit > 0;
+
+export const getCreditCheck = (standing: CreditStanding, creditAmount: number): CreditCheck => {
+  const headroom = roundCurrency(standing.limit - standing.balance);
+  const headroomAfter = roundCurrency(headroom - creditAmount);
+  return {
+    ...standing,
+    creditAmount: roundCurrency(creditAmount),
+    headroom,
+    headroomAfter,
+    exceededBy: hasCreditLimit(standing) && headroomAfter < 0 ? Math.abs(headroomAfter) : 0,
+  };
+};
+
+export const toCreditLimitOverride = (check: CreditCheck, reason: string): CreditLimitOverride => ({
+  limit: check.limit,
+  balanceBefore: check.balance,
+  creditAmount: check.creditAmount,
+  exceededBy: check.exceededBy,
+  reason,
+  approvedAt: new Date().toISOString(),
+});
@@ -0,0 +1,84 @@
+import jsPDF from 'jspdf';
+import QRCode from 'qrcode';
+import type { CreditNote } from '@/services/creditNoteApi';
+import { encodeCreditNote } from './receiptEscPos';
+import { getPrinterSettings, printRaw } from './thermalPrinter';
+
+const formatAmount = (amount: number) => `PKR ${Math.round(amount).toLocaleString()}`;
+
+// Credit note voucher sized for the 80mm receipt printer; the QR carries the redemption code for the scanner
+export const generateCreditNotePDF = async (note: CreditNote) => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: [80, 130] });
+  const pageWidth = 80;
+  const left = 5;
+  const right = pageWidth - 5;
+  let yPos = 8;
+
+  const row = (label: string, value: string) => {
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(label, left, yPos);
+    pdf.text(value, right, yPos, { align: 'right' });
+    yPos += 4;
+  };
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(12);
+  pdf.text('USMAN HARDWARE', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 5;
+  pdf.setFontSize(10);
+  pdf.text('STORE CREDIT NOTE', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 7;
+  pdf.setFontSize(8);
+
+  row('Credit note:', note.note_number);
+  row('Issued:', new Date(note.issued_at).toLocaleDateString('en-GB'));
+  row('Customer:', (note.customer_name || 'Walk-in Customer').substring(0, 28));
+  if (note.order_number) row('Original receipt:', note.order_number);
+  if (note.reference) row('Reference:', note.reference.substring(0, 28));
+  yPos += 2;
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(16);
+  pdf.text(formatAmount(Number(note.balance)), pageWidth / 2, yPos + 4, { align: 'center' });
+  yPos += 10;
+  if (Number(note.balance) !== Number(note.amount)) {
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`Remaining of ${formatAmount(Number(note.amount))}`, pageWidth / 2, yPos, { align: 'center' });
+    yPos += 4;
+  }
+
+  const qrDataUrl = await QRCode.toDataURL(note.code, { width: 120, margin: 1, errorCorrectionLevel: 'M' });
+  pdf.addImage(qrDataUrl, 'PNG', pageWidth / 2 - 14, yPos, 28, 28);
+  yPos += 32;
+
+  pdf.setFont('courier', 'bold');
+  pdf.setFontSize(14);
+  pdf.text(note.code, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 7;
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7);
+  pdf.text('Redeemable against any purchase, in full or in part.', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 3.5;
+  pdf.text('Not exchangeable for cash. Keep this code private.', pageWidth / 2, yPos, { align: 'center' });
+
+  pdf.save(`credit-note-${note.note_number}.pdf`);
+};
+
+// Prints on the thermal printer when one is set up; returns false when it fell back to PDF
+export const printCreditNote = async (note: CreditNote): Promise<boolean> => {
+  const printerSettings = getPrinterSettings();
+  if (printerSettings.output === 'escpos') {
+    try {
+      await printRaw(encodeCreditNote(note, printerSettings.paperWidth), printerSettings);
+      return true;
+    } catch (error) {
+      console.error('Thermal print failed, falling back to PDF:', error);
+      await generateCreditNotePDF(note);
+      return false;
+    }
+  }
+  await generateCreditNotePDF(note);
+  return true;
+};
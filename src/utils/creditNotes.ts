@@ -0,0 +1,55 @@
+// Store credit notes: numbered vouchers issued on returns or by hand and redeemed as a tender at checkout
+
+import type { CreditNote } from '@/services/creditNoteApi';
+import { roundCurrency } from './paymentTenders';
+
+// No 0/O or 1/I so codes read back cleanly from a printed slip
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export interface AppliedCreditNote {
+  note: CreditNote;
+  amount: number;
+}
+
+export interface CreditNoteTotals {
+  issued: number;
+  redeemed: number;
+  outstanding: number;
+}
+
+// Random redemption code printed as XXXX-XXXX
+export const generateCreditNoteCode = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  const code = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+};
+
+// Accepts codes typed without the dash or in lower case
+export const normalizeCreditNoteCode = (input: string): string => {
+  const code = input.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return code.length === CODE_LENGTH ? `${code.slice(0, 4)}-${code.slice(4)}` : input.trim().toUpperCase();
+};
+
+export const getRedeemedAmount = (note: CreditNote): number =>
+  roundCurrency(Number(note.amount) - Number(note.balance));
+
+// Why a note cannot be used right now, or null when it can
+export const getCreditNoteError = (note: CreditNote): string | null => {
+  if (note.status === 'void') return `Credit note ${note.note_number} has been voided`;
+  if (note.status === 'redeemed' || Number(note.balance) <= 0) return `Credit note ${note.note_number} has already been used in full`;
+  return null;
+};
+
+// Part of the note used on this sale: the whole balance, or just enough to cover the total
+export const getRedeemableAmount = (note: CreditNote, amountDue: number, requested?: number): number => {
+  const limit = Math.min(Number(note.balance), Math.max(amountDue, 0));
+  return roundCurrency(requested !== undefined ? Math.min(Math.max(requested, 0), limit) : limit);
+};
+
+export const getCreditNoteTotals = (notes: CreditNote[]): CreditNoteTotals => {
+  const active = notes.filter(note => note.status !== 'void');
+  const issued = roundCurrency(active.reduce((sum, note) => sum + Number(note.amount), 0));
+  const outstanding = roundCurrency(active.reduce((sum, note) => sum + Number(note.balance), 0));
+  return { issued, redeemed: roundCurrency(issued - outstanding), outstanding };
+};
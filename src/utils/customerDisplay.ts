@@ -0,0 +1,78 @@
+// Customer-facing second screen: the till publishes its cart over a BroadcastChannel and the
+// /customer-display window, opened on the second monitor of the same machine, renders it.
+
+import type { SettingsData } from '@/services/settingsApi';
+
+export const CUSTOMER_DISPLAY_CHANNEL = 'usman-hardware-customer-display';
+export const CUSTOMER_DISPLAY_PATH = '/customer-display';
+
+export interface CustomerDisplayLine {
+  name: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  listPrice?: number; // shown struck through when the customer got a better price
+  discount: number;
+  total: number;
+}
+
+export interface CustomerDisplayCart {
+  customerName?: string;
+  lines: CustomerDisplayLine[];
+  itemCount: number;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  taxLabel?: string;
+  total: number;
+  cashTendered?: number;
+  changeDue?: number;
+}
+
+export interface CustomerDisplaySale {
+  orderNumber?: string;
+  total: number;
+  cashTendered?: number;
+  changeDue?: number;
+}
+
+export type CustomerDisplayMessage =
+  | { type: 'cart'; cart: CustomerDisplayCart }
+  | { type: 'sale_complete'; sale: CustomerDisplaySale }
+  | { type: 'request_state' }; // sent by a display that has just opened
+
+export interface DisplayPromotion {
+  title: string;
+  subtitle?: string;
+}
+
+// Shown until the store sets its own in Settings
+export const DEFAULT_PROMOTIONS: DisplayPromotion[] = [
+  { title: 'Bulk discounts on hinges & handles', subtitle: 'Ask at the counter for contractor rates' },
+  { title: 'Home & site delivery available', subtitle: 'Same-day delivery on orders booked before noon' },
+  { title: 'Kitchen fitting kits', subtitle: 'Everything for one cabinet in a single pack' },
+];
+
+export const SLIDE_INTERVAL_MS = 6000;
+export const THANK_YOU_MS = 8000;
+
+// BroadcastChannel is missing on some older browsers; the till works without a display there
+export const openDisplayChannel = (): BroadcastChannel | null =>
+  typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CUSTOMER_DISPLAY_CHANNEL);
+
+export const openCustomerDisplayWindow = () =>
+  window.open(CUSTOMER_DISPLAY_PATH, 'customer-display', 'popup,width=1024,height=768');
+
+export const getDisplayPromotions = (store?: Partial<SettingsData['store']> | null): DisplayPromotion[] =>
+  store?.displayPromotions && store.displayPromotions.length > 0 ? store.displayPromotions : DEFAULT_PROMOTIONS;
+
+// Settings edits promotions as text, one per line: "Title | subtitle"
+export const parsePromotions = (text: string): DisplayPromotion[] =>
+  text
+    .split('\n')
+    .map(line => line.split('|').map(part => part.trim()))
+    .filter(([title]) => !!title)
+    .map(([title, subtitle]) => (subtitle ? { title, subtitle } : { title }));
+
+export const formatPromotions = (promotions: DisplayPromotion[] = []): string =>
+  promotions.map(promotion => (promotion.subtitle ? `${promotion.title} | ${promotion.subtitle}` : promotion.title)).join('\n');
@@ -0,0 +1,107 @@
+// Home / site deliveries: an order is loaded onto a vehicle against a numbered challan,
+// and the customer signs for what actually arrived. Short drops leave the order partially delivered.
+
+import type { Delivery, DeliveryDetails, DeliveryItem, DeliverySlot, DeliveryStatus } from '@/services/deliveryApi';
+
+// Sale statuses mirrored from the deliveries made against the order
+export const DELIVERED_SALE_STATUS = 'delivered';
+export const PARTIALLY_DELIVERED_SALE_STATUS = 'partially_delivered';
+
+export type SaleDeliveryStatus = typeof DELIVERED_SALE_STATUS | typeof PARTIALLY_DELIVERED_SALE_STATUS;
+
+// An order line that can be put on a delivery
+export interface DeliveryLine {
+  productId: number;
+  productName: string;
+  quantity: number;
+  unit?: string;
+}
+
+export interface DeliveryDay {
+  date: string;
+  deliveries: Delivery[];
+}
+
+export const DELIVERY_SLOTS: Array<{ value: DeliverySlot; label: string }> = [
+  { value: 'morning', label: 'Morning (9am - 12pm)' },
+  { value: 'afternoon', label: 'Afternoon (12pm - 4pm)' },
+  { value: 'evening', label: 'Evening (4pm - 8pm)' },
+];
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  scheduled: 'Scheduled',
+  out_for_delivery: 'Out for delivery',
+  partially_delivered: 'Partially delivered',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const getSlotLabel = (slot: DeliverySlot) =>
+  DELIVERY_SLOTS.find(option => option.value === slot)?.label || slot;
+
+export const isDeliveryOpen = (delivery: Delivery) =>
+  delivery.status === 'scheduled' || delivery.status === 'out_for_delivery';
+
+// What is still to be sent: ordered quantity less what is signed for or already on an open delivery
+export const getRemainingLines = (lines: DeliveryLine[], deliveries: Delivery[]): DeliveryLine[] => {
+  const committed = new Map<number, number>();
+  deliveries
+    .filter(delivery => delivery.status !== 'cancelled')
+    .forEach(delivery => {
+      delivery.items.forEach(item => {
+        const quantity = isDeliveryOpen(delivery) ? Number(item.quantity) : Number(item.delivered_quantity);
+        committed.set(item.product_id, (committed.get(item.product_id) || 0) + quantity);
+      });
+    });
+
+  return lines
+    .map(line => ({ ...line, quantity: Math.max(0, line.quantity - (committed.get(line.productId) || 0)) }))
+    .filter(line => line.quantity > 0);
+};
+
+export const getDeliveryError = (
+  details: Pick<DeliveryDetails, 'address' | 'scheduled_date'>,
+  items: Array<{ quantity: number }>
+): string | null => {
+  if (!details.address.trim()) return 'Enter the delivery address';
+  if (!details.scheduled_date) return 'Pick the delivery date';
+  if (!items.some(item => item.quantity > 0)) return 'Put at least one item on the delivery';
+  return null;
+};
+
+// Status of one delivery from the quantities the customer signed for
+export const getConfirmedStatus = (items: Array<Pick<DeliveryItem, 'quantity' | 'delivered_quantity'>>): DeliveryStatus | null => {
+  if (!items.some(item => item.delivered_quantity > 0)) return null;
+  return items.every(item => item.delivered_quantity >= item.quantity) ? 'delivered' : 'partially_delivered';
+};
+
+// Status of the whole order across every delivery made against it
+export const getSaleDeliveryStatus = (lines: DeliveryLine[], deliveries: Delivery[]): SaleDeliveryStatus | null => {
+  const delivered = new Map<number, number>();
+  deliveries.forEach(delivery => {
+    delivery.items.forEach(item => {
+      delivered.set(item.product_id, (delivered.get(item.product_id) || 0) + Number(item.delivered_quantity || 0));
+    });
+  });
+  if (![...delivered.values()].some(quantity => quantity > 0)) return null;
+  return lines.every(line => (delivered.get(line.productId) || 0) >= line.quantity)
+    ? DELIVERED_SALE_STATUS
+    : PARTIALLY_DELIVERED_SALE_STATUS;
+};
+
+const SLOT_ORDER: DeliverySlot[] = DELIVERY_SLOTS.map(option => option.value);
+
+// Board columns: one per day, deliveries in slot order
+export const groupDeliveriesByDay = (deliveries: Delivery[]): DeliveryDay[] => {
+  const days = new Map<string, Delivery[]>();
+  deliveries.forEach(delivery => {
+    const date = delivery.scheduled_date.split('T')[0];
+    days.set(date, [...(days.get(date) || []), delivery]);
+  });
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, entries]) => ({
+      date,
+      deliveries: [...entries].sort((a, b) => SLOT_ORDER.indexOf(a.slot) - SLOT_ORDER.indexOf(b.slot)),
+    }));
+};
@@ -0,0 +1,161 @@
+import jsPDF from 'jspdf';
+import type { Delivery } from '@/services/deliveryApi';
+import { getSlotLabel } from './deliveries';
+
+// A4 delivery challan: travels with the goods and comes back signed by the customer
+export const generateDeliveryChallanPDF = (delivery: Delivery) => {
+  const doc = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const margin = 15;
+  const right = pageWidth - margin;
+  const isConfirmed = delivery.status === 'delivered' || delivery.status === 'partially_delivered';
+  let yPos = margin;
+
+  // HEADER SECTION
+  doc.setFillColor(26, 54, 93);
+  doc.roundedRect(margin, yPos, pageWidth - 2 * margin, 25, 3, 3, 'F');
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(22);
+  doc.setFont('helvetica', 'bold');
+  doc.text('USMAN HARDWARE', pageWidth / 2, yPos + 8, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Premium Furniture Hardware Solutions', pageWidth / 2, yPos + 14, { align: 'center' });
+  doc.text('Hafizabad, Punjab | +92-322-6506118', pageWidth / 2, yPos + 19, { align: 'center' });
+
+  yPos += 35;
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text('DELIVERY CHALLAN', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 10;
+
+  // CHALLAN / CONSIGNEE DETAILS
+  const addressLines: string[] = doc.splitTextToSize(delivery.address || '-', 80);
+  const boxHeight = Math.max(32, 22 + addressLines.length * 5);
+  doc.setFillColor(248, 250, 252);
+  doc.roundedRect(margin, yPos, pageWidth - 2 * margin, boxHeight, 2, 2, 'F');
+
+  doc.setFontSize(10);
+  doc.setTextColor(60, 60, 60);
+  const detailY = yPos + 6;
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Deliver to', margin + 5, detailY);
+  doc.setFont('helvetica', 'normal');
+  doc.text(delivery.customer_name, margin + 5, detailY + 5);
+  if (delivery.contact_name || delivery.contact_phone) {
+    doc.text([delivery.contact_name, delivery.contact_phone].filter(Boolean).join(' - '), margin + 5, detailY + 10);
+  }
+  doc.text(addressLines, margin + 5, detailY + 15);
+
+  const detailRows: Array<[string, string]> = [
+    ['Challan #', delivery.challan_number],
+    ['Order #', delivery.order_number],
+    ['Date', new Date(delivery.scheduled_date).toLocaleDateString('en-GB')],
+    ['Slot', getSlotLabel(delivery.slot)],
+    ['Vehicle', delivery.vehicle || '-'],
+    ['Driver', delivery.driver || '-'],
+  ];
+  detailRows.forEach(([label, value], index) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, pageWidth / 2 + 15, detailY + index * 5);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, right - 5, detailY + index * 5, { align: 'right' });
+  });
+
+  yPos += boxHeight + 8;
+
+  // ITEMS TABLE
+  const col1X = margin + 3; // Index
+  const col2X = margin + 12; // Item
+  const col3X = margin + 135; // Qty sent
+  const col4X = right - 3; // Qty received
+
+  doc.setFillColor(26, 54, 93);
+  doc.roundedRect(margin, yPos, pageWidth - 2 * margin, 10, 1, 1, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text('#', col1X, yPos + 6.5);
+  doc.text('Item', col2X, yPos + 6.5);
+  doc.text('Qty Sent', col3X, yPos + 6.5, { align: 'right' });
+  doc.text('Qty Received', col4X, yPos + 6.5, { align: 'right' });
+  yPos += 10;
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFont('helvetica', 'normal');
+  delivery.items.forEach((item, index) => {
+    if (yPos > pageHeight - 80) {
+      doc.addPage();
+      yPos = margin;
+    }
+    if (index % 2 === 1) {
+      doc.setFillColor(248, 250, 252);
+      doc.rect(margin, yPos, pageWidth - 2 * margin, 8, 'F');
+    }
+    const name = item.product_name.length > 60 ? item.product_name.substring(0, 60) + '...' : item.product_name;
+    const unit = item.unit ? ` ${item.unit}` : '';
+    doc.text(String(index + 1), col1X, yPos + 5.5);
+    doc.text(name, col2X, yPos + 5.5);
+    doc.text(`${Number(item.quantity)}${unit}`, col3X, yPos + 5.5, { align: 'right' });
+    // Left blank for the customer to fill in when the challan goes out unsigned
+    if (isConfirmed) doc.text(`${Number(item.delivered_quantity)}${unit}`, col4X, yPos + 5.5, { align: 'right' });
+    else doc.line(col4X - 22, yPos + 6, col4X, yPos + 6);
+    yPos += 8;
+  });
+
+  doc.setDrawColor(200, 200, 200);
+  doc.line(margin, yPos, right, yPos);
+  yPos += 6;
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Total pieces sent: ${delivery.items.reduce((sum, item) => sum + Number(item.quantity), 0)}`, margin + 3, yPos);
+  yPos += 8;
+
+  if (delivery.notes) {
+    doc.setFont('helvetica', 'normal');
+    const noteLines: string[] = doc.splitTextToSize(`Notes: ${delivery.notes}`, pageWidth - 2 * margin - 6);
+    doc.text(noteLines, margin + 3, yPos);
+    yPos += noteLines.length * 5 + 4;
+  }
+
+  // SIGNATURE AREA
+  if (yPos > pageHeight - 60) {
+    doc.addPage();
+    yPos = margin;
+  }
+  yPos = Math.max(yPos, pageHeight - 70);
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(60, 60, 60);
+  doc.text('Received the above goods in good order and condition.', margin, yPos);
+  yPos += 6;
+
+  const boxWidth = (pageWidth - 2 * margin - 10) / 3;
+  const signatureBoxes = ['Received by (name & signature)', 'Driver signature', 'For USMAN HARDWARE'];
+  signatureBoxes.forEach((label, index) => {
+    const x = margin + index * (boxWidth + 5);
+    doc.setDrawColor(180, 180, 180);
+    doc.roundedRect(x, yPos, boxWidth, 30, 2, 2);
+    doc.line(x + 5, yPos + 20, x + boxWidth - 5, yPos + 20);
+    doc.text(label, x + boxWidth / 2, yPos + 26, { align: 'center' });
+  });
+
+  if (delivery.received_by) {
+    doc.setTextColor(0, 0, 0);
+    doc.text(delivery.received_by, margin + boxWidth / 2, yPos + 17, { align: 'center' });
+  }
+  yPos += 36;
+
+  doc.setFontSize(8);
+  doc.setTextColor(120, 120, 120);
+  doc.text('Date & time received: ____________________', margin, yPos);
+  doc.text('Please check all items before signing. Shortages must be noted on this challan.', right, yPos, { align: 'right' });
+
+  doc.save(`challan-${delivery.challan_number}.pdf`);
+};
@@ -0,0 +1,88 @@
+// Line-level and cart-level discount helpers for the POS
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export type DiscountReasonCode =
+  | 'bulk_order'
+  | 'loyal_customer'
+  | 'damaged_item'
+  | 'price_match'
+  | 'promotion'
+  | 'clearance'
+  | 'manager_approval'
+  | 'other';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+  reason: DiscountReasonCode;
+}
+
+export const DISCOUNT_REASON_LABELS: Record<DiscountReasonCode, string> = {
+  bulk_order: 'Bulk Order',
+  loyal_customer: 'Loyal Customer',
+  damaged_item: 'Damaged / Open Box',
+  price_match: 'Price Match',
+  promotion: 'Promotion',
+  clearance: 'Clearance',
+  manager_approval: 'Manager Approval',
+  other: 'Other',
+};
+
+export const DISCOUNT_REASON_CODES = Object.keys(DISCOUNT_REASON_LABELS) as DiscountReasonCode[];
+
+// Minimal shape of a cart line needed to price it
+export interface DiscountableLine {
+  price: number;
+  adjustedPrice?: number;
+  quantity: number;
+  discount?: Discount;
+}
+
+export interface CartTotals {
+  subtotal: number;
+  lineDiscountTotal: number;
+  cartDiscountAmount: number;
+  discountTotal: number;
+  total: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Amount taken off `base`, never negative and never more than `base`
+export const calculateDiscountAmount = (discount: Discount | null | undefined, base: number): number => {
+  if (!discount || !discount.value || discount.value <= 0 || base <= 0) return 0;
+  const amount = discount.type === 'percentage'
+    ? base * Math.min(discount.value, 100) / 100
+    : discount.value;
+  return round2(Math.min(amount, base));
+};
+
+export const getLineGrossTotal = (line: DiscountableLine): number =>
+  round2((line.adjustedPrice || line.price) * line.quantity);
+
+export const getLineDiscountAmount = (line: DiscountableLine): number =>
+  calculateDiscountAmount(line.discount, getLineGrossTotal(line));
+
+export const getLineNetTotal = (line: DiscountableLine): number =>
+  round2(getLineGrossTotal(line) - getLineDiscountAmount(line));
+
+// Cart discount applies to what is left after line discounts
+export const getCartTotals = (lines: DiscountableLine[], cartDiscount?: Discount | null): CartTotals => {
+  const subtotal = round2(lines.reduce((sum, line) => sum + getLineGrossTotal(line), 0));
+  const lineDiscountTotal = round2(lines.reduce((sum, line) => sum + getLineDiscountAmount(line), 0));
+  const cartDiscountAmount = calculateDiscountAmount(cartDiscount, subtotal - lineDiscountTotal);
+  const discountTotal = round2(lineDiscountTotal + cartDiscountAmount);
+  return {
+    subtotal,
+    lineDiscountTotal,
+    cartDiscountAmount,
+    discountTotal,
+    total: round2(subtotal - discountTotal),
+  };
+};
+
+export const formatDiscount = (discount: Discount): string =>
+  discount.type === 'percentage'
+    ? `${discount.value}% (${DISCOUNT_REASON_LABELS[discount.reason] || discount.reason})`
+    : `PKR ${discount.value.toLocaleString()} (${DISCOUNT_REASON_LABELS[discount.reason] || discount.reason})`;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { EscPosEncoder, PAPER_COLUMNS } from './escPosEncoder';
+
+const bytes = (encoder: EscPosEncoder) => Array.from(encoder.encode());
+const ascii = (value: string) => Array.from(value, char => char.charCodeAt(0));
+
+describe('EscPosEncoder', () => {
+  it('encodes printer setup and text styles', () => {
+    expect(bytes(new EscPosEncoder().initialize())).toEqual([0x1b, 0x40]);
+    expect(bytes(new EscPosEncoder().align('center'))).toEqual([0x1b, 0x61, 1]);
+    expect(bytes(new EscPosEncoder().align('right'))).toEqual([0x1b, 0x61, 2]);
+    expect(bytes(new EscPosEncoder().bold().bold(false))).toEqual([0x1b, 0x45, 1, 0x1b, 0x45, 0]);
+    expect(bytes(new EscPosEncoder().underline())).toEqual([0x1b, 0x2d, 1]);
+    expect(bytes(new EscPosEncoder().invert())).toEqual([0x1d, 0x42, 1]);
+  });
+
+  it('packs width and height into one size byte and clamps them to 1-8', () => {
+    expect(bytes(new EscPosEncoder().size(2, 3))).toEqual([0x1d, 0x21, 0x12]);
+    expect(bytes(new EscPosEncoder().size(2))).toEqual([0x1d, 0x21, 0x11]);
+    expect(bytes(new EscPosEncoder().size(0, 12))).toEqual([0x1d, 0x21, 0x07]);
+  });
+
+  it('writes text as printable ASCII, replacing what the code page cannot print', () => {
+    expect(bytes(new EscPosEncoder().line('Café'))).toEqual([...ascii('Cafe'), 0x0a]);
+    expect(bytes(new EscPosEncoder().text('₨5'))).toEqual(ascii('Rs5'));
+    expect(bytes(new EscPosEncoder().text('€5'))).toEqual([0x3f, 0x35]);
+    expect(bytes(new EscPosEncoder().newline(2))).toEqual([0x0a, 0x0a]);
+  });
+
+  it('fills column lines to the paper width and truncates long left text', () => {
+    const narrow = new EscPosEncoder(58);
+    expect(narrow.columns).toBe(PAPER_COLUMNS[58]);
+    expect(bytes(narrow.columnsLine('Hinge', '120.00'))).toEqual([...ascii(`Hinge${' '.repeat(21)}120.00`), 0x0a]);
+
+    const truncated = bytes(new EscPosEncoder(58).columnsLine('A'.repeat(40), '9.00'));
+    expect(truncated).toHaveLength(33);
+    expect(truncated.slice(0, 27)).toEqual(ascii('A'.repeat(27)));
+    expect(truncated.slice(27, 32)).toEqual(ascii(' 9.00'));
+
+    expect(bytes(new EscPosEncoder(80).rule('='))).toEqual([...ascii('='.repeat(48)), 0x0a]);
+  });
+
+  it('encodes the QR code model, size, error level, data and print commands', () => {
+    const data = 'UHR1.abc';
+    const storeLength = data.length + 3;
+    expect(bytes(new EscPosEncoder().qrcode(data, 5, 'Q'))).toEqual([
+      0x1d, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+      0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 5,
+      0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 50,
+      0x1d, 0x28, 0x6b, storeLength, 0x00, 0x31, 0x50, 0x30, ...ascii(data),
+      0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,
+    ]);
+  });
+
+  it('splits long QR payload lengths into low and high bytes', () => {
+    const encoded = bytes(new EscPosEncoder().qrcode('x'.repeat(300)));
+    // The store command follows the three 8 or 9 byte setup commands
+    expect(encoded.slice(25, 33)).toEqual([0x1d, 0x28, 0x6b, 303 & 0xff, 303 >> 8, 0x31, 0x50, 0x30]);
+  });
+
+  it('clamps feeds and encodes full and partial cuts', () => {
+    expect(bytes(new EscPosEncoder().feed(3))).toEqual([0x1b, 0x64, 3]);
+    expect(bytes(new EscPosEncoder().feed(400))).toEqual([0x1b, 0x64, 255]);
+    expect(bytes(new EscPosEncoder().cut())).toEqual([0x1d, 0x56, 0x41, 0]);
+    expect(bytes(new EscPosEncoder().cut(true, 10))).toEqual([0x1d, 0x56, 0x42, 10]);
+  });
+});
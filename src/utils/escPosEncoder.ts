@@ -0,0 +1,121 @@
+// ESC/POS command encoder for 58mm and 80mm thermal receipt printers.
+// Builds a raw byte stream; it has no browser dependencies so the output can be checked byte for byte.
+
+export type PaperWidth = 58 | 80;
+export type TextAlign = 'left' | 'center' | 'right';
+export type QrErrorLevel = 'L' | 'M' | 'Q' | 'H';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Characters per line in the default font A
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+const ALIGN_CODES: Record<TextAlign, number> = { left: 0, center: 1, right: 2 };
+const QR_ERROR_CODES: Record<QrErrorLevel, number> = { L: 48, M: 49, Q: 50, H: 51 };
+
+// Printers use a single-byte code page; anything outside printable ASCII becomes '?'
+const toPrintableBytes = (value: string): number[] =>
+  Array.from(value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '')).map(char => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 && code < 0x7f ? code : 0x3f;
+  });
+
+export class EscPosEncoder {
+  private bytes: number[] = [];
+  readonly columns: number;
+
+  constructor(paperWidth: PaperWidth = 80) {
+    this.columns = PAPER_COLUMNS[paperWidth];
+  }
+
+  private raw(...values: number[]): this {
+    this.bytes.push(...values);
+    return this;
+  }
+
+  // ESC @ - reset the printer to its defaults
+  initialize(): this {
+    return this.raw(ESC, 0x40);
+  }
+
+  // ESC a n
+  align(value: TextAlign): this {
+    return this.raw(ESC, 0x61, ALIGN_CODES[value]);
+  }
+
+  // ESC E n
+  bold(on = true): this {
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  // ESC - n
+  underline(on = true): this {
+    return this.raw(ESC, 0x2d, on ? 1 : 0);
+  }
+
+  // GS B n - white on black
+  invert(on = true): this {
+    return this.raw(GS, 0x42, on ? 1 : 0);
+  }
+
+  // GS ! n - character width and height multipliers, 1 to 8
+  size(width = 1, height = width): this {
+    const clamp = (value: number) => Math.min(Math.max(Math.round(value), 1), 8) - 1;
+    return this.raw(GS, 0x21, (clamp(width) << 4) | clamp(height));
+  }
+
+  text(value: string): this {
+    return this.raw(...toPrintableBytes(value));
+  }
+
+  newline(count = 1): this {
+    for (let i = 0; i < count; i++) this.raw(LF);
+    return this;
+  }
+
+  line(value = ''): this {
+    return this.text(value).newline();
+  }
+
+  // Left and right text on one line, truncating the left side when they do not fit
+  columnsLine(left: string, right: string, width = this.columns): this {
+    const space = width - right.length - 1;
+    const leftText = left.length > space ? left.substring(0, Math.max(space, 0)) : left;
+    return this.line(`${leftText}${' '.repeat(Math.max(width - leftText.length - right.length, 1))}${right}`);
+  }
+
+  rule(char = '-', width = this.columns): this {
+    return this.line(char.repeat(width));
+  }
+
+  // ESC d n - print and feed n lines
+  feed(lines = 1): this {
+    return this.raw(ESC, 0x64, Math.min(Math.max(lines, 0), 255));
+  }
+
+  // GS ( k - QR code model 2: size, error level, store data, print
+  qrcode(data: string, moduleSize = 6, errorLevel: QrErrorLevel = 'M'): this {
+    const payload = toPrintableBytes(data);
+    const storeLength = payload.length + 3;
+    return this
+      .raw(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00)
+      .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, Math.min(Math.max(moduleSize, 1), 16))
+      .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, QR_ERROR_CODES[errorLevel])
+      .raw(GS, 0x28, 0x6b, storeLength & 0xff, (storeLength >> 8) & 0xff, 0x31, 0x50, 0x30, ...payload)
+      .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30);
+  }
+
+  // GS V m n - feed n dots then cut; partial leaves a small tab holding the receipt
+  cut(partial = false, feedDots = 0): this {
+    return this.raw(GS, 0x56, partial ? 0x42 : 0x41, Math.min(Math.max(feedDots, 0), 255));
+  }
+
+  encode(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
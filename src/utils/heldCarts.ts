@@ -0,0 +1,105 @@
+// Parked POS carts so one counter can serve several customers at once.
+// Carts live in localStorage and are dropped once the business day they were started on ends.
+
+import { Discount, DiscountableLine, getCartTotals } from './discounts';
+
+const HELD_CARTS_KEY = 'heldCarts';
+const ACTIVE_CART_KEY = 'activeCart';
+
+export interface HeldCartCustomer {
+  id: number | string;
+  name: string;
+  [key: string]: unknown;
+}
+
+export interface CartSnapshot<T extends DiscountableLine = DiscountableLine> {
+  items: T[];
+  customer: HeldCartCustomer | null;
+  cartDiscount: Discount | null;
+  businessDay: string; // YYYY-MM-DD, local time
+  label?: string; // tab name of the cart, kept when a held cart is resumed
+}
+
+export interface HeldCart<T extends DiscountableLine = DiscountableLine> extends CartSnapshot<T> {
+  id: string;
+  label: string;
+  heldAt: string;
+}
+
+export const getBusinessDay = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const isCurrent = (snapshot: Pick<CartSnapshot, 'businessDay'>): boolean =>
+  snapshot.businessDay === getBusinessDay();
+
+const readJson = <T>(key: string): T | null => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved) as T;
+  } catch (error) {
+    console.error(`Error parsing ${key} from localStorage:`, error);
+    return null;
+  }
+};
+
+export const loadHeldCarts = <T extends DiscountableLine>(): HeldCart<T>[] => {
+  const saved = readJson<HeldCart<T>[]>(HELD_CARTS_KEY);
+  if (!Array.isArray(saved)) return [];
+  const current = saved.filter(isCurrent);
+  if (current.length !== saved.length) {
+    saveHeldCarts(current);
+  }
+  return current;
+};
+
+export const saveHeldCarts = <T extends DiscountableLine>(carts: HeldCart<T>[]) => {
+  localStorage.setItem(HELD_CARTS_KEY, JSON.stringify(carts));
+};
+
+export const createHeldCart = <T extends DiscountableLine>(
+  snapshot: Omit<CartSnapshot<T>, 'businessDay'>,
+  label: string
+): HeldCart<T> => ({
+  ...snapshot,
+  id: `held-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  label,
+  heldAt: new Date().toISOString(),
+  businessDay: getBusinessDay(),
+});
+
+// Label shown on the tab when the cashier does not type one
+export const getDefaultHeldCartLabel = (customer: HeldCartCustomer | null, existing: HeldCart[]): string => {
+  if (customer?.name) return customer.name;
+  let index = existing.length + 1;
+  while (existing.some(cart => cart.label === `Cart ${index}`)) index++;
+  return `Cart ${index}`;
+};
+
+export const getHeldCartTotal = (cart: CartSnapshot): number =>
+  getCartTotals(cart.items, cart.cartDiscount).total;
+
+export const getHeldCartItemCount = (cart: CartSnapshot): number =>
+  cart.items.reduce((sum, item) => sum + item.quantity, 0);
+
+// The cart being rung up, kept so a page reload does not lose it
+export const loadActiveCart = <T extends DiscountableLine>(): CartSnapshot<T> | null => {
+  const saved = readJson<CartSnapshot<T>>(ACTIVE_CART_KEY);
+  if (!saved || !Array.isArray(saved.items)) return null;
+  if (!isCurrent(saved)) {
+    localStorage.removeItem(ACTIVE_CART_KEY);
+    return null;
+  }
+  return saved;
+};
+
+export const saveActiveCart = <T extends DiscountableLine>(snapshot: Omit<CartSnapshot<T>, 'businessDay'>) => {
+  if (snapshot.items.length === 0 && !snapshot.customer) {
+    localStorage.removeItem(ACTIVE_CART_KEY);
+    return;
+  }
+  localStorage.setItem(ACTIVE_CART_KEY, JSON.stringify({ ...snapshot, businessDay: getBusinessDay() }));
+};
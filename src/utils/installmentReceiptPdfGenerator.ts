@@ -0,0 +1,102 @@
+import jsPDF from 'jspdf';
+import { TENDER_METHOD_LABELS } from './paymentTenders';
+import { InstallmentReceipt, getInstallmentReceiptTitle } from './layaway';
+import { encodeInstallmentReceipt } from './receiptEscPos';
+import { getPrinterSettings, printRaw } from './thermalPrinter';
+
+const formatAmount = (amount: number) => `PKR ${Math.round(amount).toLocaleString()}`;
+
+// Receipt for one layaway payment, sized for the 80mm receipt printer
+export const generateInstallmentReceiptPDF = (receipt: InstallmentReceipt) => {
+  const itemCount = receipt.reservedItems?.length || 0;
+  const height = 105 + (itemCount > 0 ? 6 + itemCount * 4 : 0);
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: [80, height] });
+  const pageWidth = 80;
+  const left = 5;
+  const right = pageWidth - 5;
+  let yPos = 8;
+
+  const row = (label: string, value: string, bold = false) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.text(label, left, yPos);
+    pdf.text(value, right, yPos, { align: 'right' });
+    yPos += 4;
+  };
+
+  const divider = () => {
+    pdf.setDrawColor(150, 150, 150);
+    pdf.line(left, yPos - 1.5, right, yPos - 1.5);
+    yPos += 2;
+  };
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(12);
+  pdf.text('USMAN HARDWARE', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 5;
+  pdf.setFontSize(9);
+  pdf.text(getInstallmentReceiptTitle(receipt), pageWidth / 2, yPos, { align: 'center' });
+  yPos += 7;
+  pdf.setFontSize(8);
+
+  row('Receipt:', receipt.receiptNumber);
+  row('Order:', receipt.orderNumber);
+  row('Date:', new Date(receipt.date).toLocaleDateString('en-GB'));
+  row('Customer:', receipt.customerName.substring(0, 28));
+  divider();
+
+  if (itemCount > 0) {
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Items reserved', left, yPos);
+    yPos += 4;
+    pdf.setFont('helvetica', 'normal');
+    (receipt.reservedItems || []).forEach(item => {
+      const name = item.productName.length > 32 ? item.productName.substring(0, 32) + '...' : item.productName;
+      row(name, `x${item.quantity}`);
+    });
+    divider();
+  }
+
+  pdf.setFontSize(11);
+  row(receipt.isDeposit ? 'Deposit paid:' : 'Amount paid:', formatAmount(receipt.amount), true);
+  pdf.setFontSize(8);
+  row('Paid by:', TENDER_METHOD_LABELS[receipt.method] || receipt.method);
+  divider();
+  row('Order total:', formatAmount(receipt.total));
+  row('Paid to date:', formatAmount(receipt.paidToDate));
+  row('Balance due:', formatAmount(receipt.balance), true);
+  if (receipt.nextDue && receipt.balance > 0) {
+    row('Next installment:', `${formatAmount(Math.min(receipt.nextDue.amount, receipt.balance))} by ${new Date(receipt.nextDue.due_date).toLocaleDateString('en-GB')}`);
+  }
+  if (receipt.pickupDate) row('Pickup from:', new Date(receipt.pickupDate).toLocaleDateString('en-GB'));
+  yPos += 3;
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7);
+  pdf.text(
+    receipt.balance > 0 ? 'Items are held for you until the balance is paid.' : 'Paid in full. Bring this receipt to collect your order.',
+    pageWidth / 2,
+    yPos,
+    { align: 'center' }
+  );
+  yPos += 3.5;
+  pdf.text('Keep every installment receipt until pickup.', pageWidth / 2, yPos, { align: 'center' });
+
+  pdf.save(`installment-${receipt.receiptNumber}.pdf`);
+};
+
+// Prints on the thermal printer when one is set up; returns false when it fell back to PDF
+export const printInstallmentReceipt = async (receipt: InstallmentReceipt): Promise<boolean> => {
+  const printerSettings = getPrinterSettings();
+  if (printerSettings.output === 'escpos') {
+    try {
+      await printRaw(encodeInstallmentReceipt(receipt, printerSettings.paperWidth), printerSettings);
+      return true;
+    } catch (error) {
+      console.error('Thermal print failed, falling back to PDF:', error);
+      generateInstallmentReceiptPDF(receipt);
+      return false;
+    }
+  }
+  generateInstallmentReceiptPDF(receipt);
+  return true;
+};
@@ -0,0 +1,191 @@
+// Kits / bundles: one product sold at a bundle price, made of component products with quantities.
+// The kit itself holds no stock; selling one deducts its components and splits the revenue across them.
+
+export type ProductType = 'standard' | 'kit';
+
+export interface KitComponent {
+  productId: number;
+  quantity: number; // per kit, in the component's base unit
+}
+
+export interface KitProduct {
+  id: number | string;
+  name?: string;
+  price: number;
+  stock?: number;
+  unit?: string;
+  productType?: string;
+  kitComponents?: KitComponent[] | string | null;
+}
+
+// A component line for one kit sale: total quantity moved and its share of the line revenue
+export interface KitAllocation {
+  productId: number;
+  productName: string;
+  quantity: number;
+  unit?: string;
+  allocatedRevenue: number;
+}
+
+export type ProductLookup = Map<number, KitProduct>;
+
+export const isKit = (product: Pick<KitProduct, 'productType'> | null | undefined): boolean =>
+  product?.productType === 'kit';
+
+// Components may arrive as a JSON string from the API; keep valid ones, merging repeats
+export const normalizeKitComponents = (components: KitComponent[] | string | null | undefined): KitComponent[] => {
+  let parsed: unknown = components;
+  if (typeof components === 'string') {
+    try {
+      parsed = JSON.parse(components);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) return [];
+  const merged = new Map<number, number>();
+  parsed
+    .map((component: KitComponent) => ({ productId: Number(component?.productId), quantity: Number(component?.quantity) }))
+    .filter(component => component.productId > 0 && component.quantity > 0)
+    .forEach(component => merged.set(component.productId, (merged.get(component.productId) || 0) + component.quantity));
+  return [...merged].map(([productId, quantity]) => ({ productId, quantity }));
+};
+
+export const getKitError = (components: KitComponent[], kitId?: number | string, lookup?: ProductLookup): string | null => {
+  if (components.length === 0) return 'Add at least one component to the kit';
+  const ids = new Set<number>();
+  for (const component of components) {
+    if (!(component.productId > 0)) return 'Choose a product for every component';
+    if (!(component.quantity > 0)) return 'Component quantities must be greater than 0';
+    if (ids.has(component.productId)) return 'Each product can only be listed once';
+    if (kitId !== undefined && component.productId === Number(kitId)) return 'A kit cannot contain itself';
+    if (isKit(lookup?.get(component.productId))) return 'Kits cannot contain other kits';
+    ids.add(component.productId);
+  }
+  return null;
+};
+
+export const buildProductLookup = (products: KitProduct[]): ProductLookup =>
+  new Map(products.map(product => [Number(product.id), product]));
+
+// Whole kits that can be made from current component stock; a missing component means none.
+// `demand` sets aside stock already taken, per stocked product (see getStockDemand).
+export const getKitAvailability = (kit: KitProduct, lookup: ProductLookup, demand?: Map<number, number>): number => {
+  const components = normalizeKitComponents(kit.kitComponents);
+  if (components.length === 0) return 0;
+  return Math.min(...components.map(component => {
+    const stock = (Number(lookup.get(component.productId)?.stock) || 0) - (demand?.get(component.productId) || 0);
+    return Math.max(0, Math.floor(stock / component.quantity));
+  }));
+};
+
+export const getAvailableStock = (product: KitProduct, lookup: ProductLookup, demand?: Map<number, number>): number =>
+  isKit(product)
+    ? getKitAvailability(product, lookup, demand)
+    : Math.max(0, (Number(product.stock) || 0) - (demand?.get(Number(product.id)) || 0));
+
+// Stock taken by cart lines, per stocked product in base units; kit lines count against their components
+export const getStockDemand = (
+  lines: Array<{ productId: number; quantity: number; kitComponents?: KitComponent[] }>,
+  demand = new Map<number, number>()
+): Map<number, number> => {
+  lines.forEach(line => {
+    const parts = line.kitComponents?.length
+      ? line.kitComponents.map(component => ({ productId: component.productId, quantity: component.quantity * line.quantity }))
+      : [{ productId: line.productId, quantity: line.quantity }];
+    parts.forEach(part => demand.set(part.productId, (demand.get(part.productId) || 0) + part.quantity));
+  });
+  return demand;
+};
+
+// Catalogue value of one kit's components, for comparing against the bundle price
+export const getComponentsValue = (components: KitComponent[], lookup: ProductLookup): number =>
+  components.reduce((sum, component) => sum + (Number(lookup.get(component.productId)?.price) || 0) * component.quantity, 0);
+
+/**
+ * Split a kit line's revenue across its components in proportion to their catalogue value.
+ * Components without a price share by quantity instead; the last line absorbs rounding so the parts sum to the line.
+ */
+export const allocateKitRevenue = (
+  kit: KitProduct,
+  kitQuantity: number,
+  revenue: number,
+  lookup: ProductLookup
+): KitAllocation[] => {
+  const components = normalizeKitComponents(kit.kitComponents);
+  const totalValue = getComponentsValue(components, lookup);
+  const totalQuantity = components.reduce((sum, component) => sum + component.quantity, 0);
+  let remaining = Math.round(revenue * 100) / 100;
+
+  return components.map((component, index) => {
+    const product = lookup.get(component.productId);
+    const weight = totalValue > 0
+      ? ((Number(product?.price) || 0) * component.quantity) / totalValue
+      : component.quantity / totalQuantity;
+    const allocatedRevenue = index === components.length - 1
+      ? remaining
+      : Math.round(revenue * weight * 100) / 100;
+    remaining = Math.round((remaining - allocatedRevenue) * 100) / 100;
+    return {
+      productId: component.productId,
+      productName: product?.name || `Product ${component.productId}`,
+      quantity: Math.round(component.quantity * kitQuantity * 100) / 100,
+      unit: product?.unit,
+      allocatedRevenue
+    };
+  });
+};
+
+// Component revenue across recorded kit sales, for reporting what the bundles actually sold
+export interface KitComponentSales {
+  productId: number;
+  productName: string;
+  unit?: string;
+  quantity: number;
+  allocatedRevenue: number;
+  kitLines: number;
+}
+
+interface RecordedSale {
+  status?: string;
+  items?: Array<Record<string, unknown>> | string | null;
+}
+
+const parseJson = <T>(value: unknown): T | null => {
+  if (typeof value !== 'string') return (value as T) ?? null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+};
+
+export const summarizeKitComponentSales = (sales: RecordedSale[]): KitComponentSales[] => {
+  const rows = new Map<number, KitComponentSales>();
+  sales
+    .filter(sale => sale.status !== 'cancelled')
+    .forEach(sale => {
+      const items = parseJson<Array<Record<string, unknown>>>(sale.items) || [];
+      items.forEach(item => {
+        const components = parseJson<{ components?: KitAllocation[] }>(item.kit)?.components;
+        if (!Array.isArray(components)) return;
+        components.forEach(component => {
+          const productId = Number(component.productId);
+          if (!(productId > 0)) return;
+          const row = rows.get(productId) || {
+            productId,
+            productName: component.productName || `Product ${productId}`,
+            unit: component.unit,
+            quantity: 0,
+            allocatedRevenue: 0,
+            kitLines: 0
+          };
+          row.quantity = Math.round((row.quantity + (Number(component.quantity) || 0)) * 100) / 100;
+          row.allocatedRevenue = Math.round((row.allocatedRevenue + (Number(component.allocatedRevenue) || 0)) * 100) / 100;
+          row.kitLines += 1;
+          rows.set(productId, row);
+        });
+      });
+    });
+  return [...rows.values()].sort((a, b) => b.allocatedRevenue - a.allocatedRevenue);
+};
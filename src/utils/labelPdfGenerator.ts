@@ -0,0 +1,132 @@
+import jsPDF from 'jspdf';
+import { hasBarcode } from './barcode';
+import { encodeBarcode } from './barcodeEncoder';
+
+export type LabelLayoutId = 'a4-65' | 'a4-40' | 'a4-24' | 'a4-21' | 'thermal-50x25';
+
+export interface LabelLayout {
+  id: LabelLayoutId;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginLeft: number;
+  marginTop: number;
+  gapX: number;
+  gapY: number;
+}
+
+// Dimensions in mm for common sticker sheets and the thermal roll
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: 'a4-65', name: 'A4 - 65 per sheet (38.1 x 21.2mm)', pageWidth: 210, pageHeight: 297, columns: 5, rows: 13, labelWidth: 38.1, labelHeight: 21.2, marginLeft: 4.7, marginTop: 10.7, gapX: 2.5, gapY: 0 },
+  { id: 'a4-40', name: 'A4 - 40 per sheet (52.5 x 29.7mm)', pageWidth: 210, pageHeight: 297, columns: 4, rows: 10, labelWidth: 52.5, labelHeight: 29.7, marginLeft: 0, marginTop: 0, gapX: 0, gapY: 0 },
+  { id: 'a4-24', name: 'A4 - 24 per sheet (70 x 37mm)', pageWidth: 210, pageHeight: 297, columns: 3, rows: 8, labelWidth: 70, labelHeight: 37, marginLeft: 0, marginTop: 0.5, gapX: 0, gapY: 0 },
+  { id: 'a4-21', name: 'A4 - 21 per sheet (63.5 x 38.1mm)', pageWidth: 210, pageHeight: 297, columns: 3, rows: 7, labelWidth: 63.5, labelHeight: 38.1, marginLeft: 7.2, marginTop: 15.1, gapX: 2.5, gapY: 0 },
+  { id: 'thermal-50x25', name: 'Thermal roll - 50 x 25mm', pageWidth: 50, pageHeight: 25, columns: 1, rows: 1, labelWidth: 50, labelHeight: 25, marginLeft: 0, marginTop: 0, gapX: 0, gapY: 0 },
+];
+
+export const getLabelLayout = (id: LabelLayoutId): LabelLayout =>
+  LABEL_LAYOUTS.find(layout => layout.id === id) || LABEL_LAYOUTS[0];
+
+export const getLabelsPerPage = (layout: LabelLayout): number => layout.columns * layout.rows;
+
+export interface LabelProduct {
+  name: string;
+  price: number;
+  unit?: string;
+  sku: string;
+  barcode?: string;
+  copies: number;
+}
+
+interface LabelOptions {
+  layoutId: LabelLayoutId;
+  startPosition?: number; // 1-based slot on the first sheet, for partly used sheets
+  showPrice?: boolean;
+}
+
+const drawBarcode = (doc: jsPDF, modules: string, x: number, y: number, width: number, height: number) => {
+  const quietZone = 10;
+  const moduleWidth = width / (modules.length + quietZone * 2);
+  let runStart = -1;
+  for (let i = 0; i <= modules.length; i++) {
+    if (modules[i] === '1') {
+      if (runStart < 0) runStart = i;
+    } else if (runStart >= 0) {
+      doc.rect(x + (quietZone + runStart) * moduleWidth, y, (i - runStart) * moduleWidth, height, 'F');
+      runStart = -1;
+    }
+  }
+};
+
+const drawLabel = (doc: jsPDF, product: LabelProduct, x: number, y: number, layout: LabelLayout, showPrice: boolean) => {
+  const padding = Math.min(2, layout.labelHeight * 0.08);
+  const innerWidth = layout.labelWidth - padding * 2;
+  const scale = layout.labelHeight / 25;
+  let cursorY = y + padding;
+
+  // Name, up to two lines
+  const nameSize = Math.max(6, Math.min(9, 7 * scale));
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(nameSize);
+  const nameLines = doc.splitTextToSize(product.name, innerWidth).slice(0, 2);
+  nameLines.forEach((line: string) => {
+    cursorY += nameSize * 0.36;
+    doc.text(line, x + padding, cursorY);
+  });
+
+  if (showPrice) {
+    const priceSize = Math.max(7, Math.min(12, 9 * scale));
+    doc.setFontSize(priceSize);
+    cursorY += priceSize * 0.4;
+    const priceText = `Rs. ${product.price.toLocaleString()}${product.unit ? ` / ${product.unit}` : ''}`;
+    doc.text(priceText, x + padding, cursorY);
+  }
+
+  // Barcode fills the rest, with its human-readable code underneath
+  const code = hasBarcode(product.barcode) ? product.barcode : product.sku;
+  const encoded = code ? encodeBarcode(code) : null;
+  if (!encoded) return;
+
+  const textSize = Math.max(5, Math.min(7, 5.5 * scale));
+  const bottom = y + layout.labelHeight - padding;
+  const barsTop = cursorY + 1;
+  const barsHeight = bottom - barsTop - textSize * 0.4;
+  if (barsHeight < 3) return;
+
+  doc.setFillColor(0, 0, 0);
+  drawBarcode(doc, encoded.modules, x + padding, barsTop, innerWidth, barsHeight);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(textSize);
+  doc.text(encoded.text, x + layout.labelWidth / 2, bottom, { align: 'center' });
+};
+
+export const generateLabelsPDF = (products: LabelProduct[], options: LabelOptions) => {
+  const layout = getLabelLayout(options.layoutId);
+  const perPage = getLabelsPerPage(layout);
+  const showPrice = options.showPrice !== false;
+  const orientation = layout.pageWidth > layout.pageHeight ? 'l' : 'p';
+  const doc = new jsPDF(orientation, 'mm', [layout.pageWidth, layout.pageHeight]);
+
+  const labels = products.flatMap(product => Array.from({ length: Math.max(0, product.copies) }, () => product));
+  let slot = Math.min(Math.max((options.startPosition || 1) - 1, 0), perPage - 1);
+
+  labels.forEach((product, index) => {
+    if (index > 0 && slot === 0) {
+      doc.addPage([layout.pageWidth, layout.pageHeight], orientation);
+    }
+    const column = slot % layout.columns;
+    const row = Math.floor(slot / layout.columns);
+    const x = layout.marginLeft + column * (layout.labelWidth + layout.gapX);
+    const y = layout.marginTop + row * (layout.labelHeight + layout.gapY);
+    drawLabel(doc, product, x, y, layout, showPrice);
+    slot = (slot + 1) % perPage;
+  });
+
+  const filename = `shelf-labels-${new Date().toISOString().split('T')[0]}.pdf`;
+  doc.save(filename);
+  return labels.length;
+};
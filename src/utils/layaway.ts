@@ -0,0 +1,126 @@
+// Layaway / advance orders: a deposit reserves the items, installments follow a schedule,
+// and the goods leave the shop on final pickup once the balance is cleared.
+
+import type { Layaway, LayawayInstallment, LayawayPayment } from '@/services/layawayApi';
+import { TENDER_METHODS, TenderMethod, roundCurrency } from './paymentTenders';
+
+// Sale status used while the order is reserved and being paid off
+export const LAYAWAY_SALE_STATUS = 'layaway';
+
+export interface LayawayPlan {
+  deposit: number;
+  method: TenderMethod;
+  schedule: LayawayInstallment[];
+  pickupDate?: string;
+  notes?: string;
+}
+
+export interface InstallmentReceipt {
+  receiptNumber: string;
+  orderNumber: string;
+  customerName: string;
+  date: string;
+  amount: number;
+  method: TenderMethod;
+  isDeposit: boolean;
+  total: number;
+  paidToDate: number;
+  balance: number;
+  nextDue?: LayawayInstallment;
+  pickupDate?: string | null;
+  reservedItems?: Array<{ productName: string; quantity: number }>; // listed on the deposit receipt
+}
+
+export type InstallmentState = 'paid' | 'partial' | 'due' | 'overdue';
+
+export interface InstallmentRow extends LayawayInstallment {
+  number: number;
+  paid: number;
+  state: InstallmentState;
+}
+
+// Deposits and installments are taken in money; putting them on account would defeat the schedule
+export const LAYAWAY_PAYMENT_METHODS = TENDER_METHODS.filter(method => method !== 'credit');
+
+export const LAYAWAY_INTERVALS = [
+  { value: '7', label: 'Weekly' },
+  { value: '14', label: 'Every 2 weeks' },
+  { value: '30', label: 'Monthly' },
+];
+
+export const LAYAWAY_STATUS_LABELS: Record<Layaway['status'], string> = {
+  active: 'Paying',
+  paid: 'Paid, awaiting pickup',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+// Even installments every `intervalDays` from `start`; the last one absorbs rounding
+export const buildInstallmentSchedule = (
+  balance: number,
+  count: number,
+  intervalDays: number,
+  start: Date = new Date()
+): LayawayInstallment[] => {
+  if (!(balance > 0) || !(count > 0)) return [];
+  const each = Math.floor((balance / count) * 100) / 100;
+  return Array.from({ length: count }, (_, index) => {
+    const due = new Date(start);
+    due.setDate(due.getDate() + intervalDays * (index + 1));
+    return {
+      due_date: toDateString(due),
+      amount: index === count - 1 ? roundCurrency(balance - each * (count - 1)) : each,
+    };
+  });
+};
+
+export const getDepositError = (deposit: number, total: number): string | null => {
+  if (!(deposit > 0)) return 'Enter the deposit received';
+  if (deposit > total) return 'The deposit cannot be more than the order total';
+  return null;
+};
+
+export const getPaymentError = (amount: number, balance: number): string | null => {
+  if (!(amount > 0)) return 'Enter the amount received';
+  if (amount > balance) return `Only PKR ${balance.toLocaleString()} is left to pay`;
+  return null;
+};
+
+// Installment payments (everything after the deposit) are applied to the schedule in due-date order
+export const getInstallmentRows = (
+  schedule: LayawayInstallment[],
+  payments: LayawayPayment[],
+  today: string = toDateString(new Date())
+): InstallmentRow[] => {
+  let remaining = payments
+    .filter(payment => !payment.is_deposit)
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  return [...schedule]
+    .sort((a, b) => a.due_date.localeCompare(b.due_date))
+    .map((installment, index) => {
+      const amount = Number(installment.amount);
+      const paid = roundCurrency(Math.min(amount, Math.max(0, remaining)));
+      remaining = roundCurrency(remaining - paid);
+      const state: InstallmentState = paid >= amount
+        ? 'paid'
+        : installment.due_date < today
+        ? 'overdue'
+        : paid > 0
+        ? 'partial'
+        : 'due';
+      return { ...installment, amount, number: index + 1, paid, state };
+    });
+};
+
+export const getNextInstallment = (rows: InstallmentRow[]): InstallmentRow | undefined =>
+  rows.find(row => row.state !== 'paid');
+
+// Receipt numbers run on from the order number: the deposit is P0, then P1, P2...
+export const getInstallmentReceiptNumber = (orderNumber: string, paymentCount: number): string =>
+  `${orderNumber}-P${paymentCount}`;
+
+export const getInstallmentReceiptTitle = (receipt: InstallmentReceipt) =>
+  receipt.isDeposit ? 'LAYAWAY DEPOSIT RECEIPT' : 'INSTALLMENT RECEIPT';
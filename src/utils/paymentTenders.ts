@@ -0,0 +1,105 @@
+// Helpers for split-tender (multi-payment) checkout at the POS
+
+export type TenderMethod = 'cash' | 'card' | 'bank_transfer' | 'credit' | 'store_credit';
+
+export interface PaymentTender {
+  method: TenderMethod;
+  amount: number;
+}
+
+// Ledger bucket each tender settles into; store credit draws down notes already issued
+export type TenderAccountType = 'cash' | 'bank' | 'receivable' | 'store_credit';
+
+// Methods offered in the payment pickers; store credit is only added by redeeming a credit note
+export const TENDER_METHODS: TenderMethod[] = ['cash', 'card', 'bank_transfer', 'credit'];
+
+export const TENDER_METHOD_LABELS: Record<TenderMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+  credit: 'Credit',
+  store_credit: 'Store Credit',
+};
+
+// Round to 2 decimal places to match database precision
+export const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+export const getTenderAccountType = (method: TenderMethod): TenderAccountType => {
+  switch (method) {
+    case 'cash':
+      return 'cash';
+    case 'card':
+    case 'bank_transfer':
+      return 'bank';
+    case 'credit':
+      return 'receivable';
+    case 'store_credit':
+      return 'store_credit';
+  }
+};
+
+export const getTenderedTotal = (tenders: PaymentTender[]): number =>
+  roundCurrency(tenders.reduce((sum, tender) => sum + (tender.amount || 0), 0));
+
+// Positive when the tenders fall short of the total, negative when they exceed it
+export const getTenderBalance = (tenders: PaymentTender[], total: number): number =>
+  roundCurrency(total - getTenderedTotal(tenders));
+
+// Combine tenders of the same method and drop empty rows
+export const mergeTenders = (tenders: PaymentTender[]): PaymentTender[] => {
+  const merged: PaymentTender[] = [];
+  tenders.forEach((tender) => {
+    if (!tender.amount || tender.amount <= 0) return;
+    const existing = merged.find((t) => t.method === tender.method);
+    if (existing) {
+      existing.amount = roundCurrency(existing.amount + tender.amount);
+    } else {
+      merged.push({ method: tender.method, amount: roundCurrency(tender.amount) });
+    }
+  });
+  return merged;
+};
+
+// Value stored in the sale's paymentMethod column
+export const getPaymentMethodLabel = (tenders: PaymentTender[]): string => {
+  if (tenders.length === 0) return 'cash';
+  if (tenders.length === 1) return tenders[0].method;
+  return 'split';
+};
+
+export const getTenderAmount = (tenders: PaymentTender[], method: TenderMethod): number =>
+  roundCurrency(tenders.filter((t) => t.method === method).reduce((sum, t) => sum + t.amount, 0));
+
+export const groupTendersByAccountType = (tenders: PaymentTender[]): Record<TenderAccountType, number> => {
+  const totals: Record<TenderAccountType, number> = { cash: 0, bank: 0, receivable: 0, store_credit: 0 };
+  tenders.forEach((tender) => {
+    const accountType = getTenderAccountType(tender.method);
+    totals[accountType] = roundCurrency(totals[accountType] + tender.amount);
+  });
+  return totals;
+};
+
+// Banknotes offered as quick keys on the cash tender pad
+export const CASH_QUICK_NOTES = [5000, 1000, 500, 100, 50, 20, 10];
+
+// Cash the customer hands over against the cash part of the sale
+export interface CashTender {
+  tendered: number;
+  change: number;
+}
+
+// An empty tender field means the customer paid the exact amount
+export const getCashTender = (tenderedInput: string, cashDue: number): CashTender => {
+  const tendered = tenderedInput.trim() === '' ? cashDue : roundCurrency(parseFloat(tenderedInput) || 0);
+  return { tendered, change: roundCurrency(tendered - cashDue) };
+};
+
+// Round amounts a customer is likely to hand over for this total, smallest first
+export const getSuggestedCashAmounts = (cashDue: number, limit = 3): number[] => {
+  const suggestions = new Set<number>();
+  [100, 500, 1000, 5000].forEach(step => {
+    const rounded = Math.ceil(cashDue / step) * step;
+    if (rounded > cashDue) suggestions.add(rounded);
+  });
+  return Array.from(suggestions).sort((a, b) => a - b).slice(0, limit);
+};
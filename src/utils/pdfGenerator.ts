@@ -16,6 +16,8 @@ interface QuotationData {
   items: QuotationItem[];
   subtotal: number;
   discount: number;
+  tax?: number;
+  taxInclusive?: boolean;
   total: number;
   notes?: string;
   createdBy: string;
@@ -68,6 +70,11 @@ export const generateQuotationPDF = (quotation: QuotationData) => {
     doc.text(`Discount: Rs. ${quotation.discount.toLocaleString()}`, 120, yPos);
     yPos += 10;
   }
+  if (quotation.tax && quotation.tax > 0) {
+    const taxLabel = quotation.taxInclusive ? 'Sales Tax (incl.)' : 'Sales Tax';
+    doc.text(`${taxLabel}: Rs. ${quotation.tax.toLocaleString()}`, 120, yPos);
+    yPos += 10;
+  }
   doc.setFontSize(12);
   doc.text(`Total: Rs. ${quotation.total.toLocaleString()}`, 120, yPos);
   
@@ -2,6 +2,8 @@
 // Default PIN is only used if no custom PIN has been set
 export const DEFAULT_PIN = "2269188";
 const PIN_HASH_KEY = "app_pin_hash";
+// Approves overrides at the till (credit limit, below-cost prices); has no default
+const MANAGER_PIN_HASH_KEY = "manager_pin_hash";
 
 async function sha256Hex(input: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -37,3 +39,21 @@ export async function changePin(oldPin: string, newPin: string): Promise<boolean
 export function clearStoredPin(): void {
   localStorage.removeItem(PIN_HASH_KEY);
 }
+
+export function hasManagerPin(): boolean {
+  return !!localStorage.getItem(MANAGER_PIN_HASH_KEY);
+}
+
+// Never falls back to the app PIN: with no manager PIN set, nothing can be approved
+export async function verifyManagerPin(input: string): Promise<boolean> {
+  const stored = localStorage.getItem(MANAGER_PIN_HASH_KEY);
+  if (!stored || !input) return false;
+  return stored === (await sha256Hex(input));
+}
+
+// The manager PIN must differ from the unlock PIN every cashier knows
+export async function setManagerPin(newPin: string): Promise<boolean> {
+  if (await verifyPin(newPin)) return false;
+  localStorage.setItem(MANAGER_PIN_HASH_KEY, await sha256Hex(newPin));
+  return true;
+}
@@ -0,0 +1,91 @@
+// Keyboard-first POS: palette query parsing, fuzzy product search and the shortcut list
+
+export interface QuantityQuery {
+  quantity: number | null; // null when no quantity was typed
+  term: string;
+}
+
+export interface SearchableProduct {
+  name: string;
+  sku?: string;
+  barcode?: string;
+  category?: string;
+}
+
+export interface PosShortcut {
+  keys: string[];
+  label: string;
+}
+
+const LEADING_QUANTITY = /^(\d+(?:\.\d{1,2})?)\s+(.+)$/;
+const TRAILING_QUANTITY = /^(.+?)\s*[x*]\s*(\d+(?:\.\d{1,2})?)$/i;
+
+// A number followed by one of these is a size ("3 inch hinge"), not a quantity
+export const SIZE_WORDS = new Set(['inch', 'inches', 'in', 'mm', 'cm', 'sutar', 'suter', 'sooter', 'gauge', 'انچ', 'سوتر']);
+
+// "12 hinge 3in" or "hinge 3in x12": the quantity must stand apart so sizes like "3in" stay in the search
+export const parseQuantityQuery = (input: string): QuantityQuery => {
+  const value = input.trim().replace(/\s+/g, ' ');
+  const leading = value.match(LEADING_QUANTITY);
+  if (leading && !SIZE_WORDS.has(leading[2].split(' ')[0].toLowerCase())) {
+    return { quantity: parseFloat(leading[1]), term: leading[2] };
+  }
+  const trailing = value.match(TRAILING_QUANTITY);
+  if (trailing) return { quantity: parseFloat(trailing[2]), term: trailing[1] };
+  return { quantity: null, term: value };
+};
+
+const isSubsequence = (needle: string, haystack: string): boolean => {
+  let index = 0;
+  for (const char of haystack) {
+    if (char === needle[index]) index++;
+    if (index === needle.length) return true;
+  }
+  return false;
+};
+
+// Every word typed has to appear in the text, whole or with letters skipped ("hng" finds "hinge")
+export const fuzzyScore = (text: string, query: string): number => {
+  const haystack = text.toLowerCase();
+  const words = haystack.split(/[\s\-_/,()]+/);
+  let score = 0;
+  for (const token of query.toLowerCase().split(' ').filter(Boolean)) {
+    if (words.includes(token)) score += 3;
+    else if (words.some(word => word.startsWith(token))) score += 2;
+    else if (haystack.includes(token)) score += 1;
+    else if (words.some(word => isSubsequence(token, word))) score += 0.5;
+    else return 0;
+  }
+  return score;
+};
+
+export const searchProducts = <T extends SearchableProduct>(products: T[], term: string, limit = 8): T[] => {
+  const query = term.trim();
+  if (!query) return [];
+  const upper = query.toUpperCase();
+  return products
+    .map(product => {
+      // An exact code beats any name match
+      const exactCode = product.sku?.toUpperCase() === upper || product.barcode === query;
+      const score = exactCode ? 100 : fuzzyScore(`${product.name} ${product.sku || ''} ${product.category || ''}`, query);
+      return { product, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.product.name.length - b.product.name.length)
+    .slice(0, limit)
+    .map(result => result.product);
+};
+
+export const POS_SHORTCUTS: PosShortcut[] = [
+  { keys: ['Ctrl', 'K'], label: 'Open the command palette' },
+  { keys: ['F2'], label: 'Open the command palette' },
+  { keys: ['12 hinge 3in'], label: 'In the palette: add 12 of the best match' },
+  { keys: ['@name'], label: 'In the palette: pick a customer' },
+  { keys: ['F3'], label: 'Select customer' },
+  { keys: ['F4'], label: 'Next payment method' },
+  { keys: ['F6'], label: 'Edit a cart price' },
+  { keys: ['F8'], label: 'Hold the cart' },
+  { keys: ['F9'], label: 'Complete sale' },
+  { keys: ['Ctrl', 'Enter'], label: 'Complete sale' },
+  { keys: ['F1'], label: 'Show these shortcuts' },
+];
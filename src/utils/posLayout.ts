@@ -0,0 +1,116 @@
+// POS screen layout kept on the server: quick-key (pinned) products, favourite categories and the
+// product grid. A cashier's own layout follows them to any counter; otherwise each counter has its
+// own, and the standard layout pushed from the admin screen replaces anything saved before the push.
+
+import type { SettingsData } from '@/services/settingsApi';
+
+export interface PosLayout {
+  pinnedProducts: number[];
+  favouriteCategories: string[];
+  productsLayout: number; // 1 is the slim list, 2-7 grid columns
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface StandardPosLayout extends PosLayout {
+  pushedAt?: string; // layouts saved before this are replaced by the standard
+}
+
+export type PosLayoutSource = 'user' | 'terminal' | 'standard' | 'default';
+
+export const POS_LAYOUT_SOURCE_LABELS: Record<PosLayoutSource, string> = {
+  user: 'Your layout',
+  terminal: 'This counter\'s layout',
+  standard: 'Standard quick keys',
+  default: 'Not saved yet',
+};
+
+export interface ResolvedPosLayout {
+  layout: PosLayout;
+  source: PosLayoutSource;
+}
+
+type LayoutStore = Partial<Pick<SettingsData['store'], 'posLayouts' | 'standardPosLayout'>> | undefined;
+
+export const MIN_PRODUCTS_LAYOUT = 1;
+export const MAX_PRODUCTS_LAYOUT = 7;
+
+export const DEFAULT_POS_LAYOUT: PosLayout = {
+  pinnedProducts: [],
+  favouriteCategories: [],
+  productsLayout: 1,
+};
+
+// Layouts saved by earlier versions on this browser only
+const LEGACY_PINNED_KEY = 'pinnedProducts';
+const LEGACY_LAYOUT_KEY = 'salesLayoutPreference';
+
+export const getUserScope = (user: string) => `user:${user.trim().toLowerCase()}`;
+export const getTerminalScope = (terminal: string) => `terminal:${terminal}`;
+
+export const getScopeLabel = (scope: string) => {
+  const [kind, ...rest] = scope.split(':');
+  const name = rest.join(':');
+  return kind === 'user' ? `Cashier ${name}` : kind === 'terminal' ? `Counter ${name}` : scope;
+};
+
+const clampLayout = (value: unknown): number => {
+  const layout = Math.round(Number(value));
+  return layout >= MIN_PRODUCTS_LAYOUT && layout <= MAX_PRODUCTS_LAYOUT ? layout : DEFAULT_POS_LAYOUT.productsLayout;
+};
+
+export const normalizePosLayout = <T extends PosLayout>(layout: Partial<T> | null | undefined): T => ({
+  ...layout,
+  pinnedProducts: Array.isArray(layout?.pinnedProducts)
+    ? [...new Set(layout.pinnedProducts.map(Number).filter(id => id > 0))]
+    : [],
+  favouriteCategories: Array.isArray(layout?.favouriteCategories)
+    ? [...new Set(layout.favouriteCategories.filter(category => typeof category === 'string' && category))]
+    : [],
+  productsLayout: clampLayout(layout?.productsLayout),
+} as T);
+
+const isReplacedByStandard = (layout: PosLayout, standard?: StandardPosLayout) =>
+  !!standard?.pushedAt && (!layout.updatedAt || layout.updatedAt < standard.pushedAt);
+
+// First saved layout in scope order that is newer than the last push, else the standard
+export const resolvePosLayout = (store: LayoutStore, scopes: string[]): ResolvedPosLayout => {
+  const standard = store?.standardPosLayout ? normalizePosLayout<StandardPosLayout>(store.standardPosLayout) : undefined;
+  for (const scope of scopes) {
+    const saved = store?.posLayouts?.[scope];
+    if (saved && !isReplacedByStandard(saved, standard)) {
+      return { layout: normalizePosLayout(saved), source: scope.startsWith('user:') ? 'user' : 'terminal' };
+    }
+  }
+  if (standard) return { layout: standard, source: 'standard' };
+  return { layout: DEFAULT_POS_LAYOUT, source: 'default' };
+};
+
+export const getLayoutState = (layout: PosLayout, standard?: StandardPosLayout) =>
+  isReplacedByStandard(layout, standard) ? 'Replaced by standard' : 'Own layout';
+
+// Pins and grid size saved in this browser before layouts moved to the server, or null when there are none
+export const getLegacyPosLayout = (): PosLayout | null => {
+  const pinned = localStorage.getItem(LEGACY_PINNED_KEY);
+  const grid = localStorage.getItem(LEGACY_LAYOUT_KEY);
+  if (!pinned && !grid) return null;
+  try {
+    return normalizePosLayout({ pinnedProducts: pinned ? JSON.parse(pinned) : [], productsLayout: grid ? parseInt(grid) : undefined });
+  } catch {
+    return null;
+  }
+};
+
+// The last layout used here doubles as the offline copy when the server cannot be reached
+export const cachePosLayout = (layout: PosLayout) => {
+  localStorage.setItem(LEGACY_PINNED_KEY, JSON.stringify(layout.pinnedProducts));
+  localStorage.setItem(LEGACY_LAYOUT_KEY, layout.productsLayout.toString());
+};
+
+// Favourite categories first, in the order they were picked, then the rest as they were
+export const sortCategoriesByFavourite = (categories: string[], favourites: string[]): string[] => [
+  ...favourites.filter(category => categories.includes(category)),
+  ...categories.filter(category => !favourites.includes(category)),
+];
+
+export const getProductsLayoutLabel = (layout: number) => (layout === 1 ? 'Slim' : `${layout} columns`);
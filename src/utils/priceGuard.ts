@@ -0,0 +1,87 @@
+// Price override guard: a cashier can negotiate a line price or give a discount, but not below
+// cost or below the store's minimum margin without a manager PIN.
+
+import type { SettingsData } from '@/services/settingsApi';
+import { roundCurrency } from './paymentTenders';
+import { Discount, DiscountableLine, getCartTotals, getLineNetTotal } from './discounts';
+
+export interface PriceGuardSettings {
+  minimumMarginPercent: number; // gross margin on the selling price; 0 only blocks sales below cost
+}
+
+export interface PriceCheck {
+  productId: number;
+  productName: string;
+  unit?: string;
+  costPrice: number; // per selling unit
+  oldPrice: number;
+  newPrice: number;
+  minimumPrice: number;
+  marginPercent: number; // margin at the new price
+  belowCost: boolean;
+  requiresApproval: boolean;
+}
+
+export const getPriceGuardSettings = (store?: Partial<SettingsData['store']> | null): PriceGuardSettings => ({
+  minimumMarginPercent: Math.min(99, Math.max(0, Number(store?.minimumMarginPercent) || 0)),
+});
+
+// Margin on the selling price, e.g. cost 80 sold at 100 is a 20% margin
+export const getMarginPercent = (price: number, cost: number): number =>
+  price > 0 ? roundCurrency(((price - cost) / price) * 100) : 0;
+
+// Lowest price that still earns the minimum margin on this cost
+export const getMinimumPrice = (cost: number, settings: PriceGuardSettings): number =>
+  roundCurrency(cost / (1 - settings.minimumMarginPercent / 100));
+
+// Cost of one selling unit: outsourced lines use the supplier's price, kits add up their parts
+export const getUnitCost = (
+  line: {
+    productId: number;
+    conversionFactor?: number;
+    isOutsourced?: boolean;
+    outsourcingCostPerUnit?: number;
+    kitComponents?: Array<{ productId: number; quantity: number }>;
+  },
+  getCostPrice: (productId: number) => number
+): number => {
+  if (line.isOutsourced && line.outsourcingCostPerUnit) return Number(line.outsourcingCostPerUnit);
+  if (line.kitComponents && line.kitComponents.length > 0) {
+    return roundCurrency(line.kitComponents.reduce(
+      (sum, component) => sum + getCostPrice(component.productId) * component.quantity,
+      0
+    ));
+  }
+  return roundCurrency(getCostPrice(line.productId) * (line.conversionFactor || 1));
+};
+
+// Products without a cost price on file cannot be checked and are let through
+export const getPriceCheck = (
+  line: { productId: number; productName: string; unit?: string; oldPrice: number; newPrice: number; costPrice: number },
+  settings: PriceGuardSettings
+): PriceCheck => {
+  const minimumPrice = line.costPrice > 0 ? getMinimumPrice(line.costPrice, settings) : 0;
+  const belowCost = line.costPrice > 0 && line.newPrice < line.costPrice;
+  return {
+    ...line,
+    minimumPrice,
+    marginPercent: getMarginPercent(line.newPrice, line.costPrice),
+    belowCost,
+    requiresApproval: line.costPrice > 0 && line.newPrice < minimumPrice,
+  };
+};
+
+// What each unit really sells for: the line discount and the line's share of the cart discount
+// come off, the cart discount split in proportion to line totals as at checkout
+export const getNetUnitPrices = <T extends DiscountableLine & { productId: number }>(
+  lines: T[],
+  cartDiscount?: Discount | null
+): Map<number, number> => {
+  const totals = getCartTotals(lines, cartDiscount);
+  const base = totals.subtotal - totals.lineDiscountTotal;
+  return new Map(lines.map(line => {
+    const net = getLineNetTotal(line);
+    const share = base > 0 ? (totals.cartDiscountAmount * net) / base : 0;
+    return [line.productId, line.quantity > 0 ? roundCurrency((net - share) / line.quantity) : 0];
+  }));
+};
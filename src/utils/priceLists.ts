@@ -0,0 +1,95 @@
+// Customer-type price lists with per-customer overrides.
+// A price resolves customer override -> price list product price -> price list discount -> list price.
+
+import { CustomerType, customerTypes } from '@/data/storeData';
+
+export interface PriceListRule {
+  discountPercent: number; // off the list price for every product without its own price
+  productPrices: Record<string, number>;
+}
+
+export type PriceLists = Partial<Record<CustomerType, PriceListRule>>;
+
+export type PriceSource = 'list' | 'price_list' | 'customer_override';
+
+export interface ResolvedPrice {
+  price: number;
+  listPrice: number;
+  source: PriceSource;
+  label: string;
+}
+
+export interface PricedCustomer {
+  priceType?: CustomerType | string | null;
+  priceOverrides?: Record<string, number> | null;
+}
+
+interface PricedProduct {
+  id: number | string;
+  price: number;
+  listPrice?: number; // set once a product has been priced for a customer
+}
+
+export const EMPTY_PRICE_LISTS: PriceLists = {};
+
+// Types that get their own price list; walk-ins always pay the list price
+export const PRICE_LIST_TYPES = customerTypes
+  .map(type => type.value as CustomerType)
+  .filter(type => type !== 'walk-in');
+
+export const getPriceListLabel = (type: CustomerType | string): string =>
+  customerTypes.find(option => option.value === type)?.label || type;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const resolveCustomerPrice = (
+  product: PricedProduct,
+  customer: PricedCustomer | null | undefined,
+  priceLists: PriceLists
+): ResolvedPrice => {
+  const listPrice = Number(product.listPrice ?? product.price) || 0;
+  const productKey = String(product.id);
+  const base: ResolvedPrice = { price: listPrice, listPrice, source: 'list', label: 'List price' };
+  if (!customer) return base;
+
+  const override = customer.priceOverrides?.[productKey];
+  if (override !== undefined && override !== null && Number(override) > 0) {
+    return { price: round2(Number(override)), listPrice, source: 'customer_override', label: 'Customer price' };
+  }
+
+  const type = customer.priceType as CustomerType | undefined;
+  const rule = type ? priceLists[type] : undefined;
+  if (!rule) return base;
+
+  const listProductPrice = rule.productPrices?.[productKey];
+  if (listProductPrice !== undefined && Number(listProductPrice) > 0) {
+    return { price: round2(Number(listProductPrice)), listPrice, source: 'price_list', label: getPriceListLabel(type) };
+  }
+
+  const discountPercent = Number(rule.discountPercent) || 0;
+  if (discountPercent > 0) {
+    return {
+      price: round2(listPrice * (1 - Math.min(discountPercent, 100) / 100)),
+      listPrice,
+      source: 'price_list',
+      label: `${getPriceListLabel(type)} (-${discountPercent}%)`,
+    };
+  }
+
+  return base;
+};
+
+// Product copy carrying the customer's price, keeping the catalogue price as listPrice
+export const applyCustomerPrice = <T extends PricedProduct>(
+  product: T,
+  customer: PricedCustomer | null | undefined,
+  priceLists: PriceLists
+): T & { listPrice: number; priceListLabel?: string } => {
+  const resolved = resolveCustomerPrice(product, customer, priceLists);
+  return {
+    ...product,
+    price: resolved.price,
+    listPrice: resolved.listPrice,
+    priceListLabel: resolved.source === 'list' ? undefined : resolved.label,
+  };
+};
@@ -0,0 +1,88 @@
+// A regular customer's history at the till: the price each product last went at, and their
+// last order so it can be rung up again.
+
+export interface HistoryLine {
+  productId: number;
+  productName: string;
+  quantity: number; // base units
+  unitPrice: number; // per base unit
+  saleUnit?: string;
+  saleQuantity?: number;
+  saleUnitPrice?: number;
+  conversionFactor?: number;
+}
+
+export interface HistorySale {
+  id: number;
+  orderNumber: string;
+  date: string;
+  createdAt?: string;
+  status: string;
+  items: HistoryLine[];
+}
+
+export interface LastSoldPrice {
+  productId: number;
+  basePrice: number; // per base unit
+  unit?: string; // sale unit when it was not sold in the base unit
+  unitPrice?: number; // price in that sale unit
+  date: string;
+  orderNumber: string;
+}
+
+export interface ReorderLine {
+  productId: number;
+  productName: string;
+  quantity: number;
+  unit?: string;
+}
+
+// How many of the customer's latest orders are looked through
+export const HISTORY_ORDER_LIMIT = 50;
+
+// Cancelled orders never happened as far as prices go
+const isCountedSale = (sale: HistorySale) => sale.status !== 'cancelled' && Array.isArray(sale.items) && sale.items.length > 0;
+
+const saleTime = (sale: HistorySale) => new Date(sale.createdAt || sale.date).getTime() || 0;
+
+export const sortSalesNewestFirst = (sales: HistorySale[]): HistorySale[] =>
+  sales.filter(isCountedSale).sort((a, b) => saleTime(b) - saleTime(a));
+
+// Latest price per product across the orders, newest order first
+export const getLastSoldPrices = (sales: HistorySale[]): Record<number, LastSoldPrice> => {
+  const prices: Record<number, LastSoldPrice> = {};
+  sortSalesNewestFirst(sales).forEach(sale => {
+    sale.items.forEach(item => {
+      if (prices[item.productId] || !(Number(item.unitPrice) > 0)) return;
+      prices[item.productId] = {
+        productId: item.productId,
+        basePrice: Number(item.unitPrice),
+        unit: item.saleUnit,
+        unitPrice: item.saleUnitPrice !== undefined ? Number(item.saleUnitPrice) : undefined,
+        date: sale.createdAt || sale.date,
+        orderNumber: sale.orderNumber,
+      };
+    });
+  });
+  return prices;
+};
+
+// The last price in the unit the cart line is sold in
+export const getLastSoldLinePrice = (lastSold: LastSoldPrice, line: { unit: string; conversionFactor?: number }): number => {
+  if (lastSold.unit && lastSold.unit === line.unit && lastSold.unitPrice !== undefined) return lastSold.unitPrice;
+  return Math.round(lastSold.basePrice * (line.conversionFactor || 1) * 100) / 100;
+};
+
+export const getLastOrder = (sales: HistorySale[]): HistorySale | null => sortSalesNewestFirst(sales)[0] || null;
+
+// Lines to rebuild the cart with, in the units they were sold in
+export const getReorderLines = (sale: HistorySale): ReorderLine[] =>
+  sale.items.map(item => ({
+    productId: item.productId,
+    productName: item.productName,
+    quantity: item.saleUnit && item.saleQuantity ? Number(item.saleQuantity) : Number(item.quantity),
+    unit: item.saleUnit || undefined,
+  }));
+
+export const formatHistoryDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
@@ -0,0 +1,81 @@
+// Quantity-break pricing: lower unit rates once a line reaches a tier's minimum quantity.
+// Tiers sit on top of the customer's price list; the line always gets the lower of the two.
+
+import { PriceLists, PricedCustomer, ResolvedPrice, resolveCustomerPrice } from './priceLists';
+
+export interface PriceTier {
+  minQuantity: number;
+  price: number;
+}
+
+export interface TieredProduct {
+  id: number | string;
+  price: number;
+  listPrice?: number;
+  priceTiers?: PriceTier[] | string | null;
+}
+
+export interface TieredPrice extends ResolvedPrice {
+  tier: PriceTier | null;
+  tierLabel?: string;
+}
+
+// Tiers may arrive as a JSON string from the API; keep valid ones sorted by quantity
+export const normalizePriceTiers = (tiers: PriceTier[] | string | null | undefined): PriceTier[] => {
+  let parsed: unknown = tiers;
+  if (typeof tiers === 'string') {
+    try {
+      parsed = JSON.parse(tiers);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed
+    .map((tier: PriceTier) => ({ minQuantity: Number(tier?.minQuantity), price: Number(tier?.price) }))
+    .filter(tier => tier.minQuantity > 1 && tier.price > 0)
+    .sort((a, b) => a.minQuantity - b.minQuantity);
+};
+
+export const getTierError = (tiers: PriceTier[]): string | null => {
+  const quantities = new Set<number>();
+  for (const tier of tiers) {
+    if (!(tier.minQuantity > 1)) return 'Tier quantities must be greater than 1';
+    if (!(tier.price > 0)) return 'Tier prices must be greater than 0';
+    if (quantities.has(tier.minQuantity)) return `Duplicate tier for ${tier.minQuantity}`;
+    quantities.add(tier.minQuantity);
+  }
+  return null;
+};
+
+export const getTierForQuantity = (
+  tiers: PriceTier[] | string | null | undefined,
+  quantity: number
+): PriceTier | null => {
+  const eligible = normalizePriceTiers(tiers).filter(tier => quantity >= tier.minQuantity);
+  return eligible.length > 0 ? eligible[eligible.length - 1] : null;
+};
+
+// "50-199" or "200+" for a tier, based on where the next tier starts
+export const formatTierRange = (tiers: PriceTier[] | string | null | undefined, tier: PriceTier): string => {
+  const sorted = normalizePriceTiers(tiers);
+  const next = sorted.find(candidate => candidate.minQuantity > tier.minQuantity);
+  return next ? `${tier.minQuantity}-${next.minQuantity - 1}` : `${tier.minQuantity}+`;
+};
+
+export const resolveQuantityPrice = (
+  product: TieredProduct,
+  quantity: number,
+  customer: PricedCustomer | null | undefined,
+  priceLists: PriceLists
+): TieredPrice => {
+  const resolved = resolveCustomerPrice(product, customer, priceLists);
+  const tier = getTierForQuantity(product.priceTiers, quantity);
+  if (!tier || tier.price >= resolved.price) return { ...resolved, tier: null };
+  return {
+    ...resolved,
+    price: tier.price,
+    tier,
+    tierLabel: `Qty ${formatTierRange(product.priceTiers, tier)}`,
+  };
+};
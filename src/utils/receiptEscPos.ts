@@ -0,0 +1,278 @@
+// Renders the POS sales receipt as ESC/POS bytes, mirroring the PDF receipt from generateReceiptPDF.
+
+import { EscPosEncoder, PaperWidth } from './escPosEncoder';
+import { DISCOUNT_REASON_LABELS } from './discounts';
+import { PaymentTender, TENDER_METHOD_LABELS } from './paymentTenders';
+import { ReturnSlip, getSettlementLabel } from './returnSlipPdfGenerator';
+import type { CreditNote } from '@/services/creditNoteApi';
+import { InstallmentReceipt, getInstallmentReceiptTitle } from './layaway';
+
+export interface ReceiptItem {
+  productName: string;
+  quantity: number;
+  saleUnit?: string;
+  unitPrice: number;
+  total: number;
+  tierLabel?: string;
+  discount?: number;
+  discountReason?: string;
+  components?: Array<{ productName: string; quantity: number; unit?: string }>; // kit contents
+}
+
+export interface ReceiptOrder {
+  orderNumber: string;
+  date: string;
+  time: string;
+  customerName?: string | null;
+  createdBy?: string;
+  items: ReceiptItem[];
+  subtotal: number;
+  discount?: number;
+  cartDiscountReason?: string;
+  tax?: number;
+  taxLabel?: string;
+  taxInclusive?: boolean;
+  taxExemptAmount?: number;
+  total: number;
+  paymentMethod: string;
+  payments?: PaymentTender[];
+  cashTendered?: number;
+  changeDue?: number;
+}
+
+export interface ReceiptEscPosOptions {
+  paperWidth: PaperWidth;
+  qrData?: string;
+  timeLabel?: string; // preformatted time; defaults to order.time
+}
+
+const money = (amount: number) => `PKR ${Math.round(Number(amount) || 0).toLocaleString('en-US')}`;
+
+export const encodeReceipt = (order: ReceiptOrder, { paperWidth, qrData, timeLabel }: ReceiptEscPosOptions): Uint8Array => {
+  const printer = new EscPosEncoder(paperWidth);
+  const width = printer.columns;
+
+  printer
+    .initialize()
+    .align('center')
+    .bold().size(2).line('USMAN HARDWARE')
+    .size(1).bold(false)
+    .line('Premium Furniture Hardware')
+    .line('Hafizabad, Punjab')
+    .line('+92-322-6506118')
+    .newline()
+    .bold().line('SALES RECEIPT').bold(false)
+    .align('left')
+    .rule()
+    .columnsLine('Receipt:', order.orderNumber)
+    .columnsLine('Date:', new Date(order.date).toLocaleDateString('en-GB'))
+    .columnsLine('Time:', timeLabel || order.time)
+    .columnsLine('Customer:', (order.customerName || 'Walk-in Customer').substring(0, width - 11))
+    .columnsLine('Cashier:', order.createdBy || '-')
+    .rule();
+
+  // Item name on its own line, then quantity x rate and the line total
+  order.items.forEach(item => {
+    printer.bold().line(item.productName.substring(0, width)).bold(false);
+    const quantity = item.saleUnit ? `${item.quantity} ${item.saleUnit}` : `${item.quantity}`;
+    printer.columnsLine(`  ${quantity} x ${Math.round(item.unitPrice).toLocaleString('en-US')}`, Math.round(item.total).toLocaleString('en-US'));
+    if (item.tierLabel) printer.line(`  ${item.tierLabel} rate`);
+    item.components?.forEach(component => {
+      printer.line(`  - ${component.quantity}${component.unit ? ` ${component.unit}` : ''} ${component.productName}`.substring(0, width));
+    });
+    if (item.discount && item.discount > 0) {
+      printer.columnsLine(`  Disc (${DISCOUNT_REASON_LABELS[item.discountReason] || 'Line'})`, `-${Math.round(item.discount).toLocaleString('en-US')}`);
+    }
+  });
+
+  printer.rule().columnsLine('Subtotal:', money(order.subtotal));
+  if (order.discount && order.discount > 0) {
+    printer.columnsLine('Discount:', `-${money(order.discount)}`);
+    if (order.cartDiscountReason) {
+      printer.line(`Cart discount: ${DISCOUNT_REASON_LABELS[order.cartDiscountReason] || order.cartDiscountReason}`);
+    }
+  }
+  if (order.tax && order.tax > 0) {
+    printer.columnsLine(`${order.taxLabel || 'Sales Tax'}:`, `${order.taxInclusive ? '' : '+'}${money(order.tax)}`);
+  } else if (order.taxExemptAmount && order.taxExemptAmount > 0) {
+    printer.columnsLine('Tax exemption:', `-${money(order.taxExemptAmount)}`);
+  }
+
+  printer
+    .rule('=')
+    .bold().size(1, 2).columnsLine('TOTAL:', money(order.total)).size(1).bold(false)
+    .rule('=')
+    .columnsLine('Payment:', order.paymentMethod.toUpperCase());
+
+  if (order.payments && order.payments.length > 1) {
+    order.payments.forEach(tender => {
+      printer.columnsLine(`  ${TENDER_METHOD_LABELS[tender.method] || tender.method}:`, money(tender.amount));
+    });
+  }
+  if (order.cashTendered !== undefined && order.cashTendered !== null) {
+    printer
+      .columnsLine('Cash received:', money(order.cashTendered))
+      .bold().columnsLine('Change:', money(order.changeDue || 0)).bold(false);
+  }
+
+  printer.newline().align('center');
+  if (qrData) {
+    printer.line('Scan to Verify').qrcode(qrData, paperWidth === 58 ? 4 : 6, 'M').newline();
+  }
+
+  printer
+    .bold().line('Thank You!').bold(false)
+    .line('Visit us again soon!')
+    .newline()
+    .line('Items exchangeable within 7 days')
+    .line('Original receipt required')
+    .line('Hours: Sat-Thu 8AM-8PM')
+    .feed(3)
+    .cut(true);
+
+  return printer.encode();
+};
+
+// Return / exchange slip, laid out like generateReturnSlipPDF
+export const encodeReturnSlip = (slip: ReturnSlip, paperWidth: PaperWidth): Uint8Array => {
+  const printer = new EscPosEncoder(paperWidth);
+  const width = printer.columns;
+
+  printer
+    .initialize()
+    .align('center')
+    .bold().size(2).line('USMAN HARDWARE').size(1)
+    .line(slip.replacements.length > 0 ? 'EXCHANGE SLIP' : 'RETURN SLIP').bold(false)
+    .align('left')
+    .rule()
+    .columnsLine('Slip:', slip.reference)
+    .columnsLine('Original:', slip.originalOrderNumber);
+  if (slip.exchangeOrderNumber) printer.columnsLine('Exchange:', slip.exchangeOrderNumber);
+  printer
+    .columnsLine('Date:', new Date(slip.date).toLocaleDateString('en-GB'))
+    .columnsLine('Customer:', (slip.customerName || 'Walk-in Customer').substring(0, width - 11))
+    .rule()
+    .bold().line('RETURNED').bold(false);
+
+  slip.returned.filter(line => line.returnQuantity > 0).forEach(line => {
+    printer.line(line.productName.substring(0, width));
+    printer.columnsLine(`  ${line.returnQuantity} x ${Math.round(line.unitPrice).toLocaleString('en-US')}`, `-${money(line.returnQuantity * line.unitPrice)}`);
+  });
+  printer.columnsLine('Returned value:', money(slip.settlement.returnTotal)).rule();
+
+  if (slip.replacements.length > 0) {
+    printer.bold().line('REPLACEMENTS').bold(false);
+    slip.replacements.forEach(line => {
+      printer.line(line.productName.substring(0, width));
+      printer.columnsLine(`  ${line.quantity} x ${Math.round(line.total / (line.quantity || 1)).toLocaleString('en-US')}`, money(line.total));
+    });
+    printer.columnsLine('Replacement value:', money(slip.settlement.replacementTotal)).rule();
+  }
+
+  printer
+    .bold().size(1, 2).columnsLine(getSettlementLabel(slip), money(Math.abs(slip.settlement.difference))).size(1).bold(false)
+    .rule('=');
+  if (slip.creditNoteNumber) printer.columnsLine('Credit note:', slip.creditNoteNumber);
+  if (slip.notes) printer.line(`Notes: ${slip.notes}`);
+
+  printer
+    .feed(2)
+    .line('Customer: ______________')
+    .feed(1)
+    .line('Cashier:  ______________')
+    .feed(3)
+    .cut(true);
+
+  return printer.encode();
+};
+
+// Store credit note voucher, laid out like generateCreditNotePDF
+export const encodeCreditNote = (note: CreditNote, paperWidth: PaperWidth): Uint8Array => {
+  const printer = new EscPosEncoder(paperWidth);
+  const width = printer.columns;
+
+  printer
+    .initialize()
+    .align('center')
+    .bold().size(2).line('USMAN HARDWARE').size(1)
+    .line('STORE CREDIT NOTE').bold(false)
+    .align('left')
+    .rule()
+    .columnsLine('Credit note:', note.note_number)
+    .columnsLine('Issued:', new Date(note.issued_at).toLocaleDateString('en-GB'))
+    .columnsLine('Customer:', (note.customer_name || 'Walk-in Customer').substring(0, width - 11));
+  if (note.order_number) printer.columnsLine('Original:', note.order_number);
+  if (note.reference) printer.columnsLine('Reference:', note.reference.substring(0, width - 12));
+
+  printer
+    .rule()
+    .align('center')
+    .bold().size(2).line(money(Number(note.balance))).size(1).bold(false);
+  if (Number(note.balance) !== Number(note.amount)) {
+    printer.line(`Remaining of ${money(Number(note.amount))}`);
+  }
+
+  printer
+    .newline()
+    .qrcode(note.code, paperWidth === 58 ? 4 : 6, 'M')
+    .bold().size(2).line(note.code).size(1).bold(false)
+    .newline()
+    .line('Redeemable in full or in part')
+    .line('Not exchangeable for cash')
+    .feed(3)
+    .cut(true);
+
+  return printer.encode();
+};
+
+// Layaway deposit or installment receipt, laid out like generateInstallmentReceiptPDF
+export const encodeInstallmentReceipt = (receipt: InstallmentReceipt, paperWidth: PaperWidth): Uint8Array => {
+  const printer = new EscPosEncoder(paperWidth);
+  const width = printer.columns;
+
+  printer
+    .initialize()
+    .align('center')
+    .bold().size(2).line('USMAN HARDWARE').size(1)
+    .line(getInstallmentReceiptTitle(receipt)).bold(false)
+    .align('left')
+    .rule()
+    .columnsLine('Receipt:', receipt.receiptNumber)
+    .columnsLine('Order:', receipt.orderNumber)
+    .columnsLine('Date:', new Date(receipt.date).toLocaleDateString('en-GB'))
+    .columnsLine('Customer:', receipt.customerName.substring(0, width - 11))
+    .rule();
+
+  if (receipt.reservedItems && receipt.reservedItems.length > 0) {
+    printer.bold().line('Items reserved').bold(false);
+    receipt.reservedItems.forEach(item => {
+      const quantity = `x${item.quantity}`;
+      printer.columnsLine(item.productName.substring(0, width - quantity.length - 1), quantity);
+    });
+    printer.rule();
+  }
+
+  printer
+    .bold().columnsLine(receipt.isDeposit ? 'Deposit paid:' : 'Amount paid:', money(receipt.amount)).bold(false)
+    .columnsLine('Paid by:', TENDER_METHOD_LABELS[receipt.method] || receipt.method)
+    .rule()
+    .columnsLine('Order total:', money(receipt.total))
+    .columnsLine('Paid to date:', money(receipt.paidToDate))
+    .bold().columnsLine('Balance due:', money(receipt.balance)).bold(false);
+  if (receipt.nextDue && receipt.balance > 0) {
+    printer
+      .columnsLine('Next installment:', money(Math.min(receipt.nextDue.amount, receipt.balance)))
+      .columnsLine('  due by', new Date(receipt.nextDue.due_date).toLocaleDateString('en-GB'));
+  }
+  if (receipt.pickupDate) printer.columnsLine('Pickup from:', new Date(receipt.pickupDate).toLocaleDateString('en-GB'));
+
+  printer
+    .newline()
+    .align('center')
+    .line(receipt.balance > 0 ? 'Items held until paid in full' : 'Paid in full - bring to collect')
+    .line('Keep all installment receipts')
+    .feed(3)
+    .cut(true);
+
+  return printer.encode();
+};
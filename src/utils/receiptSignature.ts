@@ -0,0 +1,101 @@
+// Signed receipt QR codes. The QR carries the order number, total, date and sale id plus an HMAC-SHA256
+// the server makes with a key only it holds, so a printed receipt can be checked on the /verify page.
+
+import { receiptApi } from '@/services/receiptApi';
+
+export interface ReceiptClaim {
+  id: number | string;
+  orderNumber: string;
+  total: number;
+  date: string;
+}
+
+export type ReceiptVerificationStatus = 'valid' | 'invalid' | 'unsigned' | 'legacy' | 'malformed' | 'no_key' | 'unavailable';
+
+export interface ReceiptVerification {
+  status: ReceiptVerificationStatus;
+  claim?: ReceiptClaim;
+}
+
+const TOKEN_PREFIX = 'UHR1';
+const LEGACY_PATTERN = /^USMAN-HARDWARE-(.+)-([\d.]+)(-VERIFIED)?$/;
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const encodeClaim = (claim: ReceiptClaim): string =>
+  toBase64Url(new TextEncoder().encode(JSON.stringify([
+    claim.id,
+    claim.orderNumber,
+    Math.round(Number(claim.total) * 100) / 100,
+    claim.date,
+  ])));
+
+const decodeClaim = (payload: string): ReceiptClaim | null => {
+  try {
+    const [id, orderNumber, total, date] = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (!orderNumber || typeof total !== 'number') return null;
+    return { id, orderNumber: String(orderNumber), total, date: String(date || '') };
+  } catch {
+    return null;
+  }
+};
+
+const getUnsignedToken = (claim: ReceiptClaim): string => `${TOKEN_PREFIX}.${encodeClaim(claim)}`;
+
+// Printing never waits on signing: without a saved sale or a reachable server the token goes out unsigned
+export const signReceipt = async (claim: ReceiptClaim): Promise<string> => {
+  const saleId = Number(claim.id);
+  if (!(saleId > 0)) return getUnsignedToken(claim);
+  try {
+    const response = await receiptApi.sign(saleId);
+    return response.data?.token || getUnsignedToken(claim);
+  } catch {
+    return getUnsignedToken(claim);
+  }
+};
+
+export const getVerifyUrl = (token: string): string =>
+  `${window.location.origin}/verify?r=${encodeURIComponent(token)}`;
+
+// QR content for a receipt: a link phones can open straight to the verification page
+export const getReceiptQrData = async (claim: ReceiptClaim): Promise<string> =>
+  getVerifyUrl(await signReceipt(claim));
+
+// Accepts a verify link, a bare token or the old unsigned QR text
+export const extractReceiptToken = (input: string): string => {
+  const value = input.trim();
+  try {
+    const url = new URL(value);
+    return url.searchParams.get('r') || value;
+  } catch {
+    return value;
+  }
+};
+
+export const verifyReceiptToken = async (input: string): Promise<ReceiptVerification> => {
+  const token = extractReceiptToken(input);
+
+  const legacy = token.match(LEGACY_PATTERN);
+  if (legacy) {
+    return { status: 'legacy', claim: { id: '', orderNumber: legacy[1], total: Number(legacy[2]), date: '' } };
+  }
+
+  const [prefix, payload, signature] = token.split('.');
+  const claim = prefix === TOKEN_PREFIX && payload ? decodeClaim(payload) : null;
+  if (!claim) return { status: 'malformed' };
+  if (!signature) return { status: 'unsigned', claim };
+
+  try {
+    const response = await receiptApi.verify(token);
+    return { status: response.data?.status || 'invalid', claim };
+  } catch {
+    return { status: 'unavailable', claim };
+  }
+};
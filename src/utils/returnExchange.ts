@@ -0,0 +1,163 @@
+// Helpers for returns and exchanges against an earlier POS sale
+
+import { roundCurrency } from './paymentTenders';
+import { PriceLists, PricedCustomer } from './priceLists';
+import { PriceTier, normalizePriceTiers, resolveQuantityPrice } from './quantityTiers';
+import { TaxSettings, getLinePayables } from './taxEngine';
+
+// How the difference is settled with the customer
+export type RefundMethod = 'cash' | 'balance' | 'store_credit';
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  cash: 'Cash',
+  balance: 'Customer Balance',
+  store_credit: 'Store Credit',
+};
+
+export interface ReturnLine {
+  productId: number;
+  productName: string;
+  soldQuantity: number;
+  returnQuantity: number;
+  unitPrice: number; // paid per base unit: after line and cart discounts, with tax
+  reason: string;
+  kitComponents?: KitComponentReturn[]; // component quantities for the whole sold line
+}
+
+export interface KitComponentReturn {
+  productId: number;
+  productName: string;
+  quantity: number;
+  unit?: string;
+}
+
+export interface ReplacementProduct {
+  id: number;
+  name: string;
+  price: number;
+  listPrice?: number;
+  priceTiers?: PriceTier[] | string | null;
+  category?: string;
+  stock: number;
+}
+
+export interface ReplacementLine {
+  productId: number;
+  productName: string;
+  category?: string;
+  quantity: number;
+  listPrice: number;
+  unitPrice: number; // after the customer's price list and quantity tier, before tax
+  tierLabel?: string;
+  total: number; // payable for the line, with tax, on the same basis as the refunded lines
+  stock: number;
+}
+
+export interface ReturnSettlement {
+  returnTotal: number;
+  replacementTotal: number;
+  // Positive when the store owes the customer, negative when the customer pays more
+  difference: number;
+}
+
+export const RETURN_REASONS: Record<string, string> = {
+  customer_request: 'Customer request',
+  defective: 'Defective',
+  wrong_item: 'Wrong item',
+  wrong_size: 'Wrong size',
+};
+
+// Lines of a recorded sale priced at what the customer actually paid for them: after line and
+// cart discounts and with sales tax. Sales record that per unit; older ones without it have the
+// line totals scaled to the sale total, which spreads the cart discount and tax in proportion.
+export const getReturnLines = (sale: { items?: Array<Record<string, unknown>>; total?: unknown; totalAmount?: unknown }): ReturnLine[] => {
+  const items = sale.items || [];
+  const lineTotal = (item: Record<string, unknown>) => Number(item.total ?? item.totalPrice ?? 0);
+  const linesSum = items.reduce((sum, item) => sum + lineTotal(item), 0);
+  const saleTotal = Number(sale.total ?? sale.totalAmount);
+  const scale = linesSum > 0 && saleTotal > 0 ? saleTotal / linesSum : 1;
+
+  return items.map(item => {
+    const quantity = Number(item.quantity) || 0;
+    const kit = item.kit as { components?: Array<Record<string, unknown>> } | undefined;
+    const paidUnitPrice = Number(item.paidUnitPrice);
+    const unitPrice = paidUnitPrice > 0
+      ? paidUnitPrice
+      : quantity > 0 && lineTotal(item) > 0 ? (lineTotal(item) * scale) / quantity : Number(item.unitPrice) || 0;
+    return {
+      productId: Number(item.productId),
+      productName: String(item.productName || ''),
+      soldQuantity: quantity,
+      returnQuantity: 0,
+      unitPrice: roundCurrency(unitPrice),
+      reason: 'customer_request',
+      ...(kit?.components?.length && {
+        kitComponents: kit.components.map(component => ({
+          productId: Number(component.productId),
+          productName: String(component.productName || ''),
+          quantity: Number(component.quantity) || 0,
+          unit: component.unit ? String(component.unit) : undefined,
+        })),
+      }),
+    };
+  });
+};
+
+// Kit stock lives in the components, so a returned kit puts back its share of each component
+export const getKitComponentReturns = (lines: ReturnLine[]): KitComponentReturn[] =>
+  lines.flatMap(line => {
+    if (!line.kitComponents?.length || line.returnQuantity <= 0 || line.soldQuantity <= 0) return [];
+    const share = line.returnQuantity / line.soldQuantity;
+    return line.kitComponents.map(component => ({
+      ...component,
+      quantity: Math.round(component.quantity * share * 100) / 100,
+    }));
+  });
+
+export const getReturnSettlement = (lines: ReturnLine[], replacements: ReplacementLine[]): ReturnSettlement => {
+  const returnTotal = roundCurrency(lines.reduce((sum, line) => sum + line.returnQuantity * line.unitPrice, 0));
+  const replacementTotal = roundCurrency(replacements.reduce((sum, line) => sum + line.total, 0));
+  return { returnTotal, replacementTotal, difference: roundCurrency(returnTotal - replacementTotal) };
+};
+
+// Replacements are priced the way the cart prices a line: the customer's price list and quantity
+// tiers, then sales tax, so an even swap settles to nothing
+export const priceReplacement = (
+  product: ReplacementProduct,
+  quantity: number,
+  customer: PricedCustomer | null,
+  priceLists: PriceLists,
+  taxSettings: TaxSettings,
+  exempt: boolean
+): ReplacementLine => {
+  const resolved = resolveQuantityPrice(
+    { id: product.id, price: Number(product.listPrice ?? product.price) || 0, priceTiers: normalizePriceTiers(product.priceTiers) },
+    quantity,
+    customer,
+    priceLists
+  );
+  const taxLine = { productId: product.id, category: product.category, amount: roundCurrency(quantity * resolved.price) };
+  return {
+    productId: product.id,
+    productName: product.name,
+    category: product.category,
+    quantity,
+    listPrice: resolved.listPrice,
+    unitPrice: resolved.price,
+    tierLabel: resolved.tierLabel,
+    total: getLinePayables([taxLine], taxSettings, exempt)[0],
+    stock: Number(product.stock) || 0,
+  };
+};
+
+// Methods that make sense for the direction of the difference
+export const getSettlementMethods = (difference: number, hasCustomer: boolean): RefundMethod[] => {
+  const methods: RefundMethod[] = ['cash'];
+  if (hasCustomer) methods.push('balance');
+  if (difference > 0) methods.push('store_credit');
+  return methods;
+};
+
+// Matches a typed receipt number against a sale, ignoring case and a leading '#'
+export const matchesOrderNumber = (orderNumber: string | undefined, input: string): boolean =>
+  !!orderNumber && orderNumber.toLowerCase() === input.trim().replace(/^#/, '').toLowerCase();
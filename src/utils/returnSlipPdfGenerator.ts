@@ -0,0 +1,114 @@
+import jsPDF from 'jspdf';
+import { REFUND_METHOD_LABELS, RefundMethod, ReplacementLine, ReturnLine, ReturnSettlement } from './returnExchange';
+
+export interface ReturnSlip {
+  reference: string;
+  originalOrderNumber: string;
+  exchangeOrderNumber?: string;
+  customerName?: string | null;
+  date: string;
+  returned: ReturnLine[];
+  replacements: ReplacementLine[];
+  settlement: ReturnSettlement;
+  method: RefundMethod;
+  creditNoteNumber?: string;
+  notes?: string;
+}
+
+const formatAmount = (amount: number) => `PKR ${Math.round(amount).toLocaleString()}`;
+
+// Settlement line wording, e.g. "Refund (Cash)" or "Customer paid (Customer Balance)"
+export const getSettlementLabel = (slip: ReturnSlip): string => {
+  const { difference } = slip.settlement;
+  if (difference === 0) return 'Even exchange';
+  const method = REFUND_METHOD_LABELS[slip.method];
+  return difference > 0 ? `Refund (${method})` : `Customer paid (${method})`;
+};
+
+// Return / exchange slip sized for the 80mm receipt printer
+export const generateReturnSlipPDF = (slip: ReturnSlip) => {
+  const returned = slip.returned.filter(line => line.returnQuantity > 0);
+  const height = 110 + (returned.length + slip.replacements.length) * 8;
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: [80, height] });
+  const pageWidth = 80;
+  const left = 5;
+  const right = pageWidth - 5;
+  let yPos = 8;
+
+  const row = (label: string, value: string, bold = false) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.text(label, left, yPos);
+    pdf.text(value, right, yPos, { align: 'right' });
+    yPos += 4;
+  };
+
+  const divider = () => {
+    pdf.setDrawColor(150, 150, 150);
+    pdf.line(left, yPos - 1.5, right, yPos - 1.5);
+    yPos += 2;
+  };
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(12);
+  pdf.text('USMAN HARDWARE', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 5;
+  pdf.setFontSize(10);
+  pdf.text(slip.replacements.length > 0 ? 'EXCHANGE SLIP' : 'RETURN SLIP', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 6;
+  pdf.setFontSize(8);
+
+  row('Slip:', slip.reference);
+  row('Original receipt:', slip.originalOrderNumber);
+  if (slip.exchangeOrderNumber) row('Exchange order:', slip.exchangeOrderNumber);
+  row('Date:', new Date(slip.date).toLocaleString('en-GB'));
+  row('Customer:', (slip.customerName || 'Walk-in Customer').substring(0, 28));
+  divider();
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('RETURNED', left, yPos);
+  yPos += 4;
+  returned.forEach(line => {
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(line.productName.substring(0, 40), left, yPos);
+    yPos += 4;
+    row(`  ${line.returnQuantity} x ${Math.round(line.unitPrice).toLocaleString()}`, `-${formatAmount(line.returnQuantity * line.unitPrice)}`);
+  });
+  row('Returned value:', formatAmount(slip.settlement.returnTotal), true);
+  divider();
+
+  if (slip.replacements.length > 0) {
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('REPLACEMENTS', left, yPos);
+    yPos += 4;
+    slip.replacements.forEach(line => {
+      pdf.setFont('helvetica', 'normal');
+      pdf.text(line.productName.substring(0, 40), left, yPos);
+      yPos += 4;
+      row(`  ${line.quantity} x ${Math.round(line.total / (line.quantity || 1)).toLocaleString()}`, formatAmount(line.total));
+    });
+    row('Replacement value:', formatAmount(slip.settlement.replacementTotal), true);
+    divider();
+  }
+
+  pdf.setFontSize(10);
+  row(getSettlementLabel(slip), formatAmount(Math.abs(slip.settlement.difference)), true);
+  pdf.setFontSize(8);
+  if (slip.creditNoteNumber) row('Credit note:', slip.creditNoteNumber);
+
+  if (slip.notes) {
+    yPos += 2;
+    pdf.setFont('helvetica', 'normal');
+    const notes = pdf.splitTextToSize(`Notes: ${slip.notes}`, right - left);
+    pdf.text(notes, left, yPos);
+    yPos += notes.length * 3.5;
+  }
+
+  yPos += 8;
+  pdf.line(left, yPos, left + 30, yPos);
+  pdf.line(right - 30, yPos, right, yPos);
+  yPos += 3;
+  pdf.text('Customer', left, yPos);
+  pdf.text('Cashier', right - 30, yPos);
+
+  pdf.save(`return-slip-${slip.reference}.pdf`);
+};
@@ -0,0 +1,144 @@
+// Sales tax engine driven by the store settings
+// Rates resolve product override -> category rate -> store default rate.
+
+import type { SettingsData } from '@/services/settingsApi';
+
+export interface TaxSettings {
+  defaultRate: number;
+  pricesIncludeTax: boolean;
+  categoryRates: Record<string, number>;
+  productRates: Record<string, number>;
+}
+
+export interface TaxableLine {
+  productId?: number | string;
+  category?: string;
+  amount: number; // line amount after discounts, in the entered price basis
+}
+
+export interface TaxBreakdownRow {
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+export interface TaxResult {
+  inclusive: boolean;
+  exempt: boolean;
+  taxableAmount: number; // amount before tax
+  tax: number;
+  exemptAmount: number; // tax removed from inclusive prices for exempt customers
+  total: number; // amount payable
+  breakdown: TaxBreakdownRow[];
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  defaultRate: 0,
+  pricesIncludeTax: false,
+  categoryRates: {},
+  productRates: {},
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const getTaxSettings = (store?: Partial<SettingsData['store']> | null): TaxSettings => ({
+  defaultRate: Number(store?.taxRate) || 0,
+  pricesIncludeTax: !!store?.pricesIncludeTax,
+  categoryRates: store?.categoryTaxRates || {},
+  productRates: store?.productTaxRates || {},
+});
+
+// Purchase orders share the rates but follow their own price basis, as supplier quotes often differ from shelf prices
+export const getPurchaseTaxSettings = (store?: Partial<SettingsData['store']> | null): TaxSettings => ({
+  ...getTaxSettings(store),
+  pricesIncludeTax: !!store?.purchasePricesIncludeTax,
+});
+
+export const resolveTaxRate = (settings: TaxSettings, line: Pick<TaxableLine, 'productId' | 'category'>): number => {
+  const productKey = line.productId !== undefined ? String(line.productId) : '';
+  if (productKey && settings.productRates[productKey] !== undefined) {
+    return Number(settings.productRates[productKey]) || 0;
+  }
+  if (line.category && settings.categoryRates[line.category] !== undefined) {
+    return Number(settings.categoryRates[line.category]) || 0;
+  }
+  return settings.defaultRate;
+};
+
+export const isCustomerTaxExempt = (customer?: { taxExempt?: boolean | number | string } | null): boolean =>
+  !!customer && (customer.taxExempt === true || customer.taxExempt === 1 || customer.taxExempt === '1');
+
+// Spread a document-level discount over the lines in proportion to their amounts
+export const allocateDocumentDiscount = <T extends TaxableLine>(lines: T[], discount: number): T[] => {
+  const base = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (!discount || discount <= 0 || base <= 0) return lines;
+  const cappedDiscount = Math.min(discount, base);
+  return lines.map(line => ({
+    ...line,
+    amount: round2(line.amount - (cappedDiscount * line.amount) / base),
+  }));
+};
+
+export const calculateTax = (lines: TaxableLine[], settings: TaxSettings, exempt = false): TaxResult => {
+  const inclusive = settings.pricesIncludeTax;
+  const byRate = new Map<number, TaxBreakdownRow>();
+  let gross = 0;
+
+  lines.forEach(line => {
+    const rate = resolveTaxRate(settings, line);
+    const amount = line.amount || 0;
+    gross += amount;
+    const taxableAmount = inclusive && rate > 0 ? amount / (1 + rate / 100) : amount;
+    const tax = inclusive ? amount - taxableAmount : amount * rate / 100;
+
+    const row = byRate.get(rate) || { rate, taxableAmount: 0, tax: 0 };
+    row.taxableAmount += taxableAmount;
+    row.tax += tax;
+    byRate.set(rate, row);
+  });
+
+  const breakdown = [...byRate.values()]
+    .map(row => ({ rate: row.rate, taxableAmount: round2(row.taxableAmount), tax: round2(row.tax) }))
+    .sort((a, b) => a.rate - b.rate);
+  const taxableAmount = round2(breakdown.reduce((sum, row) => sum + row.taxableAmount, 0));
+  const computedTax = round2(breakdown.reduce((sum, row) => sum + row.tax, 0));
+
+  if (exempt) {
+    return {
+      inclusive,
+      exempt,
+      taxableAmount,
+      tax: 0,
+      exemptAmount: inclusive ? computedTax : 0,
+      total: inclusive ? taxableAmount : round2(gross),
+      breakdown: breakdown.map(row => ({ ...row, tax: 0 })),
+    };
+  }
+
+  return {
+    inclusive,
+    exempt,
+    taxableAmount,
+    tax: computedTax,
+    exemptAmount: 0,
+    total: inclusive ? round2(gross) : round2(gross + computedTax),
+    breakdown,
+  };
+};
+
+// What each line adds to the amount payable, on the same rules as calculateTax: exclusive tax is
+// added on top, and exempt customers get inclusive tax taken back out
+export const getLinePayables = (lines: TaxableLine[], settings: TaxSettings, exempt = false): number[] =>
+  lines.map(line => {
+    const rate = resolveTaxRate(settings, line);
+    const amount = line.amount || 0;
+    if (settings.pricesIncludeTax) return round2(exempt && rate > 0 ? amount / (1 + rate / 100) : amount);
+    return round2(exempt ? amount : amount * (1 + rate / 100));
+  });
+
+export const formatTaxLabel = (result: TaxResult): string => {
+  if (result.exempt) return 'Tax Exempt';
+  const rates = result.breakdown.filter(row => row.tax > 0).map(row => `${row.rate}%`);
+  const rateText = rates.length > 0 ? ` (${rates.join(', ')})` : '';
+  return result.inclusive ? `Sales Tax incl.${rateText}` : `Sales Tax${rateText}`;
+};
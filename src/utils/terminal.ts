@@ -0,0 +1,9 @@
+// Identifies this POS machine so shifts and layouts can be kept per counter
+
+const TERMINAL_KEY = 'posTerminalId';
+
+export const getTerminalId = (): string => localStorage.getItem(TERMINAL_KEY) || 'POS-1';
+
+export const setTerminalId = (terminalId: string) => {
+  localStorage.setItem(TERMINAL_KEY, terminalId.trim() || 'POS-1');
+};
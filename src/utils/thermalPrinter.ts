@@ -0,0 +1,150 @@
+// Sends raw ESC/POS bytes to a receipt printer over WebUSB or Web Serial.
+// Printer choice is per machine, like the terminal id; callers fall back to PDF when nothing is connected.
+
+import type { PaperWidth } from './escPosEncoder';
+
+export type ReceiptOutput = 'pdf' | 'escpos';
+export type PrinterConnection = 'usb' | 'serial';
+
+export interface ReceiptPrinterSettings {
+  output: ReceiptOutput;
+  paperWidth: PaperWidth;
+  connection: PrinterConnection;
+  baudRate: number;
+}
+
+// Minimal shapes of the WebUSB and Web Serial APIs used here (not in the DOM typings yet)
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+  type: string;
+}
+
+interface UsbInterface {
+  interfaceNumber: number;
+  alternate: { endpoints: UsbEndpoint[] };
+}
+
+interface UsbDevice {
+  opened: boolean;
+  productName?: string;
+  configuration: { interfaces: UsbInterface[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+
+interface SerialPort {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface PrinterNavigator {
+  usb?: {
+    getDevices(): Promise<UsbDevice[]>;
+    requestDevice(options: { filters: object[] }): Promise<UsbDevice>;
+  };
+  serial?: {
+    getPorts(): Promise<SerialPort[]>;
+    requestPort(): Promise<SerialPort>;
+  };
+}
+
+const SETTINGS_KEY = 'receiptPrinter';
+
+export const DEFAULT_PRINTER_SETTINGS: ReceiptPrinterSettings = {
+  output: 'pdf',
+  paperWidth: 80,
+  connection: 'usb',
+  baudRate: 9600,
+};
+
+const getNavigator = (): PrinterNavigator => navigator as unknown as PrinterNavigator;
+
+export const getPrinterSettings = (): ReceiptPrinterSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_PRINTER_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_PRINTER_SETTINGS;
+  }
+};
+
+export const savePrinterSettings = (settings: ReceiptPrinterSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const isConnectionSupported = (connection: PrinterConnection): boolean =>
+  connection === 'usb' ? !!getNavigator().usb : !!getNavigator().serial;
+
+// Must run from a click: the browser shows its device chooser and remembers the permission
+export const requestPrinter = async (connection: PrinterConnection): Promise<string> => {
+  const nav = getNavigator();
+  if (connection === 'usb') {
+    if (!nav.usb) throw new Error('WebUSB is not supported in this browser');
+    const device = await nav.usb.requestDevice({ filters: [] });
+    return device.productName || 'USB printer';
+  }
+  if (!nav.serial) throw new Error('Web Serial is not supported in this browser');
+  await nav.serial.requestPort();
+  return 'Serial printer';
+};
+
+const findBulkOut = (device: UsbDevice): { interfaceNumber: number; endpointNumber: number } | null => {
+  for (const usbInterface of device.configuration?.interfaces || []) {
+    const endpoint = usbInterface.alternate.endpoints.find(e => e.direction === 'out' && e.type === 'bulk');
+    if (endpoint) return { interfaceNumber: usbInterface.interfaceNumber, endpointNumber: endpoint.endpointNumber };
+  }
+  return null;
+};
+
+const printOverUsb = async (data: Uint8Array) => {
+  const devices = await getNavigator().usb!.getDevices();
+  const device = devices[0];
+  if (!device) throw new Error('No USB printer has been connected');
+  if (!device.opened) await device.open();
+  if (!device.configuration) await device.selectConfiguration(1);
+  const target = findBulkOut(device);
+  if (!target) throw new Error('The USB device has no printer output endpoint');
+  await device.claimInterface(target.interfaceNumber);
+  try {
+    await device.transferOut(target.endpointNumber, data);
+  } finally {
+    await device.releaseInterface(target.interfaceNumber);
+  }
+};
+
+const printOverSerial = async (data: Uint8Array, baudRate: number) => {
+  const ports = await getNavigator().serial!.getPorts();
+  const port = ports[0];
+  if (!port) throw new Error('No serial printer has been connected');
+  await port.open({ baudRate });
+  try {
+    const writer = port.writable!.getWriter();
+    try {
+      await writer.write(data);
+    } finally {
+      // The port cannot close while the writer holds its lock
+      writer.releaseLock();
+    }
+  } finally {
+    // A failed close must not hide the write error the caller falls back on
+    await port.close().catch(error => console.error('Failed to close serial printer port:', error));
+  }
+};
+
+// Throws when the printer cannot be reached so the caller can fall back to PDF
+export const printRaw = async (data: Uint8Array, settings: ReceiptPrinterSettings = getPrinterSettings()) => {
+  if (!isConnectionSupported(settings.connection)) {
+    throw new Error(`${settings.connection === 'usb' ? 'WebUSB' : 'Web Serial'} is not available`);
+  }
+  if (settings.connection === 'usb') {
+    await printOverUsb(data);
+  } else {
+    await printOverSerial(data, settings.baudRate);
+  }
+};
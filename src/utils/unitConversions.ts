@@ -0,0 +1,104 @@
+// Unit-of-measure conversions between a product's base (stock) unit and the units it is bought or sold in.
+// Stock is always kept in the base unit, e.g. wire in meters bought by the coil.
+
+import { units } from '@/data/storeData';
+
+export interface UnitConversion {
+  unit: string;
+  factor: number; // base units in one of this unit
+  price?: number; // own selling price for this unit; defaults to base price x factor
+  purchase?: boolean;
+  sale?: boolean;
+}
+
+export interface UnitOption {
+  unit: string;
+  factor: number;
+  price: number;
+}
+
+interface ConvertibleProduct {
+  unit?: string;
+  price?: number;
+  listPrice?: number;
+  costPrice?: number;
+  unitConversions?: UnitConversion[] | string | null;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const getUnitLabel = (unit: string): string =>
+  units.find(option => option.value === unit)?.label || unit;
+
+// Conversions may arrive as a JSON string from the API
+export const normalizeUnitConversions = (conversions: UnitConversion[] | string | null | undefined): UnitConversion[] => {
+  let parsed: unknown = conversions;
+  if (typeof conversions === 'string') {
+    try {
+      parsed = JSON.parse(conversions);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed
+    .filter((conversion: UnitConversion) => conversion?.unit && Number(conversion.factor) > 0)
+    .map((conversion: UnitConversion) => ({
+      unit: conversion.unit,
+      factor: Number(conversion.factor),
+      price: Number(conversion.price) > 0 ? Number(conversion.price) : undefined,
+      purchase: conversion.purchase !== false,
+      sale: conversion.sale !== false,
+    }));
+};
+
+export const getConversionError = (baseUnit: string, conversions: UnitConversion[]): string | null => {
+  const seen = new Set<string>();
+  for (const conversion of conversions) {
+    if (!conversion.unit) return 'Select a unit for every conversion';
+    if (conversion.unit === baseUnit) return `${getUnitLabel(baseUnit)} is already the base unit`;
+    if (!(Number(conversion.factor) > 0)) return `Enter how many ${getUnitLabel(baseUnit) || 'base units'} make one ${getUnitLabel(conversion.unit)}`;
+    if (seen.has(conversion.unit)) return `${getUnitLabel(conversion.unit)} is listed twice`;
+    seen.add(conversion.unit);
+  }
+  return null;
+};
+
+// Units a product can be sold in, base unit first, each at its own catalogue price
+export const getSaleUnits = (product: ConvertibleProduct): UnitOption[] => {
+  const basePrice = Number(product.listPrice ?? product.price) || 0;
+  const options: UnitOption[] = [{ unit: product.unit || 'piece', factor: 1, price: basePrice }];
+  normalizeUnitConversions(product.unitConversions)
+    .filter(conversion => conversion.sale)
+    .forEach(conversion => {
+      options.push({ unit: conversion.unit, factor: conversion.factor, price: conversion.price ?? round2(basePrice * conversion.factor) });
+    });
+  return options;
+};
+
+// Units a product can be bought in, base unit first, each at its cost price
+export const getPurchaseUnits = (product: ConvertibleProduct): UnitOption[] => {
+  const baseCost = Number(product.costPrice || product.price) || 0;
+  const options: UnitOption[] = [{ unit: product.unit || 'piece', factor: 1, price: baseCost }];
+  normalizeUnitConversions(product.unitConversions)
+    .filter(conversion => conversion.purchase)
+    .forEach(conversion => {
+      options.push({ unit: conversion.unit, factor: conversion.factor, price: round2(baseCost * conversion.factor) });
+    });
+  return options;
+};
+
+export const toBaseQuantity = (quantity: number, factor = 1): number =>
+  Math.round(quantity * (factor || 1) * 1000) / 1000;
+
+// Stock to add when a PO line is received; lines without a purchase unit are already in base units
+export const getReceivedBaseQuantity = (item: {
+  quantity: number;
+  purchaseQuantity?: number;
+  conversionFactor?: number;
+}): number => {
+  if (item.purchaseQuantity !== undefined && Number(item.conversionFactor) > 0) {
+    return toBaseQuantity(Number(item.purchaseQuantity), Number(item.conversionFactor));
+  }
+  return Number(item.quantity);
+};
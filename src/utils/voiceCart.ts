@@ -0,0 +1,262 @@
+// Voice cart building: a spoken order such as "do dozen 3 inch hinge aur ek tala" is split into
+// requests (quantity, unit, item words) and each request is matched against the product list.
+// Parsing is pluggable; the local parser below is deterministic and needs no network.
+
+import { searchProducts, fuzzyScore, SearchableProduct, SIZE_WORDS } from './posCommands';
+import { getSaleUnits, UnitConversion } from './unitConversions';
+
+export interface VoiceCartRequest {
+  phrase: string; // the words this request came from, shown to the cashier
+  quantity: number;
+  unit?: string; // one of the store's unit values, e.g. "dozen"
+  term: string; // item words to search the catalogue with
+}
+
+export interface VoiceCartParser {
+  id: string;
+  label: string;
+  parse: (transcript: string, productNames: string[]) => Promise<VoiceCartRequest[]>;
+}
+
+export interface VoiceProduct extends SearchableProduct {
+  id: number;
+  price?: number;
+  listPrice?: number;
+  unit?: string;
+  unitConversions?: UnitConversion[] | string | null;
+}
+
+export interface VoiceCartMatch<T extends VoiceProduct = VoiceProduct> {
+  key: string;
+  request: VoiceCartRequest;
+  product: T | null;
+  alternatives: T[];
+  quantity: number; // in `unit`, after converting units the product is not sold in
+  unit: string;
+  note?: string;
+}
+
+// Recognition languages offered at the till; Urdu recognition returns Urdu script, English returns Roman Urdu
+export const VOICE_LANGUAGES = [
+  { value: 'en-PK', label: 'Roman Urdu / English' },
+  { value: 'ur-PK', label: 'اردو' },
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  // Roman Urdu
+  aik: 1, ek: 1, do: 2, teen: 3, tin: 3, char: 4, chaar: 4, panch: 5, paanch: 5, panj: 5,
+  chay: 6, chhe: 6, che: 6, chey: 6, saat: 7, sat: 7, aath: 8, ath: 8, nau: 9, das: 10, dus: 10,
+  gyarah: 11, gyara: 11, barah: 12, bara: 12, baara: 12, terah: 13, chaudah: 14, pandrah: 15,
+  solah: 16, satrah: 17, atharah: 18, unees: 19, bees: 20, pachees: 25, tees: 30, chalees: 40,
+  pachas: 50, pachaas: 50, saath: 60, sattar: 70, assi: 80, nabbay: 90,
+  adha: 0.5, aadha: 0.5, aadhi: 0.5, adhi: 0.5, dedh: 1.5, derh: 1.5, dhai: 2.5, dhaai: 2.5, dhaee: 2.5,
+  // English
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, fifty: 50, half: 0.5,
+  // Urdu script
+  'ایک': 1, 'دو': 2, 'تین': 3, 'چار': 4, 'پانچ': 5, 'چھ': 6, 'سات': 7, 'آٹھ': 8, 'نو': 9, 'دس': 10,
+  'بارہ': 12, 'پندرہ': 15, 'بیس': 20, 'پچیس': 25, 'تیس': 30, 'پچاس': 50, 'آدھا': 0.5, 'ڈیڑھ': 1.5, 'ڈھائی': 2.5,
+};
+
+// "do sau" is 200, "paanch hazar" 5000
+const MULTIPLIER_WORDS: Record<string, number> = {
+  sau: 100, so: 100, hundred: 100, 'سو': 100,
+  hazar: 1000, hazaar: 1000, thousand: 1000, 'ہزار': 1000,
+};
+
+// Spoken unit words mapped to the store's unit values
+const UNIT_WORDS: Record<string, string> = {
+  dozen: 'dozen', dozens: 'dozen', darjan: 'dozen', darjen: 'dozen', 'درجن': 'dozen',
+  piece: 'piece', pieces: 'piece', pcs: 'piece', pc: 'piece', adad: 'piece', dana: 'piece', 'عدد': 'piece',
+  pair: 'pair', pairs: 'pair', jora: 'pair', jori: 'pair', joray: 'pair', 'جوڑا': 'pair', 'جوڑی': 'pair',
+  set: 'set', sets: 'set',
+  pack: 'pack', packs: 'pack', packet: 'pack', packets: 'pack', paket: 'pack', 'پیکٹ': 'pack',
+  box: 'box', boxes: 'box', dabba: 'box', dabbe: 'box', dibba: 'box', 'ڈبہ': 'box', 'ڈبے': 'box',
+  meter: 'meter', meters: 'meter', metre: 'meter', metres: 'meter', mtr: 'meter', 'میٹر': 'meter',
+  feet: 'feet', foot: 'feet', ft: 'feet', fut: 'feet', 'فٹ': 'feet',
+  kg: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg', 'کلو': 'kg',
+  gram: 'gram', grams: 'gram', 'گرام': 'gram',
+  liter: 'liter', liters: 'liter', litre: 'liter', litres: 'liter', litr: 'liter', 'لیٹر': 'liter',
+  gallon: 'gallon', gallons: 'gallon', galan: 'gallon',
+  bottle: 'bottle', bottles: 'bottle', botal: 'bottle', 'بوتل': 'bottle',
+  roll: 'roll', rolls: 'roll', 'رول': 'roll',
+  bundle: 'bundle', bundles: 'bundle', gaddi: 'bundle',
+  coil: 'coil', coils: 'coil',
+  sheet: 'sheet', sheets: 'sheet', 'شیٹ': 'sheet',
+  tube: 'tube', tubes: 'tube',
+};
+
+// A number after one of these is a size, like one before a SIZE_WORDS word ("screw number 8")
+const SIZE_PREFIXES = new Set(['no', 'number', 'size', 'gauge', 'نمبر']);
+
+// Counter Urdu for common hardware, so the catalogue's English names still match
+const ITEM_SYNONYMS: Record<string, string> = {
+  tala: 'lock', talay: 'lock', taala: 'lock', 'تالا': 'lock', 'تالے': 'lock',
+  kabza: 'hinge', qabza: 'hinge', kabzay: 'hinge', qabzay: 'hinge', 'قبضہ': 'hinge', 'قبضے': 'hinge',
+  pech: 'screw', paich: 'screw', pench: 'screw', 'پیچ': 'screw',
+  keel: 'nail', kil: 'nail', kilen: 'nail', 'کیل': 'nail',
+  hatthi: 'handle', hathi: 'handle', hatha: 'handle', 'ہتھی': 'handle', 'ہینڈل': 'handle',
+  chitkani: 'bolt', chatkhani: 'bolt', chitkhani: 'bolt', 'چٹخنی': 'bolt',
+  tar: 'wire', taar: 'wire', 'تار': 'wire',
+  rang: 'paint', 'رنگ': 'paint',
+  jali: 'mesh', 'جالی': 'mesh',
+  gond: 'glue', 'گوند': 'glue',
+  regmal: 'sandpaper', 'ریگمال': 'sandpaper',
+  kunda: 'hook', 'کنڈا': 'hook',
+};
+
+// Words that join items in a spoken list
+const SEPARATORS = /\s*(?:,|،|\band\b|\baur\b|\bor\b|\bphir\b|\bplus\b|\balso\b|\bsath\b|\bsaath\b|(?:^|\s)اور(?=\s|$))\s*/i;
+
+// Politeness and filler that should not reach the product search
+const FILLER_WORDS = new Set([
+  'de', 'do', 'dedo', 'dein', 'dena', 'chahiye', 'chahie', 'please', 'plz', 'add', 'give', 'me', 'mujhe',
+  'bhi', 'wala', 'wali', 'walay', 'waley', 'ka', 'ki', 'ke', 'ko', 'of', 'the', 'x', 'times',
+  'دے', 'دو', 'دیں', 'چاہیے', 'والا', 'والی', 'کا', 'کی', 'کے',
+]);
+
+const URDU_DIGITS = '۰۱۲۳۴۵۶۷۸۹';
+
+const normalise = (text: string): string =>
+  text
+    .replace(/[۰-۹]/g, digit => String(URDU_DIGITS.indexOf(digit)))
+    .replace(/[.?!؟]+$/g, '')
+    .replace(/(\d)\s*(?:"|”|'')/g, '$1 inch')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const readNumber = (token: string | undefined): number | null => {
+  if (!token) return null;
+  if (/^\d+(?:\.\d+)?$/.test(token)) return parseFloat(token);
+  return NUMBER_WORDS[token] ?? null;
+};
+
+// Quantity at the front of a phrase, with any multiplier word: returns the tokens it used
+const readQuantity = (tokens: string[], start: number): { value: number; used: number } | null => {
+  const value = readNumber(tokens[start]);
+  if (value === null) return null;
+  const multiplier = MULTIPLIER_WORDS[tokens[start + 1]];
+  return multiplier ? { value: value * multiplier, used: 2 } : { value, used: 1 };
+};
+
+const parsePhrase = (phrase: string): VoiceCartRequest | null => {
+  const tokens = phrase.split(' ').filter(Boolean);
+  let quantity: number | null = null;
+  let unit: string | undefined;
+  let index = 0;
+
+  // "do dozen ..." / "2 ..." - but "3 inch hinge" starts with a size, not a quantity
+  const leading = readQuantity(tokens, 0);
+  if (leading && !SIZE_WORDS.has(tokens[leading.used])) {
+    quantity = leading.value;
+    index = leading.used;
+  }
+  if (UNIT_WORDS[tokens[index]]) {
+    unit = UNIT_WORDS[tokens[index]];
+    index++;
+  }
+
+  let rest = tokens.slice(index);
+  // "hinge 3 inch 12" or "hinge x 12": a trailing figure that is not a size is the quantity.
+  // Only digits count here, so "tala de do" stays one lock.
+  if (quantity === null && rest.length > 1 && /^\d+(?:\.\d+)?$/.test(rest[rest.length - 1])) {
+    const last = readNumber(rest[rest.length - 1]);
+    if (last !== null && !SIZE_PREFIXES.has(rest[rest.length - 2])) {
+      quantity = last;
+      rest = rest.slice(0, -1);
+      if (UNIT_WORDS[rest[rest.length - 1]]) {
+        unit = UNIT_WORDS[rest[rest.length - 1]];
+        rest = rest.slice(0, -1);
+      }
+    }
+  }
+
+  const term = rest
+    .filter(token => !FILLER_WORDS.has(token) && !UNIT_WORDS[token])
+    .map(token => ITEM_SYNONYMS[token] || token)
+    .join(' ')
+    .trim();
+  if (!term) return null;
+  return { phrase, quantity: quantity && quantity > 0 ? quantity : 1, unit, term };
+};
+
+// Deterministic Roman Urdu / Urdu / English parser, used on its own or when a model is unavailable
+export const parseVoiceTranscript = (transcript: string): VoiceCartRequest[] =>
+  normalise(transcript)
+    .split(SEPARATORS)
+    .map(phrase => phrase.trim())
+    .filter(Boolean)
+    .map(parsePhrase)
+    .filter((request): request is VoiceCartRequest => request !== null);
+
+export const localVoiceParser: VoiceCartParser = {
+  id: 'local',
+  label: 'On this device',
+  parse: async (transcript) => parseVoiceTranscript(transcript),
+};
+
+const singular = (word: string) => word.replace(/(?:es|s)$/, '');
+
+// Spoken names rarely match the catalogue word for word: fall back to the products that share most words
+const relaxedSearch = <T extends VoiceProduct>(products: T[], term: string, limit: number): T[] => {
+  const tokens = term.split(' ').filter(Boolean).map(token => (token.length > 3 ? singular(token) : token));
+  const needed = Math.ceil(tokens.length / 2);
+  return products
+    .map(product => {
+      const text = `${product.name} ${product.sku || ''} ${product.category || ''}`;
+      const hits = tokens.filter(token => fuzzyScore(text, token) >= 1);
+      return { product, hits: hits.length, score: hits.reduce((sum, token) => sum + fuzzyScore(text, token), 0) };
+    })
+    .filter(result => result.hits >= needed)
+    .sort((a, b) => b.hits - a.hits || b.score - a.score || a.product.name.length - b.product.name.length)
+    .slice(0, limit)
+    .map(result => result.product);
+};
+
+export const findVoiceProducts = <T extends VoiceProduct>(products: T[], term: string, limit = 5): T[] => {
+  const exact = searchProducts(products, term, limit);
+  return exact.length > 0 ? exact : relaxedSearch(products, term, limit);
+};
+
+const DOZEN = 12;
+
+// Spoken unit -> product unit -> how many product units make one spoken unit
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  dozen: { piece: DOZEN, pair: DOZEN, set: DOZEN },
+  gram: { kg: 0.001 },
+  kg: { gram: 1000 },
+  ml: { liter: 0.001 },
+  liter: { ml: 1000 },
+  feet: { meter: 0.3048 },
+  meter: { feet: 3.281 },
+};
+
+// Spoken unit to the product's own units: a dozen of something sold by the piece becomes 12 pieces
+export const resolveVoiceUnit = (product: VoiceProduct, quantity: number, unit?: string): { quantity: number; unit: string; note?: string } => {
+  const options = getSaleUnits(product);
+  const base = options[0];
+  if (!unit || unit === base.unit) return { quantity, unit: base.unit };
+  const option = options.find(candidate => candidate.unit === unit);
+  if (option) return { quantity, unit: option.unit };
+  const factor = UNIT_FACTORS[unit]?.[base.unit];
+  if (factor) {
+    const converted = Math.round(quantity * factor * 1000) / 1000;
+    return { quantity: converted, unit: base.unit, note: `${quantity} ${unit} = ${converted} ${base.unit}` };
+  }
+  return { quantity, unit: base.unit, note: `Not sold by ${unit}; check the quantity` };
+};
+
+export const matchVoiceRequests = <T extends VoiceProduct>(requests: VoiceCartRequest[], products: T[]): VoiceCartMatch<T>[] =>
+  requests.map((request, index) => {
+    const alternatives = findVoiceProducts(products, request.term);
+    const product = alternatives[0] || null;
+    const resolved = product ? resolveVoiceUnit(product, request.quantity, request.unit) : { quantity: request.quantity, unit: request.unit || '' };
+    return {
+      key: `${index}-${request.term}`,
+      request,
+      product,
+      alternatives,
+      ...resolved,
+    };
+  });
@@ -0,0 +1,60 @@
+// Parsers that turn a spoken order into cart requests. A language model can be swapped in here;
+// whichever is chosen, the deterministic local parser answers when it fails or finds nothing.
+
+import { GeminiService } from '@/services/geminiApi';
+import { VoiceCartParser, VoiceCartRequest, localVoiceParser, parseVoiceTranscript } from './voiceCart';
+
+const PARSER_KEY = 'voiceCartParser';
+
+const geminiVoiceParser: VoiceCartParser = {
+  id: 'gemini',
+  label: 'Gemini (online)',
+  parse: async (transcript, productNames) => {
+    const items = await GeminiService.parseCartOrder(transcript, productNames);
+    return items
+      .filter(item => item && typeof item.item === 'string' && item.item.trim())
+      .map(item => {
+        // The model's item words still go through the local parser's synonyms and number handling
+        const [local] = parseVoiceTranscript(item.item);
+        const quantity = Number(item.quantity);
+        return {
+          phrase: item.phrase || item.item,
+          quantity: quantity > 0 ? quantity : 1,
+          unit: item.unit || local?.unit,
+          term: local?.term || item.item.trim().toLowerCase(),
+        };
+      });
+  },
+};
+
+export const VOICE_CART_PARSERS: VoiceCartParser[] = [localVoiceParser, geminiVoiceParser];
+
+export const getVoiceParserId = (): string => {
+  const stored = localStorage.getItem(PARSER_KEY);
+  return VOICE_CART_PARSERS.some(parser => parser.id === stored) ? stored : localVoiceParser.id;
+};
+
+export const saveVoiceParserId = (id: string) => {
+  localStorage.setItem(PARSER_KEY, id);
+};
+
+export interface VoiceParseResult {
+  requests: VoiceCartRequest[];
+  parserId: string; // the parser that produced the requests
+  fallbackReason?: string;
+}
+
+export const parseVoiceCart = async (transcript: string, productNames: string[], parserId = getVoiceParserId()): Promise<VoiceParseResult> => {
+  const parser = VOICE_CART_PARSERS.find(candidate => candidate.id === parserId) || localVoiceParser;
+  if (parser.id !== localVoiceParser.id) {
+    try {
+      const requests = await parser.parse(transcript, productNames);
+      if (requests.length > 0) return { requests, parserId: parser.id };
+      return { requests: parseVoiceTranscript(transcript), parserId: localVoiceParser.id, fallbackReason: `${parser.label} found no items` };
+    } catch (error) {
+      console.error('Voice parser failed, using the local parser:', error);
+      return { requests: parseVoiceTranscript(transcript), parserId: localVoiceParser.id, fallbackReason: `${parser.label} is unavailable` };
+    }
+  }
+  return { requests: parseVoiceTranscript(transcript), parserId: localVoiceParser.id };
+};
@@ -0,0 +1,117 @@
+import jsPDF from 'jspdf';
+import type { CashShift } from '@/services/shiftApi';
+import { DenominationCount, PKR_DENOMINATIONS, ShiftSummary } from './cashShift';
+
+const MOVEMENT_LABELS: Record<string, string> = {
+  cash_in: 'Cash In',
+  cash_out: 'Cash Out',
+  refund: 'Refund',
+};
+
+const formatAmount = (amount: number) => `PKR ${Math.round(amount).toLocaleString()}`;
+
+// End-of-shift Z-report sized for the 80mm receipt printer
+export const generateZReportPDF = (
+  shift: CashShift,
+  summary: ShiftSummary,
+  denominations: DenominationCount,
+  countedCash: number
+) => {
+  const countedNotes = PKR_DENOMINATIONS.filter(note => (Number(denominations[note]) || 0) > 0);
+  const movements = shift.movements || [];
+  const height = 150 + countedNotes.length * 4 + movements.length * 4;
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: [80, height] });
+  const pageWidth = 80;
+  const left = 5;
+  const right = pageWidth - 5;
+  let yPos = 8;
+
+  const row = (label: string, value: string, bold = false) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.text(label, left, yPos);
+    pdf.text(value, right, yPos, { align: 'right' });
+    yPos += 4;
+  };
+
+  const divider = () => {
+    pdf.setDrawColor(150, 150, 150);
+    pdf.line(left, yPos - 1.5, right, yPos - 1.5);
+    yPos += 2;
+  };
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(12);
+  pdf.text('Z-REPORT', pageWidth / 2, yPos, { align: 'center' });
+  yPos += 5;
+  pdf.setFontSize(8);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(`Shift ${shift.shift_number || shift.id}`, pageWidth / 2, yPos, { align: 'center' });
+  yPos += 6;
+
+  row('Cashier:', shift.cashier || '-');
+  if (shift.terminal) row('Terminal:', shift.terminal);
+  row('Opened:', new Date(shift.opened_at).toLocaleString());
+  row('Closed:', new Date(shift.closed_at || Date.now()).toLocaleString());
+  divider();
+
+  row('Sales:', `${summary.salesCount}`);
+  row('Total sales:', formatAmount(summary.totalSales));
+  divider();
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('CASH DRAWER', left, yPos);
+  yPos += 4;
+  row('Opening float:', formatAmount(Number(shift.opening_float)));
+  row('+ Cash sales:', formatAmount(summary.cashSales));
+  row('+ Cash in:', formatAmount(summary.cashIn));
+  row('- Cash out:', formatAmount(summary.cashOut));
+  row('- Cash refunds:', formatAmount(summary.cashRefunds));
+  row('- Cash expenses:', formatAmount(summary.cashExpenses));
+  row('Expected cash:', formatAmount(summary.expectedCash), true);
+  divider();
+
+  if (movements.length > 0) {
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('MOVEMENTS', left, yPos);
+    yPos += 4;
+    movements.forEach(movement => {
+      const label = `${MOVEMENT_LABELS[movement.type] || movement.type}: ${movement.reason || ''}`.substring(0, 40);
+      row(label, formatAmount(Number(movement.amount)));
+    });
+    divider();
+  }
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('DENOMINATION COUNT', left, yPos);
+  yPos += 4;
+  countedNotes.forEach(note => {
+    const count = Number(denominations[note]) || 0;
+    row(`${note} x ${count}`, formatAmount(note * count));
+  });
+  row('Counted cash:', formatAmount(countedCash), true);
+  divider();
+
+  const variance = countedCash - summary.expectedCash;
+  pdf.setFontSize(10);
+  if (variance < 0) pdf.setTextColor(200, 0, 0);
+  row(variance === 0 ? 'Balanced' : variance > 0 ? 'Over:' : 'Short:', variance === 0 ? '' : formatAmount(Math.abs(variance)), true);
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFontSize(8);
+
+  if (shift.notes) {
+    yPos += 2;
+    pdf.setFont('helvetica', 'normal');
+    const notes = pdf.splitTextToSize(`Notes: ${shift.notes}`, right - left);
+    pdf.text(notes, left, yPos);
+    yPos += notes.length * 3.5;
+  }
+
+  yPos += 8;
+  pdf.line(left, yPos, left + 30, yPos);
+  pdf.line(right - 30, yPos, right, yPos);
+  yPos += 3;
+  pdf.text('Cashier', left, yPos);
+  pdf.text('Manager', right - 30, yPos);
+
+  pdf.save(`z-report-${shift.shift_number || shift.id}.pdf`);
+};